@@ -0,0 +1,67 @@
+import {
+  adjustProofDuration,
+  altitudeCorrections,
+  adjustYeast,
+  describeAltitudeAdjustments,
+} from '@/lib/dough/altitude'
+import { buildSchedule } from '@/lib/dough/schedule'
+import { calculateYeast } from '@/lib/dough/yeast'
+
+describe('Altitude corrections', () => {
+  it('leaves recipes near sea level alone', () => {
+    expect(altitudeCorrections(null, 'ft')).toBeNull()
+    expect(altitudeCorrections(2500, 'ft')).toBeNull()
+    expect(altitudeCorrections(900, 'm')).toBeNull()
+  })
+
+  it('corrects more the higher the baker is', () => {
+    const denver = altitudeCorrections(5280, 'ft')!
+    const leadville = altitudeCorrections(10152, 'ft')!
+
+    expect(denver.yeastFactor).toBeLessThan(1)
+    expect(leadville.yeastFactor).toBeLessThan(denver.yeastFactor)
+    expect(leadville.hydrationPoints).toBeGreaterThan(denver.hydrationPoints)
+    expect(leadville.proofFactor).toBeLessThan(denver.proofFactor)
+    expect(altitudeCorrections(1609, 'm')!.feet).toBeCloseTo(5279, -1)
+  })
+
+  it('keeps a yeast percentage set by hand', () => {
+    const altitude = altitudeCorrections(5280, 'ft')
+    const custom = calculateYeast({ schedule: 'same-day', yeastType: 'IDY', roomTemp: 22, customPercentage: 0.5 })
+    const calculated = calculateYeast({ schedule: 'same-day', yeastType: 'IDY', roomTemp: 22 })
+
+    expect(adjustYeast(custom, altitude)).toBe(custom)
+    expect(adjustYeast(calculated, altitude).percentage).toBeLessThan(calculated.percentage)
+  })
+
+  it('shortens rise times in the timeline and the schedule', () => {
+    const altitude = altitudeCorrections(8000, 'ft')!
+    const bakeAt = new Date('2030-06-01T18:00:00')
+
+    expect(adjustProofDuration('2 hours', altitude)).toBe('1.5 hours')
+    expect(adjustProofDuration('30-60 minutes', altitude)).toBe('20-40 minutes')
+    expect(adjustProofDuration('Until doubled', altitude)).toBeNull()
+    expect(buildSchedule({ schedule: 'quick', bakeAt, preheatHours: 1, altitude }).totalHours).toBeLessThan(
+      buildSchedule({ schedule: 'quick', bakeAt, preheatHours: 1 }).totalHours
+    )
+  })
+
+  it('explains every correction', () => {
+    const yeast = calculateYeast({ schedule: 'quick', yeastType: 'IDY', roomTemp: 22 })
+    const corrections = altitudeCorrections(5280, 'ft')
+    const notes = describeAltitudeAdjustments({
+      corrections,
+      yeast: { before: yeast, after: adjustYeast(yeast, corrections) },
+      hydration: 65,
+      schedule: 'quick',
+      bakeTempF: 750,
+      maxTempF: 950,
+      tempUnit: 'F',
+    }).map(adjustment => adjustment.note)
+
+    expect(notes).toContain('Hydration adjusted from 65% to 67.3% because of 5,280 ft')
+    expect(notes).toContain('Oven temperature adjusted from 750°F to 775°F because of 5,280 ft')
+    expect(notes.some(note => note.startsWith('Yeast adjusted from'))).toBe(true)
+    expect(notes.some(note => note.startsWith('Bulk Fermentation adjusted from 2 h'))).toBe(true)
+  })
+})
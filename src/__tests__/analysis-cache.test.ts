@@ -0,0 +1,46 @@
+/**
+ * @jest-environment node
+ */
+import { analysisCacheKey, cacheStatus, toCacheEntry } from '@/lib/openai/analysis-cache'
+import type { ApiResponse } from '@/lib/openai/schema'
+
+const DAY = 24 * 60 * 60 * 1000
+
+const inputs = {
+  style: 'neapolitan',
+  recipe: { hydration: 62, salt: 2.8, oil: null, yeast: { type: 'IDY' } },
+  environment: { roomTemp: 20, tempUnit: 'C' },
+}
+
+describe('analysis cache', () => {
+  it('keys on every input, not on property order', async () => {
+    const key = await analysisCacheKey(inputs)
+
+    expect(key).toMatch(/^recipe-analysis:v\d+:[0-9a-f]{64}$/)
+    expect(
+      await analysisCacheKey({
+        environment: { tempUnit: 'C', roomTemp: 20 },
+        recipe: { yeast: { type: 'IDY' }, oil: null, salt: 2.8, hydration: 62 },
+        style: 'neapolitan',
+      })
+    ).toBe(key)
+    expect(await analysisCacheKey({ ...inputs, recipe: { ...inputs.recipe, salt: 3 } })).not.toBe(key)
+    expect(await analysisCacheKey({ ...inputs, environment: { roomTemp: 20, tempUnit: 'F' } })).not.toBe(key)
+  })
+
+  it('serves a full analysis stale after a day', () => {
+    const { entry, ttl } = toCacheEntry({} as ApiResponse, 0)
+
+    expect(ttl * 1000).toBeGreaterThan(DAY)
+    expect(cacheStatus(entry, DAY - 1)).toBe('hit')
+    expect(cacheStatus(entry, DAY + 1)).toBe('stale')
+  })
+
+  it('keeps fallback results briefly and never stale', () => {
+    const response = { validation: { issues: [], regenerated: [], replaced: ['processTimeline'] } } as unknown as ApiResponse
+    const { entry, ttl } = toCacheEntry(response, 0)
+
+    expect(ttl).toBeLessThanOrEqual(60 * 60)
+    expect(cacheStatus(entry, 0)).toBe('fallback')
+  })
+})
@@ -0,0 +1,77 @@
+/**
+ * @jest-environment node
+ */
+import {
+  ANALYSIS_SECTIONS,
+  analysisResponseFormat,
+  mergeSections,
+  pickSection,
+  validateAnalysis,
+  type RecipeAnalysis,
+} from '@/lib/openai/schema'
+
+const analysis: RecipeAnalysis = {
+  flourRecommendation: {
+    primary: { name: 'Caputo 00', protein: '12.5%', description: 'Soft wheat flour' },
+    alternatives: [],
+  },
+  processTimeline: {
+    steps: [
+      { step: 1, description: 'Initial Mix', duration: '10 minutes', temperature: '72°F', isRefrigeration: false, tips: [] },
+    ],
+  },
+  temperatureAnalysis: { roomTemp: 72, rationale: 'Moderate rate', recommendations: [] },
+  detailedAnalysis: {
+    flourAnalysis: {
+      rationale: 'Fine milling',
+      recommendations: [],
+      flours: [{ type: 'Caputo 00', proteinContent: 12.5, purpose: 'Structure' }],
+    },
+    hydrationAnalysis: { percentage: 62, rationale: 'Workable', impact: [] },
+    saltAnalysis: { percentage: 2.8, rationale: 'Flavour', impact: [] },
+    oilAnalysis: { percentage: 0, rationale: 'None needed', impact: [] },
+    yeastAnalysis: { type: 'instant', percentage: 0.2, rationale: 'Slow rise', impact: [], temperatureNotes: [] },
+    fermentationAnalysis: { type: 'cold', totalTime: 26, rationale: 'Flavour', impact: [] },
+    techniqueGuidance: { mixing: 'Gently', folding: 'Twice', shaping: 'By hand', baking: 'Hot' },
+  },
+}
+
+// The model answers with every section at the top level
+const answer = Object.fromEntries(ANALYSIS_SECTIONS.map(section => [section, pickSection(analysis, section)]))
+
+describe('recipe analysis schema', () => {
+  it('accepts a complete analysis', () => {
+    const result = validateAnalysis(answer)
+
+    expect(result.invalid).toEqual([])
+    expect(result.issues).toEqual([])
+  })
+
+  it('reports field-level issues for only the broken sections', () => {
+    const broken = JSON.parse(JSON.stringify(answer))
+    broken.saltAnalysis.percentage = '2.8%'
+    delete broken.processTimeline
+
+    const result = validateAnalysis(broken)
+
+    expect(result.invalid).toEqual(['saltAnalysis', 'processTimeline'])
+    expect(result.issues.map(issue => issue.path)).toEqual(['saltAnalysis.percentage', 'processTimeline'])
+    expect(result.valid.hydrationAnalysis).toEqual(analysis.detailedAnalysis.hydrationAnalysis)
+  })
+
+  it('merges valid sections over the fallback', () => {
+    const salt = { percentage: 3, rationale: 'Saltier', impact: ['Tighter dough'] }
+    const merged = mergeSections(analysis, { saltAnalysis: salt })
+
+    expect(merged.detailedAnalysis.saltAnalysis).toEqual(salt)
+    expect(merged.detailedAnalysis.hydrationAnalysis).toEqual(analysis.detailedAnalysis.hydrationAnalysis)
+    expect(analysis.detailedAnalysis.saltAnalysis.percentage).toBe(2.8)
+  })
+
+  it('only asks the model for the requested sections', () => {
+    const format = analysisResponseFormat(['temperatureAnalysis', 'yeastAnalysis'])
+    const properties = format.schema.properties as Record<string, object>
+
+    expect(Object.keys(properties)).toEqual(['temperatureAnalysis', 'yeastAnalysis'])
+  })
+})
@@ -0,0 +1,60 @@
+/**
+ * @jest-environment node
+ */
+import { SectionStreamParser, applyAnalysisEvent, type AnalysisState } from '@/lib/openai/stream'
+import { calculateWeights } from '@/lib/dough/weights'
+
+const ingredients = calculateWeights({
+  style: 'neapolitan',
+  ballCount: 4,
+  ballWeight: 250,
+  hydration: 62,
+  salt: 2.8,
+  oil: 0,
+  yeast: 0.2,
+})
+
+describe('analysis streaming', () => {
+  it('emits each top-level section once its value closes', () => {
+    const parser = new SectionStreamParser()
+    const answer = JSON.stringify({
+      flourRecommendation: { primary: { name: 'Caputo "Pizzeria" 00 {blue}', protein: '12.5%', description: '' }, alternatives: [] },
+      saltAnalysis: { percentage: 2.8, rationale: 'Flavour', impact: ['a', 'b'] },
+      processTimeline: { steps: [] },
+    })
+    const cut = answer.indexOf('"saltAnalysis"') + 30
+
+    const first = parser.push('```json\n' + answer.slice(0, cut))
+    const rest = parser.push(answer.slice(cut) + '\n```')
+
+    expect(first.map(section => section.key)).toEqual(['flourRecommendation'])
+    expect(first[0].value).toEqual(JSON.parse(answer).flourRecommendation)
+    expect(rest.map(section => section.key)).toEqual(['saltAnalysis', 'processTimeline'])
+  })
+
+  it('builds up the analysis from events', () => {
+    let state: AnalysisState | null = applyAnalysisEvent(null, {
+      type: 'section',
+      section: 'oilAnalysis',
+      value: { percentage: 0, rationale: 'None', impact: [] },
+    })
+    expect(state).toBeNull()
+
+    state = applyAnalysisEvent(state, { type: 'ingredients', ingredients })
+    state = applyAnalysisEvent(state, {
+      type: 'section',
+      section: 'temperatureAnalysis',
+      value: { roomTemp: 72, rationale: 'Moderate', recommendations: [] },
+    })
+    state = applyAnalysisEvent(state, {
+      type: 'section',
+      section: 'oilAnalysis',
+      value: { percentage: 0, rationale: 'None', impact: [] },
+    })
+
+    expect(state?.ingredients).toEqual(ingredients)
+    expect(state?.temperatureAnalysis?.roomTemp).toBe(72)
+    expect(state?.detailedAnalysis.oilAnalysis?.rationale).toBe('None')
+    expect(state?.processTimeline).toBeUndefined()
+  })
+})
@@ -0,0 +1,34 @@
+import { overallScore, scoreByVersion } from '@/lib/recipes/bakes'
+import { createBakeSchema } from '@/lib/recipes/schema'
+
+const bake = { bakedAt: '2026-06-13T18:00:00Z', crustScore: 4, crumbScore: 4, flavorScore: 4 }
+
+describe('Bakes', () => {
+  it('averages the scores of each version, best first', () => {
+    const scores = scoreByVersion([
+      { recipeVersion: 1, crustScore: 3, crumbScore: 3, flavorScore: 4 },
+      { recipeVersion: 2, crustScore: 5, crumbScore: 4, flavorScore: 5 },
+      { recipeVersion: 1, crustScore: 4, crumbScore: 2, flavorScore: 3 },
+      { recipeVersion: null, crustScore: 4, crumbScore: 4, flavorScore: 4 }
+    ])
+
+    expect(scores.map(score => score.recipeVersion)).toEqual([2, null, 1])
+    expect(scores[2]).toEqual({ recipeVersion: 1, bakes: 2, crust: 3.5, crumb: 2.5, flavor: 3.5, overall: 3.2 })
+    expect(overallScore({ crustScore: 5, crumbScore: 4, flavorScore: 5 })).toBe(4.7)
+  })
+
+  it('has no scores without bakes', () => {
+    expect(scoreByVersion([])).toEqual([])
+  })
+
+  it('only accepts web links as photos', () => {
+    expect(createBakeSchema.safeParse({ ...bake, photos: ['https://example.com/pie.jpg'] }).success).toBe(true)
+    expect(createBakeSchema.safeParse({ ...bake, photos: ['javascript:alert(1)'] }).success).toBe(false)
+    expect(createBakeSchema.safeParse({ ...bake, photos: ['data:image/png;base64,AAAA'] }).success).toBe(false)
+  })
+
+  it('takes each photo once', () => {
+    const photo = 'https://example.com/pie.jpg'
+    expect(createBakeSchema.safeParse({ ...bake, photos: [photo, photo] }).success).toBe(false)
+  })
+})
@@ -0,0 +1,103 @@
+/**
+ * @jest-environment node
+ */
+import { createBrowserCache } from '@/lib/cache/browser'
+import { createLRUCache } from '@/lib/cache/lru'
+import { acquireLock, createServerCache, releaseLock } from '@/lib/cache/server'
+import { getStore } from '@/lib/storage'
+
+describe('cache', () => {
+  it('evicts the least recently used entry', async () => {
+    const cache = createLRUCache({ namespace: 'test', ttl: 60, maxEntries: 2 })
+
+    await cache.set('a', 1)
+    await cache.set('b', 2)
+    await cache.get('a')
+    await cache.set('c', 3)
+
+    expect(await cache.get('a')).toBe(1)
+    expect(await cache.get('b')).toBeNull()
+    expect(await cache.get('c')).toBe(3)
+  })
+
+  it('accounts for size and evicts past maxBytes', async () => {
+    const cache = createLRUCache({ namespace: 'test', ttl: 60, maxEntries: 10, maxBytes: 20 })
+
+    await cache.set('a', 'x'.repeat(8))
+    expect(await cache.stats()).toEqual({ entries: 1, bytes: 10 })
+
+    await cache.set('b', 'y'.repeat(8))
+    await cache.set('c', 'z'.repeat(8))
+    expect(await cache.stats()).toEqual({ entries: 2, bytes: 20 })
+    expect(await cache.get('a')).toBeNull()
+  })
+
+  it('expires entries by their own TTL', async () => {
+    jest.useFakeTimers()
+    const cache = createLRUCache({ namespace: 'test', ttl: 60, maxEntries: 10 })
+
+    await cache.set('short', 1, 5)
+    await cache.set('default', 2)
+    jest.advanceTimersByTime(5000)
+
+    expect(await cache.get('short')).toBeNull()
+    expect(await cache.get('default')).toBe(2)
+    jest.useRealTimers()
+  })
+
+  it('shares server entries through the store', async () => {
+    await createServerCache({ namespace: 'shared', ttl: 60, maxEntries: 10 }).set('recipe', { hydration: 65 })
+    const otherInstance = createServerCache({ namespace: 'shared', ttl: 60, maxEntries: 10 })
+
+    expect(await otherInstance.get('recipe')).toEqual({ hydration: 65 })
+    expect(await getStore().get('shared:recipe')).toMatchObject({ value: { hydration: 65 } })
+  })
+
+  it('lets one holder take a lock until it is released', async () => {
+    expect(await acquireLock('revalidate', 60)).toBe(true)
+    expect(await acquireLock('revalidate', 60)).toBe(false)
+
+    await releaseLock('revalidate')
+    expect(await acquireLock('revalidate', 60)).toBe(true)
+  })
+
+  it('survives a store that fails to delete', async () => {
+    const cache = createServerCache({ namespace: 'flaky', ttl: 60, maxEntries: 10 })
+    const error = jest.spyOn(console, 'error').mockImplementation(() => {})
+    jest.spyOn(getStore(), 'delete').mockRejectedValueOnce(new Error('offline'))
+
+    await cache.set('recipe', 1)
+    await expect(cache.delete('recipe')).resolves.toBeUndefined()
+    expect(error).toHaveBeenCalled()
+    error.mockRestore()
+  })
+
+  it('keeps browser entries in memory without IndexedDB', async () => {
+    const cache = createBrowserCache({ namespace: 'offline', ttl: 60, maxEntries: 1 })
+
+    await cache.set('a', 1)
+    await cache.set('b', 2)
+    expect(await cache.get('a')).toBeNull()
+    expect(await cache.get('b')).toBe(2)
+  })
+
+  it('survives IndexedDB failing to open', async () => {
+    const error = jest.spyOn(console, 'error').mockImplementation(() => {})
+    const blocked = {
+      open: () => {
+        const request = { error: new Error('blocked') } as unknown as IDBOpenDBRequest
+        setTimeout(() => request.onerror?.(new Event('error')))
+        return request
+      },
+    }
+    Object.defineProperty(globalThis, 'indexedDB', { value: blocked, configurable: true })
+    const cache = createBrowserCache({ namespace: 'private', ttl: 60, maxEntries: 1 })
+
+    await expect(cache.delete('a')).resolves.toBeUndefined()
+    await expect(cache.stats()).resolves.toEqual({ entries: 0, bytes: 0 })
+    expect(error).toHaveBeenCalledTimes(2)
+
+    delete (globalThis as { indexedDB?: unknown }).indexedDB
+    error.mockRestore()
+  })
+})
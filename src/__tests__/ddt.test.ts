@@ -0,0 +1,47 @@
+import { calculateWaterTemp, describeWaterTemp, iceForWater } from '@/lib/dough/ddt'
+
+describe('Water temperature', () => {
+  it('balances room, flour and mixer heat against the target', () => {
+    const result = calculateWaterTemp({ style: 'neapolitan', roomTemp: 22, mixer: 'hand', unit: 'C' })
+
+    expect(result.targetDoughTemp).toBe(23)
+    expect(result.waterTemp).toBe(22)
+    expect(result.ice).toBeNull()
+    expect(result.warnings).toEqual([])
+  })
+
+  it('counts the preferment as a fourth factor', () => {
+    const result = calculateWaterTemp({ style: 'neapolitan', roomTemp: 22, mixer: 'hand', prefermentTemp: 22, unit: 'C' })
+    expect(result.waterTemp).toBe(23)
+  })
+
+  it('works in Fahrenheit', () => {
+    const result = calculateWaterTemp({ style: 'neapolitan', roomTemp: 71.6, mixer: 'hand', unit: 'F' })
+
+    expect(result.targetDoughTemp).toBe(73.4)
+    expect(result.waterTemp).toBe(71.6)
+  })
+
+  it('suggests ice when the water must be colder than the tap', () => {
+    const result = calculateWaterTemp({ style: 'neapolitan', roomTemp: 26, mixer: 'spiral', waterWeight: 600, unit: 'C' })
+
+    expect(result.waterTemp).toBe(3)
+    expect(result.ice).toEqual({ ice: 76, tapWater: 524 })
+    expect(describeWaterTemp(result)).toBe('Use 3°C water (76g ice + 524g tap water) for a 23°C dough')
+  })
+
+  it('warns when even ice water is not cold enough', () => {
+    const result = calculateWaterTemp({ style: 'roman-al-taglio', roomTemp: 30, flourTemp: 30, mixer: 'stand', waterWeight: 500, unit: 'C' })
+
+    expect(result.waterTemp).toBe(0)
+    expect(result.warnings).toHaveLength(1)
+    expect(iceForWater(500, 15, -5)).toEqual(iceForWater(500, 15, 0))
+  })
+
+  it('caps hot water so the yeast survives', () => {
+    const result = calculateWaterTemp({ style: 'detroit', roomTemp: 15, mixer: 'hand', unit: 'C' })
+
+    expect(result.waterTemp).toBe(40)
+    expect(result.warnings[0]).toMatch(/harm the yeast/)
+  })
+})
@@ -0,0 +1,95 @@
+import { absorptionShift, blendFlour, describeBlend, flourBlendWarnings, flourMixError } from '@/lib/dough/flour'
+import { FLOUR_CATALOG, flourLabel, recommendFlours } from '@/lib/dough/flour-catalog'
+import { PIZZA_STYLES } from '@/lib/openai/config'
+
+describe('Flour blends', () => {
+  it('averages protein and W by percentage', () => {
+    const blend = blendFlour([
+      { type: '00 Flour', percentage: 70 },
+      { type: 'Bread Flour', percentage: 20 },
+      { type: 'Whole Wheat', percentage: 10 }
+    ])!
+
+    expect(blend.protein).toBe(12.6)
+    expect(blend.w).toBe(268)
+    expect(describeBlend(blend)).toBe('12.6% protein, W268, absorbs ~60.2% water')
+  })
+
+  it('leaves flours it does not know out of the averages', () => {
+    const blend = blendFlour([
+      { type: 'High Gluten', percentage: 80 },
+      { type: 'Spelt', percentage: 20 }
+    ])!
+
+    expect(blend.protein).toBe(14.2)
+    expect(blend.unknown).toEqual(['Spelt'])
+    expect(blendFlour([{ type: 'Spelt', percentage: 100 }])).toBeNull()
+    expect(blendFlour([{ type: 'constructor', percentage: 100 }])).toBeNull()
+  })
+
+  it('requires percentages that add up to 100', () => {
+    expect(flourMixError([{ type: '00 Flour', percentage: 60 }, { type: 'Rye', percentage: 40 }])).toBeNull()
+    expect(flourMixError([{ type: '00 Flour', percentage: 60 }, { type: 'Rye', percentage: 30 }])).toMatch(/90%/)
+    expect(flourMixError([{ type: 'Rye', percentage: 50 }, { type: 'Rye', percentage: 50 }])).toMatch(/once/)
+    expect(flourMixError([])).not.toBeNull()
+  })
+
+  it('warns when the blend does not suit the style', () => {
+    const neapolitan = PIZZA_STYLES.neapolitan
+    const allPurpose = blendFlour([{ type: 'All-Purpose', percentage: 100 }])!
+    const caputo = blendFlour([{ type: '00 Flour', percentage: 100 }])!
+
+    expect(flourBlendWarnings(caputo, neapolitan.idealFlourProfile, neapolitan.name)).toEqual([])
+    expect(flourBlendWarnings(allPurpose, neapolitan.idealFlourProfile, neapolitan.name)).toEqual([
+      'Protein 10.5% is below the 11-12.5% Neapolitan calls for',
+      'Strength W200 is below the W260-270 Neapolitan calls for'
+    ])
+    expect(flourBlendWarnings(allPurpose, PIZZA_STYLES.custom.idealFlourProfile, 'Custom')).toEqual([])
+  })
+})
+
+describe('Flour catalog', () => {
+  it('blends catalog flours by their own specs', () => {
+    const blend = blendFlour([
+      { type: 'Caputo Pizzeria 00', percentage: 50 },
+      { type: 'King Arthur Bread Flour', percentage: 50 }
+    ])!
+
+    expect(blend.protein).toBe(12.6)
+    // King Arthur doesn't publish W, so its type's typical W stands in
+    expect(blend.w).toBe(283)
+    expect(blend.unknown).toEqual([])
+  })
+
+  it('moves hydration with the absorption of the new flour', () => {
+    const caputo = blendFlour([{ type: 'Caputo Pizzeria 00', percentage: 100 }])
+    const wholeWheat = blendFlour([{ type: 'Caputo Pizzeria 00', percentage: 80 }, { type: 'Whole Wheat', percentage: 20 }])
+
+    expect(absorptionShift(caputo, wholeWheat)).toBe(2.5)
+    expect(absorptionShift(wholeWheat, caputo)).toBe(-2.5)
+    expect(absorptionShift(null, caputo)).toBe(0)
+  })
+
+  it('recommends flours that fit the style', () => {
+    const { primary, alternatives } = recommendFlours(PIZZA_STYLES.neapolitan.idealFlourProfile)!
+    const protein = PIZZA_STYLES.neapolitan.idealFlourProfile!.protein
+
+    expect(primary.type).toBe('00 Flour')
+    expect(primary.protein).toBeGreaterThanOrEqual(protein.min)
+    expect(primary.protein).toBeLessThanOrEqual(protein.max)
+    expect(alternatives).toHaveLength(2)
+  })
+
+  it('prefers flours sold in the baker\'s region', () => {
+    const profile = PIZZA_STYLES['new-york'].idealFlourProfile
+    const recommendation = recommendFlours(profile, { region: 'uk' })!
+
+    expect(recommendation.primary.regions).toContain('uk')
+    expect(recommendFlours(profile, { region: 'us' })!.primary.type).toBe('High Gluten')
+  })
+
+  it('labels every flour uniquely', () => {
+    const labels = FLOUR_CATALOG.map(flourLabel)
+    expect(new Set(labels).size).toBe(labels.length)
+  })
+})
@@ -0,0 +1,48 @@
+/**
+ * @jest-environment node
+ */
+import { createProvider } from '@/lib/llm'
+import { createMockProvider } from '@/lib/llm/mock'
+import { analysisResponseFormat, validateAnalysis } from '@/lib/openai/schema'
+
+describe('LLM providers', () => {
+  it('picks the provider and model from the environment', () => {
+    expect(createProvider({ OPENROUTER_API_KEY: 'key' }).name).toBe('openrouter:google/gemma-3-12b-it:free')
+    expect(createProvider({ LLM_PROVIDER: 'openai-compatible', LLM_MODEL: 'qwen2.5:7b' }).name).toBe(
+      'openai-compatible:qwen2.5:7b'
+    )
+    expect(createProvider({ LLM_PROVIDER: 'mock' }).name).toBe('mock:fixture')
+  })
+
+  it('treats the empty keys from .env.example as unset', () => {
+    const blank = { LLM_MODEL: '', LLM_BASE_URL: '', LLM_API_KEY: '' }
+
+    expect(createProvider({ ...blank, OPENROUTER_API_KEY: 'key' }).name).toBe('openrouter:google/gemma-3-12b-it:free')
+    expect(createProvider({ ...blank, LLM_PROVIDER: 'openai-compatible' }).name).toBe('openai-compatible:llama3.1')
+    expect(createProvider({ LLM_PROVIDER: '' }).name).toBe('openrouter:google/gemma-3-12b-it:free')
+  })
+
+  it('rejects an unknown provider', () => {
+    expect(() => createProvider({ LLM_PROVIDER: 'carrier-pigeon' })).toThrow('LLM_PROVIDER')
+  })
+
+  it('answers with a valid analysis from the fixture', async () => {
+    const answer = JSON.parse(await createMockProvider().complete({ system: '', prompt: '', responseFormat: analysisResponseFormat() }))
+
+    expect(validateAnalysis(answer).issues).toEqual([])
+  })
+
+  it('streams only the sections the schema asks for', async () => {
+    const chunks: string[] = []
+    for await (const chunk of createMockProvider().stream({
+      system: '',
+      prompt: '',
+      responseFormat: analysisResponseFormat(['saltAnalysis', 'processTimeline']),
+    })) {
+      chunks.push(chunk)
+    }
+
+    expect(chunks.length).toBeGreaterThan(1)
+    expect(Object.keys(JSON.parse(chunks.join('')))).toEqual(['saltAnalysis', 'processTimeline'])
+  })
+})
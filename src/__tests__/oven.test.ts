@@ -0,0 +1,15 @@
+import { toOvenKind } from '@/lib/dough/oven'
+
+describe('Oven kinds', () => {
+  it('maps ovens saved before the profiles', () => {
+    expect(toOvenKind('home')).toBe('home-stone')
+    expect(toOvenKind('outdoor')).toBe('portable')
+    expect(toOvenKind('wood-fired')).toBe('wood-fired')
+  })
+
+  it('falls back to a home oven for names that are not ovens', () => {
+    expect(toOvenKind('constructor')).toBe('home-stone')
+    expect(toOvenKind('toString')).toBe('home-stone')
+    expect(toOvenKind(null)).toBe('home-stone')
+  })
+})
@@ -0,0 +1,42 @@
+import {
+  defaultPanPreset,
+  describePans,
+  panArea,
+  panDoughWeight,
+  panSettingsFor
+} from '@/lib/dough/pan'
+
+describe('Pan sizing', () => {
+  it('weighs a Detroit pan by its thickness factor', () => {
+    const pan = panSettingsFor('detroit-10x14', 'detroit')
+
+    expect(panArea(pan.size)).toBe(140)
+    expect(panDoughWeight(pan)).toBe(496)
+  })
+
+  it('converts metric pans to square inches', () => {
+    const pan = panSettingsFor('teglia-60x40', 'roman-al-taglio')
+
+    expect(panArea(pan.size)).toBeCloseTo(372, 0)
+    expect(panDoughWeight(pan)).toBe(1160)
+  })
+
+  it('sizes round pizzas by diameter', () => {
+    const pan = panSettingsFor('round-12', 'new-york', 4)
+
+    expect(panDoughWeight(pan)).toBe(273)
+    expect(describePans(pan)).toBe('4 × 12" round pizzas, thickness factor 0.085 oz/in²')
+  })
+
+  it('picks a default pan only for pan styles', () => {
+    expect(defaultPanPreset('detroit')).toBe('detroit-10x14')
+    expect(defaultPanPreset('neapolitan')).toBeNull()
+  })
+
+  it('rejects empty pans and missing thickness factors', () => {
+    const size = { shape: 'rect' as const, length: 18, width: 13, unit: 'in' as const }
+
+    expect(() => panDoughWeight({ size, thicknessFactor: 0 })).toThrow(/thickness factor/)
+    expect(() => panDoughWeight({ size: { ...size, width: 0 }, thicknessFactor: 0.12 })).toThrow(/dimensions/)
+  })
+})
@@ -0,0 +1,47 @@
+import { calculateWeights } from '@/lib/dough/weights'
+import { splitPreferment } from '@/lib/dough/preferment'
+import { calculateYeast } from '@/lib/dough/yeast'
+
+const weights = calculateWeights({
+  style: 'neapolitan',
+  ballCount: 4,
+  ballWeight: 250,
+  hydration: 65,
+  salt: 2.8,
+  oil: 0,
+  yeast: 0.2,
+})
+
+describe('splitPreferment', () => {
+  it('takes the poolish flour and water out of the final mix', () => {
+    const { preferment, finalMix } = splitPreferment(weights, { type: 'poolish', percentage: 30, hydration: 100 }, 'IDY')
+
+    expect(preferment.flour).toBe(Math.round(weights.flourWeight * 0.3))
+    expect(preferment.water).toBe(preferment.flour)
+    expect(preferment.flour + finalMix.flour).toBe(weights.flourWeight)
+    expect(preferment.water + finalMix.water).toBe(weights.waterWeight)
+    expect(preferment.yeast + finalMix.yeast).toBeCloseTo(weights.yeastWeight, 2)
+  })
+
+  it('treats levain percentage as inoculation of the whole levain', () => {
+    const { preferment } = splitPreferment(weights, { type: 'levain', percentage: 20, hydration: 100 }, 'IDY')
+
+    expect(Math.abs(preferment.flour + preferment.water - weights.flourWeight * 0.2)).toBeLessThanOrEqual(1)
+    expect(preferment.yeast).toBe(0)
+  })
+
+  it('rejects a preferment that holds more water than the dough', () => {
+    expect(() => splitPreferment(weights, { type: 'poolish', percentage: 80, hydration: 100 }, 'IDY')).toThrow()
+  })
+
+  it('rejects a cleared percentage or hydration', () => {
+    expect(() => splitPreferment(weights, { type: 'poolish', percentage: parseFloat(''), hydration: 100 }, 'IDY')).toThrow('positive')
+    expect(() => splitPreferment(weights, { type: 'biga', percentage: 30, hydration: NaN }, 'IDY')).toThrow('positive')
+  })
+
+  it('drops commercial yeast for levain doughs', () => {
+    const result = calculateYeast({ schedule: 'same-day', yeastType: 'IDY', roomTemp: 22, preferment: 'levain' })
+
+    expect(result.percentage).toBe(0)
+  })
+})
@@ -0,0 +1,84 @@
+import { DEFAULT_PRICES, MAX_PRODUCTION_BALLS, planProduction, productionCost, splitWithCarry } from '@/lib/dough/production'
+import type { BakersFormula } from '@/lib/dough/weights'
+import type { ProductionSettings } from '@/types/pizza'
+
+const formula: BakersFormula = {
+  style: 'neapolitan',
+  ballCount: 130,
+  ballWeight: 250,
+  hydration: 65,
+  salt: 2.8,
+  oil: 0,
+  yeast: 0.15,
+  flourMix: [
+    { type: '00', percentage: 80 },
+    { type: 'Manitoba', percentage: 20 }
+  ]
+}
+
+const settings: ProductionSettings = {
+  mixerCapacityKg: 5,
+  minutesBetweenBatches: 12,
+  prices: DEFAULT_PRICES,
+  currency: 'USD'
+}
+
+const sum = (values: number[]) => Math.round(values.reduce((total, value) => total + value, 0) * 100) / 100
+
+describe('Production runs', () => {
+  it('carries rounding so the parts add up to the total', () => {
+    const parts = splitWithCarry(10, [1, 1, 1], 1)
+
+    expect(parts).toEqual([3.3, 3.4, 3.3])
+    expect(sum(parts)).toBe(10)
+  })
+
+  it('splits the run into even batches the mixer can take', () => {
+    const plan = planProduction(formula, settings)
+
+    expect(plan.batches.map(batch => batch.balls)).toEqual([33, 33, 32, 32])
+    expect(plan.batches.every(batch => batch.ingredients.flourWeight <= 5000)).toBe(true)
+    expect(plan.batches.map(batch => batch.startMinutes)).toEqual([0, 12, 24, 36])
+  })
+
+  it('splits an event run of 200 balls', () => {
+    const plan = planProduction({ ...formula, ballCount: MAX_PRODUCTION_BALLS }, settings)
+
+    expect(plan.batches).toHaveLength(7)
+    expect(sum(plan.batches.map(batch => batch.balls))).toBe(200)
+    expect(plan.batches.every(batch => batch.ingredients.flourWeight <= 5000)).toBe(true)
+    expect(sum(plan.batches.map(batch => batch.ingredients.flourWeight))).toBe(plan.totals.flourWeight)
+  })
+
+  it('matches the totals exactly across batches', () => {
+    const { batches, totals } = planProduction(formula, settings)
+    const total = (pick: (batch: typeof batches[number]) => number) => sum(batches.map(pick))
+
+    expect(total(batch => batch.ingredients.flourWeight)).toBe(totals.flourWeight)
+    expect(total(batch => batch.ingredients.waterWeight)).toBe(totals.waterWeight)
+    expect(total(batch => batch.ingredients.saltWeight)).toBe(totals.saltWeight)
+    expect(total(batch => batch.ingredients.yeastWeight)).toBe(totals.yeastWeight)
+    expect(total(batch => batch.ingredients.flours[0].weight)).toBe(totals.flours[0].weight)
+    batches.forEach(batch => {
+      expect(sum(batch.ingredients.flours.map(flour => flour.weight))).toBe(batch.ingredients.flourWeight)
+    })
+  })
+
+  it('prices the run per kilogram', () => {
+    const cost = productionCost(
+      { ...planProduction(formula, settings).totals, flourWeight: 10000, saltWeight: 300, yeastWeight: 20 },
+      40,
+      DEFAULT_PRICES,
+      'EUR'
+    )
+
+    expect(cost.total).toBe(12.56)
+    expect(cost.perBall).toBe(0.31)
+    expect(cost.lines.map(line => line.ingredient)).toEqual(['flour', 'salt', 'yeast'])
+  })
+
+  it('rejects a mixer too small for a single ball', () => {
+    expect(() => planProduction(formula, { ...settings, mixerCapacityKg: 0.1 })).toThrow(/at least/)
+    expect(() => planProduction(formula, { ...settings, mixerCapacityKg: 0 })).toThrow(/capacity/)
+  })
+})
@@ -1,14 +1,23 @@
+/**
+ * @jest-environment node
+ */
 import { rateLimit } from '@/lib/rate-limit'
 import { Redis } from '@upstash/redis'
 
 // Mock Redis
-jest.mock('@upstash/redis', () => ({
-  Redis: jest.fn().mockImplementation(() => ({
+jest.mock('@upstash/redis', () => {
+  // A single client, so the calls the store makes are the ones asserted on
+  const client = {
     incr: jest.fn(),
     expire: jest.fn(),
     ttl: jest.fn(),
-  })),
-}))
+  }
+  return { Redis: jest.fn().mockImplementation(() => client) }
+})
+
+// The store only uses Redis when Upstash is configured
+process.env.UPSTASH_REDIS_REST_URL = 'https://fake-url.upstash.io'
+process.env.UPSTASH_REDIS_REST_TOKEN = 'fake-token'
 
 describe('Rate Limiter', () => {
   let mockRedis: jest.Mocked<Redis>
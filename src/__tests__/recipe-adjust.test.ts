@@ -0,0 +1,138 @@
+/**
+ * @jest-environment node
+ */
+import { POST } from '@/app/api/recipe-adjust/route'
+import { FLOUR_CATALOG, flourLabel } from '@/lib/dough/flour-catalog'
+import { ANALYSIS_SECTIONS } from '@/lib/openai/schema'
+import { readAnalysisStream, type AnalysisEvent } from '@/lib/openai/stream'
+import * as llm from '@/lib/llm'
+import { createMockProvider } from '@/lib/llm/mock'
+
+jest.mock('@/lib/cache/server', () => ({
+  analysisCache: { get: jest.fn().mockResolvedValue(null), set: jest.fn().mockResolvedValue(undefined) },
+}))
+
+process.env.LLM_PROVIDER = 'mock'
+
+const payload = {
+  style: 'neapolitan',
+  doughBalls: 4,
+  weightPerBall: 250,
+  recipe: {
+    hydration: 62,
+    salt: 2.8,
+    oil: null,
+    flourMix: null,
+    preferment: null,
+    fermentationTime: 'cold',
+    yeast: { type: 'IDY', percentage: null },
+  },
+  fermentation: {
+    schedule: 'cold',
+    temperature: { room: 20, cold: 4 },
+    duration: { min: 24, max: 72 },
+  },
+  environment: { ovenType: 'outdoor', roomTemp: 20, tempUnit: 'C' },
+  analysisPreferences: {},
+}
+
+async function analyze(body: unknown): Promise<AnalysisEvent[]> {
+  const response = await POST(new Request('http://localhost/api/recipe-adjust', { method: 'POST', body: JSON.stringify(body) }))
+  const events: AnalysisEvent[] = []
+  await readAnalysisStream(response.body!, event => events.push(event))
+  return events
+}
+
+describe('/api/recipe-adjust with the mock provider', () => {
+  it('streams ingredients, every section and done', async () => {
+    const events = await analyze(payload)
+
+    expect(events[0].type).toBe('ingredients')
+    expect(events.filter(event => event.type === 'section').map(event => event.type === 'section' && event.section)).toEqual(
+      ANALYSIS_SECTIONS
+    )
+    expect(events[events.length - 1]).toEqual({ type: 'done', cache: 'fresh' })
+  })
+
+  it('reports a cache hit once the analysis is cached', async () => {
+    const { analysisCache: cache } = jest.requireMock('@/lib/cache/server')
+    const request = () => new Request('http://localhost/api/recipe-adjust', { method: 'POST', body: JSON.stringify(payload) })
+
+    const fresh = await POST(request())
+    await fresh.text()
+    expect(fresh.headers.get('X-Recipe-Cache')).toBe('fresh')
+
+    const [key, entry] = cache.set.mock.calls[cache.set.mock.calls.length - 1]
+    cache.get.mockResolvedValueOnce(entry)
+
+    const cached = await POST(request())
+    expect(cache.get).toHaveBeenLastCalledWith(key)
+    expect(cached.headers.get('X-Recipe-Cache')).toBe('hit')
+    expect(entry.response.ingredients).toBeDefined()
+  })
+
+  it('reports fallback in the done event when sections had to be filled in', async () => {
+    const provider = jest.spyOn(llm, 'getLLMProvider').mockReturnValue(createMockProvider({}))
+    const response = await POST(new Request('http://localhost/api/recipe-adjust', { method: 'POST', body: JSON.stringify(payload) }))
+    const events: AnalysisEvent[] = []
+    await readAnalysisStream(response.body!, event => events.push(event))
+    provider.mockRestore()
+
+    expect(response.headers.get('X-Recipe-Cache')).toBe('fresh')
+    expect(events[events.length - 1]).toMatchObject({ type: 'done', cache: 'fallback' })
+  })
+
+  it('overrides temperatures with the baker\'s own', async () => {
+    const events = await analyze(payload)
+    const timeline = events.find(event => event.type === 'section' && event.section === 'processTimeline')
+
+    if (timeline?.type !== 'section' || timeline.section !== 'processTimeline') throw new Error('No timeline')
+    const doughSteps = timeline.value.steps.filter(step => !/^(Preheat Oven|Shape and Bake)/.test(step.description))
+    expect(doughSteps.map(step => step.temperature)).toContain('4°C')
+    expect(doughSteps.every(step => step.temperature === (step.isRefrigeration ? '4°C' : '20°C'))).toBe(true)
+  })
+
+  it('ends with the preheat and bake of the baker\'s oven', async () => {
+    const events = await analyze({ ...payload, environment: { ...payload.environment, ovenType: 'wood-fired' } })
+    const timeline = events.find(event => event.type === 'section' && event.section === 'processTimeline')
+
+    if (timeline?.type !== 'section' || timeline.section !== 'processTimeline') throw new Error('No timeline')
+    const [preheat, bake] = timeline.value.steps.slice(-2)
+    expect(preheat.description).toMatch(/^Preheat Oven/)
+    expect(preheat.duration).toBe('150 minutes')
+    expect(preheat.temperature).toBe('454°C')
+    expect(bake.duration).toBe('1-2 minutes per pizza')
+    expect(timeline.value.steps.filter(step => /preheat/i.test(step.description))).toHaveLength(1)
+  })
+
+  it('adds the water temperature step before mixing', async () => {
+    const events = await analyze(payload)
+    const timeline = events.find(event => event.type === 'section' && event.section === 'processTimeline')
+
+    if (timeline?.type !== 'section' || timeline.section !== 'processTimeline') throw new Error('No timeline')
+    const descriptions = timeline.value.steps.map(step => step.description)
+    const water = descriptions.findIndex(description => description.startsWith('Prepare Water'))
+    expect(water).toBeGreaterThanOrEqual(0)
+    expect(descriptions[water]).toMatch(/°C water/)
+    expect(water).toBeLessThan(descriptions.findIndex(description => /mix/i.test(description) && !description.startsWith('Prepare Water')))
+    expect(timeline.value.steps.map(step => step.step)).toEqual(descriptions.map((_, index) => index + 1))
+  })
+
+  it('recommends flours from the catalog, not the model', async () => {
+    const events = await analyze({ ...payload, environment: { ...payload.environment, region: 'uk' } })
+    const recommendation = events.find(event => event.type === 'section' && event.section === 'flourRecommendation')
+
+    if (recommendation?.type !== 'section' || recommendation.section !== 'flourRecommendation') throw new Error('No recommendation')
+    const labels = FLOUR_CATALOG.filter(flour => flour.regions.includes('uk')).map(flourLabel)
+    expect(labels).toContain(recommendation.value.primary.name)
+    expect(recommendation.value.alternatives.every(flour => labels.includes(flour.name))).toBe(true)
+  })
+
+  it('rejects a preferment of an unknown type', async () => {
+    const body = { ...payload, recipe: { ...payload.recipe, preferment: { type: 'sponge', percentage: 30, hydration: 100 } } }
+    const response = await POST(new Request('http://localhost/api/recipe-adjust', { method: 'POST', body: JSON.stringify(body) }))
+
+    expect(response.status).toBe(400)
+    expect((await response.json()).error).toBe('Invalid preferment')
+  })
+})
@@ -0,0 +1,61 @@
+import { diffSnapshots, type RecipeSnapshot } from '@/lib/recipes/diff'
+import { settingsToWeights } from '@/lib/recipes/formula'
+import type { CalculatorSettings } from '@/types/pizza'
+
+const settings: CalculatorSettings = {
+  style: 'neapolitan',
+  doughBalls: 4,
+  weightPerBall: 250,
+  hydration: 63,
+  salt: 2.8,
+  oil: 0,
+  flour: '00 Flour',
+  flourMix: null,
+  yeastType: 'IDY',
+  customYeastPercentage: null,
+  preferment: null,
+  fermentation: 'same-day',
+  roomTemp: 72,
+  fridgeTemp: null,
+  tempUnit: 'F',
+  ovenType: 'home-stone',
+}
+
+function snapshot(changes: Partial<CalculatorSettings> = {}): RecipeSnapshot {
+  const merged = { ...settings, ...changes }
+  return { settings: merged, ingredients: settingsToWeights(merged) }
+}
+
+describe('diffSnapshots', () => {
+  it('reports no changes for identical versions', () => {
+    expect(diffSnapshots(snapshot(), snapshot()).hasChanges).toBe(false)
+  })
+
+  it('shows percentage, gram and schedule changes', () => {
+    const diff = diffSnapshots(snapshot(), snapshot({ hydration: 65, fermentation: 'cold', fridgeTemp: 39 }))
+    const labels = diff.entries.map(entry => entry.label)
+
+    expect(diff.entries.find(entry => entry.label === 'Hydration %')?.delta).toBe(2)
+    expect(labels).toContain('Water (g)')
+    expect(labels).toContain('Schedule')
+    expect(labels).toContain('Yeast %')
+  })
+
+  it('compares temperatures in the same unit', () => {
+    const diff = diffSnapshots(snapshot(), snapshot({ roomTemp: 22.2, tempUnit: 'C' }))
+
+    expect(diff.entries.find(entry => entry.section === 'fermentation')).toBeUndefined()
+  })
+
+  it('lists flours that were added or removed', () => {
+    const diff = diffSnapshots(snapshot(), snapshot({
+      flourMix: [
+        { type: '00 Flour', percentage: 80 },
+        { type: 'Whole Wheat', percentage: 20 },
+      ],
+    }))
+
+    expect(diff.entries.filter(entry => entry.section === 'flour').map(entry => [entry.label, entry.before, entry.after]))
+      .toEqual([['00 Flour %', 100, 80], ['Whole Wheat %', 0, 20]])
+  })
+})
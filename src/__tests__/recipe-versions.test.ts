@@ -0,0 +1,156 @@
+/**
+ * @jest-environment node
+ */
+import { POST } from '@/app/api/recipes/route'
+import { PATCH } from '@/app/api/recipes/[id]/route'
+import { GET as getVersion } from '@/app/api/recipes/[id]/versions/[version]/route'
+import * as formula from '@/lib/recipes/formula'
+import type { CalculatorSettings } from '@/types/pizza'
+
+jest.mock('@/lib/auth', () => ({
+  getCurrentUser: jest.fn().mockResolvedValue({ id: 'baker' }),
+}))
+
+jest.mock('@/lib/db', () => {
+  const db = {
+    recipe: { create: jest.fn(), findUnique: jest.fn(), update: jest.fn() },
+    recipeVersion: { create: jest.fn(), findFirst: jest.fn(), findUnique: jest.fn() },
+    // The transaction client is the same mock
+    $transaction: jest.fn((work: (tx: unknown) => unknown) => work(db)),
+  }
+  return { db }
+})
+
+jest.mock('@prisma/client', () => {
+  class PrismaClientKnownRequestError extends Error {
+    constructor(message: string, readonly meta: { code: string }) {
+      super(message)
+    }
+
+    get code() {
+      return this.meta.code
+    }
+  }
+  return { Prisma: { DbNull: 'DbNull', PrismaClientKnownRequestError } }
+}, { virtual: true })
+
+const { db } = jest.requireMock('@/lib/db')
+const { Prisma } = jest.requireMock('@prisma/client')
+
+const settings: CalculatorSettings = {
+  style: 'neapolitan',
+  doughBalls: 4,
+  weightPerBall: 250,
+  hydration: 63,
+  salt: 2.8,
+  oil: 0,
+  flour: '00 Flour',
+  flourMix: null,
+  yeastType: 'IDY',
+  customYeastPercentage: null,
+  preferment: null,
+  fermentation: 'same-day',
+  roomTemp: 22,
+  fridgeTemp: null,
+  tempUnit: 'C',
+  ovenType: 'home-stone',
+}
+
+const request = (body: unknown, method = 'POST') =>
+  new Request('http://localhost/api/recipes', { method, body: JSON.stringify(body) })
+const get = () => new Request('http://localhost/api/recipes')
+
+const context = { params: { id: 'recipe-1' } }
+
+describe('Recipe versions', () => {
+  beforeEach(() => {
+    jest.clearAllMocks()
+    db.recipe.findUnique.mockResolvedValue({ id: 'recipe-1', userId: 'baker' })
+    db.recipe.update.mockImplementation(({ data }: { data: unknown }) => ({ id: 'recipe-1', ...(data as object) }))
+  })
+
+  it('saves a new recipe as version 1', async () => {
+    db.recipe.create.mockImplementation(({ data }: { data: unknown }) => data)
+
+    const response = await POST(request({ name: 'Saturday pies', settings }))
+
+    expect(response.status).toBe(201)
+    expect(db.recipe.create.mock.calls[0][0].data.versions).toEqual({
+      create: { version: 1, settings, ingredients: formula.settingsToWeights(settings), analysis: undefined },
+    })
+  })
+
+  it('adds the next version when the settings change', async () => {
+    db.recipeVersion.findFirst.mockResolvedValue({ version: 2 })
+
+    const response = await PATCH(request({ settings: { ...settings, hydration: 65 } }, 'PATCH'), context)
+
+    expect(response.status).toBe(200)
+    expect(db.recipeVersion.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({ recipeId: 'recipe-1', version: 3, settings: { ...settings, hydration: 65 } }),
+    })
+    expect(db.recipe.update.mock.calls[0][0].data).toMatchObject({ hydration: 65 })
+  })
+
+  it('keeps the history when only the name changes', async () => {
+    await PATCH(request({ name: 'Sunday pies' }, 'PATCH'), context)
+
+    expect(db.recipeVersion.create).not.toHaveBeenCalled()
+    expect(db.recipe.update.mock.calls[0][0].data).toEqual({ name: 'Sunday pies' })
+  })
+
+  it('restores an older version by saving it as the newest', async () => {
+    db.recipeVersion.findUnique.mockResolvedValue({ recipeId: 'recipe-1', version: 1, settings })
+    db.recipeVersion.findFirst.mockResolvedValue({ version: 3 })
+
+    const loaded = await getVersion(get(), { params: { id: 'recipe-1', version: '1' } })
+    const { version } = await loaded.json()
+    await PATCH(request({ settings: version.settings }, 'PATCH'), context)
+
+    expect(db.recipeVersion.findUnique).toHaveBeenCalledWith({
+      where: { recipeId_version: { recipeId: 'recipe-1', version: 1 } },
+    })
+    expect(db.recipeVersion.create.mock.calls[0][0].data).toMatchObject({ version: 4, settings })
+    expect(db.recipe.update.mock.calls[0][0].data).toMatchObject({ settings, hydration: 63 })
+  })
+
+  it('does not show another baker\'s versions', async () => {
+    db.recipe.findUnique.mockResolvedValue({ id: 'recipe-1', userId: 'someone-else' })
+
+    const response = await getVersion(get(), { params: { id: 'recipe-1', version: '1' } })
+
+    expect(response.status).toBe(404)
+    expect(db.recipeVersion.findUnique).not.toHaveBeenCalled()
+  })
+
+  it('turns away settings that make an impossible dough', async () => {
+    jest.spyOn(formula, 'settingsToWeights').mockImplementationOnce(() => {
+      throw new Error('Invalid salt percentage: NaN')
+    })
+
+    const response = await POST(request({ name: 'Saturday pies', settings }))
+
+    expect(response.status).toBe(400)
+    expect(await response.json()).toEqual({ error: 'Invalid salt percentage: NaN' })
+    expect(db.recipe.create).not.toHaveBeenCalled()
+  })
+
+  it('clears the stored analysis', async () => {
+    await PATCH(request({ analysis: null }, 'PATCH'), context)
+
+    expect(db.recipe.update.mock.calls[0][0].data).toEqual({ analysis: Prisma.DbNull })
+  })
+
+  it('takes the next number when another save claimed the version first', async () => {
+    db.recipeVersion.findFirst.mockResolvedValueOnce({ version: 2 }).mockResolvedValueOnce({ version: 3 })
+    db.recipeVersion.create.mockRejectedValueOnce(
+      new Prisma.PrismaClientKnownRequestError('Unique constraint failed', { code: 'P2002' })
+    )
+
+    const response = await PATCH(request({ settings }, 'PATCH'), context)
+
+    expect(response.status).toBe(200)
+    expect(db.recipeVersion.create).toHaveBeenCalledTimes(2)
+    expect(db.recipeVersion.create.mock.calls[1][0].data).toMatchObject({ version: 4 })
+  })
+})
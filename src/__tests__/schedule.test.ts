@@ -0,0 +1,60 @@
+import { buildSchedule } from '@/lib/dough/schedule'
+
+// Saturday 18:00 local time
+const bakeAt = new Date(2026, 5, 13, 18, 0)
+
+describe('buildSchedule', () => {
+  it('works backwards from the bake time', () => {
+    const schedule = buildSchedule({
+      schedule: 'same-day',
+      bakeAt,
+      preheatHours: 1,
+      now: new Date(2026, 5, 12, 12, 0),
+    })
+
+    expect(schedule.startAt).toEqual(new Date(2026, 5, 13, 7, 30))
+    expect(schedule.steps[0].name).toBe('Mix')
+    expect(schedule.steps[schedule.steps.length - 1].name).toBe('Shape and Bake')
+    expect(schedule.steps.find(step => step.name === 'Preheat Oven')?.start).toEqual(new Date(2026, 5, 13, 17, 0))
+    expect(schedule.warnings).toEqual([])
+  })
+
+  it('includes fridge in and out for cold fermentation', () => {
+    const schedule = buildSchedule({ schedule: 'cold', bakeAt, preheatHours: 0.5, now: new Date(2026, 5, 10) })
+    const names = schedule.steps.map(step => step.name)
+
+    expect(names.indexOf('Into the Fridge')).toBeLessThan(names.indexOf('Out of the Fridge'))
+    expect(schedule.steps.find(step => step.name === 'Out of the Fridge')?.start).toEqual(new Date(2026, 5, 13, 15, 45))
+  })
+
+  it('uses the stage hours the baker set', () => {
+    const schedule = buildSchedule({ schedule: 'cold', stageHours: [2, 48, 2], bakeAt, preheatHours: 0.5, now: new Date(2026, 5, 1) })
+
+    expect(schedule.steps.find(step => step.name === 'Cold Fermentation')?.hours).toBe(48)
+    expect(schedule.totalHours).toBe(52.5)
+  })
+
+  it('warns about steps in the middle of the night', () => {
+    const schedule = buildSchedule({
+      schedule: 'overnight',
+      bakeAt: new Date(2026, 5, 13, 20, 0),
+      preheatHours: 1,
+      now: new Date(2026, 5, 10),
+    })
+
+    expect(schedule.steps.find(step => step.name === 'Divide and Ball')?.isNight).toBe(false)
+    expect(schedule.warnings.some(warning => warning.startsWith('Mix'))).toBe(true)
+  })
+
+  it('suggests a shorter option when there is not enough time', () => {
+    const schedule = buildSchedule({
+      schedule: 'cold',
+      bakeAt,
+      preheatHours: 1,
+      now: new Date(2026, 5, 13, 7, 0),
+    })
+
+    expect(schedule.suggestion?.value).toBe('same-day')
+    expect(schedule.warnings[0]).toContain('Same Day')
+  })
+})
@@ -0,0 +1,72 @@
+/**
+ * @jest-environment node
+ */
+import { findSharedRecipe } from '@/lib/recipes/public'
+import { createShareSlug, decodeSettings, encodeSettings } from '@/lib/recipes/share'
+import type { CalculatorSettings } from '@/types/pizza'
+
+jest.mock('@/lib/db', () => ({ db: { recipe: { findUnique: jest.fn() } } }))
+
+const { db } = jest.requireMock('@/lib/db')
+
+const settings: CalculatorSettings = {
+  style: 'custom',
+  doughBalls: 6,
+  weightPerBall: 280,
+  hydration: 68,
+  salt: 2.5,
+  oil: 2,
+  flour: 'Bread Flour',
+  flourMix: [
+    { type: 'Bread Flour', percentage: 85 },
+    { type: 'Whole Wheat', percentage: 15 },
+  ],
+  yeastType: 'fresh',
+  customYeastPercentage: null,
+  preferment: { type: 'poolish', hydration: 100, percentage: 30 },
+  fermentation: 'cold',
+  roomTemp: 21,
+  fridgeTemp: 4,
+  tempUnit: 'C',
+  ovenType: 'portable',
+}
+
+describe('share links', () => {
+  it('round-trips the full configuration', () => {
+    const encoded = encodeSettings(settings)
+
+    expect(encoded).toMatch(/^[A-Za-z0-9_-]+$/)
+    expect(decodeSettings(encoded)).toEqual(settings)
+  })
+
+  it('maps the oven of links made before oven profiles', () => {
+    const legacy = { ...settings, ovenType: 'outdoor' } as unknown as CalculatorSettings
+
+    expect(decodeSettings(encodeSettings(legacy))?.ovenType).toBe('portable')
+  })
+
+  it('rejects tampered or invalid links', () => {
+    expect(decodeSettings('not-a-recipe')).toBeNull()
+    expect(decodeSettings(encodeSettings({ ...settings, hydration: 500 }))).toBeNull()
+  })
+
+  it('creates short url-safe slugs', () => {
+    expect(createShareSlug()).toMatch(/^[a-z2-9]{10}$/)
+  })
+})
+
+describe('shared recipes', () => {
+  it('shows the name and settings of a shared recipe', async () => {
+    db.recipe.findUnique.mockResolvedValue({ name: 'Sourdough pies', settings })
+
+    expect(await findSharedRecipe('abc')).toEqual({ name: 'Sourdough pies', settings })
+  })
+
+  it('treats stored settings that no longer validate as missing', async () => {
+    db.recipe.findUnique.mockResolvedValue({ name: 'Old pies', settings: { ...settings, hydration: 'lots' } })
+    expect(await findSharedRecipe('abc')).toBeNull()
+
+    db.recipe.findUnique.mockResolvedValue(null)
+    expect(await findSharedRecipe('abc')).toBeNull()
+  })
+})
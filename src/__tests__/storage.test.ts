@@ -0,0 +1,53 @@
+import { createStore } from '@/lib/storage'
+import { createMemoryStore } from '@/lib/storage/memory'
+
+describe('storage', () => {
+  it('uses memory unless Upstash is configured', () => {
+    expect(createStore({}).name).toBe('memory')
+    expect(() => createStore({ UPSTASH_REDIS_REST_URL: 'not a url' })).toThrow('UPSTASH_REDIS_REST_URL')
+  })
+
+  it('treats the empty keys from .env.example as unset', () => {
+    expect(createStore({ UPSTASH_REDIS_REST_URL: '', UPSTASH_REDIS_REST_TOKEN: '' }).name).toBe('memory')
+  })
+
+  it('counts and expires keys like Redis', async () => {
+    const store = createMemoryStore()
+
+    expect(await store.ttl('hits')).toBe(-2)
+    expect(await store.incr('hits')).toBe(1)
+    expect(await store.ttl('hits')).toBe(-1)
+    await store.expire('hits', 60)
+    expect(await store.incr('hits')).toBe(2)
+    expect(await store.ttl('hits')).toBe(60)
+  })
+
+  it('returns copies and drops expired values', async () => {
+    jest.useFakeTimers()
+    const store = createMemoryStore()
+    const value = { hydration: 65 }
+
+    await store.set('recipe', value, 10)
+    value.hydration = 70
+    expect(await store.get('recipe')).toEqual({ hydration: 65 })
+
+    jest.advanceTimersByTime(10000)
+    expect(await store.get('recipe')).toBeNull()
+    jest.useRealTimers()
+  })
+
+  it('clears out expired keys nobody reads again', async () => {
+    jest.useFakeTimers()
+    const store = createMemoryStore()
+    const deleted = jest.spyOn(Map.prototype, 'delete')
+
+    await store.set('visitor', 1, 10)
+    jest.advanceTimersByTime(60000)
+    await store.set('recipe', 2)
+
+    expect(deleted).toHaveBeenCalledWith('visitor')
+    expect(await store.get('recipe')).toBe(2)
+    deleted.mockRestore()
+    jest.useRealTimers()
+  })
+})
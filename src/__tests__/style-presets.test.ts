@@ -0,0 +1,52 @@
+import { OVEN_PROFILES } from '@/lib/dough/oven'
+import { PIZZA_STYLES } from '@/lib/openai/config'
+import { presetTemplate, styleDefaults, styleRangeWarnings } from '@/lib/styles/presets'
+import { styleDefinitionSchema } from '@/lib/styles/schema'
+
+describe('Style presets', () => {
+  it('start as a copy of their base style', () => {
+    const template = presetTemplate('detroit')
+
+    expect(template.name).toBe('My Detroit')
+    expect(template.hydrationRange).toEqual(PIZZA_STYLES.detroit.hydrationRange)
+    template.hydrationRange.max = 90
+    expect(PIZZA_STYLES.detroit.hydrationRange.max).not.toBe(90)
+  })
+
+  it('accept every built-in style as a definition', () => {
+    Object.values(PIZZA_STYLES).forEach(style => {
+      expect(styleDefinitionSchema.safeParse(style).success).toBe(true)
+    })
+  })
+
+  it('reject defaults outside their own ranges', () => {
+    const style = { ...presetTemplate('new-york'), defaultHydration: 80 }
+    const result = styleDefinitionSchema.safeParse(style)
+
+    expect(result.success).toBe(false)
+    expect(!result.success && result.error.issues[0].path).toEqual(['defaultHydration'])
+    expect(styleDefinitionSchema.safeParse({
+      ...presetTemplate('new-york'),
+      saltRange: { min: 3, max: 2 }
+    }).success).toBe(false)
+  })
+
+  it('add the oven\'s hydration without leaving the range', () => {
+    const neapolitan = PIZZA_STYLES.neapolitan
+
+    expect(styleDefaults(neapolitan, OVEN_PROFILES.portable).hydration).toBe(62.5)
+    expect(styleDefaults(neapolitan, OVEN_PROFILES['home-stone']).hydration).toBe(62.5)
+    expect(styleDefaults(PIZZA_STYLES['new-york'], OVEN_PROFILES['home-stone']).hydration)
+      .toBe(PIZZA_STYLES['new-york'].defaultHydration + 3)
+  })
+
+  it('warn when a recipe leaves the style\'s ranges', () => {
+    const neapolitan = PIZZA_STYLES.neapolitan
+
+    expect(styleRangeWarnings(neapolitan, { hydration: 60, salt: 2.8, roomHours: 10 })).toEqual([])
+    expect(styleRangeWarnings(neapolitan, { hydration: 70, salt: 2.8, roomHours: 10, coldHours: 12 })).toEqual([
+      'Hydration of 70% is outside the 55.5-62.5% Neapolitan calls for',
+      'A cold fermentation of 12 hours is outside the 24-72 hours Neapolitan calls for'
+    ])
+  })
+})
@@ -0,0 +1,29 @@
+import { OVEN_PROFILES } from '@/lib/dough/oven'
+import { describeSweeteners, sweetenerRecommendation, sweetenerWarnings } from '@/lib/dough/sweeteners'
+
+describe('Sweeteners', () => {
+  it('suggests malt for ovens below 600°F', () => {
+    const recommendation = sweetenerRecommendation('new-york', OVEN_PROFILES['home-stone'])
+
+    expect(recommendation.malt).toBeGreaterThan(0)
+    expect(recommendation.sugar).toBeGreaterThan(0)
+    expect(recommendation.reason).toMatch(/600°F/)
+  })
+
+  it('keeps sugar out of Neapolitan dough', () => {
+    const recommendation = sweetenerRecommendation('neapolitan', OVEN_PROFILES['home-steel'])
+
+    expect(recommendation.sugar).toBe(0)
+    expect(recommendation.malt).toBeGreaterThan(0)
+  })
+
+  it('recommends none for hot ovens and warns when they would scorch', () => {
+    const oven = OVEN_PROFILES['wood-fired']
+
+    expect(describeSweeteners(sweetenerRecommendation('new-york', oven))).toBe('none')
+    expect(sweetenerWarnings({ sugar: 2 }, oven)).toEqual([
+      '2% sugar will scorch at 850°F; leave them out or keep the total under 0.5%'
+    ])
+    expect(sweetenerWarnings({ sugar: 2, malt: 0.5 }, OVEN_PROFILES['home-stone'])).toEqual([])
+  })
+})
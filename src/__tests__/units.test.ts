@@ -0,0 +1,53 @@
+import {
+  convertLength,
+  convertTemperature,
+  formatTemperature,
+  formatVolume,
+  formatWeight,
+  toCelsius,
+  unitSystemFor
+} from '@/lib/units'
+
+describe('Units', () => {
+  it('formats canonical °C in either unit', () => {
+    expect(formatTemperature(22, 'C')).toBe('22°C')
+    expect(formatTemperature(22, 'F')).toBe('71.6°F')
+    expect(formatTemperature(toCelsius(72, 'F'), 'F')).toBe('72°F')
+    expect(formatTemperature(toCelsius(850, 'F'), 'C', 0)).toBe('454°C')
+  })
+
+  it('converts temperatures to one decimal', () => {
+    expect(convertTemperature(72, 'F', 'C')).toBe(22.2)
+    expect(convertTemperature(4, 'C', 'F')).toBe(39.2)
+    expect(convertTemperature(20, 'C', 'C')).toBe(20)
+  })
+
+  it('shows grams, ounces or pounds', () => {
+    expect(formatWeight(250, 'metric')).toBe('250g')
+    expect(formatWeight(2.345, 'metric')).toBe('2.35g')
+    expect(formatWeight(250, 'imperial')).toBe('8.8 oz')
+    expect(formatWeight(1000, 'imperial')).toBe('2 lb 3.3 oz')
+    expect(formatWeight(5, 'imperial')).toBe('0.18 oz')
+  })
+
+  it('measures salt and yeast with their own densities', () => {
+    expect(formatVolume(6, 'salt', 'imperial')).toBe('1 tsp')
+    expect(formatVolume(3.1, 'IDY', 'imperial')).toBe('1 tsp')
+    expect(formatVolume(0.8, 'IDY', 'imperial')).toBe('¼ tsp')
+    expect(formatVolume(6, 'salt', 'metric')).toBe('5 ml')
+    expect(formatVolume(0.01, 'IDY', 'imperial')).toBe('a pinch')
+  })
+
+  it('measures liquids in cups and tablespoons', () => {
+    expect(formatVolume(355, 'water', 'imperial')).toBe('1 ½ cups')
+    expect(formatVolume(27.6, 'oil', 'imperial')).toBe('2 tbsp')
+    expect(formatVolume(355, 'water', 'metric')).toBe('355 ml')
+  })
+
+  it('converts pan sizes and maps temperature units to systems', () => {
+    expect(convertLength(60, 'cm', 'in')).toBe(23.6)
+    expect(convertLength(12, 'in', 'cm')).toBe(30.5)
+    expect(unitSystemFor('F')).toBe('imperial')
+    expect(unitSystemFor('C')).toBe('metric')
+  })
+})
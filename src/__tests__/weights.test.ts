@@ -0,0 +1,62 @@
+import { calculateWeights, type BakersFormula } from '@/lib/dough/weights'
+
+const neapolitan: BakersFormula = {
+  style: 'neapolitan',
+  ballCount: 4,
+  ballWeight: 250,
+  hydration: 62.5,
+  salt: 2.8,
+  oil: 0,
+  yeast: 0.2,
+}
+
+describe('calculateWeights', () => {
+  it('derives flour from the total baker\'s percentage', () => {
+    const result = calculateWeights(neapolitan)
+
+    expect(result.totalWeight).toBe(1000)
+    expect(result.flourWeight).toBe(604)
+    expect(result.waterWeight).toBe(378)
+    expect(result.saltWeight).toBe(16.9)
+    expect(result.yeastWeight).toBe(1.21)
+    expect(result.oilWeight).toBe(0)
+  })
+
+  it('always adds up to the requested dough weight', () => {
+    const result = calculateWeights({ ...neapolitan, ballCount: 7, ballWeight: 283, oil: 2.5, sugar: 1.5 })
+    const sum = result.flourWeight + result.waterWeight + result.saltWeight +
+      result.oilWeight + result.sugarWeight + result.yeastWeight
+
+    expect(Math.abs(sum - result.totalWeight)).toBeLessThan(0.5)
+  })
+
+  it('counts the water in honey towards the hydration', () => {
+    const result = calculateWeights({ ...neapolitan, hydration: 63, sugar: 1, malt: 0.5, honey: 3 })
+    const sum = result.flourWeight + result.waterWeight + result.saltWeight + result.oilWeight +
+      result.sugarWeight + result.maltWeight + result.honeyWeight + result.yeastWeight
+    const water = result.waterWeight + result.honeyWeight * 0.17
+
+    expect(Math.abs(sum - result.totalWeight)).toBeLessThan(0.5)
+    expect(result.maltWeight).toBeGreaterThan(0)
+    expect(water / result.flourWeight * 100).toBeCloseTo(63, 0)
+  })
+
+  it('splits the flour across the mix without losing grams', () => {
+    const result = calculateWeights({
+      ...neapolitan,
+      flourMix: [
+        { type: '00 Flour', percentage: 70 },
+        { type: 'Whole Wheat', percentage: 20 },
+        { type: 'Rye', percentage: 10 },
+      ],
+    })
+
+    expect(result.flours.map(flour => flour.type)).toEqual(['00 Flour', 'Whole Wheat', 'Rye'])
+    expect(result.flours.reduce((sum, flour) => sum + flour.weight, 0)).toBe(result.flourWeight)
+  })
+
+  it('rejects invalid inputs instead of guessing', () => {
+    expect(() => calculateWeights({ ...neapolitan, ballCount: 0 })).toThrow()
+    expect(() => calculateWeights({ ...neapolitan, hydration: NaN })).toThrow()
+  })
+})
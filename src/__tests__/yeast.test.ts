@@ -0,0 +1,61 @@
+import { calculateYeast, yeastActivity } from '@/lib/dough/yeast'
+
+describe('Yeast model', () => {
+  it('slows down in the fridge and speeds up in a warm room', () => {
+    expect(yeastActivity(25)).toBeCloseTo(1)
+    expect(yeastActivity(4)).toBeLessThan(0.2)
+    expect(yeastActivity(30)).toBeGreaterThan(1)
+    expect(yeastActivity(50)).toBe(0)
+  })
+
+  it('needs less yeast for longer fermentation', () => {
+    const quick = calculateYeast({ schedule: 'quick', yeastType: 'IDY', roomTemp: 22 })
+    const sameDay = calculateYeast({ schedule: 'same-day', yeastType: 'IDY', roomTemp: 22 })
+    const overnight = calculateYeast({ schedule: 'overnight', yeastType: 'IDY', roomTemp: 22 })
+
+    expect(quick.percentage).toBeGreaterThan(sameDay.percentage)
+    expect(sameDay.percentage).toBeGreaterThan(overnight.percentage)
+    expect(sameDay.percentage).toBeGreaterThan(0.1)
+    expect(sameDay.percentage).toBeLessThan(0.4)
+  })
+
+  it('follows the hours the baker set for each stage', () => {
+    const retard = (hours: number) =>
+      calculateYeast({ schedule: 'cold', yeastType: 'IDY', roomTemp: 22, fridgeTemp: 4, stageHours: [2, hours, 2] })
+    const [day, twoDays, threeDays] = [24, 48, 72].map(retard)
+
+    expect(day.percentage).toBe(calculateYeast({ schedule: 'cold', yeastType: 'IDY', roomTemp: 22, fridgeTemp: 4 }).percentage)
+    expect(twoDays.percentage).toBeLessThan(day.percentage)
+    expect(threeDays.percentage).toBeLessThan(twoDays.percentage)
+    expect(threeDays.phases[1]).toMatchObject({ name: 'Cold Fermentation', hours: 72, temperature: 4 })
+  })
+
+  it('keeps the schedule hours for stages left blank', () => {
+    const custom = calculateYeast({ schedule: 'custom', yeastType: 'IDY', roomTemp: 22, stageHours: [NaN, 4] })
+
+    expect(custom.phases.map(phase => phase.hours)).toEqual([6, 4])
+  })
+
+  it('needs more yeast in a colder fridge', () => {
+    const coldFridge = calculateYeast({ schedule: 'cold', yeastType: 'IDY', roomTemp: 22, fridgeTemp: 2 })
+    const warmFridge = calculateYeast({ schedule: 'cold', yeastType: 'IDY', roomTemp: 22, fridgeTemp: 7 })
+
+    expect(coldFridge.percentage).toBeGreaterThan(warmFridge.percentage)
+  })
+
+  it('converts between yeast types', () => {
+    const idy = calculateYeast({ schedule: 'same-day', yeastType: 'IDY', roomTemp: 22 })
+    const fresh = calculateYeast({ schedule: 'same-day', yeastType: 'fresh', roomTemp: 22 })
+
+    expect(fresh.idyPercentage).toBe(idy.idyPercentage)
+    expect(fresh.percentage).toBeCloseTo(idy.percentage * 3, 2)
+  })
+
+  it('uses a custom percentage when given', () => {
+    const result = calculateYeast({ schedule: 'cold', yeastType: 'ADY', roomTemp: 22, customPercentage: 0.5 })
+
+    expect(result.isCustom).toBe(true)
+    expect(result.percentage).toBe(0.5)
+    expect(result.idyPercentage).toBe(0.4)
+  })
+})
@@ -1,49 +1,65 @@
-import { OpenAI } from 'openai'
 import { NextResponse } from 'next/server'
-import { PIZZA_STYLES } from '@/lib/openai/config'
-import { cache } from '@/lib/cache'
-import { rateLimiter } from '@/lib/rateLimiter'
+import { PIZZA_STYLES, type PizzaStyle as StyleDefinition } from '@/lib/openai/config'
+import { acquireLock, analysisCache, releaseLock } from '@/lib/cache/server'
+import { getLLMProvider } from '@/lib/llm'
+import { calculateWeights, type BakersFormula, type WeightCalculation } from '@/lib/dough/weights'
+import { calculateYeast, type YeastCalculation } from '@/lib/dough/yeast'
+import { formatTemperature, toCelsius } from '@/lib/units'
+import { DEFAULT_FRIDGE_TEMP_C } from '@/lib/dough/fermentation'
+import {
+  adjustHydration,
+  adjustProofDuration,
+  adjustYeast,
+  adjustmentNote,
+  altitudeCorrections,
+  altitudeUnitFor,
+  describeAltitudeAdjustments,
+  type AltitudeAdjustment,
+  type AltitudeCorrections
+} from '@/lib/dough/altitude';
+import { calculateWaterTemp, describeWaterTemp, type WaterTemperature } from '@/lib/dough/ddt';
+import { blendFlour, describeBlend, flourBlendWarnings, flourMixError } from '@/lib/dough/flour'
+import {
+  describeCatalogFlour,
+  flourLabel,
+  recommendFlours,
+  type CatalogFlour
+} from '@/lib/dough/flour-catalog'
+import { describePrefermentBuild, splitPreferment, type PrefermentSplit } from '@/lib/dough/preferment'
+import { styleDefinitionSchema } from '@/lib/styles/schema'
+import { describeBakeTime, ovenProfile, type OvenProfile } from '@/lib/dough/oven'
+import { describeSweeteners, sweetenerRecommendation, sweetenerWarnings, type SweetenerAmounts } from '@/lib/dough/sweeteners'
+import { describePans } from '@/lib/dough/pan'
+import { panSettingsSchema, prefermentSchema, stageHoursSchema } from '@/lib/recipes/schema'
+import {
+  ANALYSIS_SECTIONS,
+  analysisResponseFormat,
+  isAnalysisSection,
+  mergeSections,
+  pickSection,
+  validateSection,
+  type AnalysisIssue,
+  type AnalysisSection,
+  type AnalysisSections,
+  type ApiResponse,
+  type ProcessStep,
+  type RecipeAnalysis
+} from '@/lib/openai/schema'
+import {
+  CACHE_STATUS_HEADER,
+  analysisCacheKey,
+  cacheStatus,
+  toCacheEntry,
+  type CachedAnalysis,
+  type CacheStatus
+} from '@/lib/openai/analysis-cache'
+import { SectionStreamParser, encodeEvent, type AnalysisEvent, type StreamedSection } from '@/lib/openai/stream'
+import type { FermentationSchedule, FlourPortion, FlourRegion, MixerType, PanSettings, PizzaStyle, Preferment, YeastType } from '@/types/pizza'
 
 // Enable edge runtime and set timeout
 export const runtime = 'edge';
 export const maxDuration = 60;
 
-// Add oven type constants
-const OVEN_TYPES = {
-  home: {
-    label: 'Home Oven',
-    description: '450-550°F',
-    maxTemp: 550
-  },
-  outdoor: {
-    label: 'Outdoor Pizza Oven',
-    description: '700-950°F',
-    maxTemp: 950
-  }
-} as const;
-
-// Add retry logic helper
-async function withRetry<T>(
-  fn: () => Promise<T>,
-  maxRetries: number = 3,
-  delay: number = 1000
-): Promise<T> {
-  let lastError: any;
-  
-  for (let i = 0; i < maxRetries; i++) {
-    try {
-      return await fn();
-    } catch (error) {
-      lastError = error;
-      if (i < maxRetries - 1) {
-        await new Promise(resolve => setTimeout(resolve, delay * Math.pow(2, i))); // Exponential backoff
-      }
-    }
-  }
-  
-  throw lastError;
-}
-
 // Better retry logic with exponential backoff and timeout
 async function withRetryAndTimeout<T>(
   fn: () => Promise<T>,
@@ -75,125 +91,32 @@ async function withRetryAndTimeout<T>(
   throw lastError;
 }
 
-// Define a simple model that's definitely available on OpenRouter
-const MODEL = 'google/gemma-3-12b-it:free' // Using the original model as requested
-
-// Initialize OpenRouter client with optimized settings
-const openai = new OpenAI({
-  baseURL: 'https://openrouter.ai/api/v1',
-  apiKey: process.env.OPENROUTER_API_KEY || '',
-  timeout: 20000, // Lower timeout to ensure we get a response before gateway timeout
-  defaultHeaders: {
-    'HTTP-Referer': process.env.NEXTAUTH_URL || 'https://doughmasterai.com',
-    'X-Title': 'Pizza Dough Calculator'
-  }
-});
-
-// Essential interfaces for type checking
-interface Timeline {
-    step: string;
-    time: string;
-    description: string;
-    temperature?: number;
-    tips?: string[];
-}
-
-interface TemperatureAnalysis {
-  roomTemp: number;
-  season: string;
-  impact: string[];
-  recommendations: string[];
-  rationale?: string;
-}
-
-interface FermentationStep {
-  time: number;
-  temperature: number;
-  impact: string[];
-}
-
-interface FermentationAnalysis {
-  totalTime: number;
-  roomTemp: FermentationStep;
-  coldTemp?: FermentationStep;
-  enzymaticActivity: string;
-  gluten: string;
-  type: string;
-  rationale: string;
-  impact: string[];
-}
-
-interface FlourInfo {
-  type: string;
-  proteinContent: number;
-  purpose: string;
-}
-
-interface DetailedAnalysis {
-  flourAnalysis?: {
-    rationale: string;
-    flours: FlourInfo[];
-    alternatives?: string[];
-  };
-  hydrationAnalysis?: {
-    percentage: number;
-    rationale: string;
-    impact: string[];
-  };
-  saltAnalysis?: {
-    percentage: number;
-    rationale: string;
-    impact: string[];
-  };
-  oilAnalysis?: {
-    percentage: number;
-    rationale: string;
-    impact: string[];
-  };
-  yeastAnalysis?: {
-    type: string;
-    percentage: number;
-    rationale: string;
-    impact: string[];
-    temperatureNotes?: string[];
-  };
-  temperatureAnalysis?: TemperatureAnalysis;
-  fermentationAnalysis?: FermentationAnalysis;
-  techniqueGuidance?: {
-    handling?: string;
-    shaping?: string;
-    baking?: string;
-  };
-}
-
-interface FermentationType {
-  schedule: string;
-  temperature: {
-    room: number | null;
-    cold: number | null;
-  };
-  duration: {
-    min: number;
-    max: number;
-  };
-}
+// How long the model gets to stream the full analysis
+const STREAM_TIMEOUT_MS = 40000;
 
 interface RecipeInput {
   style: string;
+  // A baker's own style; `style` is its base
+  stylePreset?: StyleDefinition;
   doughBalls: number;
   weightPerBall: number;
+  // Sized from pans rather than by ball; weightPerBall is then per pan
+  pan?: PanSettings | null;
   recipe: {
     hydration: number;
     salt: number;
     oil: number | null;
-        flourMix?: {
-            primaryType: string;
-            secondaryType?: string;
-            primaryPercentage: number;
-    } | null;
+    // Browning aids in baker's percent
+    sugar?: number | null;
+    malt?: number | null;
+    honey?: number | null;
+    flour?: string;
+    flourMix?: FlourPortion[] | null;
+    preferment?: Preferment | null;
     fermentationTime: string;
     yeast: {
       type: string;
+      percentage?: number | null;
     };
   };
   fermentation: {
@@ -206,13 +129,20 @@ interface RecipeInput {
       min: number;
       max: number;
     };
+    // Hours the baker set for each stage of the schedule
+    stageHours?: number[] | null;
   };
   environment: {
     altitude?: number;
-    ovenType?: 'home' | 'outdoor';
+    // Older clients send 'home' or 'outdoor'
+    ovenType?: string;
     maxOvenTemp?: number;
     roomTemp: number;
     tempUnit: 'C' | 'F';
+    mixer?: MixerType;
+    flourTemp?: number | null;
+    // Where the baker buys flour, for recommendations
+    region?: FlourRegion | null;
   };
   analysisPreferences: {
     detailedAnalysis: boolean;
@@ -231,229 +161,166 @@ interface RecipeInput {
     };
 }
 
-// --- START NEW CODE ---
-const FLOUR_AUTHENTICITY_MAP = {
-  'Neapolitan': {
-    'authentic': ['Caputo 00', 'Mulino Caputo 00', 'Antimo Caputo 00', 'Le 5 Stagioni 00', 'Molino Grassi 00'],
-    'inauthentic': ['King Arthur', 'All Trumps', 'Gold Medal', 'Pillsbury']
-  },
-  'New York': {
-    'authentic': ['King Arthur Bread Flour', 'All Trumps', 'Gold Medal Better for Bread'],
-    'inauthentic': ['Caputo 00', 'Italian 00 flour']
-  }
-  // Add other styles as needed
-};
-// --- END NEW CODE ---
-
-const SYSTEM_MESSAGE = `You are a master pizzaiolo with scientific expertise in dough fermentation and gluten development. Provide pizza dough analysis in valid JSON format with these requirements:
+const SYSTEM_MESSAGE = `You are a master pizzaiolo with scientific expertise in dough fermentation and gluten development. Provide pizza dough analysis as JSON matching the given schema, with these requirements:
 1. All values as numbers without units (no %, °C, °F) except for temperature values which must be used exactly as provided
 2. Use temperature values EXACTLY as provided without any conversion
 3. Percentages as plain numbers (65 not "65%")
 4. Use single values, not ranges
-5. Ensure valid JSON structure throughout
+5. Fill in every field of the schema
 6. Focus on practical, scientifically accurate advice based on established baking science`;
 
-const PROMPT_TEMPLATE = (data: RecipeInput) => {
-  // Use the exact room temperature without any conversion
+const PROMPT_TEMPLATE = (data: RecipeInput, yeast: YeastCalculation) => {
+  // The room temperature in the baker's own unit, as entered
   const roomTemp = data.environment.roomTemp;
-  const tempUnit = data.environment.tempUnit;
+  const room = roomTempText(data);
   
-  type FermentationScheduleType = 'quick' | 'same-day' | 'overnight' | 'cold';
-  
-  // Define fermentation schedules without temperature calculations
-  const fermentationSchedules: Record<FermentationScheduleType, {
-    room: { duration: string };
-    cold?: { duration: string };
-    description: string;
-  }> = {
-    'quick': {
-      room: { duration: '2-4 hours' },
-      description: 'Short room temperature fermentation only'
-    },
-    'same-day': {
-      room: { duration: '8-12 hours' },
-      description: 'Extended room temperature fermentation'
-    },
-    'overnight': {
-      room: { duration: '2-3 hours' },
-      cold: { duration: '12-16 hours' },
-      description: 'Initial room temperature rise followed by overnight cold fermentation'
-    },
-    'cold': {
-      room: { duration: '2-3 hours' },
-      cold: { duration: '24-72 hours' },
-      description: 'Initial room temperature rise followed by extended cold fermentation'
-    }
-  };
-
-  const schedule = fermentationSchedules[data.fermentation.schedule as FermentationScheduleType] || fermentationSchedules['same-day'];
-  const usesColdFermentation = data.fermentation.schedule === 'cold' || data.fermentation.schedule === 'overnight';
-
   // Generate refrigeration temperature text based on user's unit preference
-  const refrigTempText = tempUnit === 'F' ? '39°F' : '4°C';
+  const refrigTempText = fridgeTempText(data);
+  const oven = ovenFor(data);
 
   return `You are a master pizza chef and dough expert. Based on the provided recipe details, analyze and provide recommendations in the following JSON format.
 
 CRITICAL TEMPERATURE INSTRUCTIONS:
-- The room temperature is EXACTLY ${roomTemp}°${tempUnit}
-- You MUST use ${roomTemp}°${tempUnit} for ALL room temperature steps
-- DO NOT convert ${roomTemp}°${tempUnit} to any other temperature or unit
+- The room temperature is EXACTLY ${room}
+- You MUST use ${room} for ALL room temperature steps
+- DO NOT convert ${room} to any other temperature or unit
 - DO NOT calculate or change the temperature value
-- The temperature field in steps must be EXACTLY "${roomTemp}°${tempUnit}"
+- The temperature field in steps must be EXACTLY "${room}"
 
 {
-  "flourRecommendation": {
-    "primary": {
-      "name": string,
-      "protein": string,
-      "description": string
-    },
-    "alternatives": [
+  "flourAnalysis": {
+    "rationale": string,
+    "recommendations": [string],
+    "flours": [
       {
-        "name": string,
-        "protein": string,
-        "description": string
+        "type": string,
+        "proteinContent": number,
+        "purpose": string
       }
     ]
   },
+  "hydrationAnalysis": {
+    "percentage": number,
+    "rationale": string,
+    "impact": [string]
+  },
+  "saltAnalysis": {
+    "percentage": number,
+    "rationale": string,
+    "impact": [string]
+  },
+  "oilAnalysis": {
+    "percentage": number,
+    "rationale": string,
+    "impact": [string]
+  },
+  "yeastAnalysis": {
+    "type": string,
+    "percentage": number,
+    "rationale": string,
+    "impact": [string],
+    "temperatureNotes": [string]
+  },
+  "temperatureAnalysis": {
+    "roomTemp": ${roomTemp} (COPY THIS EXACT NUMBER - DO NOT MODIFY),
+    "rationale": string,
+    "recommendations": [string]
+  },
+  "fermentationAnalysis": {
+    "type": string,
+    "totalTime": number,
+    "rationale": string,
+    "impact": [string]
+  },
+  "techniqueGuidance": {
+    "mixing": string,
+    "folding": string,
+    "shaping": string,
+    "baking": string
+  },
   "processTimeline": {
     "steps": [
       {
         "step": number,
         "description": string,
         "duration": string,
-        "temperature": "${roomTemp}°${tempUnit}" (COPY THIS EXACT VALUE - DO NOT MODIFY),
+        "temperature": "${room}" (COPY THIS EXACT VALUE - DO NOT MODIFY),
         "isRefrigeration": boolean,
         "tips": [string]
       }
     ]
-  },
-  "temperatureAnalysis": {
-    "roomTemp": ${roomTemp} (COPY THIS EXACT NUMBER - DO NOT MODIFY),
-    "rationale": string,
-    "recommendations": [string]
-  },
-  "detailedAnalysis": {
-    "flourAnalysis": {
-      "rationale": string,
-      "recommendations": [string],
-      "flours": [
-        {
-          "type": string,
-          "proteinContent": number,
-          "purpose": string
-        }
-      ]
-    },
-    "hydrationAnalysis": {
-      "percentage": number,
-      "rationale": string,
-      "impact": [string]
-    },
-    "saltAnalysis": {
-      "percentage": number,
-      "rationale": string,
-      "impact": [string]
-    },
-    "oilAnalysis": {
-      "percentage": number,
-      "rationale": string,
-      "impact": [string]
-    },
-    "yeastAnalysis": {
-      "type": string,
-      "percentage": number,
-      "rationale": string,
-      "impact": [string],
-      "temperatureNotes": [string]
-    },
-    "fermentationAnalysis": {
-      "type": string,
-      "totalTime": number,
-      "rationale": string,
-      "impact": [string]
-    },
-    "techniqueGuidance": {
-      "mixing": string,
-      "folding": string,
-      "shaping": string,
-      "baking": string
-    }
   }
 }
 
 Instructions:
 1. For the flour recommendation:
-   - Consider the pizza style (${data.style}), fermentation type, and desired texture
+   - Consider the pizza style (${styleFor(data)?.name ?? data.style}), fermentation type, and desired texture
    - For Neapolitan style, ONLY recommend authentic Italian 00 flours
    - For New York style, prioritize high-protein bread flours
    - Include protein content ranges and brief descriptions
 
 2. For the process timeline:
    - Create steps based on fermentation type: ${data.fermentation.schedule}
-   - IMPORTANT: For ALL non-refrigeration steps, the temperature MUST be "${roomTemp}°${tempUnit}"
+   - IMPORTANT: For ALL non-refrigeration steps, the temperature MUST be "${room}"
    - For refrigeration steps, use "${refrigTempText}"
    - DO NOT CONVERT OR MODIFY THE TEMPERATURE VALUES
-   - ALWAYS include oven preheating step based on oven type:
-     * For home oven (${OVEN_TYPES.home.maxTemp}°F max):
-       - Start preheating 1 hour before baking
-       - Place pizza stone/steel in oven during preheat
-       - Preheat to maximum temperature (${OVEN_TYPES.home.maxTemp}°F)
-     * For outdoor pizza oven (${OVEN_TYPES.outdoor.maxTemp}°F max):
-       - Start preheating 30 minutes before baking
-       - Heat until floor temperature reaches 750-800°F
-       - Maintain consistent flame while baking
+   - DO NOT add a step for the water temperature, it is calculated and added separately
+${prefermentInstructions(data, yeast)}   - ALWAYS include an oven preheating step for the ${oven.label} (${oven.maxFloorTempF}°F floor, ${oven.maxDomeTempF}°F dome max):
+     * Start preheating ${oven.preheatMinutes} minutes before baking
+     * ${oven.preheat}
+     * The bake takes ${describeBakeTime(oven)}
 
    - For same-day fermentation (8-12 hours total):
-     - Step 1: Initial Mix (5-10 minutes) at ${roomTemp}°${tempUnit}
-     - Step 2: Bulk Fermentation (8-12 hours) at ${roomTemp}°${tempUnit}
-     - Step 3: Divide and Ball (5-10 minutes) at ${roomTemp}°${tempUnit}
-     - Step 4: Final Proof (30-60 minutes) at ${roomTemp}°${tempUnit}
+     - Step 1: Initial Mix (5-10 minutes) at ${room}
+     - Step 2: Bulk Fermentation (8-12 hours) at ${room}
+     - Step 3: Divide and Ball (5-10 minutes) at ${room}
+     - Step 4: Final Proof (30-60 minutes) at ${room}
      - Step 5: Begin Oven Preheat (see oven-specific instructions above)
      - Step 6: Shape and Bake
    
    - For quick fermentation (2-4 hours total):
-     - Step 1: Initial Mix (5-10 minutes) at ${roomTemp}°${tempUnit}
-     - Step 2: Bulk Fermentation (1-2 hours) at ${roomTemp}°${tempUnit}
-     - Step 3: Divide and Ball (5-10 minutes) at ${roomTemp}°${tempUnit}
-     - Step 4: Final Proof (30-60 minutes) at ${roomTemp}°${tempUnit}
+     - Step 1: Initial Mix (5-10 minutes) at ${room}
+     - Step 2: Bulk Fermentation (1-2 hours) at ${room}
+     - Step 3: Divide and Ball (5-10 minutes) at ${room}
+     - Step 4: Final Proof (30-60 minutes) at ${room}
      - Step 5: Begin Oven Preheat (see oven-specific instructions above)
      - Step 6: Shape and Bake
    
    - For overnight/cold fermentation:
      * For overnight (16-20 hours at room temperature):
-       - Step 1: Initial Mix (5-10 minutes) at ${roomTemp}°${tempUnit}
-       - Step 2: Bulk Fermentation (16-20 hours) at ${roomTemp}°${tempUnit}
-       - Step 3: Divide and Ball (5-10 minutes) at ${roomTemp}°${tempUnit}
-       - Step 4: Final Proof (30-60 minutes) at ${roomTemp}°${tempUnit}
+       - Step 1: Initial Mix (5-10 minutes) at ${room}
+       - Step 2: Bulk Fermentation (16-20 hours) at ${room}
+       - Step 3: Divide and Ball (5-10 minutes) at ${room}
+       - Step 4: Final Proof (30-60 minutes) at ${room}
        - Step 5: Begin Oven Preheat (see oven-specific instructions above)
        - Step 6: Shape and Bake
 
      * For cold fermentation (24-72 hours with refrigeration):
-       - Step 1: Initial Mix (5-10 minutes) at ${roomTemp}°${tempUnit}
-       - Step 2: Room Temp Rise (1-2 hours) at ${roomTemp}°${tempUnit}
+       - Step 1: Initial Mix (5-10 minutes) at ${room}
+       - Step 2: Room Temp Rise (1-2 hours) at ${room}
        - Step 3: Refrigeration (24-72 hours) at ${refrigTempText}
-       - Step 4: Remove from Refrigerator (let rest at ${roomTemp}°${tempUnit})
-       - Step 5: Divide and Ball (5-10 minutes) at ${roomTemp}°${tempUnit}
-       - Step 6: Final Proof (1-2 hours) at ${roomTemp}°${tempUnit}
+       - Step 4: Remove from Refrigerator (let rest at ${room})
+       - Step 5: Divide and Ball (5-10 minutes) at ${room}
+       - Step 6: Final Proof (1-2 hours) at ${room}
        - Step 7: Begin Oven Preheat (see oven-specific instructions above)
        - Step 8: Shape and Bake
 
 3. For temperature analysis:
-   - Room temperature is EXACTLY: ${roomTemp}°${tempUnit} 
+   - Room temperature is EXACTLY: ${room} 
    - The "roomTemp" field MUST be ${roomTemp} (just the number)
-   - Explain how ${roomTemp}°${tempUnit} affects fermentation rate
-   - NEVER convert ${roomTemp}°${tempUnit} to any other unit or value
+   - Explain how ${room} affects fermentation rate
+   - NEVER convert ${room} to any other unit or value
 
 4. For each detailed analysis section:
    - flourAnalysis: 
      * Explain why certain flours work best for this style
      * Include specific protein content ranges
      * Always include the "flours" array with at least one flour type
+     * We recommend ${flourRecommendation(data).primary.name} for this recipe - stay consistent with it
      * For Neapolitan, only recommend authentic Italian flours
      
    - hydrationAnalysis:
-     * Explain why ${data.recipe.hydration}% hydration is appropriate (or suggest adjustments)
+     * Explain why ${adjustHydration(data.recipe.hydration, altitudeFor(data))}% hydration is appropriate (or suggest adjustments)
      * Include at least 3 specific impacts on dough characteristics
      * Recommend adjustments based on flour type if needed
      
@@ -468,8 +335,9 @@ Instructions:
      * Provide tips on oil incorporation
      
    - yeastAnalysis:
-     * Recommend specific percentage based on fermentation time and temperature
-     * Explain how ${data.recipe.yeast.type} works at ${roomTemp}°${tempUnit}
+     * The "percentage" field MUST be exactly ${yeast.percentage}
+     * Explain why ${yeast.percentage}% ${data.recipe.yeast.type} suits this fermentation time and temperature
+     * Explain how ${data.recipe.yeast.type} works at ${room}
      * Include temperature considerations
      
    - fermentationAnalysis:
@@ -480,474 +348,409 @@ Instructions:
    - techniqueGuidance:
      * Provide specific mixing instructions
      * Include folding/shaping techniques
-     * Give baking tips appropriate for ${data.environment?.ovenType} oven:
-       - For home oven:
-         * Place stone/steel on middle rack
-         * Preheat thoroughly for 1 hour minimum
-         * Use broiler method if available
-         * Consider turning method between bakes
-       - For outdoor pizza oven:
-         * Manage flame size and position
-         * Rotate pizza frequently
-         * Monitor floor temperature
-         * Adjust flame between bakes
+     * Give baking tips for the ${oven.label}, which bakes in ${describeBakeTime(oven)}:
+       - ${oven.bakingTip}
 
 5. Consider these specific parameters:
-   - Dough balls: ${data.doughBalls} x ${data.weightPerBall}g
-   - Hydration: ${data.recipe.hydration}%
+${styleInstructions(data)}   - ${portionsFor(data)}
+   - Hydration: ${adjustHydration(data.recipe.hydration, altitudeFor(data))}%
    - Salt: ${data.recipe.salt}%
    - Oil: ${data.recipe.oil !== null ? data.recipe.oil + '%' : 'none'}
    - Yeast type: ${data.recipe.yeast.type}
-   - Flour mix: ${data.recipe.flourMix ? JSON.stringify(data.recipe.flourMix) : 'single flour'}
-
-6. Adjust yeast percentage based on:
-   - Fermentation type: ${data.fermentation.schedule}
-   - Room temperature: ${roomTemp}°${tempUnit}
-   - Total fermentation time: ${usesColdFermentation 
-       ? Number(schedule.room.duration.split('-')[0]) + Number(schedule.cold?.duration.split('-')[0])
-       : Number(schedule.room.duration.split('-')[0])} hours minimum
-   - For quick fermentation: use higher yeast percentage (0.5% - 1%)
-   - For same-day: moderate yeast (0.2% - 0.5%)
-   - For overnight/cold: very low yeast (0.05% - 0.1%)
+   - Flour: ${flourDescription(data)}
+   - Sweeteners: ${describeSweeteners(sweetenersFor(data))}
+   - Browning: ${browningAdvice(data)}
+   - Leavening: ${data.recipe.preferment
+       ? `${data.recipe.preferment.type} at ${data.recipe.preferment.hydration}% hydration, ${data.recipe.preferment.percentage}% ${data.recipe.preferment.type === 'levain' ? 'inoculation' : 'of the flour'}`
+       : 'direct (yeast added to the final mix)'}
 
+6. Yeast percentage is already calculated - DO NOT choose a different value:
+   - ${yeast.percentage}% ${data.recipe.yeast.type} (${yeast.idyPercentage}% instant dry yeast equivalent)
+   - ${yeast.isCustom
+       ? 'Set manually by the baker'
+       : `Calculated from ${yeast.equivalentHours} equivalent fermentation hours at 25°C`}
+   - Fermentation stages: ${yeast.phases.map(phase => `${phase.name} ${phase.hours}h at ${formatTemperature(phase.temperature, data.environment.tempUnit, 0)}`).join(', ')}
+   - Only explain this number, never replace it
+${altitudeInstructions(data)}
 7. IMPORTANT: 
-   - NEVER CONVERT ${roomTemp}°${tempUnit} to any other temperature - use exactly as provided
+   - NEVER CONVERT ${room} to any other temperature - use exactly as provided
    - All analysis sections MUST have complete content
+   - Return the sections in the order shown above
    - Keep descriptions informative but concise
 
 Recipe details to analyze: ${JSON.stringify(data)}`;
 };
 
-// Add interface for raw timeline step
-interface RawTimelineStep {
-  time?: string;
-  action?: string;
-  step?: string;
-  why?: string;
-  description?: string;
-  temperature?: number | string;
-  tips?: string[];
+// Temperatures come in the baker's unit; the calculations work in °C and
+// every temperature shown goes back out through formatTemperature
+function roomTempText(data: RecipeInput): string {
+  return formatTemperature(toCelsius(data.environment.roomTemp, data.environment.tempUnit), data.environment.tempUnit);
 }
 
-// Add new helper function to validate and repair JSON structure
-function validateAndRepairJsonStructure(jsonStr: string): string {
-  // Track opening and closing brackets
-  const stack: { char: string; pos: number }[] = [];
-  const repairs: { pos: number; fix: string }[] = [];
-  
-  // First pass: find mismatched brackets and track positions
-  for (let i = 0; i < jsonStr.length; i++) {
-    const char = jsonStr[i];
-    if (char === '{' || char === '[') {
-      stack.push({ char, pos: i });
-    } else if (char === '}' || char === ']') {
-      if (stack.length === 0) {
-        // Found closing bracket without matching opening
-        repairs.push({ pos: i, fix: char === '}' ? '{' : '[' });
-      } else {
-        const last = stack[stack.length - 1];
-        if ((char === '}' && last.char === '[') || (char === ']' && last.char === '{')) {
-          // Mismatched bracket types
-          repairs.push({ pos: i, fix: last.char === '[' ? ']' : '}' });
-        }
-        stack.pop();
-      }
-    }
+// Fridge temperature as entered by the user, or a typical fridge if none was given
+function fridgeTempText(data: RecipeInput): string {
+  const tempUnit = data.environment.tempUnit;
+  const fridgeTemp = data.fermentation.temperature.cold;
+  if (fridgeTemp !== null) {
+    return formatTemperature(toCelsius(fridgeTemp, tempUnit), tempUnit);
   }
+  return formatTemperature(DEFAULT_FRIDGE_TEMP_C, tempUnit, 0);
+}
 
-  // Add missing closing brackets
-  while (stack.length > 0) {
-    const last = stack.pop()!;
-    repairs.push({ pos: jsonStr.length, fix: last.char === '{' ? '}' : ']' });
-  }
+// The preferment build always comes before the initial mix, with the exact grams
+function prefermentInstructions(data: RecipeInput, yeast: YeastCalculation): string {
+  const split = computePreferment(data, calculateWeights(toBakersFormula(data, yeast.percentage)));
+  if (!split) return '';
 
-  // Apply repairs from end to start to maintain positions
-  let repairedJson = jsonStr;
-  repairs.sort((a, b) => b.pos - a.pos).forEach(repair => {
-    repairedJson = repairedJson.slice(0, repair.pos) + repair.fix + repairedJson.slice(repair.pos);
-  });
+  const build = describePrefermentBuild(split);
+  return `   - This dough uses a ${split.preferment.type}. The FIRST step MUST be "${build.name}" (${build.hours} hours at ${roomTempText(data)}): ${build.description}
+   - "Initial Mix" comes after the ${split.preferment.type} build and combines it with ${split.finalMix.flour}g flour and ${split.finalMix.water}g water
+   - Renumber the steps listed below accordingly
+`;
+}
 
-  return repairedJson;
+// Pan pizzas are portioned per pan, so the model should shape and proof them in it
+function portionsFor(data: RecipeInput): string {
+  if (!data.pan) return `Dough balls: ${data.doughBalls} x ${data.weightPerBall}g`;
+  return `Pans: ${describePans(data.pan)}, ${data.weightPerBall}g of dough each`;
 }
 
-function cleanResponse(content: string, data: RecipeInput): string {
-  console.log('Raw response from LLM:', content);
-  try {
-    // Find the outermost JSON object
-    const jsonStart = content.indexOf('{');
-    const jsonEnd = content.lastIndexOf('}');
-    if (jsonStart === -1 || jsonEnd === -1) {
-      console.error('No JSON object found in response');
-      throw new Error('No JSON object found');
-    }
-    
-    // Extract just the JSON part and trim any whitespace
-    let jsonStr = content.slice(jsonStart, jsonEnd + 1).trim();
-
-    // --- START JSON STRUCTURE CLEANUP ---
-    const roomTemp = data.environment.roomTemp;
-    const tempUnit = data.environment.tempUnit;
-    const refrigTempText = tempUnit === 'F' ? '39°F' : '4°C';
-
-    // 1. Fix temperature values first
-    jsonStr = jsonStr
-      // Fix double temperature units
-      .replace(/(\d+\.?\d*)\s*°[CF]"?°[CF]"?/g, `$1°${tempUnit}`)
-      // Fix temperature with extra quotes and commas
-      .replace(/"temperature"\s*:\s*["']?\s*,?\s*(\d+\.?\d*)\s*°?[CF]?"?\s*["']?/g, 
-        (match, temp) => {
-          const numTemp = parseFloat(temp);
-          // If the temperature is around 22.2 (converted from 72F), use original room temp
-          if (Math.abs(numTemp - 22.2) < 0.1) {
-            return `"temperature": "${roomTemp}°${tempUnit}"`;
-          }
-          return `"temperature": "${numTemp}°${tempUnit}"`;
-        })
-      // Fix any remaining incorrect temperatures
-      .replace(/22\.2°[CF]/g, `${roomTemp}°${tempUnit}`);
-
-    // 2. Fix general JSON structure issues
-      jsonStr = jsonStr
-      // Remove extra commas before values
-      .replace(/:\s*,\s*"([^"]+)"/g, ': "$1"')
-      .replace(/:\s*,\s*(\d+)/g, ': $1')
-      // Fix multiple quotes
-      .replace(/"{2,}/g, '"')
-      // Fix multiple commas
-      .replace(/,{2,}/g, ',')
-      // Remove trailing commas before closing brackets
-        .replace(/,(\s*[}\]])/g, '$1')
-      // Fix missing commas between array elements
-      .replace(/](\s*)\[/g, '], [')
-      .replace(/}(\s*)\{/g, '}, {')
-      // Remove any stray temperature units
-      .replace(/,\s*"?°[CF]"?/g, '');
-
-    // 3. Ensure correct temperature values in analysis sections
-    jsonStr = jsonStr
-      .replace(/"roomTemp"\s*:\s*22\.2/g, `"roomTemp": ${roomTemp}`)
-      .replace(/22\.2°[CF]/g, `${roomTemp}°${tempUnit}`);
-
-    console.log('Pre-processed JSON string:', jsonStr);
-
-    // First try to parse as is
-    try {
-      let parsed = JSON.parse(jsonStr);
-      
-      // --- START FINAL TEMPERATURE VALIDATION ---
-      // Force correct temperature format in process timeline
-      if (parsed.processTimeline?.steps) {
-        parsed.processTimeline.steps = parsed.processTimeline.steps.map((step: any) => ({
-          ...step,
-          temperature: step.isRefrigeration === true 
-            ? refrigTempText 
-            : `${roomTemp}°${tempUnit}`
-        }));
-      }
+// The baker's own style when they picked one, otherwise the built-in
+function styleFor(data: RecipeInput): StyleDefinition | undefined {
+  return data.stylePreset ?? PIZZA_STYLES[data.style];
+}
 
-      // Force correct temperature in temperatureAnalysis
-      if (parsed.temperatureAnalysis) {
-        parsed.temperatureAnalysis = {
-          ...parsed.temperatureAnalysis,
-          roomTemp: roomTemp
-        };
-      }
-      // --- END FINAL TEMPERATURE VALIDATION ---
+// A baker's own style is unknown to the model, so it gets the whole definition
+function styleInstructions(data: RecipeInput): string {
+  const preset = data.stylePreset;
+  if (!preset) return '';
 
-      return JSON.stringify(sanitizeResponse(parsed, data));
-    } catch (parseError) {
-      console.error('Initial JSON parse error:', parseError);
-      throw parseError;
-    }
-  } catch (error) {
-    console.error('Error cleaning response:', error);
-    throw error;
-  }
+  const { room, cold } = preset.fermentationTime;
+  return `   - Style: ${preset.name}, a ${PIZZA_STYLES[data.style]?.name ?? data.style} variant${preset.description ? ` - ${preset.description}` : ''}
+   - Style ranges: hydration ${preset.hydrationRange.min}-${preset.hydrationRange.max}%, salt ${preset.saltRange.min}-${preset.saltRange.max}%, room fermentation ${room.min}-${room.max}h, cold fermentation ${cold.min}-${cold.max}h
+${preset.signatureCharacteristics.length ? `   - Style characteristics: ${preset.signatureCharacteristics.join('; ')}\n` : ''}`;
 }
 
-// Add a helper function to validate array structures
-function validateArrayStructure(obj: any): any {
-  if (Array.isArray(obj)) {
-    return obj.map(item => validateArrayStructure(item)).filter(item => item !== undefined);
-  } else if (typeof obj === 'object' && obj !== null) {
-    const result: any = {};
-    for (const [key, value] of Object.entries(obj)) {
-      if (value !== undefined) {
-        result[key] = validateArrayStructure(value);
-      }
-    }
-    return result;
+// The single flour counts as 100% of the mix
+function flourFor(data: RecipeInput): FlourPortion[] | null {
+  if (data.recipe.flourMix?.length) return data.recipe.flourMix;
+  return data.recipe.flour ? [{ type: data.recipe.flour, percentage: 100 }] : null;
+}
+
+// The blend's protein and W come from the flour database, with any mismatch for the style
+function flourDescription(data: RecipeInput): string {
+  const flours = flourFor(data);
+  if (!flours) return 'not specified';
+
+  const mix = flours.map(flour => `${flour.percentage}% ${flour.type}`).join(' + ');
+  const blend = blendFlour(flours);
+  if (!blend) return mix;
+
+  const style = styleFor(data);
+  const warnings = style ? flourBlendWarnings(blend, style.idealFlourProfile, style.name) : [];
+  return `${mix} (${describeBlend(blend)})${warnings.map(warning => `\n   - Flour warning: ${warning}`).join('')}`;
+}
+
+// Flour picks come from the catalog, so they are real products with real specs
+function flourRecommendation(data: RecipeInput): AnalysisSections['flourRecommendation'] {
+  const flours = flourFor(data);
+  const recommendation = recommendFlours(styleFor(data)?.idealFlourProfile ?? null, {
+    region: data.environment.region,
+    protein: flours ? blendFlour(flours)?.protein : undefined
+  });
+  const choice = (flour: CatalogFlour) => ({
+    name: flourLabel(flour),
+    protein: `${flour.protein}%`,
+    description: describeCatalogFlour(flour)
+  });
+
+  if (!recommendation) {
+    return { primary: { name: 'Bread Flour', protein: '12.7%', description: 'Strong flour for long fermentation' }, alternatives: [] };
   }
-  return obj;
+  return { primary: choice(recommendation.primary), alternatives: recommendation.alternatives.map(choice) };
 }
 
-// Update sanitizeResponse to accept data parameter and enforce temperature format
-function sanitizeResponse(parsed: any, data: RecipeInput): any {
-  const validated = validateArrayStructure(parsed);
-  
-  // Get temperature values from input data
-  const roomTemp = data.environment.roomTemp;
+function ovenFor(data: RecipeInput): OvenProfile {
+  return ovenProfile(data.environment.ovenType);
+}
+
+function sweetenersFor(data: RecipeInput): SweetenerAmounts {
+  return { sugar: data.recipe.sugar ?? 0, malt: data.recipe.malt ?? 0, honey: data.recipe.honey ?? 0 };
+}
+
+// What the oven and style call for, and what's wrong with what the baker chose
+function browningAdvice(data: RecipeInput): string {
+  const oven = ovenFor(data);
+  const recommendation = sweetenerRecommendation(data.style as PizzaStyle, oven);
+  const warnings = sweetenerWarnings(sweetenersFor(data), oven);
+  return `${recommendation.reason} (recommended: ${describeSweeteners(recommendation)})${warnings.map(warning => `\n   - Sweetener warning: ${warning}`).join('')}`;
+}
+
+function altitudeFor(data: RecipeInput): AltitudeCorrections | null {
+  return altitudeCorrections(data.environment.altitude, altitudeUnitFor(data.environment.tempUnit));
+}
+
+function altitudeAdjustments(data: RecipeInput): AltitudeAdjustment[] {
+  const oven = ovenFor(data);
+  return describeAltitudeAdjustments({
+    corrections: altitudeFor(data),
+    yeast: { before: seaLevelYeast(data), after: computeYeast(data) },
+    hydration: data.recipe.hydration,
+    schedule: data.fermentation.schedule as FermentationSchedule,
+    stageHours: data.fermentation.stageHours,
+    bakeTempF: oven.bakeTempF,
+    maxTempF: oven.maxFloorTempF,
+    tempUnit: data.environment.tempUnit
+  });
+}
+
+// The numbers are already corrected; the model only explains them
+function altitudeInstructions(data: RecipeInput): string {
+  const adjustments = altitudeAdjustments(data);
+  if (adjustments.length === 0) return '';
+
+  return `
+   ALTITUDE CORRECTIONS are already applied to the numbers above - explain them, never undo them:
+${adjustments.map(adjustment => `   - ${adjustment.note}`).join('\n')}
+`;
+}
+
+// Yeast comes from the fermentation model, never from the LLM
+function computeYeast(data: RecipeInput): YeastCalculation {
+  return adjustYeast(seaLevelYeast(data), altitudeFor(data));
+}
+
+function seaLevelYeast(data: RecipeInput): YeastCalculation {
   const tempUnit = data.environment.tempUnit;
-  const refrigTempText = tempUnit === 'F' ? '39°F' : '4°C';
-
-  // FORCE correct temperature values throughout the entire response
-  function forceCorrectTemperature(obj: any): any {
-    if (!obj) return obj;
-    
-    if (Array.isArray(obj)) {
-      return obj.map(item => forceCorrectTemperature(item));
-    }
-    
-    if (typeof obj === 'object') {
-      const newObj: any = {};
-      for (const [key, value] of Object.entries(obj)) {
-        if (key === 'temperature') {
-          // For any temperature field, force the correct value
-          newObj[key] = obj.isRefrigeration === true ? refrigTempText : `${roomTemp}°${tempUnit}`;
-        } else if (key === 'roomTemp' && typeof value === 'number') {
-          // For any roomTemp field that's a number, force the correct value
-          newObj[key] = roomTemp;
-        } else if (key === 'rationale' && typeof value === 'string') {
-          // Replace any converted temperatures in rationale text
-          newObj[key] = value.replace(/22\.2°[CF]/g, `${roomTemp}°${tempUnit}`);
-        } else {
-          // Recursively process nested objects and arrays
-          newObj[key] = forceCorrectTemperature(value);
-        }
-      }
-      return newObj;
-    }
-    
-    return obj;
+  const fridgeTemp = data.fermentation.temperature.cold;
+
+  return calculateYeast({
+    schedule: data.fermentation.schedule as FermentationSchedule,
+    yeastType: data.recipe.yeast.type as YeastType,
+    roomTemp: toCelsius(data.environment.roomTemp, tempUnit),
+    fridgeTemp: fridgeTemp !== null ? toCelsius(fridgeTemp, tempUnit) : undefined,
+    stageHours: data.fermentation.stageHours,
+    customPercentage: data.recipe.yeast.percentage,
+    preferment: data.recipe.preferment?.type
+  });
+}
+
+// Flour and water held in the preferment, taken out of the final mix
+function computePreferment(data: RecipeInput, ingredients: WeightCalculation): PrefermentSplit | null {
+  if (!data.recipe.preferment) return null;
+  return splitPreferment(ingredients, data.recipe.preferment, data.recipe.yeast.type as YeastType);
+}
+
+// Add the preferment build in front of the model's steps if it left it out
+function withPrefermentStep(steps: ProcessStep[], data: RecipeInput, split: PrefermentSplit | null): ProcessStep[] {
+  if (!split) return steps;
+  if (steps.some(step => step.description.toLowerCase().includes(split.preferment.type))) {
+    return steps;
   }
 
-  // Force correct temperatures throughout the entire response
-  const correctedResponse = forceCorrectTemperature(validated);
+  const build = describePrefermentBuild(split);
+  return [
+    {
+      step: 1,
+      description: build.description,
+      duration: `${build.hours} hours`,
+      temperature: `${roomTempText(data)}`,
+      isRefrigeration: false,
+      tips: build.tips
+    },
+    ...steps.map((step, index) => ({ ...step, step: index + 2 }))
+  ];
+}
 
-  // Ensure all required properties exist with correct temperatures
-  const result = {
-    ...correctedResponse,
-    processTimeline: {
-      steps: Array.isArray(correctedResponse.processTimeline?.steps) 
-        ? correctedResponse.processTimeline.steps.map((step: any) => ({
-            ...step,
-            temperature: step.isRefrigeration === true ? refrigTempText : `${roomTemp}°${tempUnit}`
-          }))
-        : []
+// Mixing water that brings the dough to the style's target temperature
+function computeWaterTemp(data: RecipeInput, split: PrefermentSplit | null): WaterTemperature {
+  return calculateWaterTemp({
+    style: data.style as PizzaStyle,
+    roomTemp: data.environment.roomTemp,
+    flourTemp: data.environment.flourTemp,
+    mixer: data.environment.mixer ?? 'hand',
+    // Preferments are built at room temperature
+    prefermentTemp: split ? data.environment.roomTemp : null,
+    waterWeight: split ? split.finalMix.water : calculateWeights(toBakersFormula(data, computeYeast(data).percentage)).waterWeight,
+    unit: data.environment.tempUnit
+  });
+}
+
+// Water temperature goes right before the mix that uses it
+function withWaterStep(steps: ProcessStep[], data: RecipeInput, split: PrefermentSplit | null): ProcessStep[] {
+  const water = computeWaterTemp(data, split);
+  const mixIndex = steps.findIndex(step =>
+    /mix/i.test(step.description) && !(split && step.description.toLowerCase().includes(split.preferment.type))
+  );
+  const at = mixIndex === -1 ? 0 : mixIndex;
+
+  const waterStep: ProcessStep = {
+    step: 0,
+    description: `Prepare Water: ${describeWaterTemp(water)}`,
+    duration: '5 minutes',
+    temperature: `${roomTempText(data)}`,
+    isRefrigeration: false,
+    tips: [
+      ...(water.ice && water.ice.ice > 0 ? ['Stir the ice into the tap water until it has melted, then weigh out the water'] : []),
+      ...water.warnings,
+      `Check the dough right after mixing; it should be close to ${water.targetDoughTemp}°${water.unit}`
+    ]
+  };
+
+  return [...steps.slice(0, at), waterStep, ...steps.slice(at)].map((step, index) => ({ ...step, step: index + 1 }));
+}
+
+// The oven profile decides the preheat and the bake, so the model's own
+// versions of those steps are replaced at the end of the timeline
+function withOvenSteps(steps: ProcessStep[], data: RecipeInput): ProcessStep[] {
+  const oven = ovenFor(data);
+  const bakeTemp = formatTemperature(toCelsius(oven.bakeTempF, 'F'), data.environment.tempUnit, 0);
+  const bakeTime = `${oven.bakeMinutes.min}-${oven.bakeMinutes.max} minutes`;
+
+  const ovenSteps: ProcessStep[] = [
+    {
+      step: 0,
+      description: `Preheat Oven: ${oven.preheat}`,
+      duration: `${oven.preheatMinutes} minutes`,
+      temperature: bakeTemp,
+      isRefrigeration: false,
+      tips: ['Start the preheat during the final proof']
     },
-    temperatureAnalysis: {
-      ...(correctedResponse.temperatureAnalysis || {}),
-      roomTemp: roomTemp,
-      season: correctedResponse.temperatureAnalysis?.season || "Standard",
-      impact: Array.isArray(correctedResponse.temperatureAnalysis?.impact) 
-        ? correctedResponse.temperatureAnalysis.impact 
-        : [],
-      recommendations: Array.isArray(correctedResponse.temperatureAnalysis?.recommendations)
-        ? correctedResponse.temperatureAnalysis.recommendations.map((rec: string) => 
-            rec.replace(/22\.2°[CF]/g, `${roomTemp}°${tempUnit}`)
-          )
-        : [],
-      rationale: (correctedResponse.temperatureAnalysis?.rationale || "").replace(/22\.2°[CF]/g, `${roomTemp}°${tempUnit}`)
+    {
+      step: 0,
+      description: `Shape and Bake: Shape each ball and bake for ${bakeTime}`,
+      duration: `${bakeTime} per pizza`,
+      temperature: bakeTemp,
+      isRefrigeration: false,
+      tips: [oven.bakingTip]
     }
+  ];
+
+  return [...steps.filter(step => !/preheat|\bbake\b/i.test(step.description)), ...ovenSteps]
+    .map((step, index) => ({ ...step, step: index + 1 }));
+}
+
+// Build the weight engine input from the request payload
+function toBakersFormula(data: RecipeInput, yeast: number): BakersFormula {
+  return {
+    style: data.style as PizzaStyle,
+    ballCount: data.doughBalls,
+    ballWeight: data.weightPerBall,
+    hydration: adjustHydration(data.recipe.hydration, altitudeFor(data)),
+    salt: data.recipe.salt,
+    oil: data.recipe.oil ?? 0,
+    ...sweetenersFor(data),
+    flourMix: data.recipe.flourMix ?? undefined,
+    yeast
   };
-  
-  // Ensure detailedAnalysis exists
-  if (!result.detailedAnalysis) {
-    result.detailedAnalysis = {};
-  }
-  
-  // Initialize nested objects
-  const da = result.detailedAnalysis;
-  
-  // Initialize flourAnalysis
-  if (!da.flourAnalysis) {
-    da.flourAnalysis = { rationale: "", flours: [], alternatives: [] };
-  } else {
-    da.flourAnalysis.flours = Array.isArray(da.flourAnalysis.flours) ? da.flourAnalysis.flours : [];
-    da.flourAnalysis.alternatives = Array.isArray(da.flourAnalysis.alternatives) ? da.flourAnalysis.alternatives : [];
-    da.flourAnalysis.rationale = da.flourAnalysis.rationale || "";
-  }
-  
-  // Initialize hydrationAnalysis
-  if (!da.hydrationAnalysis) {
-    da.hydrationAnalysis = { percentage: 65, rationale: "", impact: [] };
-  } else {
-    da.hydrationAnalysis.impact = Array.isArray(da.hydrationAnalysis.impact) ? da.hydrationAnalysis.impact : [];
-    da.hydrationAnalysis.rationale = da.hydrationAnalysis.rationale || "";
-  }
-  
-  // Initialize saltAnalysis
-  if (!da.saltAnalysis) {
-    da.saltAnalysis = { percentage: 2.8, rationale: "", impact: [] };
-  } else {
-    da.saltAnalysis.impact = Array.isArray(da.saltAnalysis.impact) ? da.saltAnalysis.impact : [];
-    da.saltAnalysis.rationale = da.saltAnalysis.rationale || "";
-  }
-  
-  // Initialize oilAnalysis
-  if (!da.oilAnalysis) {
-    da.oilAnalysis = { percentage: 0, rationale: "", impact: [] };
-  } else {
-    da.oilAnalysis.impact = Array.isArray(da.oilAnalysis.impact) ? da.oilAnalysis.impact : [];
-    da.oilAnalysis.rationale = da.oilAnalysis.rationale || "";
-  }
-  
-  // Initialize yeastAnalysis
-  if (!da.yeastAnalysis) {
-    da.yeastAnalysis = { type: "instant", percentage: 0.2, rationale: "", impact: [], temperatureNotes: [] };
-  } else {
-    da.yeastAnalysis.impact = Array.isArray(da.yeastAnalysis.impact) ? da.yeastAnalysis.impact : [];
-    da.yeastAnalysis.temperatureNotes = Array.isArray(da.yeastAnalysis.temperatureNotes) ? da.yeastAnalysis.temperatureNotes : [];
-    da.yeastAnalysis.rationale = da.yeastAnalysis.rationale || "";
-  }
-  
-  // Initialize fermentationAnalysis
-  if (!da.fermentationAnalysis) {
-    da.fermentationAnalysis = {
-      totalTime: 12,
-      type: "same-day",
-      rationale: "",
-      impact: [],
-      roomTemp: { time: 8, temperature: 22, impact: [] },
-      enzymaticActivity: "",
-      gluten: ""
-    };
-  } else {
-    da.fermentationAnalysis.impact = Array.isArray(da.fermentationAnalysis.impact) ? da.fermentationAnalysis.impact : [];
-    
-    // Initialize roomTemp
-    if (!da.fermentationAnalysis.roomTemp) {
-      da.fermentationAnalysis.roomTemp = { time: 8, temperature: 22, impact: [] };
-    } else {
-      da.fermentationAnalysis.roomTemp.impact = Array.isArray(da.fermentationAnalysis.roomTemp.impact) ? 
-        da.fermentationAnalysis.roomTemp.impact : [];
-    }
-    
-    // Initialize coldTemp if it exists
-    if (da.fermentationAnalysis.coldTemp) {
-      da.fermentationAnalysis.coldTemp.impact = Array.isArray(da.fermentationAnalysis.coldTemp.impact) ?
-        da.fermentationAnalysis.coldTemp.impact : [];
-    }
-    
-    da.fermentationAnalysis.rationale = da.fermentationAnalysis.rationale || "";
-    da.fermentationAnalysis.enzymaticActivity = da.fermentationAnalysis.enzymaticActivity || "";
-    da.fermentationAnalysis.gluten = da.fermentationAnalysis.gluten || "";
-  }
-  
-  // Initialize techniqueGuidance
-  if (!da.techniqueGuidance) {
-    da.techniqueGuidance = { handling: "", shaping: "", baking: "" };
-  }
-  
-  return result;
 }
 
-// Update validation function for more robustness
-function validateResponse(response: any, fermentation: FermentationType): boolean {
-  if (!response || typeof response !== 'object') return false;
+// Room-temperature rises run faster at altitude
+function withAltitudeTiming(step: ProcessStep, altitude: AltitudeCorrections | null): ProcessStep {
+  if (!altitude || step.isRefrigeration || !/ferment|proof|rise/i.test(step.description)) return step;
 
-  // Check timeline
-  if (!Array.isArray(response.timeline)) return false;
-  if (response.timeline.length === 0) return false;
-  
-  // Validate timeline items
-  for (const step of response.timeline) {
-    if (!step.instructions || !step.duration || !Array.isArray(step.tips)) {
-      return false;
-    }
-  }
+  const duration = adjustProofDuration(step.duration, altitude);
+  if (!duration || duration === step.duration) return step;
+  return { ...step, duration, tips: [adjustmentNote('Rise time', step.duration, duration, altitude), ...step.tips] };
+}
 
-  // For cold fermentation, ensure refrigeration steps are included
-  if (fermentation.schedule === 'cold') {
-    const timelineText = JSON.stringify(response.timeline).toLowerCase();
-    if (!timelineText.includes('refrigerat') || 
-        !timelineText.includes('cold') || 
-        !timelineText.includes('fridge')) {
-      return false;
-    }
-  }
+// Apply what the server knows better than the model: the baker's own
+// temperatures, the calculated yeast, the altitude corrections, the
+// preferment build step and the oven's preheat and bake
+function finalizeSections(
+  sections: Partial<AnalysisSections>,
+  data: RecipeInput,
+  yeast: YeastCalculation,
+  split: PrefermentSplit | null
+): Partial<AnalysisSections> {
+  const roomTemp = data.environment.roomTemp;
+  const room = roomTempText(data);
+  const altitude = altitudeFor(data);
+  const notes = (name: AltitudeAdjustment['name']) =>
+    altitudeAdjustments(data).filter(adjustment => adjustment.name === name).map(adjustment => adjustment.note);
+  const result = { ...sections };
 
-  // Check detailed analysis
-  if (!response.detailedAnalysis || typeof response.detailedAnalysis !== 'object') return false;
-  
-  // Check flour analysis
-  if (!response.detailedAnalysis.flourAnalysis || 
-      !response.detailedAnalysis.flourAnalysis.recommendation ||
-      !response.detailedAnalysis.flourAnalysis.rationale) {
-    return false;
+  if (result.processTimeline) {
+    const steps = result.processTimeline.steps.map(step => withAltitudeTiming({
+      ...step,
+      temperature: step.isRefrigeration ? fridgeTempText(data) : room
+    }, altitude));
+    result.processTimeline = {
+      steps: withOvenSteps(withWaterStep(withPrefermentStep(steps, data, split), data, split), data)
+    };
   }
-
-  // Check temperature analysis
-  if (!response.detailedAnalysis.temperatureAnalysis ||
-      !response.detailedAnalysis.temperatureAnalysis.rationale) {
-    return false;
+  if (result.temperatureAnalysis) {
+    result.temperatureAnalysis = { ...result.temperatureAnalysis, roomTemp };
   }
-
-  // Check technique guidance
-  if (!Array.isArray(response.techniqueGuidance) || response.techniqueGuidance.length === 0) {
-    return false;
+  if (result.yeastAnalysis) {
+    result.yeastAnalysis = {
+      ...result.yeastAnalysis,
+      type: data.recipe.yeast.type,
+      percentage: yeast.percentage,
+      impact: [...notes('yeast'), ...result.yeastAnalysis.impact]
+    };
   }
-  
-  return true;
+  if (result.hydrationAnalysis && altitude) {
+    result.hydrationAnalysis = {
+      ...result.hydrationAnalysis,
+      percentage: adjustHydration(data.recipe.hydration, altitude),
+      impact: [...notes('hydration'), ...result.hydrationAnalysis.impact]
+    };
+  }
+  if (result.techniqueGuidance && altitude) {
+    result.techniqueGuidance = {
+      ...result.techniqueGuidance,
+      baking: [result.techniqueGuidance.baking, ...notes('oven').map(note => `${note}.`)].join(' ')
+    };
+  }
+
+  return result;
 }
 
-// Fallback response generator for when API times out
-function generateFallbackResponse(data: RecipeInput): any {
-  console.log('Generating fallback response');
+// Deterministic analysis, used for any section the model can't produce
+function generateFallbackAnalysis(data: RecipeInput, yeast: YeastCalculation): RecipeAnalysis {
   const roomTemp = data.environment.roomTemp;
-  const tempUnit = data.environment.tempUnit;
-  const refrigTempText = tempUnit === 'F' ? '39°F' : '4°C';
-  
-  // Calculate basic flour amount (58% of total dough weight)
-  const totalDoughWeight = data.doughBalls * data.weightPerBall;
-  const flourAmount = Math.round(totalDoughWeight * 0.58);
-  const waterAmount = Math.round(flourAmount * (data.recipe.hydration / 100));
-  const saltAmount = Math.round(flourAmount * (data.recipe.salt / 100));
-  const yeastAmount = Math.round(flourAmount * (data.recipe.yeast.type === 'instant' ? 0.005 : 0.015));
+  const room = roomTempText(data);
+  const refrigTempText = fridgeTempText(data);
   
-  // Determine flour type based on style
-  let flourType = "Bread Flour";
-  let proteinContent = 12.7;
+  const ingredients = calculateWeights(toBakersFormula(data, yeast.percentage));
+  const preferment = computePreferment(data, ingredients);
+  const hydration = adjustHydration(data.recipe.hydration, altitudeFor(data));
   
-  if (data.style.toLowerCase().includes('neapolitan')) {
-    flourType = "Caputo 00";
-    proteinContent = 12.5;
-  }
+  const flours = flourRecommendation(data);
+  const flourType = flours.primary.name;
+  const proteinContent = parseFloat(flours.primary.protein);
   
   // Generate timeline steps based on fermentation schedule
-  const timelineSteps = [];
+  const timelineSteps: Omit<ProcessStep, 'step'>[] = [];
   
   if (data.fermentation.schedule === 'quick') {
     timelineSteps.push(
       {
-        step: "Initial Mix",
-        time: "00:00",
-        description: "Mix all ingredients except salt for 1 minute, then add salt and mix until combined",
-        temperature: `${roomTemp}°${tempUnit}`,
+        description: "Initial Mix: Mix all ingredients except salt for 1 minute, then add salt and mix until combined",
+        duration: "10 minutes",
+        temperature: room,
         isRefrigeration: false,
         tips: ["Mix until just combined, avoid overmixing"]
       },
       {
-        step: "Bulk Fermentation",
-        time: "00:30",
-        description: "Let dough rest at room temperature",
-        temperature: `${roomTemp}°${tempUnit}`,
+        description: "Bulk Fermentation: Let dough rest at room temperature",
+        duration: "2 hours",
+        temperature: room,
         isRefrigeration: false,
         tips: ["Cover with plastic wrap to prevent drying"]
       },
       {
-        step: "Divide and Ball",
-        time: "02:30",
-        description: "Divide dough and form into balls",
-        temperature: `${roomTemp}°${tempUnit}`,
+        description: "Divide and Ball: Divide dough and form into balls",
+        duration: "10 minutes",
+        temperature: room,
         isRefrigeration: false,
         tips: ["Dust work surface lightly with flour"]
       },
       {
-        step: "Final Proof",
-        time: "03:30",
-        description: "Let dough balls rest before shaping",
-        temperature: `${roomTemp}°${tempUnit}`,
+        description: "Final Proof: Let dough balls rest before shaping",
+        duration: "1 hour",
+        temperature: room,
         isRefrigeration: false,
         tips: ["Cover to prevent drying"]
       }
@@ -955,50 +758,44 @@ function generateFallbackResponse(data: RecipeInput): any {
   } else if (data.fermentation.schedule === 'overnight' || data.fermentation.schedule === 'cold') {
     timelineSteps.push(
       {
-        step: "Initial Mix",
-        time: "00:00",
-        description: "Mix all ingredients except salt for 1 minute, then add salt and mix until combined",
-        temperature: `${roomTemp}°${tempUnit}`,
+        description: "Initial Mix: Mix all ingredients except salt for 1 minute, then add salt and mix until combined",
+        duration: "10 minutes",
+        temperature: room,
         isRefrigeration: false,
         tips: ["Mix until just combined, avoid overmixing"]
       },
       {
-        step: "Room Temperature Rest",
-        time: "00:30",
-        description: "Let dough rest at room temperature",
-        temperature: `${roomTemp}°${tempUnit}`,
+        description: "Room Temperature Rest: Let dough rest at room temperature",
+        duration: "1.5 hours",
+        temperature: room,
         isRefrigeration: false,
         tips: ["Cover with plastic wrap to prevent drying"]
       },
       {
-        step: "Refrigeration",
-        time: "02:00",
-        description: "Place dough in refrigerator for cold fermentation",
+        description: "Refrigeration: Place dough in refrigerator for cold fermentation",
+        duration: "22 hours",
         temperature: refrigTempText,
         isRefrigeration: true,
         tips: ["Store in airtight container", "Keep away from strong odors"]
       },
       {
-        step: "Remove from Refrigerator",
-        time: "24:00",
-        description: "Let dough warm up to room temperature",
-        temperature: `${roomTemp}°${tempUnit}`,
+        description: "Remove from Refrigerator: Let dough warm up to room temperature",
+        duration: "1 hour",
+        temperature: room,
         isRefrigeration: false,
         tips: ["Allow 1-2 hours to warm up before dividing"]
       },
       {
-        step: "Divide and Ball",
-        time: "25:00",
-        description: "Divide dough and form into balls",
-        temperature: `${roomTemp}°${tempUnit}`,
+        description: "Divide and Ball: Divide dough and form into balls",
+        duration: "10 minutes",
+        temperature: room,
         isRefrigeration: false,
         tips: ["Handle gently to preserve gas bubbles"]
       },
       {
-        step: "Final Proof",
-        time: "26:00",
-        description: "Let dough balls rest before shaping",
-        temperature: `${roomTemp}°${tempUnit}`,
+        description: "Final Proof: Let dough balls rest before shaping",
+        duration: "1 hour",
+        temperature: room,
         isRefrigeration: false,
         tips: ["Cover to prevent drying"]
       }
@@ -1007,87 +804,61 @@ function generateFallbackResponse(data: RecipeInput): any {
     // Same-day fermentation (default)
     timelineSteps.push(
       {
-        step: "Initial Mix",
-        time: "00:00",
-        description: "Mix all ingredients except salt for 1 minute, then add salt and mix until combined",
-        temperature: `${roomTemp}°${tempUnit}`,
+        description: "Initial Mix: Mix all ingredients except salt for 1 minute, then add salt and mix until combined",
+        duration: "10 minutes",
+        temperature: room,
         isRefrigeration: false,
         tips: ["Mix until just combined, avoid overmixing"]
       },
       {
-        step: "Bulk Fermentation",
-        time: "00:30",
-        description: "Let dough rest at room temperature",
-        temperature: `${roomTemp}°${tempUnit}`,
+        description: "Bulk Fermentation: Let dough rest at room temperature",
+        duration: "5.5 hours",
+        temperature: room,
         isRefrigeration: false,
         tips: ["Cover with plastic wrap to prevent drying", "Perform 1-2 stretch and folds during this time"]
       },
       {
-        step: "Divide and Ball",
-        time: "06:00",
-        description: "Divide dough and form into balls",
-        temperature: `${roomTemp}°${tempUnit}`,
+        description: "Divide and Ball: Divide dough and form into balls",
+        duration: "10 minutes",
+        temperature: room,
         isRefrigeration: false,
         tips: ["Dust work surface lightly with flour"]
       },
       {
-        step: "Final Proof",
-        time: "07:00",
-        description: "Let dough balls rest before shaping",
-        temperature: `${roomTemp}°${tempUnit}`,
+        description: "Final Proof: Let dough balls rest before shaping",
+        duration: "1 hour",
+        temperature: room,
         isRefrigeration: false,
         tips: ["Cover to prevent drying"]
       }
     );
   }
+
+  // The preferment is built ahead of the initial mix
+  if (preferment) {
+    const build = describePrefermentBuild(preferment);
+    timelineSteps.unshift({
+      description: `${build.name}: ${build.description}`,
+      duration: `${build.hours} hours`,
+      temperature: room,
+      isRefrigeration: false,
+      tips: build.tips
+    });
+    timelineSteps[1].description = `Initial Mix: Mix the ${preferment.preferment.type} with ${preferment.finalMix.flour}g flour, ${preferment.finalMix.water}g water and the remaining ingredients, adding the salt last`;
+  }
   
   return {
-    ingredients: {
-      flour: {
-        total: flourAmount,
-        flours: [
-          { type: flourType, amount: flourAmount }
-        ]
-      },
-      water: {
-        amount: waterAmount
-      },
-      salt: {
-        amount: saltAmount
-      },
-      yeast: {
-        type: data.recipe.yeast.type,
-        amount: yeastAmount
-      }
-    },
     processTimeline: {
-      steps: timelineSteps
-    },
-    flourRecommendation: {
-      primary: {
-        name: flourType,
-        protein: `${proteinContent}%`,
-        description: data.style.toLowerCase().includes('neapolitan') 
-          ? "Traditional Italian flour ideal for Neapolitan pizzas" 
-          : "High protein flour perfect for chewy, foldable crust"
-      },
-      alternatives: [
-        {
-          name: data.style.toLowerCase().includes('neapolitan') ? "King Arthur 00" : "All Trumps",
-          protein: data.style.toLowerCase().includes('neapolitan') ? "11.8%" : "14.2%",
-          description: data.style.toLowerCase().includes('neapolitan') 
-            ? "American alternative to Italian 00" 
-            : "Very high protein flour for extra chew"
-        }
-      ]
+      steps: timelineSteps.map((step, index) => ({ step: index + 1, ...step }))
     },
+    flourRecommendation: flours,
     temperatureAnalysis: {
       roomTemp: roomTemp,
-      rationale: `At ${roomTemp}°${tempUnit}, fermentation will proceed at a moderate rate. Adjust fermentation time accordingly.`,
+      rationale: `At ${room}, fermentation will proceed at a moderate rate. Adjust fermentation time accordingly.`,
       recommendations: [
-        `For ${roomTemp}°${tempUnit}, the given timeframes should work well.`,
-        `If your kitchen is warmer than ${roomTemp}°${tempUnit}, reduce fermentation time slightly.`,
-        `If your kitchen is cooler than ${roomTemp}°${tempUnit}, extend fermentation time slightly.`
+        `For ${room}, the given timeframes should work well.`,
+        `If your kitchen is warmer than ${room}, reduce fermentation time slightly.`,
+        `If your kitchen is cooler than ${room}, extend fermentation time slightly.`
       ]
     },
     detailedAnalysis: {
@@ -1107,10 +878,10 @@ function generateFallbackResponse(data: RecipeInput): any {
         ]
       },
       hydrationAnalysis: {
-        percentage: data.recipe.hydration,
-        rationale: `${data.recipe.hydration}% hydration provides a good balance of workability and texture for ${data.style} style.`,
+        percentage: hydration,
+        rationale: `${hydration}% hydration provides a good balance of workability and texture for ${data.style} style.`,
         impact: [
-          `${data.recipe.hydration}% hydration creates a moderately open crumb structure`,
+          `${hydration}% hydration creates a moderately open crumb structure`,
           "Higher hydration requires more skill to handle",
           "Lower hydration creates a denser, less airy crust"
         ]
@@ -1135,15 +906,17 @@ function generateFallbackResponse(data: RecipeInput): any {
       },
       yeastAnalysis: {
         type: data.recipe.yeast.type,
-        percentage: 0.5,
-        rationale: `${data.recipe.yeast.type} yeast works well with the ${data.fermentation.schedule} fermentation schedule.`,
+        percentage: yeast.percentage,
+        rationale: yeast.isCustom
+          ? `${yeast.percentage}% ${data.recipe.yeast.type} was set manually for the ${data.fermentation.schedule} fermentation schedule.`
+          : `${yeast.percentage}% ${data.recipe.yeast.type} is calculated from ${yeast.equivalentHours} equivalent fermentation hours at 25°C for the ${data.fermentation.schedule} schedule.`,
         impact: [
           "Controls rise rate during fermentation",
           "Contributes subtle flavor compounds",
           "Interacts with flour enzymes during fermentation"
         ],
         temperatureNotes: [
-          `At ${roomTemp}°${tempUnit}, yeast activity is moderate`,
+          `At ${room}, yeast activity is moderate`,
           `Below 65°F/18°C, yeast activity slows significantly`,
           `Above 85°F/29°C, yeast becomes very active and may create off-flavors`
         ]
@@ -1157,158 +930,289 @@ function generateFallbackResponse(data: RecipeInput): any {
           "Develops complex flavors",
           "Improves digestibility",
           "Creates dough extensibility"
-        ],
-        enzymaticActivity: "Amylase breaks down starches into sugars for yeast consumption and Maillard browning",
-        gluten: "Gluten network develops gradually during fermentation"
+        ]
       },
       techniqueGuidance: {
         mixing: "Mix until ingredients are just incorporated to avoid oxidation",
         folding: "Use gentle stretch and folds to build strength without degassing",
         shaping: "Handle gently to preserve gas bubbles, using minimal flour on work surface",
-        baking: data.environment?.ovenType === 'home' 
-          ? "Preheat stone/steel for at least 1 hour at maximum temperature" 
-          : "Preheat thoroughly, maintain consistent flame, and rotate pizza frequently"
+        baking: `${ovenFor(data).bakingTip}. Bake ${describeBakeTime(ovenFor(data))}.`
       }
     }
   };
 }
 
-// Optimized makeCompletion with retry, timeout, and fallback
-const makeCompletion = async (prompt: string, data: RecipeInput) => {
+// Ask the model for the given sections, constrained to their JSON schema
+async function requestSections(prompt: string, sections: AnalysisSection[]): Promise<unknown> {
+  const content = await withRetryAndTimeout(
+    () => getLLMProvider().complete({
+      system: SYSTEM_MESSAGE,
+      prompt,
+      responseFormat: analysisResponseFormat(sections),
+      temperature: 0.2,
+      maxTokens: 1500
+    }),
+    15000, // 15 second timeout
+    1      // 1 retry (2 attempts total)
+  );
+  return JSON.parse(content);
+}
+
+// Everything but the flour recommendation, which comes from the catalog
+const MODEL_SECTIONS = ANALYSIS_SECTIONS.filter(section => section !== 'flourRecommendation');
+
+// Stream the full analysis, yielding each top-level section once it is complete
+async function* streamSections(prompt: string, signal: AbortSignal): AsyncGenerator<StreamedSection> {
+  const parser = new SectionStreamParser();
+  const chunks = getLLMProvider().stream({
+    system: SYSTEM_MESSAGE,
+    prompt,
+    responseFormat: analysisResponseFormat(MODEL_SECTIONS),
+    temperature: 0.2,
+    maxTokens: 1500,
+    signal
+  });
+
+  for await (const chunk of chunks) {
+    yield* parser.push(chunk);
+  }
+}
+
+// Second pass that only asks for the sections that failed validation
+const REPAIR_PROMPT = (prompt: string, sections: AnalysisSection[], issues: AnalysisIssue[]) => `${prompt}
+
+Your previous answer had these problems:
+${issues.map(issue => `- ${issue.path}: ${issue.message}`).join('\n')}
+
+Return ONLY corrected versions of these sections: ${sections.join(', ')}`;
+
+// Model analysis, validated per section and sent as soon as each one passes.
+// Invalid or missing sections get one regeneration attempt, and anything still
+// invalid comes from the fallback analysis
+async function streamAnalysis(
+  data: RecipeInput,
+  yeast: YeastCalculation,
+  send: (event: AnalysisEvent) => void
+): Promise<ApiResponse> {
+  const ingredients = calculateWeights(toBakersFormula(data, yeast.percentage));
+  const split = computePreferment(data, ingredients);
+  send({ type: 'ingredients', ingredients, ...(split && { preferment: split }) });
+
+  const prompt = PROMPT_TEMPLATE(data, yeast);
+  const sections: Partial<AnalysisSections> = {};
+  const issues: AnalysisIssue[] = [];
+
+  const accept = (section: AnalysisSection, value: unknown) => {
+    const validation = validateSection(section, value);
+    if (!validation.success) {
+      issues.push(...validation.issues);
+      return;
+    }
+    const finalized = finalizeSections({ [section]: validation.data }, data, yeast, split);
+    Object.assign(sections, finalized);
+    send({ type: 'section', section, value: finalized[section] } as AnalysisEvent);
+  };
+
+  // The catalog answers this one, so it goes out before the model starts
+  accept('flourRecommendation', flourRecommendation(data));
+
+  // Stop streaming in time to fill any missing sections before maxDuration
+  const controller = new AbortController();
+  const timeoutId = setTimeout(() => controller.abort(), STREAM_TIMEOUT_MS);
   try {
-    return await withRetryAndTimeout(
-      () => openai.chat.completions.create({
-        model: MODEL,
-        messages: [
-          { role: 'system', content: SYSTEM_MESSAGE },
-          { role: 'user', content: prompt }
-        ],
-        temperature: 0.2,
-        max_tokens: 1500,
-      }),
-      15000, // 15 second timeout
-      1      // 1 retry (2 attempts total)
-    );
+    for await (const { key, value } of streamSections(prompt, controller.signal)) {
+      if (isAnalysisSection(key) && !(key in sections)) {
+        accept(key, value);
+      }
+    }
   } catch (error) {
-    console.error('API call failed after retries:', error);
-    console.log('Falling back to pre-generated response');
-    
-    // Return a mock response that mimics the OpenAI response structure
-    return {
-      choices: [
-        {
-          message: {
-            content: JSON.stringify(generateFallbackResponse(data))
-          }
-        }
-      ]
-    };
+    console.error('Streaming analysis failed:', error);
+  } finally {
+    clearTimeout(timeoutId);
   }
-};
+
+  const missing = ANALYSIS_SECTIONS.filter(section => !(section in sections));
+  let regenerated: AnalysisSection[] = [];
+
+  // After a timeout there is no time left to ask again
+  if (missing.length > 0 && !controller.signal.aborted) {
+    missing
+      .filter(section => !issues.some(issue => issue.path.split('.')[0] === section))
+      .forEach(section => issues.push({ path: section, message: 'Missing from response' }));
+    console.warn('Model response failed validation:', issues);
+
+    try {
+      const repair = (await requestSections(REPAIR_PROMPT(prompt, missing, issues), missing) ?? {}) as Record<string, unknown>;
+      missing.forEach(section => accept(section, repair[section]));
+      regenerated = missing.filter(section => section in sections);
+    } catch (error) {
+      console.error('Regenerating invalid sections failed:', error);
+    }
+  }
+
+  const fallback = generateFallbackAnalysis(data, yeast);
+  const replaced = ANALYSIS_SECTIONS.filter(section => !(section in sections));
+  replaced.forEach(section => accept(section, pickSection(fallback, section)));
+
+  const validation = issues.length > 0 ? { issues, regenerated, replaced } : undefined;
+  send({ type: 'done', cache: replaced.length > 0 ? 'fallback' : 'fresh', ...(validation && { validation }) });
+
+  return {
+    ...mergeSections(fallback, sections),
+    ingredients,
+    ...(split && { preferment: split }),
+    ...(validation && { validation })
+  };
+}
+
+// Replay a cached response as the same events a fresh analysis sends
+function cachedEvents(response: ApiResponse, status: CacheStatus): AnalysisEvent[] {
+  return [
+    { type: 'ingredients', ingredients: response.ingredients, ...(response.preferment && { preferment: response.preferment }) },
+    ...ANALYSIS_SECTIONS.map(section => ({ type: 'section', section, value: pickSection(response, section) }) as AnalysisEvent),
+    { type: 'done', cache: status, ...(response.validation && { validation: response.validation }) }
+  ];
+}
+
+// Newline-delimited JSON, one AnalysisEvent per line
+function eventStream(status: CacheStatus, produce: (send: (event: AnalysisEvent) => void) => Promise<void>): Response {
+  const encoder = new TextEncoder();
+  const body = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const send = (event: AnalysisEvent) => controller.enqueue(encoder.encode(encodeEvent(event)));
+      try {
+        await produce(send);
+      } catch (error) {
+        console.error('Analysis stream error:', error);
+        send({ type: 'error', error: 'Could not generate recipe due to an unexpected error' });
+      } finally {
+        controller.close();
+      }
+    }
+  });
+
+  return new Response(body, {
+    headers: {
+      'Content-Type': 'application/x-ndjson; charset=utf-8',
+      'Cache-Control': 'no-store',
+      [CACHE_STATUS_HEADER]: status
+    }
+  });
+}
+
+// Everything the prompt and the pinned values depend on
+function cacheInputs(data: RecipeInput) {
+  const { style, stylePreset, doughBalls, weightPerBall, pan, recipe, fermentation, environment, analysisPreferences } = data;
+  return { style, stylePreset, doughBalls, weightPerBall, pan, recipe, fermentation, environment, analysisPreferences };
+}
+
+async function cacheAnalysis(cacheKey: string, response: ApiResponse) {
+  const { entry, ttl } = toCacheEntry(response);
+  await analysisCache.set(cacheKey, entry, ttl);
+}
+
+/**
+ * Regenerate a stale analysis after its cached copy has been sent. Edge
+ * runtimes may stop this once the response is done; the next stale hit
+ * then tries again
+ */
+async function revalidate(cacheKey: string, data: RecipeInput) {
+  const lockKey = `analysis:${cacheKey}:revalidating`;
+  if (!await acquireLock(lockKey, STREAM_TIMEOUT_MS / 1000 + 20)) return;
+
+  try {
+    const response = await streamAnalysis(data, computeYeast(data), () => {});
+    await cacheAnalysis(cacheKey, response);
+  } catch (error) {
+    console.error('Revalidating cached analysis failed:', error);
+  } finally {
+    await releaseLock(lockKey);
+  }
+}
 
 // Export API route handler
 export async function POST(request: Request) {
+  let data: RecipeInput;
   try {
-    const data = await request.json() as RecipeInput;
-    
-    // Simplified cache key that still captures essential parameters
-    const cacheKey = `recipe-${data.style}-${Math.round(data.doughBalls)}-${Math.round(data.weightPerBall/10)*10}-${Math.round(data.recipe.hydration)}`;
-
-    // Try to get from cache
-    const cachedResult = await cache.get(cacheKey);
-    if (cachedResult) {
-      console.log('Cache hit - returning cached result');
-      return NextResponse.json(cachedResult);
+    data = await request.json() as RecipeInput;
+  } catch {
+    return NextResponse.json({ error: 'Invalid request body' }, { status: 400 });
+  }
+
+  if (data.stylePreset) {
+    const parsed = styleDefinitionSchema.safeParse(data.stylePreset);
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: 'Invalid style', details: parsed.error.flatten() },
+        { status: 400 }
+      );
     }
-    
-    console.log('Cache miss - requesting from API');
-
-    // Make the API call with simplified prompt
-    const prompt = PROMPT_TEMPLATE(data);
-    console.time('api-call');
-    const completion = await makeCompletion(prompt, data);
-    console.timeEnd('api-call');
-    
-    console.log('Response received (API or fallback)');
-    
-    const content = completion.choices[0].message.content;
-    if (!content) {
-      throw new Error('No content in response');
+    data.stylePreset = parsed.data;
+  }
+
+  if (data.pan) {
+    const parsed = panSettingsSchema.safeParse(data.pan);
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: 'Invalid pan', details: parsed.error.flatten() },
+        { status: 400 }
+      );
     }
-    
-    // Process the response
-    try {
-      console.time('json-processing');
-      
-      let jsonResponse;
-      
-      // First try to directly parse - our fallback is already valid JSON
-      try {
-        jsonResponse = JSON.parse(content);
-      } catch (e) {
-        // If that fails, try to extract JSON from AI response
-        const jsonStart = content.indexOf('{');
-        const jsonEnd = content.lastIndexOf('}');
-        
-        if (jsonStart === -1 || jsonEnd === -1) {
-          throw new Error('No JSON found in response');
-        }
-        
-        // Extract and perform minimal fixes
-        const jsonStr = content.slice(jsonStart, jsonEnd + 1);
-        const fixedJsonStr = jsonStr
-          .replace(/,\s*}/g, '}')
-          .replace(/,\s*]/g, ']')
-          .trim();
-        
-        jsonResponse = JSON.parse(fixedJsonStr);
-      }
-      
-      console.timeEnd('json-processing');
-      
-      // Fix temperature values
-      if (jsonResponse.processTimeline?.steps) {
-        const roomTemp = data.environment.roomTemp;
-        const tempUnit = data.environment.tempUnit;
-        
-        jsonResponse.processTimeline.steps = jsonResponse.processTimeline.steps.map((step: any) => ({
-          ...step,
-          temperature: step.isRefrigeration ? 
-            `${tempUnit === 'F' ? 39 : 4}°${tempUnit}` : 
-            `${roomTemp}°${tempUnit}`
-        }));
-      }
-      
-      // Cache the successful response
-      await cache.set(cacheKey, jsonResponse, 60 * 60 * 24);
-      console.log('Response cached successfully');
-      
-      return NextResponse.json(jsonResponse);
-    } catch (error) {
-      console.error('JSON processing error:', error);
-      
-      // If all else fails, return the fallback response directly
-      const fallback = generateFallbackResponse(data);
-      await cache.set(cacheKey, fallback, 60 * 60 * 24);
-      
-      return NextResponse.json(fallback);
+    data.pan = parsed.data;
+  }
+
+  if (data.recipe.preferment) {
+    const parsed = prefermentSchema.safeParse(data.recipe.preferment);
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: 'Invalid preferment', details: parsed.error.flatten() },
+        { status: 400 }
+      );
     }
-  } catch (error: any) {
-    console.error('API Error:', error);
-    
-    // Last resort error handling - return a basic fallback
-    try {
-      const data = await request.json() as RecipeInput;
-      const fallback = generateFallbackResponse(data);
-      return NextResponse.json(fallback);
-    } catch (e) {
-      // If we can't even parse the request, return a generic error
+    data.recipe.preferment = parsed.data;
+  }
+
+  if (data.fermentation.stageHours) {
+    const parsed = stageHoursSchema.safeParse(data.fermentation.stageHours);
+    if (!parsed.success) {
       return NextResponse.json(
-        { 
-          error: 'Could not generate recipe due to an unexpected error'
-        },
-        { status: 500 }
+        { error: 'Invalid fermentation stages', details: parsed.error.flatten() },
+        { status: 400 }
       );
     }
+    data.fermentation.stageHours = parsed.data;
+  }
+
+  const cacheKey = await analysisCacheKey(cacheInputs(data));
+
+  // Try to get from cache
+  const cached = await analysisCache.get<CachedAnalysis>(cacheKey);
+  if (cached) {
+    const status = cacheStatus(cached);
+    if (status === 'stale') {
+      void revalidate(cacheKey, data);
+    }
+    return eventStream(status, async send => cachedEvents(cached.response, status).forEach(send));
   }
-} 
\ No newline at end of file
+
+  const yeast = computeYeast(data);
+
+  const flourError = data.recipe.flourMix ? flourMixError(data.recipe.flourMix) : null;
+  if (flourError) {
+    return NextResponse.json({ error: flourError }, { status: 400 });
+  }
+
+  // Reject preferments that don't fit in the dough before spending an API call
+  try {
+    computePreferment(data, calculateWeights(toBakersFormula(data, yeast.percentage)));
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Invalid preferment';
+    return NextResponse.json({ error: message }, { status: 400 });
+  }
+
+  // The header says fresh; one that needed fallback sections says so in its done event
+  return eventStream('fresh', async send => {
+    const response = await streamAnalysis(data, yeast, send);
+    await cacheAnalysis(cacheKey, response);
+  });
+}
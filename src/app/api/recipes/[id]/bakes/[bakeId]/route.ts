@@ -0,0 +1,31 @@
+import { NextResponse } from 'next/server';
+import { getCurrentUser } from '@/lib/auth';
+import { db } from '@/lib/db';
+import { findOwnRecipe } from '@/lib/recipes/access';
+
+// Prisma needs the Node.js runtime
+export const runtime = 'nodejs';
+
+interface RouteContext {
+  params: { id: string; bakeId: string };
+}
+
+export async function DELETE(_request: Request, { params }: RouteContext) {
+  const user = await getCurrentUser();
+  if (!user) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  if (!(await findOwnRecipe(params.id, user.id))) {
+    return NextResponse.json({ error: 'Recipe not found' }, { status: 404 });
+  }
+
+  const { count } = await db.bake.deleteMany({
+    where: { id: params.bakeId, recipeId: params.id }
+  });
+  if (count === 0) {
+    return NextResponse.json({ error: 'Bake not found' }, { status: 404 });
+  }
+
+  return new NextResponse(null, { status: 204 });
+}
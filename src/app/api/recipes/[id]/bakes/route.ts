@@ -0,0 +1,72 @@
+import { NextResponse } from 'next/server';
+import { getCurrentUser } from '@/lib/auth';
+import { db } from '@/lib/db';
+import { findOwnRecipe } from '@/lib/recipes/access';
+import { createBakeSchema } from '@/lib/recipes/schema';
+
+// Prisma needs the Node.js runtime
+export const runtime = 'nodejs';
+
+interface RouteContext {
+  params: { id: string };
+}
+
+export async function GET(_request: Request, { params }: RouteContext) {
+  const user = await getCurrentUser();
+  if (!user) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  if (!(await findOwnRecipe(params.id, user.id))) {
+    return NextResponse.json({ error: 'Recipe not found' }, { status: 404 });
+  }
+
+  const bakes = await db.bake.findMany({
+    where: { recipeId: params.id },
+    orderBy: { bakedAt: 'desc' }
+  });
+
+  return NextResponse.json({ bakes });
+}
+
+export async function POST(request: Request, { params }: RouteContext) {
+  const user = await getCurrentUser();
+  if (!user) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const parsed = createBakeSchema.safeParse(await request.json().catch(() => null));
+  if (!parsed.success) {
+    return NextResponse.json(
+      { error: 'Invalid bake', details: parsed.error.flatten() },
+      { status: 400 }
+    );
+  }
+
+  if (!(await findOwnRecipe(params.id, user.id))) {
+    return NextResponse.json({ error: 'Recipe not found' }, { status: 404 });
+  }
+
+  try {
+    // Without an explicit version the bake is logged against the latest one
+    const recipeVersion = parsed.data.recipeVersion ?? (await db.recipeVersion.findFirst({
+      where: { recipeId: params.id },
+      orderBy: { version: 'desc' },
+      select: { version: true }
+    }))?.version ?? null;
+
+    const bake = await db.bake.create({
+      data: {
+        ...parsed.data,
+        recipeVersion,
+        recipeId: params.id,
+        userId: user.id
+      }
+    });
+
+    return NextResponse.json({ bake }, { status: 201 });
+  } catch (error) {
+    console.error('Error logging bake:', error);
+    return NextResponse.json({ error: 'Failed to log bake' }, { status: 500 });
+  }
+}
@@ -0,0 +1,133 @@
+import { NextResponse } from 'next/server';
+import { Prisma } from '@prisma/client';
+import { getCurrentUser } from '@/lib/auth';
+import { db } from '@/lib/db';
+import { findOwnRecipe } from '@/lib/recipes/access';
+import { updateRecipeSchema } from '@/lib/recipes/schema';
+import { settingsToFlour, settingsToWeights } from '@/lib/recipes/formula';
+import type { WeightCalculation } from '@/lib/dough/weights';
+
+// Prisma needs the Node.js runtime
+export const runtime = 'nodejs';
+
+const VERSION_ATTEMPTS = 3;
+
+const isUniqueViolation = (error: unknown) =>
+  error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002';
+
+interface RouteContext {
+  params: { id: string };
+}
+
+export async function GET(_request: Request, { params }: RouteContext) {
+  const user = await getCurrentUser();
+  if (!user) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const recipe = await findOwnRecipe(params.id, user.id);
+  if (!recipe) {
+    return NextResponse.json({ error: 'Recipe not found' }, { status: 404 });
+  }
+
+  return NextResponse.json({ recipe });
+}
+
+export async function PATCH(request: Request, { params }: RouteContext) {
+  const user = await getCurrentUser();
+  if (!user) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const parsed = updateRecipeSchema.safeParse(await request.json().catch(() => null));
+  if (!parsed.success) {
+    return NextResponse.json(
+      { error: 'Invalid recipe', details: parsed.error.flatten() },
+      { status: 400 }
+    );
+  }
+
+  if (!(await findOwnRecipe(params.id, user.id))) {
+    return NextResponse.json({ error: 'Recipe not found' }, { status: 404 });
+  }
+
+  const { name, notes, settings, analysis } = parsed.data;
+
+  // Settings that pass the schema can still make an impossible dough
+  let ingredients: WeightCalculation | undefined;
+  try {
+    ingredients = settings ? settingsToWeights(settings) : undefined;
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Invalid recipe settings';
+    return NextResponse.json({ error: message }, { status: 400 });
+  }
+
+  // null clears the stored analysis, undefined leaves it alone
+  const storedAnalysis = analysis === null ? Prisma.DbNull : analysis;
+
+  // New parameters never overwrite history, they become the next version
+  const saveVersion = () => db.$transaction(async (tx: Prisma.TransactionClient) => {
+    if (settings) {
+      const latest = await tx.recipeVersion.findFirst({
+        where: { recipeId: params.id },
+        orderBy: { version: 'desc' },
+        select: { version: true }
+      });
+      await tx.recipeVersion.create({
+        data: {
+          recipeId: params.id,
+          version: (latest?.version ?? 0) + 1,
+          settings,
+          ingredients,
+          analysis: storedAnalysis
+        }
+      });
+    }
+
+    return tx.recipe.update({
+      where: { id: params.id },
+      data: {
+        ...(name !== undefined && { name }),
+        ...(notes !== undefined && { notes }),
+        ...(analysis !== undefined && { analysis: storedAnalysis }),
+        ...(settings && {
+          settings,
+          ingredients,
+          style: settings.style,
+          hydration: settings.hydration,
+          flour: settingsToFlour(settings)
+        })
+      }
+    });
+  });
+
+  try {
+    // Two saves can read the same latest version; the unique index turns
+    // the loser away and it tries again with the next number
+    for (let attempt = 1; ; attempt++) {
+      try {
+        const recipe = await saveVersion();
+        return NextResponse.json({ recipe });
+      } catch (error) {
+        if (attempt >= VERSION_ATTEMPTS || !isUniqueViolation(error)) throw error;
+      }
+    }
+  } catch (error) {
+    console.error('Error updating recipe:', error);
+    return NextResponse.json({ error: 'Failed to update recipe' }, { status: 500 });
+  }
+}
+
+export async function DELETE(_request: Request, { params }: RouteContext) {
+  const user = await getCurrentUser();
+  if (!user) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  if (!(await findOwnRecipe(params.id, user.id))) {
+    return NextResponse.json({ error: 'Recipe not found' }, { status: 404 });
+  }
+
+  await db.recipe.delete({ where: { id: params.id } });
+  return new NextResponse(null, { status: 204 });
+}
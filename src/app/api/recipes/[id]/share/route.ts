@@ -0,0 +1,51 @@
+import { NextResponse } from 'next/server';
+import { getCurrentUser } from '@/lib/auth';
+import { db } from '@/lib/db';
+import { findOwnRecipe } from '@/lib/recipes/access';
+import { createShareSlug } from '@/lib/recipes/share';
+
+// Prisma needs the Node.js runtime
+export const runtime = 'nodejs';
+
+interface RouteContext {
+  params: { id: string };
+}
+
+// Make the recipe public under a short slug, reusing the existing one
+export async function POST(_request: Request, { params }: RouteContext) {
+  const user = await getCurrentUser();
+  if (!user) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const recipe = await findOwnRecipe(params.id, user.id);
+  if (!recipe) {
+    return NextResponse.json({ error: 'Recipe not found' }, { status: 404 });
+  }
+  if (recipe.shareSlug) {
+    return NextResponse.json({ slug: recipe.shareSlug });
+  }
+
+  const updated = await db.recipe.update({
+    where: { id: params.id },
+    data: { shareSlug: createShareSlug() },
+    select: { shareSlug: true }
+  });
+
+  return NextResponse.json({ slug: updated.shareSlug });
+}
+
+// Stop sharing; the old link stops working
+export async function DELETE(_request: Request, { params }: RouteContext) {
+  const user = await getCurrentUser();
+  if (!user) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  if (!(await findOwnRecipe(params.id, user.id))) {
+    return NextResponse.json({ error: 'Recipe not found' }, { status: 404 });
+  }
+
+  await db.recipe.update({ where: { id: params.id }, data: { shareSlug: null } });
+  return new NextResponse(null, { status: 204 });
+}
@@ -0,0 +1,36 @@
+import { NextResponse } from 'next/server';
+import { getCurrentUser } from '@/lib/auth';
+import { db } from '@/lib/db';
+import { findOwnRecipe } from '@/lib/recipes/access';
+
+// Prisma needs the Node.js runtime
+export const runtime = 'nodejs';
+
+interface RouteContext {
+  params: { id: string; version: string };
+}
+
+export async function GET(_request: Request, { params }: RouteContext) {
+  const user = await getCurrentUser();
+  if (!user) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const versionNumber = parseInt(params.version, 10);
+  if (isNaN(versionNumber)) {
+    return NextResponse.json({ error: 'Invalid version' }, { status: 400 });
+  }
+
+  if (!(await findOwnRecipe(params.id, user.id))) {
+    return NextResponse.json({ error: 'Recipe not found' }, { status: 404 });
+  }
+
+  const version = await db.recipeVersion.findUnique({
+    where: { recipeId_version: { recipeId: params.id, version: versionNumber } }
+  });
+  if (!version) {
+    return NextResponse.json({ error: 'Version not found' }, { status: 404 });
+  }
+
+  return NextResponse.json({ version });
+}
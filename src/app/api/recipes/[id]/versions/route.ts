@@ -0,0 +1,37 @@
+import { NextResponse } from 'next/server';
+import { getCurrentUser } from '@/lib/auth';
+import { db } from '@/lib/db';
+import { findOwnRecipe } from '@/lib/recipes/access';
+
+// Prisma needs the Node.js runtime
+export const runtime = 'nodejs';
+
+interface RouteContext {
+  params: { id: string };
+}
+
+// Every saved snapshot, newest first. The analysis is left out to keep the list small.
+export async function GET(_request: Request, { params }: RouteContext) {
+  const user = await getCurrentUser();
+  if (!user) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const recipe = await findOwnRecipe(params.id, user.id);
+  if (!recipe) {
+    return NextResponse.json({ error: 'Recipe not found' }, { status: 404 });
+  }
+
+  const versions = await db.recipeVersion.findMany({
+    where: { recipeId: params.id },
+    orderBy: { version: 'desc' },
+    select: {
+      version: true,
+      settings: true,
+      ingredients: true,
+      createdAt: true
+    }
+  });
+
+  return NextResponse.json({ recipe: { id: recipe.id, name: recipe.name }, versions });
+}
@@ -0,0 +1,82 @@
+import { NextResponse } from 'next/server';
+import { getCurrentUser } from '@/lib/auth';
+import { db } from '@/lib/db';
+import { createRecipeSchema } from '@/lib/recipes/schema';
+import { settingsToFlour, settingsToWeights } from '@/lib/recipes/formula';
+import type { WeightCalculation } from '@/lib/dough/weights';
+
+// Prisma needs the Node.js runtime
+export const runtime = 'nodejs';
+
+export async function GET() {
+  const user = await getCurrentUser();
+  if (!user) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const recipes = await db.recipe.findMany({
+    where: { userId: user.id },
+    orderBy: { updatedAt: 'desc' },
+    select: {
+      id: true,
+      name: true,
+      style: true,
+      hydration: true,
+      notes: true,
+      createdAt: true,
+      updatedAt: true
+    }
+  });
+
+  return NextResponse.json({ recipes });
+}
+
+export async function POST(request: Request) {
+  const user = await getCurrentUser();
+  if (!user) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const parsed = createRecipeSchema.safeParse(await request.json().catch(() => null));
+  if (!parsed.success) {
+    return NextResponse.json(
+      { error: 'Invalid recipe', details: parsed.error.flatten() },
+      { status: 400 }
+    );
+  }
+
+  const { name, notes, settings, analysis } = parsed.data;
+
+  // Settings that pass the schema can still make an impossible dough
+  let ingredients: WeightCalculation;
+  try {
+    ingredients = settingsToWeights(settings);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Invalid recipe settings';
+    return NextResponse.json({ error: message }, { status: 400 });
+  }
+
+  try {
+    const recipe = await db.recipe.create({
+      data: {
+        name,
+        notes: notes ?? null,
+        style: settings.style,
+        hydration: settings.hydration,
+        flour: settingsToFlour(settings),
+        ingredients,
+        settings,
+        analysis: analysis ?? undefined,
+        userId: user.id,
+        versions: {
+          create: { version: 1, settings, ingredients, analysis: analysis ?? undefined }
+        }
+      }
+    });
+
+    return NextResponse.json({ recipe }, { status: 201 });
+  } catch (error) {
+    console.error('Error saving recipe:', error);
+    return NextResponse.json({ error: 'Failed to save recipe' }, { status: 500 });
+  }
+}
@@ -0,0 +1,19 @@
+import { NextResponse } from 'next/server';
+import { findSharedRecipe } from '@/lib/recipes/public';
+
+// Prisma needs the Node.js runtime
+export const runtime = 'nodejs';
+
+interface RouteContext {
+  params: { slug: string };
+}
+
+// Public, no session needed
+export async function GET(_request: Request, { params }: RouteContext) {
+  const recipe = await findSharedRecipe(params.slug);
+  if (!recipe) {
+    return NextResponse.json({ error: 'Recipe not found' }, { status: 404 });
+  }
+
+  return NextResponse.json({ recipe });
+}
@@ -0,0 +1,19 @@
+import { NextResponse } from 'next/server';
+import { findSharedPreset } from '@/lib/styles/access';
+
+// Prisma needs the Node.js runtime
+export const runtime = 'nodejs';
+
+interface RouteContext {
+  params: { slug: string };
+}
+
+// Public, no session needed
+export async function GET(_request: Request, { params }: RouteContext) {
+  const preset = await findSharedPreset(params.slug);
+  if (!preset) {
+    return NextResponse.json({ error: 'Style not found' }, { status: 404 });
+  }
+
+  return NextResponse.json({ preset });
+}
@@ -0,0 +1,76 @@
+import { NextResponse } from 'next/server';
+import { getCurrentUser } from '@/lib/auth';
+import { db } from '@/lib/db';
+import { findOwnPreset, toStylePreset } from '@/lib/styles/access';
+import { updateStylePresetSchema } from '@/lib/styles/schema';
+
+// Prisma needs the Node.js runtime
+export const runtime = 'nodejs';
+
+interface RouteContext {
+  params: { id: string };
+}
+
+export async function GET(_request: Request, { params }: RouteContext) {
+  const user = await getCurrentUser();
+  if (!user) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const preset = await findOwnPreset(params.id, user.id);
+  if (!preset) {
+    return NextResponse.json({ error: 'Style not found' }, { status: 404 });
+  }
+
+  return NextResponse.json({ preset: toStylePreset(preset) });
+}
+
+export async function PATCH(request: Request, { params }: RouteContext) {
+  const user = await getCurrentUser();
+  if (!user) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const parsed = updateStylePresetSchema.safeParse(await request.json().catch(() => null));
+  if (!parsed.success) {
+    return NextResponse.json(
+      { error: 'Invalid style', details: parsed.error.flatten() },
+      { status: 400 }
+    );
+  }
+
+  if (!(await findOwnPreset(params.id, user.id))) {
+    return NextResponse.json({ error: 'Style not found' }, { status: 404 });
+  }
+
+  const { baseStyle, style } = parsed.data;
+
+  try {
+    const preset = await db.stylePreset.update({
+      where: { id: params.id },
+      data: {
+        ...(baseStyle && { baseStyle }),
+        ...(style && { style, name: style.name })
+      }
+    });
+
+    return NextResponse.json({ preset: toStylePreset(preset) });
+  } catch (error) {
+    console.error('Error updating style:', error);
+    return NextResponse.json({ error: 'Failed to update style' }, { status: 500 });
+  }
+}
+
+export async function DELETE(_request: Request, { params }: RouteContext) {
+  const user = await getCurrentUser();
+  if (!user) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  if (!(await findOwnPreset(params.id, user.id))) {
+    return NextResponse.json({ error: 'Style not found' }, { status: 404 });
+  }
+
+  await db.stylePreset.delete({ where: { id: params.id } });
+  return new NextResponse(null, { status: 204 });
+}
@@ -0,0 +1,51 @@
+import { NextResponse } from 'next/server';
+import { getCurrentUser } from '@/lib/auth';
+import { db } from '@/lib/db';
+import { createShareSlug } from '@/lib/recipes/share';
+import { findOwnPreset } from '@/lib/styles/access';
+
+// Prisma needs the Node.js runtime
+export const runtime = 'nodejs';
+
+interface RouteContext {
+  params: { id: string };
+}
+
+// Make the style public under a short slug, reusing the existing one
+export async function POST(_request: Request, { params }: RouteContext) {
+  const user = await getCurrentUser();
+  if (!user) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const preset = await findOwnPreset(params.id, user.id);
+  if (!preset) {
+    return NextResponse.json({ error: 'Style not found' }, { status: 404 });
+  }
+  if (preset.shareSlug) {
+    return NextResponse.json({ slug: preset.shareSlug });
+  }
+
+  const updated = await db.stylePreset.update({
+    where: { id: params.id },
+    data: { shareSlug: createShareSlug() },
+    select: { shareSlug: true }
+  });
+
+  return NextResponse.json({ slug: updated.shareSlug });
+}
+
+// Stop sharing; the old link stops working
+export async function DELETE(_request: Request, { params }: RouteContext) {
+  const user = await getCurrentUser();
+  if (!user) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  if (!(await findOwnPreset(params.id, user.id))) {
+    return NextResponse.json({ error: 'Style not found' }, { status: 404 });
+  }
+
+  await db.stylePreset.update({ where: { id: params.id }, data: { shareSlug: null } });
+  return new NextResponse(null, { status: 204 });
+}
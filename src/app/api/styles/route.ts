@@ -0,0 +1,45 @@
+import { NextResponse } from 'next/server';
+import { getCurrentUser } from '@/lib/auth';
+import { db } from '@/lib/db';
+import { listPresets, toStylePreset } from '@/lib/styles/access';
+import { createStylePresetSchema } from '@/lib/styles/schema';
+
+// Prisma needs the Node.js runtime
+export const runtime = 'nodejs';
+
+export async function GET() {
+  const user = await getCurrentUser();
+  if (!user) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  return NextResponse.json({ presets: await listPresets(user.id) });
+}
+
+export async function POST(request: Request) {
+  const user = await getCurrentUser();
+  if (!user) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const parsed = createStylePresetSchema.safeParse(await request.json().catch(() => null));
+  if (!parsed.success) {
+    return NextResponse.json(
+      { error: 'Invalid style', details: parsed.error.flatten() },
+      { status: 400 }
+    );
+  }
+
+  const { baseStyle, style } = parsed.data;
+
+  try {
+    const preset = await db.stylePreset.create({
+      data: { name: style.name, baseStyle, style, userId: user.id }
+    });
+
+    return NextResponse.json({ preset: toStylePreset(preset) }, { status: 201 });
+  } catch (error) {
+    console.error('Error saving style:', error);
+    return NextResponse.json({ error: 'Failed to save style' }, { status: 500 });
+  }
+}
@@ -1,6 +1,7 @@
 import { Inter as FontSans } from "next/font/google"
 import localFont from "next/font/local"
 import { ThemeProvider } from "@/components/theme-provider"
+import { SessionProvider } from "@/components/session-provider"
 import { cn } from "@/lib/utils"
 import "./globals.css"
 import { Header } from "@/components/layout/Header";
@@ -78,14 +79,16 @@ export default function RootLayout({
           enableSystem
           disableTransitionOnChange
         >
-          <Header /> {/* Restore Header */}
-          {/* Restore original main tag with padding for sticky header */}
-          <main className="flex-1 pt-16">
-            {children}
-          </main>
-          <Footer /> {/* Restore Footer */}
-          <Toaster />
-          <Analytics />
+          <SessionProvider>
+            <Header /> {/* Restore Header */}
+            {/* Restore original main tag with padding for sticky header */}
+            <main className="flex-1 pt-16">
+              {children}
+            </main>
+            <Footer /> {/* Restore Footer */}
+            <Toaster />
+            <Analytics />
+          </SessionProvider>
         </ThemeProvider>
       </body>
     </html>
@@ -0,0 +1,15 @@
+import { Metadata } from 'next';
+import { RecipeHistory } from '@/components/recipes/RecipeHistory';
+
+export const metadata: Metadata = {
+  title: 'Recipe History | DoughMaster AI',
+  description: 'Compare versions of a saved recipe and log how each bake turned out',
+};
+
+export default function RecipeHistoryPage({ params }: { params: { id: string } }) {
+  return (
+    <main className="container py-8">
+      <RecipeHistory recipeId={params.id} />
+    </main>
+  );
+}
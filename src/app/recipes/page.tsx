@@ -0,0 +1,16 @@
+import { Metadata } from 'next';
+import { RecipeLibrary } from '@/components/recipes/RecipeLibrary';
+
+export const metadata: Metadata = {
+  title: 'My Recipes | DoughMaster AI',
+  description: 'Your saved pizza dough recipes',
+};
+
+export default function RecipesPage() {
+  return (
+    <main className="container py-8">
+      <h1 className="text-3xl font-bold mb-6">My Recipes</h1>
+      <RecipeLibrary />
+    </main>
+  );
+}
@@ -0,0 +1,20 @@
+import { Metadata } from 'next';
+import { notFound } from 'next/navigation';
+import { SharedRecipeCard } from '@/components/recipes/SharedRecipeCard';
+import { findSharedRecipe } from '@/lib/recipes/public';
+
+export const metadata: Metadata = {
+  title: 'Shared Recipe | DoughMaster AI',
+  description: 'A pizza dough recipe shared with you',
+};
+
+export default async function SharedRecipePage({ params }: { params: { slug: string } }) {
+  const recipe = await findSharedRecipe(params.slug);
+  if (!recipe) notFound();
+
+  return (
+    <main className="container py-8">
+      <SharedRecipeCard name={recipe.name} settings={recipe.settings} />
+    </main>
+  );
+}
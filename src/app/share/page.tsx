@@ -0,0 +1,21 @@
+import { Metadata } from 'next';
+import { notFound } from 'next/navigation';
+import { SharedRecipeCard } from '@/components/recipes/SharedRecipeCard';
+import { decodeSettings } from '@/lib/recipes/share';
+
+export const metadata: Metadata = {
+  title: 'Shared Recipe | DoughMaster AI',
+  description: 'A pizza dough recipe shared with you',
+};
+
+// Recipes shared straight from the calculator carry their settings in the link
+export default function SharedConfigPage({ searchParams }: { searchParams: { c?: string } }) {
+  const settings = searchParams.c ? decodeSettings(searchParams.c) : null;
+  if (!settings) notFound();
+
+  return (
+    <main className="container py-8">
+      <SharedRecipeCard name="Shared Recipe" settings={settings} />
+    </main>
+  );
+}
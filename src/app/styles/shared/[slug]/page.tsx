@@ -0,0 +1,20 @@
+import { Metadata } from 'next';
+import { notFound } from 'next/navigation';
+import { SharedStyleCard } from '@/components/styles/SharedStyleCard';
+import { findSharedPreset } from '@/lib/styles/access';
+
+export const metadata: Metadata = {
+  title: 'Shared Style | DoughMaster AI',
+  description: 'A pizza style shared with you',
+};
+
+export default async function SharedStylePage({ params }: { params: { slug: string } }) {
+  const preset = await findSharedPreset(params.slug);
+  if (!preset) notFound();
+
+  return (
+    <main className="container max-w-4xl py-8">
+      <SharedStyleCard preset={preset} />
+    </main>
+  );
+}
@@ -1,6 +1,6 @@
 "use client";
 
-import React, { useState, useEffect, useMemo, useRef } from 'react';
+import React, { useState, useEffect, useMemo, useRef, useCallback } from 'react';
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle, CardDescription, CardFooter } from "@/components/ui/card";
 import { Input } from "@/components/ui/input";
@@ -8,7 +8,9 @@ import { Label } from "@/components/ui/label";
 import {
   Select,
   SelectContent,
+  SelectGroup,
   SelectItem,
+  SelectLabel,
   SelectTrigger,
   SelectValue,
 } from "@/components/ui/select";
@@ -18,9 +20,9 @@ import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
 import { 
   Loader2, AlertCircle, ChefHat, Percent, Scale, Droplet, 
   Utensils, Clock, ChevronDown, Wheat, CircleDot, Droplets, 
-  Beaker, Thermometer, LightbulbIcon, 
+  Beaker, Thermometer, LightbulbIcon, Save, Share2, Flame,
   // Icons for techniques:
-  Blend, Layers, Hand, CookingPot
+  Blend, Layers, Hand, CookingPot, Plus, X
 } from "lucide-react";
 import { cn, formatPrice, trackEvent } from "@/lib/utils";
 import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover"
@@ -36,6 +38,39 @@ import { motion } from "framer-motion";
 import { Badge } from "@/components/ui/badge";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs"
 import { useSearchParams } from 'next/navigation';
+import { signIn, useSession } from 'next-auth/react';
+import { toast } from '@/hooks/use-toast';
+import { useUnitSystem } from '@/hooks/use-unit-system';
+import { calculateWeights, type BakersFormula, type WeightCalculation } from '@/lib/dough/weights';
+import { calculateYeast } from '@/lib/dough/yeast';
+import {
+  adjustHydration,
+  adjustYeast,
+  altitudeCorrections,
+  altitudeUnitFor,
+  convertAltitude,
+  describeAltitudeAdjustments
+} from '@/lib/dough/altitude';
+import { FERMENTATION_OPTIONS, getFermentationDetails, getFermentationStages } from '@/lib/dough/fermentation';
+import { UNIT_SYSTEMS, convertLength, convertTemperature, formatVolume, formatWeight, toCelsius, type VolumeIngredient } from '@/lib/units';
+import { FLOUR_NAMES, absorptionShift, blendFlour, describeBlend, flourBlendWarnings, flourMixError } from '@/lib/dough/flour';
+import { FLOUR_CATALOG, FLOUR_REGIONS, flourLabel } from '@/lib/dough/flour-catalog';
+import { MIXER_TYPES, calculateWaterTemp, describeWaterTemp } from '@/lib/dough/ddt';
+import { OVEN_KINDS, OVEN_PROFILES, describeBakeTime, toOvenKind } from '@/lib/dough/oven';
+import { PAN_PRESETS, PAN_STYLES, THICKNESS_FACTORS, defaultPanPreset, describePans, panDoughWeight, panSettingsFor } from '@/lib/dough/pan';
+import { SWEETENERS, describeSweeteners, sweetenerRecommendation, sweetenerWarnings, type Sweetener, type SweetenerAmounts } from '@/lib/dough/sweeteners';
+import { PREFERMENT_TYPES, splitPreferment, type PrefermentSplit } from '@/lib/dough/preferment';
+import { MAX_BALLS, MAX_PRODUCTION_BALLS, defaultProductionSettings } from '@/lib/dough/production';
+import { buildSchedule } from '@/lib/dough/schedule';
+import { decodeSettings, encodeSettings } from '@/lib/recipes/share';
+import { ANALYSIS_SECTIONS, pickSection, type AnalysisSection } from '@/lib/openai/schema';
+import { applyAnalysisEvent, readAnalysisStream, type AnalysisState } from '@/lib/openai/stream';
+import { analysisCacheKey } from '@/lib/openai/analysis-cache';
+import { recentAnalyses } from '@/lib/cache/browser';
+import type { PizzaStyle as StyleDefinition } from '@/lib/openai/config';
+import { styleDefaults, styleDefinition, styleRangeWarnings, type StylePreset } from '@/lib/styles/presets';
+import { ProductionPlanner } from '@/components/production/ProductionPlanner';
+import type { CalculatorSettings, FlourPortion, FlourRegion, LengthUnit, MixerType, OvenKind, PanSettings, PanSize, Preferment, PrefermentType, ProductionSettings, UnitSystem } from '@/types/pizza';
 
 // --- Interfaces ---
 interface YeastInfo { type: "fresh" | "active dry" | "instant"; percentage: number; }
@@ -52,21 +87,6 @@ interface PizzaioloAnalysis {
     techniqueGuidance: string[];
     advancedOptions: AdvancedOptions;
 }
-interface FlourMix {
-    primaryType: string;
-    secondaryType?: string | null;
-    primaryPercentage?: number | null;
-}
-interface RecipeInput {
-    hydration: number;
-    salt: number;
-    oil?: number | null;
-    flourMix?: FlourMix | null;
-    fermentationTime: 'quick' | 'same-day' | 'overnight' | 'cold';
-    yeast?: {
-        type: 'fresh' | 'active dry' | 'instant';
-    };
-}
 interface EnvironmentInput {
     altitude?: number | null;
 }
@@ -86,18 +106,23 @@ interface ApiPayload {
     doughBalls: number;
     weightPerBall: number;
     style: string;
+    // The baker's own style, sent whole so the server needn't look it up
+    stylePreset?: StyleDefinition;
+    pan?: PanSettings;
     recipe: {
         hydration: number;
         salt: number;
         oil: number | null;
-        flourMix: {
-            primaryType: string;
-            secondaryType?: string;
-            primaryPercentage: number;
-        } | null,
+        sugar: number;
+        malt: number;
+        honey: number;
+        flour: string;
+        flourMix: FlourPortion[] | null,
+        preferment: Preferment | null,
         fermentationTime: string,
         yeast: {
             type: string;
+            percentage: number | null;
         }
     },
     fermentation: {
@@ -110,13 +135,17 @@ interface ApiPayload {
             min: number;
             max: number;
         };
+        stageHours: number[] | null;
     },
     environment?: {
         altitude?: number;
-        ovenType?: 'home' | 'outdoor';
+        ovenType?: OvenKind;
         maxOvenTemp?: number;
         roomTemp: number; // This is tempInCelsius
         tempUnit?: 'C' | 'F'; // Added tempUnit
+        mixer?: MixerType;
+        flourTemp?: number;
+        region?: FlourRegion;
     },
     analysisPreferences: {
         detailedAnalysis: boolean;
@@ -135,244 +164,6 @@ interface ApiPayload {
     };
 }
 
-interface Timeline {
-    day: number;
-    timeOfDay: string;
-    title: string;
-    instructions: string;
-    duration: string;
-    tips?: string[];
-}
-
-interface TemperatureAnalysis {
-    roomTemp: number;
-    rationale: string;
-    recommendations?: string[];
-}
-
-interface FermentationStep {
-    time: number;
-    temperature: number;
-    impact: string[];
-}
-
-interface FermentationAnalysis {
-    totalTime: number;
-    roomTemp: FermentationStep;
-    coldTemp?: FermentationStep;
-    enzymaticActivity: string;
-    gluten: string;
-        type: string;
-        rationale: string;
-    impact: string[];
-}
-
-interface TechniqueGuidance {
-    handling: string;
-    shaping: string;
-    baking: string;
-    mixing: string;
-    folding: string;
-}
-
-interface DetailedAnalysis {
-    flourAnalysis?: {
-        rationale: string;
-        flours: Array<{
-            type: string;
-            percentage: number;
-            proteinContent: string;
-            purpose: string;
-        }>;
-        alternatives?: string[];
-    };
-    hydrationAnalysis?: {
-        percentage: number;
-        rationale: string;
-        impact: string[];
-    };
-    saltAnalysis?: {
-        percentage: number;
-        rationale: string;
-        impact: string[];
-    };
-    oilAnalysis?: {
-        percentage: number;
-        rationale: string;
-        impact: string[];
-    };
-    yeastAnalysis?: {
-        type: string;
-        percentage: number;
-        rationale: string;
-        impact: string[];
-        temperatureNotes?: string[];
-    };
-    temperatureAnalysis?: TemperatureAnalysis;
-    fermentationAnalysis?: FermentationAnalysis;
-    techniqueGuidance?: TechniqueGuidance;
-}
-
-interface RecipeAnalysis {
-    timeline: Timeline[];
-    detailedAnalysis: DetailedAnalysis;
-}
-
-interface FermentationSchedule {
-    totalTime: number;
-    type: string;
-    rationale: string;
-    impact: string[];
-    roomTemp: {
-        time: number;
-        temperature: number;
-        impact: string[];
-    };
-    coldTemp?: {
-        time: number;
-        temperature: number;
-        impact: string[];
-    };
-    recommendations?: string[];
-}
-
-interface EnhancedPizzaioloAnalysis extends Omit<PizzaioloAnalysis, 'fermentationSchedule' | 'flourRecommendation'> {
-    timeline: Timeline[];
-    detailedAnalysis: DetailedAnalysis;
-    recipe?: {
-        flourMix?: {
-            primaryType: string;
-            secondaryType?: string;
-            primaryPercentage: number;
-        };
-    };
-    hydrationRecommendation?: {
-        percentage: number;
-        rationale: string;
-        impact: string[];
-        recommendations?: string[];
-    };
-    saltRecommendation?: {
-        percentage: number;
-        rationale: string;
-        impact?: string[];
-        recommendations?: string[];
-    };
-    yeastRecommendation?: {
-        type: string;
-        percentage: number;
-        rationale: string;
-        impact?: string[];
-        temperatureNotes?: string[];
-        recommendations?: string[];
-    };
-    flourRecommendation?: {
-        primaryFlour: {
-            name: string;
-            proteinPercentage: number;
-            purpose: string;
-            authenticityScore?: number; 
-            authenticity?: string;
-        };
-        alternativeFlours: Array<{
-            name: string;
-            proteinPercentage: number;
-            mixRatio: number;
-        }>;
-    };
-    fermentationSchedule?: FermentationSchedule;
-    techniques?: {
-        mixing: string;
-        folding: string;
-        shaping: string;
-        baking: string;
-    };
-    temperatureAnalysis?: {
-        roomTempC: number;
-        season?: string;
-        rationale: string;
-        impact: string[];
-        recommendations: string[];
-    };
-}
-
-interface FermentationScheduleConfig {
-    duration: {
-        min: number;
-        max: number;
-    };
-    temperature: {
-        room: number | null;
-        cold: number | null;
-    };
-    description: string;
-}
-
-interface FlourRecommendation {
-  primary: {
-    name: string;
-    protein: string;
-    description: string;
-  };
-  alternatives: Array<{
-    name: string;
-    protein: string;
-    description: string;
-  }>;
-}
-
-interface ProcessTimelineStep {
-  step: number;
-  description: string;
-  duration: string;
-  temperature: string | null;
-  isRefrigeration: boolean;
-  tips?: string[];
-}
-
-interface ProcessTimeline {
-  steps: ProcessTimelineStep[];
-}
-
-interface Recommendation {
-  percentage: number;
-  rationale: string;
-  impact: string[];
-  recommendations?: string[];
-}
-
-interface ApiResponse {
-  flourRecommendation: FlourRecommendation;
-  processTimeline: ProcessTimeline;
-  temperatureAnalysis: TemperatureAnalysis;
-  timeline: Timeline[];
-  techniqueGuidance: string[];
-  detailedAnalysis: DetailedAnalysis;
-  recipe?: {
-    flourMix?: {
-      primaryType: string;
-      secondaryType?: string;
-      primaryPercentage: number;
-    };
-  };
-  hydrationRecommendation?: Recommendation;
-  saltRecommendation?: Recommendation;
-  yeastRecommendation?: Recommendation & {
-    type: string;
-    temperatureNotes?: string[];
-  };
-  fermentationSchedule?: FermentationSchedule;
-  techniques?: {
-    kneading?: string[];
-    shaping?: string[];
-    baking?: string[];
-    general?: string[];
-  };
-}
-
-// Update the RecipeResult type
-type RecipeResult = ApiResponse;
-
 // --- End Interfaces ---
 
 // --- Constants ---
@@ -386,86 +177,9 @@ const PIZZA_STYLE_OPTIONS = [
 ] as const;
 type PizzaStyleValue = typeof PIZZA_STYLE_OPTIONS[number]['value'];
 
-const FLOUR_TYPES = ['00 Flour', 'Bread Flour', 'All-Purpose', 'High Gluten', 'Whole Wheat', 'Semolina', 'Rye'] as const;
-type FlourType = typeof FLOUR_TYPES[number];
-
-const STYLE_DEFAULTS: Record<Exclude<PizzaStyleValue, 'custom'>, {
-  hydration: {
-    home: number;
-    outdoor: number;
-  };
-  salt: number;
-  oil: number | null;
-}> = {
-  'neapolitan': {
-    hydration: { home: 65, outdoor: 60 },
-    salt: 2.8,
-    oil: 0
-  },
-  'new-york': {
-    hydration: { home: 63, outdoor: 58 },
-    salt: 2.5,
-    oil: 2
-  },
-  'detroit': {
-    hydration: { home: 70, outdoor: 68 },
-    salt: 2.0,
-    oil: 3
-  },
-  'sicilian': {
-    hydration: { home: 68, outdoor: 65 },
-    salt: 2.5,
-    oil: 4
-  },
-  'roman-al-taglio': {
-    hydration: { home: 75, outdoor: 72 },
-    salt: 2.2,
-    oil: 5
-  }
-};
-
-const CUSTOM_DEFAULTS = { hydration: { home: 65, outdoor: 62 }, salt: 2.5, oil: 2 };
-
-const FERMENTATION_OPTIONS = [
-    { value: 'quick', label: 'Quick (2-4 hours)', description: 'Room temperature fermentation for same-day pizza' },
-    { value: 'same-day', label: 'Same Day (8-12 hours)', description: 'Longer room temperature fermentation for better flavor' },
-    { value: 'overnight', label: 'Overnight (16-20 hours)', description: 'Extended room temperature fermentation for deep flavor development' },
-    { value: 'cold', label: 'Cold Ferment (24-72 hours)', description: 'Extended cold fermentation for maximum flavor development' },
-    { value: 'custom', label: 'Custom Schedule', description: 'Define your own fermentation schedule' },
-] as const;
 
 type FermentationType = typeof FERMENTATION_OPTIONS[number]['value'];
 
-// Add this near other interfaces
-interface LoadingStep {
-  icon: React.ReactNode;
-  text: string;
-}
-
-// Add this near other constants
-const LOADING_STEPS: LoadingStep[] = [
-  { icon: <Wheat className="h-4 w-4" />, text: "Analyzing flour requirements..." },
-  { icon: <Droplet className="h-4 w-4" />, text: "Calculating optimal hydration..." },
-  { icon: <Clock className="h-4 w-4" />, text: "Determining fermentation schedule..." },
-  { icon: <ChefHat className="h-4 w-4" />, text: "Finalizing expert recommendations..." }
-];
-
-// Add oven type constants
-const OVEN_TYPES = {
-  home: {
-    label: 'Home Oven',
-    description: '450-550°F',
-    maxTemp: 550
-  },
-  outdoor: {
-    label: 'Outdoor Pizza Oven',
-    description: '700-950°F',
-    maxTemp: 950
-  }
-};
-
-type OvenType = keyof typeof OVEN_TYPES;
-
 // Add new constants for yeast types
 const YEAST_TYPES = [
   { value: 'IDY', label: 'Instant Dry Yeast (IDY)' },
@@ -476,7 +190,6 @@ const YEAST_TYPES = [
 // --- End Constants ---
 
 // Add helper functions at the top level
-const formatWeight = (weight: number): number => Math.round(weight * 10) / 10;
 
 const roundToDecimal = (value: number | undefined | null, decimals: number = 1): number => {
   if (value === undefined || value === null) {
@@ -487,6 +200,10 @@ const roundToDecimal = (value: number | undefined | null, decimals: number = 1):
 };
 
 // Add a helper function at the top level to safely render impact lists
+// A schedule's own stage hours, as the stage inputs show them
+const defaultStageHours = (schedule: FermentationType): string[] =>
+  getFermentationDetails(schedule).stages.map(stage => stage.hours.toString());
+
 const renderImpactList = (impacts: string[] | undefined | null) => {
   if (!Array.isArray(impacts) || impacts.length === 0) {
     return null;
@@ -511,111 +228,21 @@ function getFlourTypeDisplay(flour: { type: string; percentage: number; proteinC
   return flour;
 }
 
-interface WeightCalculation {
-  flourWeight: number;
-  waterWeight: number;
-  saltWeight: number;
-  yeastWeight: number;
-  oilWeight: number;
-  flourMixWeights?: {
-    primary: number;
-    secondary: number;
-  };
+// Roughly what a weighed ingredient comes to by volume
+function VolumeHint({ grams, ingredient, units }: { grams: number; ingredient: VolumeIngredient; units: UnitSystem }) {
+  return <p className="text-xs text-muted-foreground">≈ {formatVolume(grams, ingredient, units)}</p>;
 }
 
-function calculateWeights(
-  recipeResult: any,
-  doughBalls: number,
-  weightPerBall: number
-): WeightCalculation {
-  if (!recipeResult) {
-    throw new Error("No recipe data available");
-  }
-
-  // Add detailed logging for debugging
-  console.log('Recipe data for weight calculation:', {
-    hydrationRecommendation: recipeResult.hydrationRecommendation,
-    saltRecommendation: recipeResult.saltRecommendation,
-    yeastRecommendation: recipeResult.yeastRecommendation,
-    // Also log detailed analysis as fallback
-    detailedHydration: recipeResult.detailedAnalysis?.hydrationAnalysis,
-    detailedSalt: recipeResult.detailedAnalysis?.saltAnalysis,
-    detailedYeast: recipeResult.detailedAnalysis?.yeastAnalysis,
-    detailedOil: recipeResult.detailedAnalysis?.oilAnalysis
-  });
-
-  const totalWeight = doughBalls * weightPerBall;
-  
-  // Get percentages from API response or use defaults
-  const hydrationPercent = recipeResult.hydrationRecommendation?.percentage || recipeResult.detailedAnalysis?.hydrationAnalysis?.percentage || 65;
-  const saltPercent = recipeResult.saltRecommendation?.percentage || recipeResult.detailedAnalysis?.saltAnalysis?.percentage || 2.8;
-  const yeastPercent = recipeResult.yeastRecommendation?.percentage || recipeResult.detailedAnalysis?.yeastAnalysis?.percentage || 0.2;
-  const oilPercent = recipeResult.detailedAnalysis?.oilAnalysis?.percentage || 0; // Oil is less critical, default to 0
-
-  const hydration = hydrationPercent / 100;
-  const salt = saltPercent / 100;
-  const yeast = yeastPercent / 100;
-  const oil = oilPercent / 100;
-
-  console.log('Ingredient percentages used for calculation:', {
-    hydration: hydrationPercent.toFixed(1) + '%',
-    salt: saltPercent.toFixed(1) + '%',
-    yeast: yeastPercent.toFixed(2) + '%',
-    oil: oilPercent.toFixed(1) + '%'
-  });
-
-  // Calculate flour weight as base (100%)
-  const flourWeight = totalWeight / (1 + hydration + salt + yeast + oil);
-  
-  // Calculate other weights based on flour weight
-  const waterWeight = flourWeight * hydration;
-  const saltWeight = flourWeight * salt;
-  const yeastWeight = flourWeight * yeast; // Use the decimal percentage directly
-  const oilWeight = flourWeight * oil;
-
-  // Calculate flour mix weights if applicable
-  let flourMixWeights;
-  if (recipeResult.recipe?.flourMix?.secondaryType) {
-    const primaryPercentage = recipeResult.recipe.flourMix.primaryPercentage / 100;
-    flourMixWeights = {
-      primary: flourWeight * primaryPercentage,
-      secondary: flourWeight * (1 - primaryPercentage)
-    };
-  }
-
-  console.log('Calculated weights (raw):', {
-    totalWeight,
-    flourWeight,
-    waterWeight,
-    saltWeight,
-    yeastWeight,
-    oilWeight,
-    flourMixWeights
-  });
-
-  return {
-    flourWeight: Math.round(flourWeight),
-    waterWeight: Math.round(waterWeight),
-    saltWeight: roundToDecimal(saltWeight, 1), // Round salt to 1 decimal
-    yeastWeight: roundToDecimal(yeastWeight, 1), // Round yeast to 1 decimal
-    oilWeight: Math.round(oilWeight),
-    flourMixWeights: flourMixWeights ? {
-      primary: Math.round(flourMixWeights.primary),
-      secondary: Math.round(flourMixWeights.secondary)
-    } : undefined
-  };
+// Placeholder for a section of the analysis that is still streaming in
+function PendingSection() {
+  return (
+    <div className="flex items-center gap-2 p-4 text-sm text-muted-foreground">
+      <Loader2 className="h-4 w-4 animate-spin" />
+      <span>Analyzing...</span>
+    </div>
+  );
 }
 
-// Add helper function for temperature conversion and display
-const formatTemperature = (temp: number | undefined, unit: 'C' | 'F'): string => {
-  if (temp === undefined || temp === null) return '';
-  if (unit === 'F') {
-    // Convert Celsius to Fahrenheit
-    return `${Math.round(temp * 9/5 + 32)}°F`;
-  }
-  return `${temp}°C`;
-};
-
 // Add a timeout component to handle long-running requests
 function RequestTimeoutAlert({ onRetry }: { onRetry: () => void }) {
   return (
@@ -656,28 +283,35 @@ export function DoughCalculator() {
   const [error, setError] = useState<string | null>(null);
   const [doughBalls, setDoughBalls] = useState<string>('4');
   const [weightPerBall, setWeightPerBall] = useState<string>('250');
+  // Set when the dough is sized by pan; the ball count and weight then follow from it
+  const [pan, setPan] = useState<PanSettings | null>(null);
+  // Set when the dough is made in mixer-sized batches
+  const [production, setProduction] = useState<ProductionSettings | null>(null);
+  const maxBalls = production ? MAX_PRODUCTION_BALLS : MAX_BALLS;
   const [selectedStyle, setSelectedStyle] = useState<PizzaStyleValue>(
     isValidInitialStyle ? initialStyleFromUrl : 'neapolitan'
   );
   const [altitude, setAltitude] = useState('');
-  const [ovenType, setOvenType] = useState<OvenType>('home');
+  const [ovenType, setOvenType] = useState<OvenKind>('home-stone');
+  // The baker's own styles; a selected preset overrides selectedStyle's definition
+  const [stylePresets, setStylePresets] = useState<StylePreset[]>([]);
+  const [selectedPresetId, setSelectedPresetId] = useState<string | null>(null);
 
   // Ingredient Sliders
   const [hydration, setHydration] = useState<number>(65);
   const [salt, setSalt] = useState<number>(2.8);
   const [oil, setOil] = useState<number>(0);
+  const [sweeteners, setSweeteners] = useState<SweetenerAmounts>({ sugar: 0, malt: 0, honey: 0 });
 
-  // Custom Style State
-  const [isCustomStyle, setIsCustomStyle] = useState(false);
-  const [primaryFlourType, setPrimaryFlourType] = useState<FlourType>(FLOUR_TYPES[0]);
-  const [addSecondaryFlour, setAddSecondaryFlour] = useState(false);
-  const [secondaryFlourType, setSecondaryFlourType] = useState<FlourType>(FLOUR_TYPES[1]);
-  const [primaryFlourPercentage, setPrimaryFlourPercentage] = useState(100);
+  // Flour, one or more with percentages adding up to 100
+  const [flours, setFlours] = useState<FlourPortion[]>([{ type: FLOUR_NAMES[0], percentage: 100 }]);
+  const [flourRegion, setFlourRegion] = useState<FlourRegion | null>(null);
 
   // API State
   const [isLoading, setIsLoading] = useState<boolean>(false);
-  const [recipeResult, setRecipeResult] = useState<ApiResponse | null>(null);
+  const [recipeResult, setRecipeResult] = useState<AnalysisState | null>(null);
   const [isCalculated, setIsCalculated] = useState<boolean>(false);
+  const [quota, setQuota] = useState<{ remaining: number; limit: number; resetTime: Date } | null>(null);
 
   // Add default state for missing API fields
   const [defaultYeastType] = useState<'fresh' | 'active dry' | 'instant'>('instant');
@@ -685,10 +319,10 @@ export function DoughCalculator() {
 
   // Add to State section
   const [fermentationTime, setFermentationTime] = useState<FermentationType>('overnight');
+  const [stageHours, setStageHours] = useState<string[]>(() => defaultStageHours('overnight'));
   const [targetDate, setTargetDate] = useState<Date>();
 
   // Add this inside the DoughCalculator component, near other state
-  const [loadingStep, setLoadingStep] = useState<number>(0);
 
   // Add new state for tracking changes
   const [hasUnsavedChanges, setHasUnsavedChanges] = useState(false);
@@ -700,7 +334,34 @@ export function DoughCalculator() {
   const [yeastType, setYeastType] = useState<'IDY' | 'ADY' | 'fresh'>('IDY');
   const [customYeastPercentage, setCustomYeastPercentage] = useState<string>('');
   const [roomTemp, setRoomTemp] = useState<string>('72'); // Default to 72°F
-  const [tempUnit, setTempUnit] = useState<'C' | 'F'>('F'); // Default to Fahrenheit
+  // Metric or imperial, remembered across visits
+  const [units, setUnits] = useUnitSystem();
+  const tempUnit = UNIT_SYSTEMS[units].temperature;
+  // The system the temperature and altitude inputs are currently written in
+  const inputUnits = useRef<UnitSystem>(units);
+  const [fridgeTemp, setFridgeTemp] = useState<string>('39'); // Default to 39°F
+  const [mixer, setMixer] = useState<MixerType>('hand');
+  const [flourTemp, setFlourTemp] = useState<string>(''); // Empty means room temperature
+  const [leavening, setLeavening] = useState<'direct' | PrefermentType>('direct');
+  const [prefermentPercentage, setPrefermentPercentage] = useState<string>('');
+  const [prefermentHydration, setPrefermentHydration] = useState<string>('');
+
+  // Recipe library
+  const { status: sessionStatus } = useSession();
+  const [isSavingRecipe, setIsSavingRecipe] = useState(false);
+  // Set while a saved recipe is loaded, so the reset effects leave its values alone
+  const restoringRecipe = useRef<{ analysis: AnalysisState | null } | null>(null);
+  const [loadedRecipe, setLoadedRecipe] = useState<{ id: string; version: string | null } | null>(null);
+  // Bumped whenever saved or shared settings are applied
+  const [restoreCount, setRestoreCount] = useState(0);
+
+  const selectedPreset = useMemo(
+    () => stylePresets.find(preset => preset.id === selectedPresetId) ?? null,
+    [stylePresets, selectedPresetId]
+  );
+  const activeStyle = useMemo(() => styleDefinition(selectedStyle, selectedPreset), [selectedStyle, selectedPreset]);
+  const oven = OVEN_PROFILES[ovenType];
+  const sweetenerAdvice = useMemo(() => sweetenerRecommendation(selectedStyle, oven), [selectedStyle, oven]);
 
   // Add a ref to track if initial URL param has been applied
   const initialUrlParamApplied = useRef(false);
@@ -742,33 +403,60 @@ export function DoughCalculator() {
     // ... rest of existing useEffect code
   }, [searchParams]);
 
+  // Starting hydration, salt and oil for the selected style and oven.
+  // Custom keeps whatever the baker had, unless a preset defines it
+  const selectedStyleDefaults = useMemo(
+    () => selectedStyle !== 'custom' || selectedPreset ? styleDefaults(activeStyle, oven) : null,
+    [selectedStyle, selectedPreset, activeStyle, oven]
+  );
+  // The selection the defaults were last applied for
+  const appliedSelection = useRef<string | null>(null);
+
   useEffect(() => {
+    // Presets loading later must not reset a restored recipe, so only a new selection counts
+    const selection = `${selectedStyle}:${selectedPresetId}:${ovenType}`;
+    if (appliedSelection.current === selection) return;
+    appliedSelection.current = selection;
+
     // Skip this effect if we're still initializing from URL params
-    const isCustom = selectedStyle === 'custom';
-    setIsCustomStyle(isCustom);
+    if (restoringRecipe.current) return;
     setRecipeResult(null);
     setError(null);
     setTimelineKey(prev => prev + 1); // Force timeline remount
 
-    if (!isCustom) {
-      if (selectedStyle in STYLE_DEFAULTS) {
-          const defaults = STYLE_DEFAULTS[selectedStyle as Exclude<PizzaStyleValue, 'custom'>];
-          setHydration(defaults.hydration[ovenType]);
-          setSalt(defaults.salt);
-          setOil(defaults.oil ?? 0);
-      } else {
-          setHydration(CUSTOM_DEFAULTS.hydration[ovenType]);
-          setSalt(CUSTOM_DEFAULTS.salt);
-          setOil(CUSTOM_DEFAULTS.oil);
-      }
-      // Reset custom flour settings when switching away from custom style
-      setAddSecondaryFlour(false);
-      setPrimaryFlourPercentage(100);
+    if (selectedStyleDefaults) {
+      setHydration(selectedStyleDefaults.hydration);
+      setSalt(selectedStyleDefaults.salt);
+      setOil(selectedStyleDefaults.oil);
     }
-  }, [selectedStyle, ovenType]);
+  }, [selectedStyle, selectedPresetId, ovenType, selectedStyleDefaults]);
+
+  // Pan styles start with their usual pan, everything else with dough balls
+  useEffect(() => {
+    if (restoringRecipe.current) return;
+    const preset = defaultPanPreset(selectedStyle);
+    setPan(current => preset ? panSettingsFor(preset, selectedStyle, current?.count ?? 1) : null);
+  }, [selectedStyle]);
+
+  // Grams of dough per pan from its area and thickness factor
+  const panWeight = useMemo((): { weight: number | null; error: string | null } => {
+    if (!pan) return { weight: null, error: null };
+    try {
+      return { weight: panDoughWeight(pan), error: null };
+    } catch (error) {
+      return { weight: null, error: error instanceof Error ? error.message : 'Invalid pan size' };
+    }
+  }, [pan]);
+
+  useEffect(() => {
+    if (!pan || panWeight.weight === null) return;
+    setDoughBalls(pan.count.toString());
+    setWeightPerBall(panWeight.weight.toString());
+  }, [pan, panWeight]);
 
   // Update fermentation time effect to completely destroy and recreate state
   useEffect(() => {
+    if (restoringRecipe.current) return;
     // Removing the console.log that was causing spam
     setRecipeResult(null);
     setError(null);
@@ -778,22 +466,133 @@ export function DoughCalculator() {
   }, [fermentationTime]);
 
   useEffect(() => {
+    if (restoringRecipe.current) return;
     setRecipeResult(null);
     setError(null);
-  }, [doughBalls, weightPerBall, altitude, hydration, salt, oil, primaryFlourType, addSecondaryFlour, secondaryFlourType, primaryFlourPercentage]);
+  }, [doughBalls, weightPerBall, altitude, hydration, salt, oil, sweeteners, flours]);
 
-  // Add this inside the DoughCalculator component, near other effects
+  // Runs after the reset effects above, once saved or shared values are in place
   useEffect(() => {
-    let interval: NodeJS.Timeout;
-    if (isLoading) {
-      interval = setInterval(() => {
-        setLoadingStep((prev) => (prev + 1) % LOADING_STEPS.length);
-      }, 1500);
-    } else {
-      setLoadingStep(0);
+    if (!restoringRecipe.current) return;
+    const { analysis } = restoringRecipe.current;
+    restoringRecipe.current = null;
+    setRecipeResult(analysis);
+    setIsCalculated(!!analysis);
+    setHasUnsavedChanges(false);
+  }, [restoreCount]);
+
+  // Rewrite the temperature and altitude inputs when the units change,
+  // including when the stored preference loads after the first render
+  useEffect(() => {
+    const from = UNIT_SYSTEMS[inputUnits.current];
+    const to = UNIT_SYSTEMS[units];
+    if (from === to) return;
+
+    const temperature = (value: string) => {
+      const temp = parseFloat(value);
+      return isNaN(temp) ? value : convertTemperature(temp, from.temperature, to.temperature).toString();
+    };
+    setRoomTemp(temperature);
+    setFridgeTemp(temperature);
+    setFlourTemp(temperature);
+    setAltitude(value => {
+      const height = parseFloat(value);
+      return isNaN(height) ? value : convertAltitude(height, from.altitude, to.altitude).toString();
+    });
+    inputUnits.current = units;
+  }, [units]);
+
+  // Put saved or shared settings back into the inputs; only calls state setters
+  const applySettings = useCallback((settings: CalculatorSettings) => {
+    // Shown in the baker's own units, whatever the recipe was saved in
+    const unit = UNIT_SYSTEMS[inputUnits.current].temperature;
+    setSelectedStyle(settings.style);
+    setSelectedPresetId(settings.stylePresetId ?? null);
+    setDoughBalls(settings.doughBalls.toString());
+    setWeightPerBall(settings.weightPerBall.toString());
+    setPan(settings.pan ?? null);
+    setProduction(settings.production ?? null);
+    setHydration(settings.hydration);
+    setSalt(settings.salt);
+    setOil(settings.oil);
+    setSweeteners({ sugar: settings.sugar ?? 0, malt: settings.malt ?? 0, honey: settings.honey ?? 0 });
+    setFlours(settings.flourMix?.length ? settings.flourMix : [{ type: settings.flour, percentage: 100 }]);
+    setFlourRegion(settings.flourRegion ?? null);
+    setYeastType(settings.yeastType);
+    setCustomYeastPercentage(settings.customYeastPercentage?.toString() ?? '');
+    setLeavening(settings.preferment?.type ?? 'direct');
+    setPrefermentPercentage(settings.preferment?.percentage.toString() ?? '');
+    setPrefermentHydration(settings.preferment?.hydration.toString() ?? '');
+    setFermentationTime(settings.fermentation);
+    setStageHours(settings.stageHours?.map(String) ?? defaultStageHours(settings.fermentation));
+    setRoomTemp(convertTemperature(settings.roomTemp, settings.tempUnit, unit).toString());
+    setFridgeTemp(settings.fridgeTemp !== null
+      ? convertTemperature(settings.fridgeTemp, settings.tempUnit, unit).toString()
+      : (unit === 'F' ? '39' : '4'));
+    setOvenType(toOvenKind(settings.ovenType));
+    setAltitude(typeof settings.altitude === 'number'
+      ? convertAltitude(settings.altitude, altitudeUnitFor(settings.tempUnit), altitudeUnitFor(unit)).toString()
+      : '');
+    setMixer(settings.mixer ?? 'hand');
+  }, []);
+
+  // Apply a shared configuration from ?config=<encoded settings>
+  useEffect(() => {
+    const config = searchParams?.get('config');
+    if (!config) return;
+
+    const settings = decodeSettings(config);
+    if (!settings) {
+      setError('This share link is invalid or out of date.');
+      return;
     }
-    return () => clearInterval(interval);
-  }, [isLoading]);
+    restoringRecipe.current = { analysis: null };
+    applySettings(settings);
+    setRestoreCount(count => count + 1);
+  }, [searchParams, applySettings]);
+
+  // Load a saved recipe from ?recipe=<id>, or one of its versions with &version=<n>
+  useEffect(() => {
+    const recipeId = searchParams?.get('recipe');
+    const version = searchParams?.get('version') ?? null;
+    if (!recipeId || sessionStatus !== 'authenticated') return;
+    if (loadedRecipe?.id === recipeId && loadedRecipe.version === version) return;
+
+    fetch(version ? `/api/recipes/${recipeId}/versions/${version}` : `/api/recipes/${recipeId}`)
+      .then(response => {
+        if (!response.ok) throw new Error('Recipe not found');
+        return response.json();
+      })
+      .then((data) => {
+        const snapshot = data.version ?? data.recipe;
+        if (!snapshot.settings) throw new Error('This recipe has no calculator settings');
+        restoringRecipe.current = { analysis: snapshot.analysis ?? null };
+        applySettings(snapshot.settings as CalculatorSettings);
+        setLoadedRecipe({ id: recipeId, version });
+        setRestoreCount(count => count + 1);
+      })
+      .catch((error: Error) => setError(`Could not load recipe: ${error.message}`));
+  }, [searchParams, sessionStatus, loadedRecipe, applySettings]);
+
+  // The baker's own styles, and ?preset=<id> from /styles once they're in
+  useEffect(() => {
+    if (sessionStatus !== 'authenticated') return;
+
+    fetch('/api/styles')
+      .then(response => {
+        if (!response.ok) throw new Error('Failed to load styles');
+        return response.json();
+      })
+      .then(({ presets }: { presets: StylePreset[] }) => {
+        setStylePresets(presets);
+        const preset = presets.find(p => p.id === searchParams?.get('preset'));
+        if (preset) {
+          setSelectedStyle(preset.baseStyle);
+          setSelectedPresetId(preset.id);
+        }
+      })
+      .catch(() => setStylePresets([]));
+  }, [sessionStatus, searchParams]);
 
   // Add this effect to track changes
   useEffect(() => {
@@ -806,25 +605,208 @@ export function DoughCalculator() {
     hydration,
     salt,
     oil,
+    sweeteners,
     selectedStyle,
+    selectedPresetId,
     fermentationTime,
     targetDate,
     altitude,
-    primaryFlourType,
-    secondaryFlourType,
-    primaryFlourPercentage,
-    addSecondaryFlour
+    flours
   ]);
 
   // --- Memos ---
-  const flourMixInput = useMemo((): FlourMix | null => {
-    if (!isCustomStyle) return null;
+  const flourMixInput = useMemo((): FlourPortion[] | null => {
+    return flours.length > 1 ? flours : null;
+  }, [flours]);
+
+  const flourError = useMemo(() => flourMixInput && flourMixError(flourMixInput), [flourMixInput]);
+
+  // Protein and strength of the flour, checked against what the style wants
+  const flourBlend = useMemo(() => blendFlour(flours), [flours]);
+  const flourWarnings = useMemo(() => {
+    if (!flourBlend || flourError) return [];
+    return flourBlendWarnings(flourBlend, activeStyle.idealFlourProfile, activeStyle.name);
+  }, [flourBlend, activeStyle, flourError]);
+
+  // Stage hours the baker changed, or null while they match the schedule
+  const stageHoursInput = useMemo((): number[] | null => {
+    const defaults = getFermentationDetails(fermentationTime).stages.map(stage => stage.hours);
+    const hours = stageHours.map((value, index) => {
+      const parsed = parseFloat(value);
+      return parsed > 0 ? parsed : defaults[index];
+    });
+    return hours.some((value, index) => value !== defaults[index]) ? hours : null;
+  }, [fermentationTime, stageHours]);
+
+  // Where the recipe strays from the style's ranges
+  const styleWarnings = useMemo(() => {
+    const stages = getFermentationStages(fermentationTime, stageHoursInput);
+    const hours = (cold: boolean) => stages
+      .filter(stage => stage.isRefrigeration === cold)
+      .reduce((sum, stage) => sum + stage.hours, 0);
+    return styleRangeWarnings(activeStyle, { hydration, salt, roomHours: hours(false), coldHours: hours(true) });
+  }, [activeStyle, hydration, salt, fermentationTime, stageHoursInput]);
+
+  // Flours sold where the baker shops, or all of them
+  const catalogFlours = useMemo(
+    () => FLOUR_CATALOG.filter(flour => !flourRegion || flour.regions.includes(flourRegion)),
+    [flourRegion]
+  );
+
+  const prefermentInput = useMemo((): Preferment | null => {
+    if (leavening === 'direct') return null;
+    return {
+      type: leavening,
+      percentage: parseFloat(prefermentPercentage),
+      hydration: parseFloat(prefermentHydration)
+    };
+  }, [leavening, prefermentPercentage, prefermentHydration]);
+
+  // Corrections for the baker's altitude, in feet with °F and metres with °C
+  const altitudeInfo = useMemo(
+    () => altitudeCorrections(parseFloat(altitude), altitudeUnitFor(tempUnit)),
+    [altitude, tempUnit]
+  );
+
+  // Yeast is calculated from the fermentation schedule, the same way the API does it
+  const seaLevelYeast = useMemo(() => {
+    const currentRoomTemp = parseFloat(roomTemp);
+    if (isNaN(currentRoomTemp)) return null;
+    const currentFridgeTemp = parseFloat(fridgeTemp);
+    const customPercentage = parseFloat(customYeastPercentage);
+    return calculateYeast({
+      schedule: fermentationTime,
+      yeastType,
+      roomTemp: toCelsius(currentRoomTemp, tempUnit),
+      fridgeTemp: isNaN(currentFridgeTemp) ? undefined : toCelsius(currentFridgeTemp, tempUnit),
+      stageHours: stageHoursInput,
+      customPercentage: isNaN(customPercentage) ? null : customPercentage,
+      preferment: prefermentInput?.type
+    });
+  }, [fermentationTime, stageHoursInput, yeastType, roomTemp, fridgeTemp, tempUnit, customYeastPercentage, prefermentInput]);
+
+  const yeastCalculation = useMemo(
+    () => seaLevelYeast && adjustYeast(seaLevelYeast, altitudeInfo),
+    [seaLevelYeast, altitudeInfo]
+  );
+
+  const altitudeAdjustments = useMemo(() => {
+    if (!seaLevelYeast || !yeastCalculation) return [];
+    return describeAltitudeAdjustments({
+      corrections: altitudeInfo,
+      yeast: { before: seaLevelYeast, after: yeastCalculation },
+      hydration: roundToDecimal(hydration),
+      schedule: fermentationTime,
+      stageHours: stageHoursInput,
+      bakeTempF: OVEN_PROFILES[ovenType].bakeTempF,
+      maxTempF: OVEN_PROFILES[ovenType].maxFloorTempF,
+      tempUnit
+    });
+  }, [altitudeInfo, seaLevelYeast, yeastCalculation, hydration, fermentationTime, stageHoursInput, ovenType, tempUnit]);
+
+  // Same formula the API uses, so the grams shown here match the server's
+  const bakersFormula = useMemo((): BakersFormula | null => {
+    if (!yeastCalculation) return null;
+    return {
+      style: selectedStyle,
+      ballCount: parseInt(doughBalls),
+      ballWeight: parseInt(weightPerBall),
+      hydration: adjustHydration(roundToDecimal(hydration), altitudeInfo),
+      salt: roundToDecimal(salt),
+      oil: oil > 0 ? roundToDecimal(oil) : 0,
+      ...sweeteners,
+      flourMix: flourMixInput ?? undefined,
+      yeast: yeastCalculation.percentage
+    };
+  }, [yeastCalculation, selectedStyle, doughBalls, weightPerBall, hydration, salt, oil, sweeteners, flourMixInput, altitudeInfo]);
+
+  // Grams for the formula, worked out once; invalid ball counts or weights throw
+  const weightsResult = useMemo((): { weights: WeightCalculation | null; error: string | null } => {
+    if (!bakersFormula) return { weights: null, error: 'No yeast percentage in recipe data' };
+    try {
+      return { weights: calculateWeights(bakersFormula), error: null };
+    } catch (error) {
+      return { weights: null, error: error instanceof Error ? error.message : 'Invalid recipe' };
+    }
+  }, [bakersFormula]);
+
+  // Preferment build and what is left for the final mix
+  const prefermentResult = useMemo((): { split: PrefermentSplit | null; error: string | null } => {
+    if (!prefermentInput || !weightsResult.weights) return { split: null, error: null };
+    try {
+      return { split: splitPreferment(weightsResult.weights, prefermentInput, yeastType), error: null };
+    } catch (error) {
+      return { split: null, error: error instanceof Error ? error.message : 'Invalid preferment' };
+    }
+  }, [prefermentInput, weightsResult, yeastType]);
+
+  // Mixing water temperature for the style's target dough temperature
+  const waterTemperature = useMemo(() => {
+    const currentRoomTemp = parseFloat(roomTemp);
+    const currentFlourTemp = parseFloat(flourTemp);
+    if (isNaN(currentRoomTemp) || !weightsResult.weights) return null;
+    try {
+      return calculateWaterTemp({
+        style: selectedStyle,
+        roomTemp: currentRoomTemp,
+        flourTemp: isNaN(currentFlourTemp) ? null : currentFlourTemp,
+        mixer,
+        prefermentTemp: prefermentResult.split ? currentRoomTemp : null,
+        waterWeight: prefermentResult.split?.finalMix.water ?? weightsResult.weights.waterWeight,
+        unit: tempUnit
+      });
+    } catch {
+      return null;
+    }
+  }, [roomTemp, flourTemp, weightsResult, selectedStyle, mixer, prefermentResult, tempUnit]);
+
+  // Clock times worked backwards from the bake time
+  const bakeSchedule = useMemo(() => {
+    if (!targetDate) return null;
+    return buildSchedule({
+      schedule: fermentationTime,
+      bakeAt: targetDate,
+      preheatHours: OVEN_PROFILES[ovenType].preheatMinutes / 60,
+      prefermentHours: prefermentInput ? PREFERMENT_TYPES[prefermentInput.type].buildHours : 0,
+      stageHours: stageHoursInput,
+      altitude: altitudeInfo
+    });
+  }, [targetDate, fermentationTime, stageHoursInput, ovenType, prefermentInput, altitudeInfo]);
+
+  // What gets stored in the recipe library
+  const currentSettings = useMemo((): CalculatorSettings | null => {
+    const currentRoomTemp = parseFloat(roomTemp);
+    const currentFridgeTemp = parseFloat(fridgeTemp);
+    const customPercentage = parseFloat(customYeastPercentage);
+    if (isNaN(currentRoomTemp)) return null;
     return {
-        primaryType: primaryFlourType,
-        secondaryType: addSecondaryFlour ? secondaryFlourType : null,
-        primaryPercentage: addSecondaryFlour ? primaryFlourPercentage : 100,
+      style: selectedStyle,
+      doughBalls: parseInt(doughBalls),
+      weightPerBall: parseInt(weightPerBall),
+      hydration: roundToDecimal(hydration),
+      salt: roundToDecimal(salt),
+      oil: roundToDecimal(oil),
+      ...sweeteners,
+      flour: flours[0].type,
+      flourMix: flourMixInput,
+      flourRegion,
+      yeastType,
+      customYeastPercentage: isNaN(customPercentage) ? null : customPercentage,
+      preferment: prefermentInput,
+      fermentation: fermentationTime,
+      stageHours: stageHoursInput,
+      // Saved in °C and metres whichever units the baker works in
+      roomTemp: roundToDecimal(toCelsius(currentRoomTemp, tempUnit)),
+      fridgeTemp: isNaN(currentFridgeTemp) ? null : roundToDecimal(toCelsius(currentFridgeTemp, tempUnit)),
+      tempUnit: 'C',
+      ovenType,
+      altitude: altitude ? convertAltitude(parseFloat(altitude), altitudeUnitFor(tempUnit), 'm') : null,
+      mixer,
+      stylePresetId: selectedPresetId,
+      pan,
+      production
     };
-  }, [isCustomStyle, primaryFlourType, addSecondaryFlour, secondaryFlourType, primaryFlourPercentage]);
+  }, [selectedStyle, selectedPresetId, pan, production, doughBalls, weightPerBall, hydration, salt, oil, sweeteners, flours, flourMixInput, flourRegion, yeastType, customYeastPercentage, prefermentInput, fermentationTime, stageHoursInput, roomTemp, fridgeTemp, tempUnit, ovenType, altitude, mixer]);
   // --- End Memos ---
 
   // Completely replace the resetState function with a more robust version
@@ -838,35 +820,55 @@ export function DoughCalculator() {
   };
 
   // --- Handlers ---
-  const getFermentationDetails = (schedule: FermentationType): FermentationScheduleConfig => {
-    const defaultSchedules: Record<FermentationType, FermentationScheduleConfig> = {
-      'quick': {
-        duration: { min: 2, max: 4 },
-        temperature: { room: 22, cold: null },
-        description: 'Quick same-day fermentation at room temperature'
-      },
-      'same-day': {
-        duration: { min: 8, max: 12 },
-        temperature: { room: 22, cold: null },
-        description: 'Extended room temperature fermentation'
-      },
-      'overnight': {
-        duration: { min: 16, max: 20 },
-        temperature: { room: 22, cold: null },
-        description: 'Long room temperature fermentation for maximum flavor development'
-      },
-      'cold': {
-        duration: { min: 24, max: 72 },
-        temperature: { room: 22, cold: 4 },
-        description: 'Extended cold fermentation for complex flavor development'
-      },
-      'custom': {
-        duration: { min: 4, max: 72 },
-        temperature: { room: 22, cold: null },
-        description: 'Custom fermentation schedule'
-      }
-    };
-    return defaultSchedules[schedule];
+  const shareSettings = async () => {
+    if (!currentSettings) return;
+    const url = `${window.location.origin}/share?c=${encodeSettings(currentSettings)}`;
+    try {
+      await navigator.clipboard.writeText(url);
+      toast({ title: 'Link copied', description: 'Anyone with the link can view this recipe.' });
+    } catch {
+      window.prompt('Copy this link', url);
+    }
+  };
+
+  // Saves a new recipe, or a new version of the one that was loaded
+  const saveRecipe = async (asNewVersion: boolean) => {
+    if (sessionStatus !== 'authenticated') {
+      signIn();
+      return;
+    }
+    if (!currentSettings) return;
+
+    setIsSavingRecipe(true);
+    try {
+      const styleLabel = selectedPreset?.style.name
+        ?? PIZZA_STYLE_OPTIONS.find(option => option.value === selectedStyle)?.label
+        ?? selectedStyle;
+      const response = asNewVersion && loadedRecipe
+        ? await fetch(`/api/recipes/${loadedRecipe.id}`, {
+            method: 'PATCH',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ settings: currentSettings, analysis: recipeResult })
+          })
+        : await fetch('/api/recipes', {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({
+              name: `${styleLabel} - ${format(new Date(), 'PP')}`,
+              settings: currentSettings,
+              analysis: recipeResult
+            })
+          });
+      if (!response.ok) throw new Error('Failed to save recipe');
+      toast({
+        title: asNewVersion ? 'New version saved' : 'Recipe saved',
+        description: 'Find it under My Recipes to rename it, add notes or compare versions.'
+      });
+    } catch (error) {
+      toast({ title: 'Could not save recipe', description: (error as Error).message, variant: 'destructive' });
+    } finally {
+      setIsSavingRecipe(false);
+    }
   };
 
   // Update the isColdFermentation helper to only return true for cold fermentation
@@ -898,32 +900,6 @@ export function DoughCalculator() {
     setTimelineKey(prev => prev + 1);
     
     setIsLoading(true);
-    setLoadingStep(0);
-
-    // Set up loading animation with custom retry message
-    const loadingInterval = setInterval(() => {
-      if (retryCount > 0) {
-        // Show static retry message when retrying
-        setLoadingStep(0); // Use first step for retry message
-      } else {
-        // Normal loading animation when not retrying
-        setLoadingStep(step => (step + 1) % LOADING_STEPS.length);
-      }
-    }, 2000);
-
-    // Customize loading steps based on retry status
-    if (retryCount > 0) {
-      LOADING_STEPS[0] = { 
-        icon: <Clock className="h-4 w-4" />, 
-        text: `Retry attempt ${retryCount}/1 - Processing recipe...` 
-      };
-    } else {
-      // Reset to original loading steps
-      LOADING_STEPS[0] = { 
-        icon: <Wheat className="h-4 w-4" />, 
-        text: "Analyzing flour requirements..." 
-      };
-    }
 
     // Use a single controller for all fetch operations
     const controller = new AbortController();
@@ -931,6 +907,10 @@ export function DoughCalculator() {
     const timeoutId = setTimeout(() => controller.abort(), 58000);
 
     try {
+      if (pan && panWeight.error) {
+        throw new Error(panWeight.error);
+      }
+
       const numDoughBalls = parseInt(doughBalls);
       const numWeightPerBall = parseInt(weightPerBall);
 
@@ -952,14 +932,21 @@ export function DoughCalculator() {
         ovenType
       });
 
-      const selectedOvenType = OVEN_TYPES[ovenType];
       
-      // Remove temperature conversion - send temperature as-is
+      // Sent in the baker's unit; the route converts to °C itself
       const currentTemp = parseFloat(roomTemp);
       if (isNaN(currentTemp)) {
         throw new Error("Please enter a valid room temperature.");
       }
 
+      if (flourError) {
+        throw new Error(flourError);
+      }
+
+      if (prefermentResult.error) {
+        throw new Error(prefermentResult.error);
+      }
+
       const fermentationDetails = getFermentationDetails(fermentationTime);
       const usesColdFermentation = isColdFermentation(fermentationTime);
 
@@ -967,34 +954,40 @@ export function DoughCalculator() {
         doughBalls: numDoughBalls,
         weightPerBall: numWeightPerBall,
         style: selectedStyle,
+        ...(selectedPreset && { stylePreset: selectedPreset.style }),
+        ...(pan && { pan }),
         recipe: {
           hydration: roundToDecimal(hydration),
           salt: roundToDecimal(salt),
           oil: oil > 0 ? roundToDecimal(oil) : null,
-          flourMix: isCustomStyle && addSecondaryFlour ? {
-            primaryType: primaryFlourType,
-            secondaryType: secondaryFlourType,
-            primaryPercentage: primaryFlourPercentage
-          } : null,
+          ...sweeteners,
+          flour: flours[0].type,
+          flourMix: flourMixInput,
+          preferment: prefermentInput,
           fermentationTime: fermentationTime,
           yeast: {
-            type: yeastType
+            type: yeastType,
+            percentage: yeastCalculation?.isCustom ? yeastCalculation.percentage : null
           }
         },
         fermentation: {
           schedule: fermentationTime,
           temperature: {
-            room: usesColdFermentation ? currentTemp : fermentationDetails.temperature.room,
-            cold: usesColdFermentation ? fermentationDetails.temperature.cold : null
+            room: currentTemp,
+            cold: usesColdFermentation && !isNaN(parseFloat(fridgeTemp)) ? parseFloat(fridgeTemp) : null
           },
-          duration: fermentationDetails.duration
+          duration: fermentationDetails.duration,
+          stageHours: stageHoursInput
         },
         environment: {
           ...(altitude ? { altitude: parseInt(altitude) } : {}),
           ovenType: ovenType,
-          maxOvenTemp: selectedOvenType?.maxTemp,
+          maxOvenTemp: oven.maxFloorTempF,
           roomTemp: currentTemp,
-          tempUnit: tempUnit
+          tempUnit: tempUnit,
+          mixer,
+          ...(flourTemp ? { flourTemp: parseFloat(flourTemp) } : {}),
+          ...(flourRegion ? { region: flourRegion } : {})
         },
         analysisPreferences: {
           detailedAnalysis: true,
@@ -1013,6 +1006,19 @@ export function DoughCalculator() {
         }
       };
 
+      // Offline, show the analysis this device saved for the same inputs
+      const savedKey = await analysisCacheKey(payload);
+      if (!navigator.onLine) {
+        const saved = await recentAnalyses.get<AnalysisState>(savedKey);
+        if (!saved) {
+          throw new Error("You're offline and this recipe hasn't been analyzed on this device yet.");
+        }
+        setRecipeResult(saved);
+        setIsCalculated(true);
+        toast({ title: "You're offline", description: 'Showing the analysis saved on this device.' });
+        return;
+      }
+
       // Generate a request ID with retry count to avoid caching issues
       const requestId = `${Date.now()}_retry_${retryCount}`;
       
@@ -1027,7 +1033,13 @@ export function DoughCalculator() {
         cache: 'no-store'
       });
 
-      clearTimeout(timeoutId);
+      // Every API response carries the client's remaining quota
+      const limit = response.headers.get('X-RateLimit-Limit');
+      const remaining = response.headers.get('X-RateLimit-Remaining');
+      const reset = response.headers.get('X-RateLimit-Reset');
+      if (limit && remaining && reset) {
+        setQuota({ limit: Number(limit), remaining: Number(remaining), resetTime: new Date(Number(reset) * 1000) });
+      }
 
       // Handle non-200 responses
       if (!response.ok) {
@@ -1045,7 +1057,6 @@ export function DoughCalculator() {
           const retryDelay = 10000;
           
           console.log(`Server overloaded, retrying in ${retryDelay/1000}s...`);
-          clearInterval(loadingInterval);
           
           // Wait before retrying
           setTimeout(() => {
@@ -1064,50 +1075,28 @@ export function DoughCalculator() {
         throw new Error(errorData.error || `Server error: ${response.status}`);
       }
 
-      // Safely parse the JSON response
-      let data;
-      try {
-        const responseText = await response.text();
-        try {
-          // First try to parse the response text
-          data = JSON.parse(responseText);
-        } catch (jsonError) {
-          console.error('Error parsing JSON response:', jsonError);
-          console.error('Raw response:', responseText);
-          throw new Error('Invalid JSON format from API');
-        }
-      } catch (parseError) {
-        console.error('Error reading response body:', parseError);
+      if (!response.body) {
         throw new Error('Failed to read API response');
       }
 
-      // Verify the response is an object with required fields
-      if (!data || typeof data !== 'object') {
-        console.error('Invalid API response format:', data);
-        throw new Error('API response is not a valid object');
-      }
+      // Ingredients arrive first, then each analysis section as it is ready
+      let analysis: AnalysisState | null = null;
+      await readAnalysisStream(response.body, (event) => {
+        if (event.type === 'error') {
+          throw new Error(event.error);
+        }
+        if (event.type === 'ingredients') {
+          setIsCalculated(true);
+        }
+        analysis = applyAnalysisEvent(analysis, event);
+        setRecipeResult(analysis);
+      });
+      clearTimeout(timeoutId);
 
-      if (!data.flourRecommendation || !data.processTimeline) {
-        console.error('Missing required fields in API response:', data);
-        throw new Error('API response is missing required fields');
+      if (analysis) {
+        void recentAnalyses.set(savedKey, analysis);
       }
 
-      // Ensure all sections are properly populated
-      const processedData = {
-        ...data,
-        // Copy temperature analysis directly from root or use default
-        temperatureAnalysis: data.temperatureAnalysis || {
-          roomTemp: parseFloat(roomTemp),
-          rationale: "Temperature affects fermentation rate and dough development.",
-          recommendations: ["Monitor your room temperature", "Adjust fermentation time accordingly"]
-        },
-        
-        // ... rest of the existing processing code ...
-      };
-
-      setRecipeResult(processedData);
-      setIsCalculated(true);
-      
       // Track successful calculation
       trackEvent('recipe_calculated', {
         style: selectedStyle,
@@ -1129,7 +1118,6 @@ export function DoughCalculator() {
         // For timeout errors, try one automatic retry
         if (retryCount === 0) {
           console.log('Request timed out, retrying once after 10s...');
-          clearInterval(loadingInterval);
           
           // Wait 10 seconds before retrying (longer delay to recover)
           setTimeout(() => {
@@ -1160,7 +1148,6 @@ export function DoughCalculator() {
         });
       }
     } finally {
-      clearInterval(loadingInterval);
       setIsLoading(false);
     }
   };
@@ -1183,13 +1170,37 @@ export function DoughCalculator() {
     resetState();
   };
 
-  // Restore original handler signature (no console log)
-  const handleSecondaryFlourToggle = (checked: boolean) => {
-    setAddSecondaryFlour(checked);
+  const handleSweetenerChange = (name: Sweetener, value: string) => {
+    const percentage = parseFloat(value);
+    setSweeteners(current => ({ ...current, [name]: isNaN(percentage) ? 0 : percentage }));
     resetState();
-    if (!checked) {
-      setPrimaryFlourPercentage(100);
+  };
+
+  // Hydration follows the flour: a thirstier flour gets more water
+  const updateFlours = (next: FlourPortion[]) => {
+    const shift = absorptionShift(flourBlend, blendFlour(next));
+    if (shift !== 0) {
+      setHydration(current => roundToDecimal(current + shift));
     }
+    setFlours(next);
+    resetState();
+  };
+
+  const handleFlourChange = (index: number, changes: Partial<FlourPortion>) => {
+    updateFlours(flours.map((flour, i) => (i === index ? { ...flour, ...changes } : flour)));
+  };
+
+  // A new flour starts with whatever share is still missing from 100%
+  const handleAddFlour = () => {
+    const unused = FLOUR_NAMES.find(name => !flours.some(flour => flour.type === name));
+    if (!unused) return;
+    const total = flours.reduce((sum, flour) => sum + flour.percentage, 0);
+    updateFlours([...flours, { type: unused, percentage: Math.max(0, roundToDecimal(100 - total)) }]);
+  };
+
+  const handleRemoveFlour = (index: number) => {
+    const remaining = flours.filter((_, i) => i !== index);
+    updateFlours(remaining.length === 1 ? [{ ...remaining[0], percentage: 100 }] : remaining);
   };
 
   const handleDoughBallsChange = (e: React.ChangeEvent<HTMLInputElement>) => {
@@ -1200,7 +1211,7 @@ export function DoughCalculator() {
         return;
     }
     const numValue = parseInt(value);
-    if (!isNaN(numValue) && numValue >= 1 && numValue <= 100) {
+    if (!isNaN(numValue) && numValue >= 1 && numValue <= maxBalls) {
         setDoughBalls(value);
         resetState();
     }
@@ -1220,8 +1231,46 @@ export function DoughCalculator() {
     }
   };
 
+  const updatePan = (changes: Partial<PanSettings>) => {
+    setPan(current => current && { ...current, ...changes });
+    resetState();
+  };
+
+  const updatePanSize = (changes: Partial<{ length: number; width: number; diameter: number }>) => {
+    if (!pan) return;
+    updatePan({ size: { ...pan.size, ...changes } as PanSize });
+  };
+
+  // Same pan, measured in the other unit
+  const changePanUnit = (unit: LengthUnit) => {
+    if (!pan || pan.size.unit === unit) return;
+    const from = pan.size.unit;
+    updatePan({
+      size: pan.size.shape === 'round'
+        ? { ...pan.size, diameter: convertLength(pan.size.diameter, from, unit), unit }
+        : { ...pan.size, length: convertLength(pan.size.length, from, unit), width: convertLength(pan.size.width, from, unit), unit }
+    });
+  };
+
+  const changePanShape = (shape: PanSize['shape']) => {
+    if (!pan || pan.size.shape === shape) return;
+    const unit = pan.size.unit;
+    updatePan({
+      size: shape === 'round'
+        ? { shape, diameter: unit === 'in' ? 12 : 30, unit }
+        : { shape, length: unit === 'in' ? 14 : 35, width: unit === 'in' ? 10 : 25, unit }
+    });
+  };
+
   // --- End Handlers ---
 
+  // Sections of the analysis still on their way from the server
+  const receivedSections = recipeResult
+    ? ANALYSIS_SECTIONS.filter(section => pickSection(recipeResult, section) !== undefined).length
+    : 0;
+  const isPending = (section: AnalysisSection) =>
+    isLoading && (!recipeResult || pickSection(recipeResult, section) === undefined);
+
   return (
     <div className="container mx-auto px-4 py-8">
       <div className="max-w-4xl mx-auto space-y-6">
@@ -1229,6 +1278,18 @@ export function DoughCalculator() {
           <CardHeader className="text-center pb-4">
             <CardTitle className="text-2xl sm:text-3xl">Pizza Dough Calculator</CardTitle>
             <CardDescription>Create your perfect pizza dough recipe</CardDescription>
+            <div className="flex justify-center pt-2">
+              <Select value={units} onValueChange={(value: UnitSystem) => setUnits(value)}>
+                <SelectTrigger className="w-56 h-9" aria-label="Units">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(UNIT_SYSTEMS) as UnitSystem[]).map((system) => (
+                    <SelectItem key={system} value={system}>{UNIT_SYSTEMS[system].label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
           </CardHeader>
           <CardContent>
             <form onSubmit={handleCalculate} className="space-y-8">
@@ -1240,12 +1301,13 @@ export function DoughCalculator() {
                     <div className="space-y-2">
                     <Label className="text-sm font-medium">Pizza Style</Label>
                     <Select 
-                      value={selectedStyle} 
+                      value={selectedPreset ? `preset:${selectedPreset.id}` : selectedStyle} 
                       onValueChange={(v) => {
-                        console.log('Style changed to:', v);
-                        setSelectedStyle(v as PizzaStyleValue);
+                        const preset = stylePresets.find(p => `preset:${p.id}` === v);
+                        setSelectedStyle(preset ? preset.baseStyle : v as PizzaStyleValue);
+                        setSelectedPresetId(preset?.id ?? null);
                         resetState();
-                        trackEvent('style_selected', { style: v });
+                        trackEvent('style_selected', { style: preset ? 'preset' : v });
                       }}
                       required
                     >
@@ -1256,6 +1318,14 @@ export function DoughCalculator() {
                           {PIZZA_STYLE_OPTIONS.map((option) => (
                             <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
                           ))}
+                          {stylePresets.length > 0 && (
+                            <SelectGroup>
+                              <SelectLabel>Your Styles</SelectLabel>
+                              {stylePresets.map((preset) => (
+                                <SelectItem key={preset.id} value={`preset:${preset.id}`}>{preset.style.name}</SelectItem>
+                              ))}
+                            </SelectGroup>
+                          )}
                         </SelectContent>
                       </Select>
                     </div>
@@ -1267,6 +1337,7 @@ export function DoughCalculator() {
                       value={fermentationTime} 
                       onValueChange={(v) => {
                         setFermentationTime(v as FermentationType);
+                        setStageHours(defaultStageHours(v as FermentationType));
                         resetState(); // Explicitly reset state when changing fermentation type
                         trackEvent('fermentation_selected', { 
                           fermentation_time: v,
@@ -1283,11 +1354,30 @@ export function DoughCalculator() {
                           ))}
                         </SelectContent>
                       </Select>
+                      {/* Hours per stage; yeast and the schedule follow them */}
+                      <div className="grid grid-cols-3 gap-2">
+                        {getFermentationDetails(fermentationTime).stages.map((stage, index) => (
+                          <div key={stage.name} className="space-y-1">
+                            <span className="text-xs text-muted-foreground">{stage.name} (h)</span>
+                            <Input
+                              type="number"
+                              min="0.5"
+                              max="168"
+                              step="0.5"
+                              value={stageHours[index] ?? ''}
+                              onChange={(e) => {
+                                const value = e.target.value;
+                                setStageHours(prev => prev.map((hours, i) => i === index ? value : hours));
+                                resetState();
+                              }}
+                            />
+                          </div>
+                        ))}
+                      </div>
                     </div>
                   </div>
 
-                {/* Custom Schedule UI */}
-                {fermentationTime === 'custom' && (
+                {/* Bake Time */}
                   <Card className="bg-muted/30">
                     <CardContent className="pt-4">
                       <div className="space-y-4">
@@ -1304,7 +1394,7 @@ export function DoughCalculator() {
                               {targetDate ? (
                                 format(targetDate, "PPP 'at' h:mm a")
                               ) : (
-                                <span>Select target date & time</span>
+                                <span>Select when you want to bake</span>
                               )}
                             </Button>
                           </PopoverTrigger>
@@ -1347,149 +1437,406 @@ export function DoughCalculator() {
                           </PopoverContent>
                         </Popover>
                         <p className="text-sm text-muted-foreground">
-                          Select when you want your dough to be ready. We'll calculate the optimal schedule.
+                          Pick your bake time and we&apos;ll work the schedule backwards from it.
                         </p>
+                        {bakeSchedule && (
+                          <div className="space-y-2">
+                            <p className="text-sm">
+                              Start at <span className="font-medium">{format(bakeSchedule.startAt, "EEE h:mm a")}</span>
+                            </p>
+                            {bakeSchedule.warnings.map((warning) => (
+                              <div key={warning} className="flex items-start gap-2 text-sm text-amber-600">
+                                <AlertCircle className="h-4 w-4 mt-0.5 flex-shrink-0" />
+                                <span>{warning}</span>
+                              </div>
+                            ))}
+                            {bakeSchedule.suggestion && (
+                              <Button
+                                type="button"
+                                variant="outline"
+                                size="sm"
+                                onClick={() => {
+                                  setFermentationTime(bakeSchedule.suggestion!.value);
+                                  resetState();
+                                }}
+                              >
+                                Switch to {bakeSchedule.suggestion.label}
+                              </Button>
+                            )}
+                          </div>
+                        )}
                       </div>
                     </CardContent>
                   </Card>
-                )}
 
-                  {/* Basic Measurements */}
-                <div className="grid grid-cols-2 gap-6">
-                  <div className="space-y-2">
-                    <Label className="text-sm font-medium">Dough Balls</Label>
-                      <Input 
-                        type="number" 
-                        placeholder="4" 
-                        min="1"
-                        max="100"
-                        required 
-                        value={doughBalls} 
-                        onChange={handleDoughBallsChange}
-                      className="relative bg-background h-10"
-                      />
-                    </div>
-                  <div className="space-y-2">
-                    <Label className="text-sm font-medium">Weight/Ball (g)</Label>
-                      <Input 
-                        type="number" 
-                        placeholder="280" 
-                        min="100"
-                        max="1000"
-                        required 
-                        value={weightPerBall} 
-                        onChange={handleWeightPerBallChange}
-                      className="relative bg-background h-10"
-                      />
+                  {/* Basic Measurements - by dough ball or by pan */}
+                <div className="space-y-4">
+                  <div className="flex items-center justify-between">
+                    <Label className="text-sm font-medium">Size by</Label>
+                    <div className="flex gap-1">
+                      <Button
+                        type="button"
+                        size="sm"
+                        variant={pan ? 'ghost' : 'secondary'}
+                        onClick={() => {
+                          setPan(null);
+                          resetState();
+                        }}
+                      >
+                        Dough balls
+                      </Button>
+                      <Button
+                        type="button"
+                        size="sm"
+                        variant={pan ? 'secondary' : 'ghost'}
+                        onClick={() => {
+                          if (pan) return;
+                          const preset = defaultPanPreset(selectedStyle) ?? 'round-12';
+                          setPan(panSettingsFor(preset, selectedStyle, parseInt(doughBalls) || 1));
+                          resetState();
+                        }}
+                      >
+                        Pan or diameter
+                      </Button>
                     </div>
                   </div>
 
-                {/* Ingredient Controls */}
-                  <div className="space-y-6">
-                  {/* Custom Flour Section */}
-                  {isCustomStyle && (
-                    <Card className="bg-muted/30">
-                      <CardHeader className="pb-2">
-                        <CardTitle className="text-base">Custom Flour Mix</CardTitle>
-                      </CardHeader>
-                      <CardContent className="space-y-4">
+                  {pan ? (
+                    <div className="space-y-4">
+                      <div className="grid grid-cols-2 gap-4">
                         <div className="space-y-2">
-                          <Label>Primary Flour</Label>
-                          <Select value={primaryFlourType} onValueChange={(v) => {
-                            setPrimaryFlourType(v as FlourType);
-                            resetState();
-                          }}>
-                            <SelectTrigger className="relative bg-background">
-                            <SelectValue placeholder="Select primary flour" />
-                          </SelectTrigger>
+                          <Label className="text-sm font-medium">Pan</Label>
+                          <Select
+                            value={Object.keys(PAN_PRESETS).find(key => JSON.stringify(PAN_PRESETS[key].size) === JSON.stringify(pan.size)) ?? 'custom'}
+                            onValueChange={(key) => {
+                              if (key in PAN_PRESETS) updatePan({ size: PAN_PRESETS[key].size });
+                            }}
+                          >
+                            <SelectTrigger className="relative bg-background h-10">
+                              <SelectValue />
+                            </SelectTrigger>
                             <SelectContent sideOffset={4} className="z-[60]">
-                            {FLOUR_TYPES.map((flour) => (
-                              <SelectItem key={flour} value={flour}>{flour}</SelectItem>
-                            ))}
-                          </SelectContent>
-                        </Select>
+                              {Object.entries(PAN_PRESETS).map(([key, preset]) => (
+                                <SelectItem key={key} value={key}>{preset.label}</SelectItem>
+                              ))}
+                              <SelectItem value="custom">Custom size</SelectItem>
+                            </SelectContent>
+                          </Select>
                         </div>
-
-                        <div className="flex items-center gap-2">
-                          <Switch
-                            checked={addSecondaryFlour}
-                            onCheckedChange={handleSecondaryFlourToggle}
+                        <div className="space-y-2">
+                          <Label className="text-sm font-medium">{pan.size.shape === 'round' ? 'Pizzas' : 'Pans'}</Label>
+                          <Input
+                            type="number"
+                            min="1"
+                            max={maxBalls}
+                            value={pan.count}
+                            onChange={(e) => {
+                              const count = parseInt(e.target.value);
+                              if (!isNaN(count) && count >= 1 && count <= maxBalls) updatePan({ count });
+                            }}
+                            className="relative bg-background h-10"
                           />
-                          <Label>Add secondary flour</Label>
                         </div>
+                      </div>
 
-                        {addSecondaryFlour && (
-                          <div className="space-y-4">
+                      <div className="grid grid-cols-2 sm:grid-cols-4 gap-4">
+                        <div className="space-y-2">
+                          <Label className="text-xs text-muted-foreground">Shape</Label>
+                          <Select value={pan.size.shape} onValueChange={(value) => changePanShape(value as PanSize['shape'])}>
+                            <SelectTrigger className="relative bg-background h-10">
+                              <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent sideOffset={4} className="z-[60]">
+                              <SelectItem value="rect">Rectangular</SelectItem>
+                              <SelectItem value="round">Round</SelectItem>
+                            </SelectContent>
+                          </Select>
+                        </div>
+                        {pan.size.shape === 'round' ? (
+                          <div className="space-y-2">
+                            <Label className="text-xs text-muted-foreground">Diameter</Label>
+                            <Input
+                              type="number"
+                              min="1"
+                              step="0.5"
+                              value={pan.size.diameter || ''}
+                              onChange={(e) => updatePanSize({ diameter: parseFloat(e.target.value) || 0 })}
+                              className="relative bg-background h-10"
+                            />
+                          </div>
+                        ) : (
+                          <>
                             <div className="space-y-2">
-                              <Label>Secondary Flour</Label>
-                              <Select value={secondaryFlourType} onValueChange={(v) => {
-                                setSecondaryFlourType(v as FlourType);
-                                resetState();
-                              }}>
-                                <SelectTrigger className="relative bg-background">
-                                <SelectValue placeholder="Select secondary flour" />
-                              </SelectTrigger>
-                                <SelectContent sideOffset={4} className="z-[60]">
-                                {FLOUR_TYPES.map((flour) => (
-                                  <SelectItem key={flour} value={flour}>{flour}</SelectItem>
-                                ))}
-                              </SelectContent>
-                            </Select>
+                              <Label className="text-xs text-muted-foreground">Length</Label>
+                              <Input
+                                type="number"
+                                min="1"
+                                step="0.5"
+                                value={pan.size.length || ''}
+                                onChange={(e) => updatePanSize({ length: parseFloat(e.target.value) || 0 })}
+                                className="relative bg-background h-10"
+                              />
                             </div>
-
-                            <div className="space-y-4">
-                              <div className="flex justify-between text-sm">
-                                <span className="font-medium">{primaryFlourType}</span>
-                                <span>{primaryFlourPercentage}%</span>
-                              </div>
-                              <Slider
-                                value={[primaryFlourPercentage]}
-                                onValueChange={(value) => {
-                                  setPrimaryFlourPercentage(value[0]);
-                                  resetState();
-                                }}
-                                min={0}
-                                max={100}
-                                step={5}
-                                className="relative"
+                            <div className="space-y-2">
+                              <Label className="text-xs text-muted-foreground">Width</Label>
+                              <Input
+                                type="number"
+                                min="1"
+                                step="0.5"
+                                value={pan.size.width || ''}
+                                onChange={(e) => updatePanSize({ width: parseFloat(e.target.value) || 0 })}
+                                className="relative bg-background h-10"
                               />
-                              <div className="flex justify-between text-sm text-muted-foreground">
-                                <span>{secondaryFlourType}</span>
-                                <span>{100 - primaryFlourPercentage}%</span>
-                              </div>
                             </div>
-                          </div>
+                          </>
+                        )}
+                        <div className="space-y-2">
+                          <Label className="text-xs text-muted-foreground">Unit</Label>
+                          <Select value={pan.size.unit} onValueChange={(value) => changePanUnit(value as LengthUnit)}>
+                            <SelectTrigger className="relative bg-background h-10">
+                              <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent sideOffset={4} className="z-[60]">
+                              <SelectItem value="in">Inches</SelectItem>
+                              <SelectItem value="cm">Centimetres</SelectItem>
+                            </SelectContent>
+                          </Select>
+                        </div>
+                      </div>
+
+                      <div className="space-y-2">
+                        <div className="flex items-center justify-between">
+                          <Label className="text-sm font-medium">Thickness factor (oz/in²)</Label>
+                          {pan.thicknessFactor !== THICKNESS_FACTORS[selectedStyle] && (
+                            <Button
+                              type="button"
+                              variant="link"
+                              size="sm"
+                              className="h-auto p-0"
+                              onClick={() => updatePan({ thicknessFactor: THICKNESS_FACTORS[selectedStyle] })}
+                            >
+                              Reset to {THICKNESS_FACTORS[selectedStyle]}
+                            </Button>
+                          )}
+                        </div>
+                        <Input
+                          type="number"
+                          min="0.05"
+                          max="0.3"
+                          step="0.005"
+                          value={pan.thicknessFactor || ''}
+                          onChange={(e) => updatePan({ thicknessFactor: parseFloat(e.target.value) || 0 })}
+                          className="relative bg-background h-10"
+                        />
+                        {panWeight.error ? (
+                          <p className="text-sm text-destructive">{panWeight.error}</p>
+                        ) : (
+                          <p className="text-sm text-muted-foreground">
+                            {formatWeight(panWeight.weight ?? 0, units)} of dough each, {formatWeight((panWeight.weight ?? 0) * pan.count, units)} in total.
+                            {PAN_STYLES.includes(selectedStyle) ? '' : ' Thinner round pies sit around 0.08.'}
+                          </p>
+                        )}
+                      </div>
+                    </div>
+                  ) : (
+                  <div className="grid grid-cols-2 gap-6">
+                    <div className="space-y-2">
+                      <Label className="text-sm font-medium">Dough Balls</Label>
+                        <Input 
+                          type="number" 
+                          placeholder="4" 
+                          min="1"
+                          max={maxBalls}
+                          required 
+                          value={doughBalls} 
+                          onChange={handleDoughBallsChange}
+                        className="relative bg-background h-10"
+                        />
+                      </div>
+                    <div className="space-y-2">
+                      <Label className="text-sm font-medium">Weight/Ball (g)</Label>
+                        <Input 
+                          type="number" 
+                          placeholder="280" 
+                          min="100"
+                          max="1000"
+                          required 
+                          value={weightPerBall} 
+                          onChange={handleWeightPerBallChange}
+                        className="relative bg-background h-10"
+                        />
+                        {units === 'imperial' && Number(weightPerBall) > 0 && (
+                          <p className="text-xs text-muted-foreground">≈ {formatWeight(Number(weightPerBall), units)}</p>
                         )}
-                      </CardContent>
-                    </Card>
+                      </div>
+                    </div>
                   )}
+                </div>
+
+                {/* Ingredient Controls */}
+                  <div className="space-y-6">
+                  {/* Flour Section */}
+                  <Card className="bg-muted/30">
+                    <CardHeader className="pb-2">
+                      <CardTitle className="text-base">Flour</CardTitle>
+                    </CardHeader>
+                    <CardContent className="space-y-4">
+                      {flours.map((flour, index) => (
+                        <div key={index} className="flex items-center gap-2">
+                          <Select value={flour.type} onValueChange={(v) => handleFlourChange(index, { type: v })}>
+                            <SelectTrigger className="relative bg-background">
+                              <SelectValue placeholder="Select flour" />
+                            </SelectTrigger>
+                            <SelectContent sideOffset={4} className="z-[60]">
+                              <SelectGroup>
+                                <SelectLabel>Any brand</SelectLabel>
+                                {FLOUR_NAMES.map((name) => (
+                                  <SelectItem
+                                    key={name}
+                                    value={name}
+                                    disabled={name !== flour.type && flours.some(other => other.type === name)}
+                                  >
+                                    {name}
+                                  </SelectItem>
+                                ))}
+                              </SelectGroup>
+                              <SelectGroup>
+                                <SelectLabel>Brands</SelectLabel>
+                                {catalogFlours.map((catalogFlour) => {
+                                  const label = flourLabel(catalogFlour);
+                                  return (
+                                    <SelectItem
+                                      key={label}
+                                      value={label}
+                                      disabled={label !== flour.type && flours.some(other => other.type === label)}
+                                    >
+                                      {label} ({catalogFlour.protein}%)
+                                    </SelectItem>
+                                  );
+                                })}
+                              </SelectGroup>
+                            </SelectContent>
+                          </Select>
+                          {flours.length > 1 && (
+                            <>
+                              <div className="relative w-28 shrink-0">
+                                <Input
+                                  type="number"
+                                  value={flour.percentage}
+                                  onChange={(e) => handleFlourChange(index, { percentage: parseFloat(e.target.value) || 0 })}
+                                  min="0"
+                                  max="100"
+                                  step="1"
+                                  className="bg-background pr-7"
+                                  aria-label={`${flour.type} percentage`}
+                                />
+                                <span className="absolute right-3 top-1/2 -translate-y-1/2 text-sm text-muted-foreground">%</span>
+                              </div>
+                              <Button
+                                variant="ghost"
+                                size="icon"
+                                onClick={() => handleRemoveFlour(index)}
+                                aria-label={`Remove ${flour.type}`}
+                              >
+                                <X className="h-4 w-4" />
+                              </Button>
+                            </>
+                          )}
+                        </div>
+                      ))}
+
+                      {flours.length < FLOUR_NAMES.length + catalogFlours.length && (
+                        <Button variant="outline" size="sm" onClick={handleAddFlour}>
+                          <Plus className="h-4 w-4 mr-1" />
+                          Add flour
+                        </Button>
+                      )}
+
+                      {flourError && (
+                        <p className="text-sm text-destructive">{flourError}</p>
+                      )}
+                      {flourBlend && !flourError && (
+                        <p className="text-sm text-muted-foreground">
+                          {flours.length > 1 ? 'Blend' : flours[0].type}: {describeBlend(flourBlend)}. Hydration follows when you change flours.
+                        </p>
+                      )}
+                      {flourWarnings.map((warning) => (
+                        <p key={warning} className="text-sm text-amber-600">{warning}</p>
+                      ))}
+
+                      <div className="space-y-2">
+                        <Label>Where you buy flour</Label>
+                        <Select
+                          value={flourRegion ?? 'anywhere'}
+                          onValueChange={(value) => setFlourRegion(value === 'anywhere' ? null : value as FlourRegion)}
+                        >
+                          <SelectTrigger className="relative bg-background">
+                            <SelectValue placeholder="Anywhere" />
+                          </SelectTrigger>
+                          <SelectContent sideOffset={4} className="z-[60]">
+                            <SelectItem value="anywhere">Anywhere</SelectItem>
+                            {(Object.keys(FLOUR_REGIONS) as FlourRegion[]).map((region) => (
+                              <SelectItem key={region} value={region}>{FLOUR_REGIONS[region]}</SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </div>
+                    </CardContent>
+                  </Card>
 
                   {/* Oven Type Section - Moved out of advanced options */}
                   <div className="space-y-4">
                     <div className="flex items-center justify-between">
                       <Label htmlFor="ovenType">Oven Type</Label>
                       <span className="text-muted-foreground text-sm">
-                        {OVEN_TYPES[ovenType].maxTemp}°F max
+                        {oven.maxFloorTempF}°F floor, {oven.maxDomeTempF}°F dome
                       </span>
                       </div>
                     <Select 
                       value={ovenType}
-                      onValueChange={(value: OvenType) => setOvenType(value)}
+                      onValueChange={(value: OvenKind) => setOvenType(value)}
                     >
                       <SelectTrigger className="w-full">
                         <SelectValue placeholder="Select oven type" />
                       </SelectTrigger>
                       <SelectContent>
-                        <SelectItem value="home">
-                          {OVEN_TYPES.home.label} ({OVEN_TYPES.home.description})
-                        </SelectItem>
-                        <SelectItem value="outdoor">
-                          {OVEN_TYPES.outdoor.label} ({OVEN_TYPES.outdoor.description})
-                        </SelectItem>
+                        {OVEN_KINDS.map((kind) => (
+                          <SelectItem key={kind} value={kind}>
+                            {OVEN_PROFILES[kind].label} ({OVEN_PROFILES[kind].description})
+                          </SelectItem>
+                        ))}
                       </SelectContent>
                     </Select>
+                    <p className="text-sm text-muted-foreground">
+                      Preheat {oven.preheatMinutes} minutes, bake {describeBakeTime(oven)}.
+                    </p>
                     </div>
 
+                  {/* Altitude - corrects yeast, hydration, rise times and oven guidance */}
+                  <div className="space-y-2">
+                    <Label htmlFor="altitude">Altitude ({altitudeUnitFor(tempUnit)})</Label>
+                    <Input
+                      id="altitude"
+                      type="number"
+                      placeholder={tempUnit === 'F' ? 'e.g., 5280' : 'e.g., 1600'}
+                      value={altitude}
+                      onChange={(e) => setAltitude(e.target.value)}
+                      min="0"
+                      step="1"
+                    />
+                    {altitudeAdjustments.length > 0 ? (
+                      <ul className="text-xs text-muted-foreground space-y-1">
+                        {altitudeAdjustments.map((adjustment) => (
+                          <li key={adjustment.note}>{adjustment.note}</li>
+                        ))}
+                      </ul>
+                    ) : (
+                      <p className="text-xs text-muted-foreground">
+                        Leave empty near sea level; corrections start above 3,000 ft (915 m).
+                      </p>
+                    )}
+                  </div>
+
                   {/* Core Ingredient Sliders */}
                   <div className="grid gap-6 pt-2">
                     <div className="space-y-4">
@@ -1500,8 +1847,8 @@ export function DoughCalculator() {
                       <Slider
                         value={[hydration]}
                         onValueChange={handleHydrationChange}
-                        min={50}
-                        max={85}
+                        min={Math.min(50, activeStyle.hydrationRange.min)}
+                        max={Math.max(85, activeStyle.hydrationRange.max)}
                         step={0.5}
                         className="relative"
                       />
@@ -1515,8 +1862,8 @@ export function DoughCalculator() {
                       <Slider
                         value={[salt]}
                         onValueChange={handleSaltChange}
-                        min={1.5}
-                        max={3.5}
+                        min={Math.min(1.5, activeStyle.saltRange.min)}
+                        max={Math.max(3.5, activeStyle.saltRange.max)}
                         step={0.1}
                         className="relative"
                       />
@@ -1536,6 +1883,53 @@ export function DoughCalculator() {
                         className="relative"
                       />
                     </div>
+
+                    {styleWarnings.map((warning) => (
+                      <p key={warning} className="text-sm text-amber-600">{warning}</p>
+                    ))}
+
+                    {/* Sugar, malt and honey help cooler ovens brown the crust */}
+                    <div className="space-y-3">
+                      <Label className="text-sm font-medium">Browning</Label>
+                      <div className="grid grid-cols-3 gap-3">
+                        {(Object.keys(SWEETENERS) as Sweetener[]).map((name) => (
+                          <div key={name} className="space-y-1">
+                            <Label htmlFor={`sweetener-${name}`} className="text-xs text-muted-foreground">{SWEETENERS[name].label} (%)</Label>
+                            <Input
+                              id={`sweetener-${name}`}
+                              type="number"
+                              min={0}
+                              max={SWEETENERS[name].max}
+                              step={0.1}
+                              value={sweeteners[name] || ''}
+                              placeholder="0"
+                              onChange={(e) => handleSweetenerChange(name, e.target.value)}
+                            />
+                          </div>
+                        ))}
+                      </div>
+                      <p className="text-sm text-muted-foreground">
+                        {sweetenerAdvice.reason}.
+                        {describeSweeteners(sweetenerAdvice) !== describeSweeteners(sweeteners) && (
+                          <Button
+                            type="button"
+                            variant="link"
+                            size="sm"
+                            className="h-auto p-0 pl-1"
+                            onClick={() => {
+                              const { sugar, malt, honey } = sweetenerAdvice;
+                              setSweeteners({ sugar, malt, honey });
+                              resetState();
+                            }}
+                          >
+                            Use {describeSweeteners(sweetenerAdvice)}
+                          </Button>
+                        )}
+                      </p>
+                      {sweetenerWarnings(sweeteners, oven).map((warning) => (
+                        <p key={warning} className="text-sm text-amber-600">{warning}</p>
+                      ))}
+                    </div>
                   </div>
                 </div>
 
@@ -1562,7 +1956,7 @@ export function DoughCalculator() {
                       <div className="flex gap-2">
                         <Input
                           type="number"
-                          placeholder={tempUnit === 'F' ? "e.g., 22" : "e.g., 72"}
+                          placeholder={tempUnit === 'F' ? "e.g., 72" : "e.g., 22"}
                           value={roomTemp}
                           onChange={(e) => {
                             const value = e.target.value;
@@ -1574,29 +1968,144 @@ export function DoughCalculator() {
                           max={tempUnit === 'C' ? "35" : "95"}
                           className="flex-1"
                         />
-                        <Select 
-                          value={tempUnit} 
-                          onValueChange={(value: 'C' | 'F') => {
-                            const oldTemp = parseFloat(roomTemp);
-                            if (!isNaN(oldTemp)) {
-                              const newTemp = value === 'C' 
-                                ? Math.round((oldTemp - 32) * 5 / 9 * 10) / 10
-                                : Math.round((oldTemp * 9 / 5 + 32) * 10) / 10;
-                              setRoomTemp(newTemp.toString());
-                            }
-                            setTempUnit(value);
+                        <span className="flex items-center text-sm text-muted-foreground">°{tempUnit}</span>
+                      </div>
+                    </div>
+                    {isColdFermentation(fermentationTime) && (
+                      <div className="space-y-2">
+                        <Label>Fridge Temperature</Label>
+                        <Input
+                          type="number"
+                          placeholder={tempUnit === 'F' ? "e.g., 39" : "e.g., 4"}
+                          value={fridgeTemp}
+                          onChange={(e) => {
+                            setFridgeTemp(e.target.value);
+                            resetState();
                           }}
-                        >
-                          <SelectTrigger className="w-20">
-                            <SelectValue placeholder="Unit" />
-                          </SelectTrigger>
-                          <SelectContent>
-                            <SelectItem value="C">°C</SelectItem>
-                            <SelectItem value="F">°F</SelectItem>
-                          </SelectContent>
-                        </Select>
+                          step="0.1"
+                          min={tempUnit === 'C' ? "0" : "32"}
+                          max={tempUnit === 'C' ? "12" : "54"}
+                        />
                       </div>
+                    )}
+                    <div className="space-y-2">
+                      <Label>Mixing</Label>
+                      <Select value={mixer} onValueChange={(value: MixerType) => setMixer(value)}>
+                        <SelectTrigger>
+                          <SelectValue placeholder="How do you mix?" />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {(Object.keys(MIXER_TYPES) as MixerType[]).map((type) => (
+                            <SelectItem key={type} value={type}>
+                              {MIXER_TYPES[type].label}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                    <div className="space-y-2">
+                      <Label>Flour Temperature</Label>
+                      <Input
+                        type="number"
+                        placeholder="Same as the room"
+                        value={flourTemp}
+                        onChange={(e) => setFlourTemp(e.target.value)}
+                        step="0.1"
+                      />
+                    </div>
+                    {waterTemperature && (
+                      <div className="md:col-span-2 text-sm text-muted-foreground space-y-1">
+                        <p>{describeWaterTemp(waterTemperature)}</p>
+                        {waterTemperature.warnings.map((warning) => (
+                          <p key={warning} className="text-destructive">{warning}</p>
+                        ))}
+                      </div>
+                    )}
+                    <div className="space-y-2">
+                      <div className="flex items-center justify-between">
+                        <Label>Yeast</Label>
+                        {yeastCalculation && (
+                          <span className="text-muted-foreground text-sm">
+                            {yeastCalculation.isCustom ? 'Custom' : 'Calculated'}: {yeastCalculation.percentage}%
+                          </span>
+                        )}
+                      </div>
+                      <Input
+                        type="number"
+                        placeholder={yeastCalculation && !yeastCalculation.isCustom
+                          ? `Calculated ${yeastCalculation.percentage}% (enter to override)`
+                          : "Override yeast %"}
+                        value={customYeastPercentage}
+                        onChange={(e) => {
+                          setCustomYeastPercentage(e.target.value);
+                          resetState();
+                        }}
+                        step="0.01"
+                        min="0"
+                        max="5"
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <Label>Leavening</Label>
+                      <Select
+                        value={leavening}
+                        onValueChange={(value: 'direct' | PrefermentType) => {
+                          setLeavening(value);
+                          if (value !== 'direct') {
+                            setPrefermentPercentage(PREFERMENT_TYPES[value].percentage.toString());
+                            setPrefermentHydration(PREFERMENT_TYPES[value].hydration.toString());
+                          }
+                          resetState();
+                        }}
+                      >
+                        <SelectTrigger>
+                          <SelectValue placeholder="Select leavening" />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="direct">Direct (yeast only)</SelectItem>
+                          {(Object.keys(PREFERMENT_TYPES) as PrefermentType[]).map((type) => (
+                            <SelectItem key={type} value={type}>
+                              {PREFERMENT_TYPES[type].label}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
                     </div>
+                    {leavening !== 'direct' && (
+                      <>
+                        <div className="space-y-2">
+                          <Label>{leavening === 'levain' ? 'Inoculation (% of flour)' : 'Prefermented Flour (%)'}</Label>
+                          <Input
+                            type="number"
+                            value={prefermentPercentage}
+                            onChange={(e) => {
+                              setPrefermentPercentage(e.target.value);
+                              resetState();
+                            }}
+                            step="1"
+                            min="1"
+                            max="100"
+                          />
+                        </div>
+                        <div className="space-y-2">
+                          <Label>{PREFERMENT_TYPES[leavening].label} Hydration (%)</Label>
+                          <Input
+                            type="number"
+                            value={prefermentHydration}
+                            onChange={(e) => {
+                              setPrefermentHydration(e.target.value);
+                              resetState();
+                            }}
+                            step="1"
+                            min="40"
+                            max="125"
+                          />
+                        </div>
+                        {prefermentResult.error && (
+                          <p className="text-sm text-destructive md:col-span-2">{prefermentResult.error}</p>
+                        )}
+                      </>
+                    )}
                   </div>
                 </div>
 
@@ -1609,12 +2118,21 @@ export function DoughCalculator() {
                   {isLoading ? (
                     <div className="flex items-center gap-2">
                       <Loader2 className="h-4 w-4 animate-spin" />
-                      <span>{LOADING_STEPS[loadingStep].text}</span>
+                      <span>
+                        {recipeResult
+                          ? `Analyzing recipe (${receivedSections}/${ANALYSIS_SECTIONS.length})...`
+                          : 'Calculating recipe...'}
+                      </span>
                     </div>
                   ) : (
                     <span>Calculate Recipe</span>
                   )}
                   </Button>
+                  {quota && (
+                    <p className="text-xs text-muted-foreground text-center mt-2">
+                      {quota.remaining} of {quota.limit} requests left, resets at {format(quota.resetTime, 'p')}
+                    </p>
+                  )}
                 </div>
               </form>
           </CardContent>
@@ -1648,11 +2166,29 @@ export function DoughCalculator() {
               <CardHeader className="pb-4">
                 <CardTitle className="text-xl flex items-center gap-2">
                   <ChefHat className="h-5 w-5" />
-                  Recipe for {selectedStyle.charAt(0).toUpperCase() + selectedStyle.slice(1)} Pizza Dough
+                  Recipe for {activeStyle.name} Pizza Dough
                 </CardTitle>
                 <CardDescription>
-                  {doughBalls} x {weightPerBall}g dough balls with {recipeResult?.detailedAnalysis?.hydrationAnalysis?.percentage || hydration}% hydration
+                  {pan
+                    ? `${describePans(pan)}, ${formatWeight(Number(weightPerBall), units)} each`
+                    : `${doughBalls} x ${formatWeight(Number(weightPerBall), units)} dough balls`} with {hydration}% hydration
                 </CardDescription>
+                <div className="flex flex-wrap gap-2 pt-2">
+                  {loadedRecipe && (
+                    <Button variant="outline" size="sm" onClick={() => saveRecipe(true)} disabled={isSavingRecipe || !currentSettings}>
+                      {isSavingRecipe ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Save className="h-4 w-4 mr-2" />}
+                      Save as New Version
+                    </Button>
+                  )}
+                  <Button variant="outline" size="sm" onClick={() => saveRecipe(false)} disabled={isSavingRecipe || !currentSettings}>
+                    {isSavingRecipe ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Save className="h-4 w-4 mr-2" />}
+                    {loadedRecipe ? 'Save as New Recipe' : 'Save to My Recipes'}
+                  </Button>
+                  <Button variant="outline" size="sm" onClick={shareSettings} disabled={!currentSettings}>
+                    <Share2 className="h-4 w-4 mr-2" />
+                    Share
+                  </Button>
+                </div>
                 </CardHeader>
               <CardContent className="space-y-6">
                 {/* Weights */}
@@ -1661,7 +2197,8 @@ export function DoughCalculator() {
                   <div className="grid grid-cols-2 sm:grid-cols-4 gap-3">
                       {(() => {
                       try {
-                        const weights = calculateWeights(recipeResult, parseInt(doughBalls), parseInt(weightPerBall));
+                        const { weights, error } = weightsResult;
+                        if (!weights) throw new Error(error ?? "No weights for this recipe");
                         
                         return (
                           <>
@@ -1670,28 +2207,33 @@ export function DoughCalculator() {
                                 <Wheat className="h-4 w-4 text-muted-foreground" />
                                 <span className="text-sm font-medium">Flour</span>
                               </div>
-                              <p className="text-2xl font-semibold">{weights.flourWeight}g</p>
+                              <p className="text-2xl font-semibold">{formatWeight(weights.flourWeight, units)}</p>
                                   </div>
                             <div className="bg-muted/30 rounded-lg p-4 space-y-1">
                               <div className="flex items-center gap-2">
                                 <Droplets className="h-4 w-4 text-muted-foreground" />
                                 <span className="text-sm font-medium">Water</span>
                                   </div>
-                              <p className="text-2xl font-semibold">{weights.waterWeight}g</p>
+                              <p className="text-2xl font-semibold">{formatWeight(weights.waterWeight, units)}</p>
+                              <VolumeHint grams={weights.waterWeight} ingredient="water" units={units} />
                                 </div>
                             <div className="bg-muted/30 rounded-lg p-4 space-y-1">
                               <div className="flex items-center gap-2">
                                 <CircleDot className="h-4 w-4 text-muted-foreground" />
                                 <span className="text-sm font-medium">Salt</span>
                             </div>
-                              <p className="text-2xl font-semibold">{weights.saltWeight}g</p>
+                              <p className="text-2xl font-semibold">{formatWeight(weights.saltWeight, units)}</p>
+                              <VolumeHint grams={weights.saltWeight} ingredient="salt" units={units} />
                               </div>
                             <div className="bg-muted/30 rounded-lg p-4 space-y-1">
                               <div className="flex items-center gap-2">
                                 <Beaker className="h-4 w-4 text-muted-foreground" />
                                 <span className="text-sm font-medium">Yeast</span>
                               </div>
-                              <p className="text-2xl font-semibold">{weights.yeastWeight.toFixed(1)}g</p>
+                              <p className="text-2xl font-semibold">{formatWeight(weights.yeastWeight, units)}</p>
+                              {yeastType !== 'fresh' && (
+                                <VolumeHint grams={weights.yeastWeight} ingredient={yeastType} units={units} />
+                              )}
                               </div>
                               {weights.oilWeight > 0 && (
                               <div className="bg-muted/30 rounded-lg p-4 space-y-1">
@@ -1699,9 +2241,24 @@ export function DoughCalculator() {
                                   <Droplet className="h-4 w-4 text-muted-foreground" />
                                   <span className="text-sm font-medium">Oil</span>
                                 </div>
-                                <p className="text-2xl font-semibold">{weights.oilWeight}g</p>
+                                <p className="text-2xl font-semibold">{formatWeight(weights.oilWeight, units)}</p>
+                                <VolumeHint grams={weights.oilWeight} ingredient="oil" units={units} />
                                 </div>
                               )}
+                              {([
+                                ['Sugar', weights.sugarWeight, 'sugar'],
+                                ['Diastatic malt', weights.maltWeight, 'malt'],
+                                ['Honey', weights.honeyWeight, 'honey']
+                              ] as const).filter(([, weight]) => weight > 0).map(([label, weight, ingredient]) => (
+                                <div key={label} className="bg-muted/30 rounded-lg p-4 space-y-1">
+                                  <div className="flex items-center gap-2">
+                                    <Flame className="h-4 w-4 text-muted-foreground" />
+                                    <span className="text-sm font-medium">{label}</span>
+                                  </div>
+                                  <p className="text-2xl font-semibold">{formatWeight(weight, units)}</p>
+                                  <VolumeHint grams={weight} ingredient={ingredient} units={units} />
+                                </div>
+                              ))}
                           </>
                         );
                       } catch (error) {
@@ -1715,44 +2272,77 @@ export function DoughCalculator() {
                     })()}
                             </div>
 
+                  {/* Preferment build and final mix */}
+                  {prefermentResult.split && (
+                    <div className="mt-4 grid grid-cols-1 sm:grid-cols-2 gap-3">
+                      <div className="bg-muted/30 rounded-lg p-4 space-y-1">
+                        <h4 className="text-sm font-medium">{PREFERMENT_TYPES[prefermentResult.split.preferment.type].label}</h4>
+                        <p className="text-sm text-muted-foreground">
+                          {formatWeight(prefermentResult.split.preferment.flour, units)} flour, {formatWeight(prefermentResult.split.preferment.water, units)} water
+                          {prefermentResult.split.preferment.yeast > 0 && `, ${formatWeight(prefermentResult.split.preferment.yeast, units)} yeast`}
+                        </p>
+                        <p className="text-2xl font-semibold">{formatWeight(prefermentResult.split.preferment.total, units)}</p>
+                      </div>
+                      <div className="bg-muted/30 rounded-lg p-4 space-y-1">
+                        <h4 className="text-sm font-medium">Final Mix</h4>
+                        <p className="text-sm text-muted-foreground">
+                          All of the {prefermentResult.split.preferment.type}, {formatWeight(prefermentResult.split.finalMix.flour, units)} flour, {formatWeight(prefermentResult.split.finalMix.water, units)} water, {formatWeight(prefermentResult.split.finalMix.salt, units)} salt
+                          {prefermentResult.split.finalMix.yeast > 0 && `, ${formatWeight(prefermentResult.split.finalMix.yeast, units)} yeast`}
+                          {prefermentResult.split.finalMix.oil > 0 && `, ${formatWeight(prefermentResult.split.finalMix.oil, units)} oil`}
+                          {prefermentResult.split.finalMix.sugar > 0 && `, ${formatWeight(prefermentResult.split.finalMix.sugar, units)} sugar`}
+                          {prefermentResult.split.finalMix.malt > 0 && `, ${formatWeight(prefermentResult.split.finalMix.malt, units)} diastatic malt`}
+                          {prefermentResult.split.finalMix.honey > 0 && `, ${formatWeight(prefermentResult.split.finalMix.honey, units)} honey`}
+                        </p>
+                      </div>
+                    </div>
+                  )}
+
                   {/* Custom flour mix if applicable */}
-                  {recipeResult?.recipe?.flourMix && recipeResult.recipe.flourMix.secondaryType && (
+                  {bakersFormula?.flourMix && weightsResult.weights && (
                     <div className="mt-4">
                       <h4 className="text-sm font-medium mb-2">Flour Mix</h4>
                       <div className="grid grid-cols-2 gap-3">
-                        {(() => {
-                          try {
-                            const weights = calculateWeights(recipeResult, parseInt(doughBalls), parseInt(weightPerBall));
-                            if (!weights.flourMixWeights) return null;
-                            
-                            return (
-                              <>
-                                <div className="bg-muted/30 rounded-lg p-4 space-y-1">
-                                  <div className="flex items-center gap-2">
-                                    <Wheat className="h-4 w-4 text-muted-foreground" />
-                                    <span className="text-sm font-medium">
-                                      {recipeResult.recipe?.flourMix?.primaryType || 'Primary'} ({recipeResult.recipe?.flourMix?.primaryPercentage}%)
-                                    </span>
-                              </div>
-                                  <p className="text-2xl font-semibold">{weights.flourMixWeights.primary}g</p>
-                              </div>
-                                <div className="bg-muted/30 rounded-lg p-4 space-y-1">
-                                  <div className="flex items-center gap-2">
-                                    <Wheat className="h-4 w-4 text-muted-foreground" />
-                                    <span className="text-sm font-medium">
-                                      {recipeResult.recipe?.flourMix?.secondaryType || 'Secondary'} ({100 - (recipeResult.recipe?.flourMix?.primaryPercentage || 0)}%)
-                                    </span>
+                        {weightsResult.weights.flours.map((flour) => (
+                          <div key={flour.type} className="bg-muted/30 rounded-lg p-4 space-y-1">
+                            <div className="flex items-center gap-2">
+                              <Wheat className="h-4 w-4 text-muted-foreground" />
+                              <span className="text-sm font-medium">
+                                {flour.type} ({flour.percentage}%)
+                              </span>
                             </div>
-                                  <p className="text-2xl font-semibold">{weights.flourMixWeights.secondary}g</p>
+                            <p className="text-2xl font-semibold">{formatWeight(flour.weight, units)}</p>
                           </div>
-                              </>
-                        );
-                          } catch (error) {
-                            console.error("Error calculating flour mix weights:", error);
-                            return null;
-                          }
-                      })()}
+                        ))}
+                      </div>
                     </div>
+                  )}
+
+                  {/* Production run in mixer-sized batches */}
+                  {bakersFormula && (
+                    <div className="mt-6 space-y-4">
+                      <div className="flex items-center justify-between">
+                        <div>
+                          <h3 className="font-medium text-sm">Production Run</h3>
+                          <p className="text-xs text-muted-foreground">Split the dough into batches your mixer can take</p>
+                        </div>
+                        <Switch
+                          checked={!!production}
+                          onCheckedChange={(checked) => setProduction(checked ? defaultProductionSettings(mixer) : null)}
+                          aria-label="Production run"
+                        />
+                      </div>
+                      {production && (
+                        <ProductionPlanner
+                          formula={bakersFormula}
+                          settings={production}
+                          onChange={setProduction}
+                          units={units}
+                          preferment={prefermentInput}
+                          yeastType={yeastType}
+                          mixAt={bakeSchedule?.steps.find(step => step.name === 'Mix')?.start ?? null}
+                          noun={pan ? 'pans' : 'balls'}
+                        />
+                      )}
                     </div>
                   )}
                   </div>
@@ -1766,8 +2356,28 @@ export function DoughCalculator() {
                 <CardDescription>Step by step guide for your dough preparation</CardDescription>
                 </CardHeader>
                 <CardContent className="overflow-hidden">
-                {recipeResult?.processTimeline?.steps?.map((step, index) => {
-                  const timelineConnector = index !== recipeResult.processTimeline.steps.length - 1 ? (
+                {bakeSchedule && (
+                  <div className="mb-6 rounded-lg bg-muted/30 p-4">
+                    <h4 className="text-sm font-medium mb-3">Your Schedule</h4>
+                    <div className="space-y-1.5">
+                      {bakeSchedule.steps.map((step) => (
+                        <div key={`${step.name}-${step.start.getTime()}`} className="flex items-center gap-3 text-sm">
+                          <span className={cn("w-28 flex-shrink-0 font-mono", step.isNight && "text-amber-600")}>
+                            {format(step.start, "EEE HH:mm")}
+                          </span>
+                          <span className="flex-1">{step.name}</span>
+                          {step.hours > 0 && (
+                            <span className="text-muted-foreground">
+                              {step.hours >= 1 ? `${step.hours}h` : `${Math.round(step.hours * 60)} min`}
+                            </span>
+                          )}
+                        </div>
+                      ))}
+                    </div>
+                  </div>
+                )}
+                {recipeResult?.processTimeline?.steps?.map((step, index, steps) => {
+                  const timelineConnector = index !== steps.length - 1 ? (
                     <div className="absolute left-[11px] top-2 h-full w-[2px] bg-muted-foreground/20" />
                   ) : null;
 
@@ -1807,6 +2417,7 @@ export function DoughCalculator() {
                     </div>
                   );
                 })}
+                {isPending('processTimeline') && <PendingSection />}
                 </CardContent>
               </Card>
 
@@ -1822,40 +2433,41 @@ export function DoughCalculator() {
                     <Tabs defaultValue="flour" className="w-full">
                       <TabsList className="mb-4">
                         <TabsTrigger value="flour" className="text-xs flex-shrink-0">
-                          <Wheat className="h-4 w-4 sm:mr-2" />
+                          {isPending('flourAnalysis') ? <Loader2 className="h-4 w-4 sm:mr-2 animate-spin" /> : <Wheat className="h-4 w-4 sm:mr-2" />}
                           <span className="hidden sm:inline">Flour</span>
                         </TabsTrigger>
                         <TabsTrigger value="hydration" className="text-xs flex-shrink-0">
-                          <Droplets className="h-4 w-4 sm:mr-2" />
+                          {isPending('hydrationAnalysis') ? <Loader2 className="h-4 w-4 sm:mr-2 animate-spin" /> : <Droplets className="h-4 w-4 sm:mr-2" />}
                           <span className="hidden sm:inline">Hydration</span>
                         </TabsTrigger>
                         <TabsTrigger value="salt" className="text-xs flex-shrink-0">
-                          <CircleDot className="h-4 w-4 sm:mr-2" />
+                          {isPending('saltAnalysis') ? <Loader2 className="h-4 w-4 sm:mr-2 animate-spin" /> : <CircleDot className="h-4 w-4 sm:mr-2" />}
                           <span className="hidden sm:inline">Salt</span>
                         </TabsTrigger>
                         <TabsTrigger value="oil" className="text-xs flex-shrink-0">
-                          <Droplet className="h-4 w-4 sm:mr-2" />
+                          {isPending('oilAnalysis') ? <Loader2 className="h-4 w-4 sm:mr-2 animate-spin" /> : <Droplet className="h-4 w-4 sm:mr-2" />}
                           <span className="hidden sm:inline">Oil</span>
                         </TabsTrigger>
                         <TabsTrigger value="yeast" className="text-xs flex-shrink-0">
-                          <Beaker className="h-4 w-4 sm:mr-2" />
+                          {isPending('yeastAnalysis') ? <Loader2 className="h-4 w-4 sm:mr-2 animate-spin" /> : <Beaker className="h-4 w-4 sm:mr-2" />}
                           <span className="hidden sm:inline">Yeast</span>
                         </TabsTrigger>
                         <TabsTrigger value="temperature" className="text-xs flex-shrink-0">
-                          <Thermometer className="h-4 w-4 sm:mr-2" />
+                          {isPending('temperatureAnalysis') ? <Loader2 className="h-4 w-4 sm:mr-2 animate-spin" /> : <Thermometer className="h-4 w-4 sm:mr-2" />}
                           <span className="hidden sm:inline">Temperature</span>
                         </TabsTrigger>
                         <TabsTrigger value="fermentation" className="text-xs flex-shrink-0">
-                          <Clock className="h-4 w-4 sm:mr-2" />
+                          {isPending('fermentationAnalysis') ? <Loader2 className="h-4 w-4 sm:mr-2 animate-spin" /> : <Clock className="h-4 w-4 sm:mr-2" />}
                           <span className="hidden sm:inline">Fermentation</span>
                         </TabsTrigger>
                         <TabsTrigger value="technique" className="text-xs flex-shrink-0">
-                          <Utensils className="h-4 w-4 sm:mr-2" />
+                          {isPending('techniqueGuidance') ? <Loader2 className="h-4 w-4 sm:mr-2 animate-spin" /> : <Utensils className="h-4 w-4 sm:mr-2" />}
                           <span className="hidden sm:inline">Technique</span>
                         </TabsTrigger>
                       </TabsList>
 
                       <TabsContent value="flour" className="space-y-4">
+                        {isPending('flourAnalysis') && <PendingSection />}
                         {recipeResult.flourRecommendation?.primary && (
                           <div className="p-4 bg-muted/30 rounded-lg">
                             <h3 className="text-lg font-semibold mb-2 flex items-center gap-2">
@@ -1898,6 +2510,7 @@ export function DoughCalculator() {
                       </TabsContent>
 
                       <TabsContent value="hydration" className="space-y-4">
+                        {isPending('hydrationAnalysis') && <PendingSection />}
                         <div className="space-y-4">
                           <div className="p-4 bg-muted/30 rounded-lg">
                             <h3 className="text-lg font-semibold mb-2 flex items-center gap-2">
@@ -1939,6 +2552,7 @@ export function DoughCalculator() {
                       </TabsContent>
 
                       <TabsContent value="salt" className="space-y-4">
+                        {isPending('saltAnalysis') && <PendingSection />}
                         <div className="space-y-4">
                           <div className="p-4 bg-muted/30 rounded-lg">
                             <h3 className="text-lg font-semibold mb-2 flex items-center gap-2">
@@ -1980,6 +2594,7 @@ export function DoughCalculator() {
                       </TabsContent>
 
                       <TabsContent value="oil" className="space-y-4">
+                        {isPending('oilAnalysis') && <PendingSection />}
                         <div className="space-y-4">
                           <div className="p-4 bg-muted/30 rounded-lg">
                             <h3 className="text-lg font-semibold mb-2 flex items-center gap-2">
@@ -2021,6 +2636,7 @@ export function DoughCalculator() {
                       </TabsContent>
 
                       <TabsContent value="yeast" className="space-y-4">
+                        {isPending('yeastAnalysis') && <PendingSection />}
                         <div className="space-y-4">
                           <div className="p-4 bg-muted/30 rounded-lg">
                             <h3 className="text-lg font-semibold mb-2 flex items-center gap-2">
@@ -2028,11 +2644,18 @@ export function DoughCalculator() {
                               Recommended Yeast
                             </h3>
                             <p className="text-2xl font-bold mb-2">
-                              {recipeResult.detailedAnalysis?.yeastAnalysis?.percentage || 0.2}%
+                              {yeastCalculation?.percentage ?? recipeResult.detailedAnalysis?.yeastAnalysis?.percentage}%
                             </p>
                             <Badge variant="outline">
-                              {recipeResult.detailedAnalysis?.yeastAnalysis?.type || yeastType}
+                              {yeastType}
                             </Badge>
+                            {yeastCalculation && (
+                              <p className="text-sm text-muted-foreground mt-2">
+                                {yeastCalculation.isCustom
+                                  ? `Set manually (${yeastCalculation.idyPercentage}% IDY equivalent)`
+                                  : `Calculated from ${yeastCalculation.equivalentHours} equivalent fermentation hours at 25°C: ${yeastCalculation.phases.map(phase => `${phase.name} ${phase.hours}h`).join(', ')}`}
+                              </p>
+                            )}
                           </div>
                           
                           {recipeResult.detailedAnalysis?.yeastAnalysis?.rationale && (
@@ -2082,6 +2705,7 @@ export function DoughCalculator() {
                       </TabsContent>
 
                       <TabsContent value="temperature" className="space-y-4">
+                        {isPending('temperatureAnalysis') && <PendingSection />}
                         <div className="space-y-4">
                           <div className="p-4 bg-muted/30 rounded-lg">
                             <h3 className="text-lg font-semibold mb-2 flex items-center gap-2">
@@ -2123,6 +2747,7 @@ export function DoughCalculator() {
                       </TabsContent>
 
                       <TabsContent value="fermentation" className="space-y-4">
+                        {isPending('fermentationAnalysis') && <PendingSection />}
                         <div className="space-y-4">
                           <div className="p-4 bg-muted/30 rounded-lg">
                             <h3 className="text-lg font-semibold mb-2 flex items-center gap-2">
@@ -2167,6 +2792,7 @@ export function DoughCalculator() {
                       </TabsContent>
 
                       <TabsContent value="technique" className="space-y-4">
+                        {isPending('techniqueGuidance') && <PendingSection />}
                         <div className="space-y-4">
                           {recipeResult.detailedAnalysis?.techniqueGuidance?.mixing && (
                             <div className="p-4 bg-muted/30 rounded-lg">
@@ -32,6 +32,12 @@ export function Header() {
             >
               Calculator
             </Link>
+            <Link
+              href="/recipes"
+              className={`nav-link ${isActive('/recipes') ? 'active' : ''}`}
+            >
+              My Recipes
+            </Link>
           </nav>
           <Sheet>
             <SheetTrigger asChild className="md:hidden">
@@ -48,7 +54,7 @@ export function Header() {
               <VisuallyHidden.Root>
                 <SheetTitle>Mobile Navigation Menu</SheetTitle>
                 <SheetDescription>
-                  Contains links to navigate the website, including Home and Calculator.
+                  Contains links to navigate the website, including Home, Calculator and My Recipes.
                 </SheetDescription>
               </VisuallyHidden.Root>
               <div className="flex flex-col h-full">
@@ -68,6 +74,12 @@ export function Header() {
                   >
                     Calculator
                   </Link>
+                  <Link
+                    href="/recipes"
+                    className={`nav-link text-lg ${isActive('/recipes') ? 'active' : ''}`}
+                  >
+                    My Recipes
+                  </Link>
                 </nav>
                 <div className="mt-auto pt-6 border-t border-primary/10">
                   <p className="text-sm text-muted-foreground">
@@ -0,0 +1,174 @@
+'use client'
+
+import { useMemo } from 'react'
+import { addMinutes, format } from 'date-fns'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { CURRENCIES, PRICED_INGREDIENTS, planProduction, type ProductionBatch } from '@/lib/dough/production'
+import { PREFERMENT_TYPES, splitPreferment } from '@/lib/dough/preferment'
+import type { BakersFormula } from '@/lib/dough/weights'
+import { formatWeight } from '@/lib/units'
+import { formatPrice } from '@/lib/utils'
+import type { Currency, PricedIngredient, Preferment, ProductionSettings, UnitSystem, YeastType } from '@/types/pizza'
+
+interface ProductionPlannerProps {
+  formula: BakersFormula
+  settings: ProductionSettings
+  onChange: (settings: ProductionSettings) => void
+  units: UnitSystem
+  preferment: Preferment | null
+  yeastType: YeastType
+  // When the first batch goes into the mixer, if the bake has been scheduled
+  mixAt: Date | null
+  // 'balls', or 'pans' when the dough is sized by pan
+  noun: string
+}
+
+function ingredientList(batch: ProductionBatch, units: UnitSystem): string {
+  const { ingredients } = batch
+  const weight = (grams: number) => formatWeight(grams, units)
+  const flours = ingredients.flours.length
+    ? ingredients.flours.map(flour => `${weight(flour.weight)} ${flour.type}`)
+    : [`${weight(ingredients.flourWeight)} flour`]
+  return [
+    ...flours,
+    `${weight(ingredients.waterWeight)} water`,
+    `${weight(ingredients.saltWeight)} salt`,
+    ingredients.yeastWeight > 0 ? `${weight(ingredients.yeastWeight)} yeast` : null,
+    ingredients.oilWeight > 0 ? `${weight(ingredients.oilWeight)} oil` : null,
+    ingredients.sugarWeight > 0 ? `${weight(ingredients.sugarWeight)} sugar` : null,
+    ingredients.maltWeight > 0 ? `${weight(ingredients.maltWeight)} diastatic malt` : null,
+    ingredients.honeyWeight > 0 ? `${weight(ingredients.honeyWeight)} honey` : null
+  ].filter(Boolean).join(', ')
+}
+
+/**
+ * Batches, mixing times and cost for a production run of the current dough
+ */
+export function ProductionPlanner({ formula, settings, onChange, units, preferment, yeastType, mixAt, noun }: ProductionPlannerProps) {
+  const result = useMemo(() => {
+    try {
+      return { plan: planProduction(formula, settings), error: null }
+    } catch (error) {
+      return { plan: null, error: (error as Error).message }
+    }
+  }, [formula, settings])
+
+  const update = (changes: Partial<ProductionSettings>) => onChange({ ...settings, ...changes })
+  const updatePrice = (ingredient: PricedIngredient, value: string) =>
+    update({ prices: { ...settings.prices, [ingredient]: parseFloat(value) || 0 } })
+  const price = (amount: number) => formatPrice(amount, { currency: settings.currency, notation: 'standard' })
+  const { plan } = result
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+        <div className="space-y-2">
+          <Label>Mixer capacity (kg of flour)</Label>
+          <Input
+            type="number"
+            min="0.5"
+            step="0.5"
+            value={settings.mixerCapacityKg || ''}
+            onChange={(e) => update({ mixerCapacityKg: parseFloat(e.target.value) || 0 })}
+          />
+        </div>
+        <div className="space-y-2">
+          <Label>Minutes between batches</Label>
+          <Input
+            type="number"
+            min="0"
+            step="1"
+            value={settings.minutesBetweenBatches}
+            onChange={(e) => update({ minutesBetweenBatches: parseInt(e.target.value) || 0 })}
+          />
+        </div>
+        <div className="space-y-2">
+          <Label>Currency</Label>
+          <Select value={settings.currency} onValueChange={(value: Currency) => update({ currency: value })}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {CURRENCIES.map(currency => (
+                <SelectItem key={currency} value={currency}>{currency}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        <Label>Prices per kg</Label>
+        <div className="grid grid-cols-2 sm:grid-cols-4 gap-3">
+          {(Object.keys(PRICED_INGREDIENTS) as PricedIngredient[]).map(ingredient => (
+            <div key={ingredient} className="space-y-1">
+              <span className="text-xs text-muted-foreground">{PRICED_INGREDIENTS[ingredient]}</span>
+              <Input
+                type="number"
+                min="0"
+                step="0.1"
+                value={settings.prices[ingredient]}
+                onChange={(e) => updatePrice(ingredient, e.target.value)}
+              />
+            </div>
+          ))}
+        </div>
+      </div>
+
+      {result.error && <p className="text-sm text-destructive">{result.error}</p>}
+
+      {plan && (
+        <>
+          <p className="text-sm text-muted-foreground">
+            {formula.ballCount} {noun} in {plan.batches.length} {plan.batches.length === 1 ? 'batch' : 'batches'},
+            up to {plan.maxBallsPerBatch} {noun} per batch
+          </p>
+
+          <div className="space-y-3">
+            {plan.batches.map(batch => {
+              const split = preferment ? splitPreferment(batch.ingredients, preferment, yeastType) : null
+              return (
+                <div key={batch.number} className="rounded-lg bg-muted/30 p-4 space-y-1">
+                  <div className="flex items-center justify-between">
+                    <h4 className="text-sm font-medium">Batch {batch.number}: {batch.balls} {noun}</h4>
+                    <span className="text-sm text-muted-foreground">
+                      {mixAt
+                        ? `Mix at ${format(addMinutes(mixAt, batch.startMinutes), 'EEE h:mm a')}`
+                        : batch.startMinutes === 0 ? 'Mix first' : `Mix ${batch.startMinutes} min after batch 1`}
+                    </span>
+                  </div>
+                  <p className="text-sm">{ingredientList(batch, units)}</p>
+                  {split && (
+                    <p className="text-xs text-muted-foreground">
+                      {PREFERMENT_TYPES[split.preferment.type].label}: {formatWeight(split.preferment.flour, units)} flour,{' '}
+                      {formatWeight(split.preferment.water, units)} water; the rest goes into the final mix
+                    </p>
+                  )}
+                  <p className="text-xs text-muted-foreground">{formatWeight(batch.ingredients.totalWeight, units)} of dough</p>
+                </div>
+              )
+            })}
+          </div>
+
+          <div>
+            <h4 className="text-sm font-medium mb-2">Cost</h4>
+            {plan.cost.lines.map(line => (
+              <div key={line.ingredient} className="flex justify-between border-b py-1.5 text-sm">
+                <span className="text-muted-foreground">
+                  {PRICED_INGREDIENTS[line.ingredient]} · {formatWeight(line.grams, units)}
+                </span>
+                <span>{price(line.cost)}</span>
+              </div>
+            ))}
+            <div className="flex justify-between py-1.5 text-sm font-medium">
+              <span>Total</span>
+              <span>{price(plan.cost.total)} ({price(plan.cost.perBall)} per {noun === 'pans' ? 'pan' : 'ball'})</span>
+            </div>
+          </div>
+        </>
+      )}
+    </div>
+  )
+}
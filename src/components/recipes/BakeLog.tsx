@@ -0,0 +1,323 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { format } from 'date-fns'
+import { Loader2, Star, Trash2 } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { Textarea } from '@/components/ui/textarea'
+import { toast } from '@/hooks/use-toast'
+import { useUnitSystem } from '@/hooks/use-unit-system'
+import { overallScore, scoreByVersion } from '@/lib/recipes/bakes'
+import { UNIT_SYSTEMS, formatTemperature, toCelsius } from '@/lib/units'
+import type { CalculatorSettings } from '@/types/pizza'
+
+interface Bake {
+  id: string
+  recipeVersion: number | null
+  bakedAt: string
+  roomTemp: number | null
+  tempUnit: 'C' | 'F'
+  bulkHours: number | null
+  coldHours: number | null
+  proofHours: number | null
+  oven: string | null
+  photos: string[]
+  crustScore: number
+  crumbScore: number
+  flavorScore: number
+  notes: string | null
+}
+
+type ScoreField = 'crustScore' | 'crumbScore' | 'flavorScore'
+
+const SCORE_FIELDS: { field: ScoreField; label: string }[] = [
+  { field: 'crustScore', label: 'Crust' },
+  { field: 'crumbScore', label: 'Crumb' },
+  { field: 'flavorScore', label: 'Flavour' }
+]
+
+const EMPTY_FORM = {
+  bakedAt: format(new Date(), "yyyy-MM-dd'T'HH:mm"),
+  recipeVersion: '',
+  roomTemp: '',
+  tempUnit: 'F' as 'C' | 'F',
+  bulkHours: '',
+  coldHours: '',
+  proofHours: '',
+  oven: '',
+  photos: '',
+  notes: '',
+  crustScore: 3,
+  crumbScore: 3,
+  flavorScore: 3
+}
+
+function parseOptional(value: string): number | null {
+  const number = parseFloat(value)
+  return isNaN(number) ? null : number
+}
+
+function ScoreInput({ value, onChange }: { value: number; onChange: (value: number) => void }) {
+  return (
+    <div className="flex gap-1">
+      {[1, 2, 3, 4, 5].map(score => (
+        <button key={score} type="button" onClick={() => onChange(score)} aria-label={`${score} of 5`}>
+          <Star className={score <= value ? 'h-5 w-5 fill-yellow-400 text-yellow-400' : 'h-5 w-5 text-muted-foreground'} />
+        </button>
+      ))}
+    </div>
+  )
+}
+
+export function BakeLog({ recipeId, versions }: {
+  recipeId: string
+  versions: { version: number; settings: CalculatorSettings }[]
+}) {
+  const [bakes, setBakes] = useState<Bake[] | null>(null)
+  const [form, setForm] = useState(EMPTY_FORM)
+  const [isSaving, setIsSaving] = useState(false)
+  const [units] = useUnitSystem()
+  const tempUnit = UNIT_SYSTEMS[units].temperature
+
+  // New bakes are logged in the baker's preferred unit
+  useEffect(() => {
+    setForm(current => ({ ...current, tempUnit }))
+  }, [tempUnit])
+
+  useEffect(() => {
+    fetch(`/api/recipes/${recipeId}/bakes`)
+      .then(response => (response.ok ? response.json() : { bakes: [] }))
+      .then(data => setBakes(data.bakes))
+  }, [recipeId])
+
+  const update = <K extends keyof typeof EMPTY_FORM>(key: K, value: (typeof EMPTY_FORM)[K]) => {
+    setForm(current => ({ ...current, [key]: value }))
+  }
+
+  const logBake = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setIsSaving(true)
+    try {
+      const response = await fetch(`/api/recipes/${recipeId}/bakes`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          bakedAt: new Date(form.bakedAt).toISOString(),
+          recipeVersion: form.recipeVersion ? parseInt(form.recipeVersion, 10) : null,
+          roomTemp: parseOptional(form.roomTemp),
+          tempUnit: form.tempUnit,
+          bulkHours: parseOptional(form.bulkHours),
+          coldHours: parseOptional(form.coldHours),
+          proofHours: parseOptional(form.proofHours),
+          oven: form.oven || null,
+          photos: Array.from(new Set(form.photos.split('\n').map(url => url.trim()).filter(Boolean))),
+          crustScore: form.crustScore,
+          crumbScore: form.crumbScore,
+          flavorScore: form.flavorScore,
+          notes: form.notes || null
+        })
+      })
+      if (!response.ok) throw new Error('Check the bake details and try again')
+      const { bake } = await response.json()
+      setBakes(current => [bake, ...(current ?? [])])
+      setForm({ ...EMPTY_FORM, tempUnit })
+    } catch (error) {
+      toast({ title: 'Could not log bake', description: (error as Error).message, variant: 'destructive' })
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const deleteBake = async (id: string) => {
+    const response = await fetch(`/api/recipes/${recipeId}/bakes/${id}`, { method: 'DELETE' })
+    if (response.ok) {
+      setBakes(current => current?.filter(bake => bake.id !== id) ?? null)
+    }
+  }
+
+  const describeVersion = (version: number | null) => {
+    const settings = versions.find(v => v.version === version)?.settings
+    if (!settings) return version ? `Version ${version}` : 'Unknown version'
+    return `Version ${version} · ${settings.hydration}% hydration · ${settings.fermentation}`
+  }
+
+  const ranking = bakes ? scoreByVersion(bakes) : []
+
+  return (
+    <div className="space-y-6">
+      {ranking.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-lg">Best Settings</CardTitle>
+            <CardDescription>Average scores for each version you have baked</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-muted-foreground text-left">
+                  <th className="pb-2 font-normal">Version</th>
+                  <th className="pb-2 font-normal text-right">Bakes</th>
+                  <th className="pb-2 font-normal text-right">Crust</th>
+                  <th className="pb-2 font-normal text-right">Crumb</th>
+                  <th className="pb-2 font-normal text-right">Flavour</th>
+                  <th className="pb-2 font-normal text-right">Overall</th>
+                </tr>
+              </thead>
+              <tbody>
+                {ranking.map(row => (
+                  <tr key={row.recipeVersion ?? 'none'} className="border-t">
+                    <td className="py-1.5">{describeVersion(row.recipeVersion)}</td>
+                    <td className="py-1.5 text-right">{row.bakes}</td>
+                    <td className="py-1.5 text-right">{row.crust}</td>
+                    <td className="py-1.5 text-right">{row.crumb}</td>
+                    <td className="py-1.5 text-right">{row.flavor}</td>
+                    <td className="py-1.5 text-right font-medium">{row.overall}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </CardContent>
+        </Card>
+      )}
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-lg">Log a Bake</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <form onSubmit={logBake} className="space-y-4">
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label>Baked At</Label>
+                <Input type="datetime-local" value={form.bakedAt} onChange={(e) => update('bakedAt', e.target.value)} required />
+              </div>
+              <div className="space-y-2">
+                <Label>Version</Label>
+                <Select value={form.recipeVersion} onValueChange={(value) => update('recipeVersion', value)}>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Latest version" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {versions.map(v => (
+                      <SelectItem key={v.version} value={v.version.toString()}>Version {v.version}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label>Actual Room Temperature</Label>
+                <div className="flex gap-2">
+                  <Input type="number" step="0.1" value={form.roomTemp} onChange={(e) => update('roomTemp', e.target.value)} />
+                  <Select value={form.tempUnit} onValueChange={(value: 'C' | 'F') => update('tempUnit', value)}>
+                    <SelectTrigger className="w-20">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="C">°C</SelectItem>
+                      <SelectItem value="F">°F</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+              <div className="space-y-2">
+                <Label>Oven</Label>
+                <Input placeholder="e.g., Ooni Koda 16" value={form.oven} onChange={(e) => update('oven', e.target.value)} />
+              </div>
+              <div className="space-y-2">
+                <Label>Bulk (hours)</Label>
+                <Input type="number" step="0.25" min="0" value={form.bulkHours} onChange={(e) => update('bulkHours', e.target.value)} />
+              </div>
+              <div className="space-y-2">
+                <Label>Cold Ferment (hours)</Label>
+                <Input type="number" step="0.25" min="0" value={form.coldHours} onChange={(e) => update('coldHours', e.target.value)} />
+              </div>
+              <div className="space-y-2">
+                <Label>Final Proof (hours)</Label>
+                <Input type="number" step="0.25" min="0" value={form.proofHours} onChange={(e) => update('proofHours', e.target.value)} />
+              </div>
+            </div>
+
+            <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+              {SCORE_FIELDS.map(({ field, label }) => (
+                <div key={field} className="space-y-2">
+                  <Label>{label}</Label>
+                  <ScoreInput value={form[field]} onChange={(value) => update(field, value)} />
+                </div>
+              ))}
+            </div>
+
+            <div className="space-y-2">
+              <Label>Photo Links</Label>
+              <Textarea placeholder="One link per line" rows={2} value={form.photos} onChange={(e) => update('photos', e.target.value)} />
+            </div>
+            <div className="space-y-2">
+              <Label>Notes</Label>
+              <Textarea rows={3} value={form.notes} onChange={(e) => update('notes', e.target.value)} />
+            </div>
+
+            <Button type="submit" disabled={isSaving}>
+              {isSaving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Log Bake
+            </Button>
+          </form>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-lg">Bake History</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-3">
+          {!bakes ? (
+            <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+          ) : bakes.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No bakes logged yet.</p>
+          ) : (
+            bakes.map(bake => (
+              <div key={bake.id} className="rounded-lg bg-muted/30 p-4 space-y-2 text-sm">
+                <div className="flex items-start justify-between">
+                  <div>
+                    <p className="font-medium">{format(new Date(bake.bakedAt), 'PPp')}</p>
+                    <p className="text-muted-foreground">{describeVersion(bake.recipeVersion)}</p>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <span className="flex items-center gap-1 font-medium">
+                      <Star className="h-4 w-4 fill-yellow-400 text-yellow-400" />
+                      {overallScore(bake)}
+                    </span>
+                    <Button variant="ghost" size="icon" className="h-7 w-7" onClick={() => deleteBake(bake.id)}>
+                      <Trash2 className="h-4 w-4" />
+                      <span className="sr-only">Delete bake</span>
+                    </Button>
+                  </div>
+                </div>
+                <p className="text-muted-foreground">
+                  Crust {bake.crustScore} · Crumb {bake.crumbScore} · Flavour {bake.flavorScore}
+                  {bake.roomTemp !== null && ` · ${formatTemperature(toCelsius(bake.roomTemp, bake.tempUnit), tempUnit)}`}
+                  {bake.bulkHours !== null && ` · bulk ${bake.bulkHours}h`}
+                  {bake.coldHours !== null && ` · cold ${bake.coldHours}h`}
+                  {bake.proofHours !== null && ` · proof ${bake.proofHours}h`}
+                  {bake.oven && ` · ${bake.oven}`}
+                </p>
+                {bake.notes && <p>{bake.notes}</p>}
+                {bake.photos.length > 0 && (
+                  <div className="flex flex-wrap gap-3">
+                    {bake.photos.map((url, index) => (
+                      <a key={index} href={url} target="_blank" rel="noopener noreferrer" className="text-primary underline">
+                        Photo {index + 1}
+                      </a>
+                    ))}
+                  </div>
+                )}
+              </div>
+            ))
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
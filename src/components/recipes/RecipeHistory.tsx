@@ -0,0 +1,166 @@
+'use client'
+
+import { useEffect, useMemo, useState } from 'react'
+import Link from 'next/link'
+import { format } from 'date-fns'
+import { ArrowRight, Loader2, RotateCcw } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { useUnitSystem } from '@/hooks/use-unit-system'
+import { diffSnapshots, type DiffSection, type RecipeSnapshot } from '@/lib/recipes/diff'
+import { UNIT_SYSTEMS } from '@/lib/units'
+import { BakeLog } from '@/components/recipes/BakeLog'
+
+interface VersionSummary extends RecipeSnapshot {
+  version: number
+  createdAt: string
+}
+
+const SECTION_LABELS: Record<DiffSection, string> = {
+  percentages: "Baker's Percentages",
+  grams: 'Weights',
+  fermentation: 'Fermentation',
+  flour: 'Flour Mix'
+}
+
+function formatValue(value: string | number | null): string {
+  return value === null ? '-' : String(value)
+}
+
+export function RecipeHistory({ recipeId }: { recipeId: string }) {
+  const [name, setName] = useState('')
+  const [versions, setVersions] = useState<VersionSummary[] | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  const [fromVersion, setFromVersion] = useState<number | null>(null)
+  const [toVersion, setToVersion] = useState<number | null>(null)
+  const [units] = useUnitSystem()
+
+  useEffect(() => {
+    fetch(`/api/recipes/${recipeId}/versions`)
+      .then(response => {
+        if (!response.ok) throw new Error(response.status === 401 ? 'Sign in to see this recipe' : 'Recipe not found')
+        return response.json()
+      })
+      .then(data => {
+        setName(data.recipe.name)
+        setVersions(data.versions)
+        // Newest first: compare the latest against the one before it
+        setToVersion(data.versions[0]?.version ?? null)
+        setFromVersion(data.versions[1]?.version ?? data.versions[0]?.version ?? null)
+      })
+      .catch((error: Error) => setError(error.message))
+  }, [recipeId])
+
+  const diff = useMemo(() => {
+    const from = versions?.find(v => v.version === fromVersion)
+    const to = versions?.find(v => v.version === toVersion)
+    return from && to ? diffSnapshots(from, to, UNIT_SYSTEMS[units].temperature) : null
+  }, [versions, fromVersion, toVersion, units])
+
+  if (error) {
+    return <p className="text-center text-destructive">{error}</p>
+  }
+
+  if (!versions) {
+    return (
+      <div className="flex justify-center py-16">
+        <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+      </div>
+    )
+  }
+
+  const versionSelect = (value: number | null, onChange: (version: number) => void) => (
+    <Select value={value?.toString()} onValueChange={(v) => onChange(parseInt(v, 10))}>
+      <SelectTrigger className="w-40">
+        <SelectValue placeholder="Version" />
+      </SelectTrigger>
+      <SelectContent>
+        {versions.map(v => (
+          <SelectItem key={v.version} value={v.version.toString()}>
+            Version {v.version}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  )
+
+  return (
+    <div className="space-y-6">
+      <h1 className="text-3xl font-bold">{name}</h1>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-lg">Compare Versions</CardTitle>
+          <div className="flex items-center gap-3 pt-2">
+            {versionSelect(fromVersion, setFromVersion)}
+            <ArrowRight className="h-4 w-4 text-muted-foreground" />
+            {versionSelect(toVersion, setToVersion)}
+          </div>
+        </CardHeader>
+        <CardContent>
+          {!diff?.hasChanges ? (
+            <p className="text-sm text-muted-foreground">No differences between these versions.</p>
+          ) : (
+            <div className="space-y-6">
+              {(Object.keys(SECTION_LABELS) as DiffSection[]).map(section => {
+                const entries = diff.entries.filter(entry => entry.section === section)
+                if (entries.length === 0) return null
+                return (
+                  <div key={section}>
+                    <h3 className="text-sm font-medium mb-2">{SECTION_LABELS[section]}</h3>
+                    <table className="w-full text-sm">
+                      <tbody>
+                        {entries.map(entry => (
+                          <tr key={entry.label} className="border-b last:border-0">
+                            <td className="py-1.5 text-muted-foreground">{entry.label}</td>
+                            <td className="py-1.5 text-right">{formatValue(entry.before)}</td>
+                            <td className="py-1.5 text-right">{formatValue(entry.after)}</td>
+                            <td className="py-1.5 text-right w-20">
+                              {entry.delta !== null && (
+                                <span className={entry.delta > 0 ? 'text-green-600' : 'text-red-600'}>
+                                  {entry.delta > 0 ? '+' : ''}{entry.delta}
+                                </span>
+                              )}
+                            </td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </div>
+                )
+              })}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-lg">History</CardTitle>
+          <CardDescription>Every save keeps a copy. Restoring opens it in the calculator.</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-2">
+          {versions.map(v => (
+            <div key={v.version} className="flex items-center justify-between rounded-lg bg-muted/30 px-4 py-2 text-sm">
+              <div>
+                <span className="font-medium">Version {v.version}</span>
+                <span className="text-muted-foreground">
+                  {' '}· {format(new Date(v.createdAt), 'PPp')} · {v.settings.hydration}% hydration · {v.settings.fermentation}
+                </span>
+              </div>
+              <Button asChild variant="ghost" size="sm">
+                <Link href={`/calculator?recipe=${recipeId}&version=${v.version}`}>
+                  <RotateCcw className="h-4 w-4 mr-1" />
+                  Restore
+                </Link>
+              </Button>
+            </div>
+          ))}
+        </CardContent>
+      </Card>
+
+      <BakeLog recipeId={recipeId} versions={versions} />
+    </div>
+  )
+}
@@ -0,0 +1,221 @@
+'use client'
+
+import { useCallback, useEffect, useState } from 'react'
+import Link from 'next/link'
+import { signIn, useSession } from 'next-auth/react'
+import { format } from 'date-fns'
+import { Loader2, Pencil, Share2, Trash2 } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from '@/components/ui/card'
+import { Input } from '@/components/ui/input'
+import { Textarea } from '@/components/ui/textarea'
+import { toast } from '@/hooks/use-toast'
+
+interface RecipeSummary {
+  id: string
+  name: string
+  style: string
+  hydration: number
+  notes: string | null
+  createdAt: string
+  updatedAt: string
+}
+
+// Make the recipe public and copy its link
+async function shareRecipe(id: string) {
+  const response = await fetch(`/api/recipes/${id}/share`, { method: 'POST' })
+  if (!response.ok) throw new Error('Failed to share recipe')
+  const { slug } = await response.json()
+  const url = `${window.location.origin}/share/${slug}`
+  try {
+    await navigator.clipboard.writeText(url)
+    toast({ title: 'Link copied', description: 'Anyone with the link can view this recipe.' })
+  } catch {
+    window.prompt('Copy this link', url)
+  }
+}
+
+async function updateRecipe(id: string, changes: Partial<Pick<RecipeSummary, 'name' | 'notes'>>) {
+  const response = await fetch(`/api/recipes/${id}`, {
+    method: 'PATCH',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(changes)
+  })
+  if (!response.ok) throw new Error('Failed to update recipe')
+}
+
+function RecipeCard({ recipe, onChange, onDelete }: {
+  recipe: RecipeSummary
+  onChange: (recipe: RecipeSummary) => void
+  onDelete: (id: string) => void
+}) {
+  const [isRenaming, setIsRenaming] = useState(false)
+  const [name, setName] = useState(recipe.name)
+  const [notes, setNotes] = useState(recipe.notes ?? '')
+  const [isSaving, setIsSaving] = useState(false)
+
+  const save = async (changes: Partial<Pick<RecipeSummary, 'name' | 'notes'>>) => {
+    setIsSaving(true)
+    try {
+      await updateRecipe(recipe.id, changes)
+      onChange({ ...recipe, ...changes })
+      setIsRenaming(false)
+    } catch (error) {
+      toast({ title: 'Could not save changes', description: (error as Error).message, variant: 'destructive' })
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader className="pb-3">
+        {isRenaming ? (
+          <form
+            className="flex gap-2"
+            onSubmit={(e) => {
+              e.preventDefault()
+              if (name.trim()) save({ name: name.trim() })
+            }}
+          >
+            <Input value={name} onChange={(e) => setName(e.target.value)} maxLength={100} autoFocus />
+            <Button type="submit" size="sm" disabled={isSaving}>Save</Button>
+          </form>
+        ) : (
+          <CardTitle className="text-lg flex items-center gap-2">
+            {recipe.name}
+            <Button variant="ghost" size="icon" className="h-7 w-7" onClick={() => setIsRenaming(true)}>
+              <Pencil className="h-3.5 w-3.5" />
+              <span className="sr-only">Rename</span>
+            </Button>
+          </CardTitle>
+        )}
+        <CardDescription>
+          {recipe.style} · {recipe.hydration}% hydration · updated {format(new Date(recipe.updatedAt), 'PP')}
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <Textarea
+          placeholder="Notes - what worked, what to change next time"
+          value={notes}
+          onChange={(e) => setNotes(e.target.value)}
+          onBlur={() => {
+            if (notes !== (recipe.notes ?? '')) save({ notes: notes || null })
+          }}
+          rows={3}
+        />
+      </CardContent>
+      <CardFooter className="flex justify-between">
+        <div className="flex gap-2">
+          <Button asChild variant="outline" size="sm">
+            <Link href={`/calculator?recipe=${recipe.id}`}>Open in Calculator</Link>
+          </Button>
+          <Button asChild variant="ghost" size="sm">
+            <Link href={`/recipes/${recipe.id}`}>History</Link>
+          </Button>
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => shareRecipe(recipe.id).catch((error: Error) => (
+              toast({ title: 'Could not share recipe', description: error.message, variant: 'destructive' })
+            ))}
+          >
+            <Share2 className="h-4 w-4 mr-1" />
+            Share
+          </Button>
+        </div>
+        <Button
+          variant="ghost"
+          size="sm"
+          className="text-destructive"
+          onClick={() => {
+            if (window.confirm(`Delete "${recipe.name}"?`)) onDelete(recipe.id)
+          }}
+        >
+          <Trash2 className="h-4 w-4 mr-1" />
+          Delete
+        </Button>
+      </CardFooter>
+    </Card>
+  )
+}
+
+export function RecipeLibrary() {
+  const { status } = useSession()
+  const [recipes, setRecipes] = useState<RecipeSummary[] | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  const loadRecipes = useCallback(async () => {
+    try {
+      const response = await fetch('/api/recipes')
+      if (!response.ok) throw new Error('Failed to load recipes')
+      const data = await response.json()
+      setRecipes(data.recipes)
+    } catch (error) {
+      setError((error as Error).message)
+    }
+  }, [])
+
+  useEffect(() => {
+    if (status === 'authenticated') loadRecipes()
+  }, [status, loadRecipes])
+
+  const deleteRecipe = async (id: string) => {
+    const response = await fetch(`/api/recipes/${id}`, { method: 'DELETE' })
+    if (!response.ok) {
+      toast({ title: 'Could not delete recipe', variant: 'destructive' })
+      return
+    }
+    setRecipes(current => current?.filter(recipe => recipe.id !== id) ?? null)
+  }
+
+  if (status === 'loading' || (status === 'authenticated' && !recipes && !error)) {
+    return (
+      <div className="flex justify-center py-16">
+        <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+      </div>
+    )
+  }
+
+  if (status === 'unauthenticated') {
+    return (
+      <Card className="max-w-md mx-auto text-center">
+        <CardHeader>
+          <CardTitle>Sign in to see your recipes</CardTitle>
+          <CardDescription>Save recipes from the calculator and come back to them any time.</CardDescription>
+        </CardHeader>
+        <CardFooter className="justify-center">
+          <Button onClick={() => signIn()}>Sign in</Button>
+        </CardFooter>
+      </Card>
+    )
+  }
+
+  if (error) {
+    return <p className="text-center text-destructive">{error}</p>
+  }
+
+  if (!recipes?.length) {
+    return (
+      <div className="text-center space-y-4 py-16">
+        <p className="text-muted-foreground">No saved recipes yet.</p>
+        <Button asChild>
+          <Link href="/calculator">Go to the Calculator</Link>
+        </Button>
+      </div>
+    )
+  }
+
+  return (
+    <div className="grid gap-4 md:grid-cols-2">
+      {recipes.map(recipe => (
+        <RecipeCard
+          key={recipe.id}
+          recipe={recipe}
+          onChange={(updated) => setRecipes(current => current?.map(r => (r.id === updated.id ? updated : r)) ?? null)}
+          onDelete={deleteRecipe}
+        />
+      ))}
+    </div>
+  )
+}
@@ -0,0 +1,180 @@
+'use client'
+
+import { useMemo, useState } from 'react'
+import Link from 'next/link'
+import { signIn, useSession } from 'next-auth/react'
+import { Copy, Loader2 } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from '@/components/ui/card'
+import { toast } from '@/hooks/use-toast'
+import { useUnitSystem } from '@/hooks/use-unit-system'
+import { altitudeUnitFor, convertAltitude, formatAltitude } from '@/lib/dough/altitude'
+import { FERMENTATION_OPTIONS, getFermentationStages } from '@/lib/dough/fermentation'
+import { ovenProfile } from '@/lib/dough/oven'
+import { describePans } from '@/lib/dough/pan'
+import { PREFERMENT_TYPES } from '@/lib/dough/preferment'
+import { planProduction } from '@/lib/dough/production'
+import { settingsToFormula, settingsToWeights } from '@/lib/recipes/formula'
+import { encodeSettings } from '@/lib/recipes/share'
+import { UNIT_SYSTEMS, formatTemperature, formatWeight, toCelsius } from '@/lib/units'
+import { formatPrice } from '@/lib/utils'
+import type { CalculatorSettings } from '@/types/pizza'
+
+function Row({ label, value }: { label: string; value: string }) {
+  return (
+    <div className="flex justify-between border-b py-1.5 last:border-0 text-sm">
+      <span className="text-muted-foreground">{label}</span>
+      <span>{value}</span>
+    </div>
+  )
+}
+
+/**
+ * Read-only view of someone else's recipe
+ */
+export function SharedRecipeCard({ name, settings }: { name: string; settings: CalculatorSettings }) {
+  const { status } = useSession()
+  const [units] = useUnitSystem()
+  const system = UNIT_SYSTEMS[units]
+  const temperature = (temp: number) => formatTemperature(toCelsius(temp, settings.tempUnit), system.temperature)
+  const weight = (grams: number) => formatWeight(grams, units)
+  const [isCopying, setIsCopying] = useState(false)
+  // Valid settings can still make an impossible dough, e.g. a preferment bigger than it
+  const weights = useMemo(() => {
+    try {
+      return settingsToWeights(settings)
+    } catch {
+      return null
+    }
+  }, [settings])
+  const production = useMemo(() => {
+    if (!settings.production) return null
+    try {
+      return planProduction(settingsToFormula(settings), settings.production)
+    } catch {
+      return null
+    }
+  }, [settings])
+  const fermentation = FERMENTATION_OPTIONS.find(option => option.value === settings.fermentation)?.label ?? settings.fermentation
+
+  // Copies leave out the style preset, it belongs to whoever shared the recipe
+  const ownSettings: CalculatorSettings = { ...settings, stylePresetId: null }
+
+  const copyToLibrary = async () => {
+    if (status !== 'authenticated') {
+      signIn()
+      return
+    }
+
+    setIsCopying(true)
+    try {
+      const response = await fetch('/api/recipes', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ name, settings: ownSettings })
+      })
+      if (!response.ok) throw new Error('Failed to copy recipe')
+      toast({ title: 'Copied to My Recipes', description: `"${name}" is now in your library.` })
+    } catch (error) {
+      toast({ title: 'Could not copy recipe', description: (error as Error).message, variant: 'destructive' })
+    } finally {
+      setIsCopying(false)
+    }
+  }
+
+  if (!weights) {
+    return (
+      <Card className="max-w-xl mx-auto">
+        <CardHeader>
+          <CardTitle>{name}</CardTitle>
+          <CardDescription>This recipe can&apos;t be worked out. Ask whoever shared it to check its settings.</CardDescription>
+        </CardHeader>
+      </Card>
+    )
+  }
+
+  return (
+    <Card className="max-w-xl mx-auto">
+      <CardHeader>
+        <CardTitle>{name}</CardTitle>
+        <CardDescription>
+          {settings.pan
+            ? `${describePans(settings.pan)}, ${weight(settings.weightPerBall)} each`
+            : `${settings.doughBalls} x ${weight(settings.weightPerBall)} ${settings.style} dough balls`}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div>
+          <h3 className="text-sm font-medium mb-2">Baker&apos;s Percentages</h3>
+          <Row label="Hydration" value={`${settings.hydration}%`} />
+          <Row label="Salt" value={`${settings.salt}%`} />
+          {settings.oil > 0 && <Row label="Oil" value={`${settings.oil}%`} />}
+          {settings.sugar ? <Row label="Sugar" value={`${settings.sugar}%`} /> : null}
+          {settings.malt ? <Row label="Diastatic malt" value={`${settings.malt}%`} /> : null}
+          {settings.honey ? <Row label="Honey" value={`${settings.honey}%`} /> : null}
+          <Row label="Yeast" value={`${settings.yeastType}${settings.customYeastPercentage ? ` ${settings.customYeastPercentage}%` : ''}`} />
+          {settings.preferment && (
+            <Row
+              label="Leavening"
+              value={`${PREFERMENT_TYPES[settings.preferment.type].label} ${settings.preferment.percentage}% at ${settings.preferment.hydration}%`}
+            />
+          )}
+        </div>
+
+        <div>
+          <h3 className="text-sm font-medium mb-2">Weights</h3>
+          {weights.flours.map(flour => (
+            <Row key={flour.type} label={flour.type} value={weight(flour.weight)} />
+          ))}
+          <Row label="Water" value={weight(weights.waterWeight)} />
+          <Row label="Salt" value={weight(weights.saltWeight)} />
+          {weights.oilWeight > 0 && <Row label="Oil" value={weight(weights.oilWeight)} />}
+          {weights.sugarWeight > 0 && <Row label="Sugar" value={weight(weights.sugarWeight)} />}
+          {weights.maltWeight > 0 && <Row label="Diastatic malt" value={weight(weights.maltWeight)} />}
+          {weights.honeyWeight > 0 && <Row label="Honey" value={weight(weights.honeyWeight)} />}
+          {weights.yeastWeight > 0 && <Row label="Yeast" value={weight(weights.yeastWeight)} />}
+        </div>
+
+        <div>
+          <h3 className="text-sm font-medium mb-2">Process</h3>
+          <Row label="Fermentation" value={fermentation} />
+          {settings.stageHours && (
+            <Row
+              label="Stages"
+              value={getFermentationStages(settings.fermentation, settings.stageHours).map(stage => `${stage.name} ${stage.hours} h`).join(', ')}
+            />
+          )}
+          <Row label="Room temperature" value={temperature(settings.roomTemp)} />
+          {settings.fermentation === 'cold' && settings.fridgeTemp !== null && (
+            <Row label="Fridge temperature" value={temperature(settings.fridgeTemp)} />
+          )}
+          <Row label="Oven" value={ovenProfile(settings.ovenType).label} />
+          {settings.altitude ? (
+            <Row label="Altitude" value={formatAltitude(convertAltitude(settings.altitude, altitudeUnitFor(settings.tempUnit), system.altitude), system.altitude)} />
+          ) : null}
+        </div>
+
+        {production && settings.production && (
+          <div>
+            <h3 className="text-sm font-medium mb-2">Production Run</h3>
+            <Row label="Batches" value={`${production.batches.length} of up to ${production.maxBallsPerBatch}, ${settings.production.minutesBetweenBatches} min apart`} />
+            <Row label="Mixer capacity" value={`${settings.production.mixerCapacityKg} kg of flour`} />
+            <Row
+              label="Ingredient cost"
+              value={formatPrice(production.cost.total, { currency: production.cost.currency, notation: 'standard' })}
+            />
+          </div>
+        )}
+      </CardContent>
+      <CardFooter className="flex flex-wrap gap-2">
+        <Button onClick={copyToLibrary} disabled={isCopying}>
+          {isCopying ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Copy className="h-4 w-4 mr-2" />}
+          Copy to My Recipes
+        </Button>
+        <Button asChild variant="outline">
+          <Link href={`/calculator?config=${encodeSettings(ownSettings)}`}>Open in Calculator</Link>
+        </Button>
+      </CardFooter>
+    </Card>
+  )
+}
@@ -0,0 +1,8 @@
+"use client"
+
+import * as React from "react"
+import { SessionProvider as NextAuthSessionProvider } from "next-auth/react"
+
+export function SessionProvider({ children }: { children: React.ReactNode }) {
+  return <NextAuthSessionProvider>{children}</NextAuthSessionProvider>
+}
@@ -0,0 +1,51 @@
+'use client'
+
+import { useState } from 'react'
+import { signIn, useSession } from 'next-auth/react'
+import { Copy, Loader2 } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { toast } from '@/hooks/use-toast'
+import type { StylePreset } from '@/lib/styles/presets'
+import { StyleCard } from './StyleCard'
+
+/**
+ * Someone else's style, with a button to save a copy
+ */
+export function SharedStyleCard({ preset }: { preset: StylePreset }) {
+  const { status } = useSession()
+  const [isCopying, setIsCopying] = useState(false)
+
+  const copyToLibrary = async () => {
+    if (status !== 'authenticated') {
+      signIn()
+      return
+    }
+
+    setIsCopying(true)
+    try {
+      const response = await fetch('/api/styles', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ baseStyle: preset.baseStyle, style: preset.style })
+      })
+      if (!response.ok) throw new Error('Failed to copy style')
+      toast({ title: 'Saved to my styles', description: `"${preset.style.name}" is in the calculator's style list.` })
+    } catch (error) {
+      toast({ title: 'Could not copy style', description: (error as Error).message, variant: 'destructive' })
+    } finally {
+      setIsCopying(false)
+    }
+  }
+
+  return (
+    <StyleCard
+      style={preset.style}
+      footer={
+        <Button onClick={copyToLibrary} disabled={isCopying}>
+          {isCopying ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Copy className="h-4 w-4 mr-2" />}
+          Save to My Styles
+        </Button>
+      }
+    />
+  )
+}
@@ -0,0 +1,70 @@
+import type { ReactNode } from 'react'
+import type { PizzaStyle as StyleDefinition } from '@/lib/openai/config'
+
+/**
+ * A style's defaults and fermentation windows, for the built-in styles and
+ * bakers' own presets alike
+ */
+export function StyleCard({ style, badge = '🍕', footer }: {
+  style: StyleDefinition
+  badge?: ReactNode
+  footer?: ReactNode
+}) {
+  return (
+    <div className="bg-white rounded-2xl border shadow-sm overflow-hidden transition-shadow hover:shadow-md">
+      <div className="p-6 md:p-8 space-y-4">
+        <div className="flex items-start justify-between">
+          <div>
+            <h2 className="text-2xl font-semibold mb-2">{style.name}</h2>
+            <p className="text-gray-600">{style.description}</p>
+          </div>
+          <span className="text-3xl">{badge}</span>
+        </div>
+
+        <div className="grid sm:grid-cols-3 gap-4 pt-4">
+          <div className="bg-blue-50 rounded-xl p-4">
+            <p className="text-sm font-medium mb-1">Hydration</p>
+            <p className="text-2xl font-semibold text-blue-600">
+              {style.defaultHydration}%
+            </p>
+          </div>
+          <div className="bg-blue-50 rounded-xl p-4">
+            <p className="text-sm font-medium mb-1">Salt</p>
+            <p className="text-2xl font-semibold text-blue-600">
+              {style.defaultSaltPercentage}%
+            </p>
+          </div>
+          {style.defaultOilPercentage ? (
+            <div className="bg-blue-50 rounded-xl p-4">
+              <p className="text-sm font-medium mb-1">Oil</p>
+              <p className="text-2xl font-semibold text-blue-600">
+                {style.defaultOilPercentage}%
+              </p>
+            </div>
+          ) : null}
+        </div>
+
+        <div className="grid sm:grid-cols-2 gap-4 pt-4">
+          <div>
+            <p className="text-sm font-medium mb-2">Room Fermentation</p>
+            <div className="bg-gray-50 rounded-lg p-3">
+              <p className="text-sm text-gray-600">
+                {style.fermentationTime.room.min} - {style.fermentationTime.room.max} hours
+              </p>
+            </div>
+          </div>
+          <div>
+            <p className="text-sm font-medium mb-2">Cold Fermentation</p>
+            <div className="bg-gray-50 rounded-lg p-3">
+              <p className="text-sm text-gray-600">
+                {style.fermentationTime.cold.min} - {style.fermentationTime.cold.max} hours
+              </p>
+            </div>
+          </div>
+        </div>
+
+        {footer && <div className="pt-6">{footer}</div>}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,194 @@
+'use client'
+
+import { useState } from 'react'
+import { Loader2 } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { Textarea } from '@/components/ui/textarea'
+import { PIZZA_STYLES, type PizzaStyle as StyleDefinition } from '@/lib/openai/config'
+import { presetTemplate } from '@/lib/styles/presets'
+import { styleDefinitionSchema, type CreateStylePresetInput } from '@/lib/styles/schema'
+import type { PizzaStyle } from '@/types/pizza'
+
+type Range = { min: number; max: number }
+
+function NumberField({ label, value, onChange, step = 0.5 }: {
+  label: string
+  value: number | null
+  onChange: (value: number) => void
+  step?: number
+}) {
+  return (
+    <div className="space-y-1">
+      <Label className="text-xs text-muted-foreground">{label}</Label>
+      <Input
+        type="number"
+        step={step}
+        value={value ?? ''}
+        onChange={(e) => onChange(Number(e.target.value))}
+      />
+    </div>
+  )
+}
+
+function RangeField({ label, range, onChange, unit }: {
+  label: string
+  range: Range
+  onChange: (range: Range) => void
+  unit: string
+}) {
+  return (
+    <div className="space-y-2">
+      <p className="text-sm font-medium">{label}</p>
+      <div className="grid grid-cols-2 gap-2">
+        <NumberField label={`Min (${unit})`} value={range.min} onChange={(min) => onChange({ ...range, min })} />
+        <NumberField label={`Max (${unit})`} value={range.max} onChange={(max) => onChange({ ...range, max })} />
+      </div>
+    </div>
+  )
+}
+
+/**
+ * Create or edit a style preset. A new preset starts as a copy of the
+ * base style picked first
+ */
+export function StylePresetForm({ initial, onSave, onCancel }: {
+  initial?: CreateStylePresetInput
+  onSave: (input: CreateStylePresetInput) => Promise<void>
+  onCancel: () => void
+}) {
+  const [baseStyle, setBaseStyle] = useState<PizzaStyle>(initial?.baseStyle ?? 'neapolitan')
+  const [style, setStyle] = useState<StyleDefinition>(initial?.style ?? presetTemplate('neapolitan'))
+  const [error, setError] = useState<string | null>(null)
+  const [isSaving, setIsSaving] = useState(false)
+
+  const update = (changes: Partial<StyleDefinition>) => setStyle(current => ({ ...current, ...changes }))
+  const updateWindow = (window: 'room' | 'cold', changes: Partial<StyleDefinition['fermentationTime']['room']>) => (
+    update({ fermentationTime: { ...style.fermentationTime, [window]: { ...style.fermentationTime[window], ...changes } } })
+  )
+  const protein = style.idealFlourProfile?.protein ?? { min: 11, max: 13 }
+
+  const changeBase = (value: PizzaStyle) => {
+    setBaseStyle(value)
+    // Only a new preset takes on the base style's values
+    if (!initial) setStyle(presetTemplate(value))
+  }
+
+  const submit = async () => {
+    const parsed = styleDefinitionSchema.safeParse({
+      ...style,
+      signatureCharacteristics: style.signatureCharacteristics.map(line => line.trim()).filter(Boolean)
+    })
+    if (!parsed.success) {
+      const issue = parsed.error.issues[0]
+      setError(`${issue.path.join(' ')}: ${issue.message}`)
+      return
+    }
+
+    setError(null)
+    setIsSaving(true)
+    try {
+      await onSave({ baseStyle, style: parsed.data })
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  return (
+    <form
+      className="space-y-6"
+      onSubmit={(e) => {
+        e.preventDefault()
+        submit()
+      }}
+    >
+      <div className="grid sm:grid-cols-2 gap-4">
+        <div className="space-y-1">
+          <Label>Based on</Label>
+          <Select value={baseStyle} onValueChange={(value) => changeBase(value as PizzaStyle)}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {Object.entries(PIZZA_STYLES).map(([key, definition]) => (
+                <SelectItem key={key} value={key}>{definition.name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <p className="text-xs text-muted-foreground">Yeast and dough temperature follow this style</p>
+        </div>
+        <div className="space-y-1">
+          <Label>Name</Label>
+          <Input value={style.name} maxLength={60} onChange={(e) => update({ name: e.target.value })} />
+        </div>
+      </div>
+
+      <div className="space-y-1">
+        <Label>Description</Label>
+        <Textarea rows={2} maxLength={500} value={style.description} onChange={(e) => update({ description: e.target.value })} />
+      </div>
+
+      <div className="grid sm:grid-cols-3 gap-4">
+        <NumberField label="Default hydration (%)" value={style.defaultHydration} onChange={(defaultHydration) => update({ defaultHydration })} />
+        <NumberField label="Default salt (%)" value={style.defaultSaltPercentage} step={0.1} onChange={(defaultSaltPercentage) => update({ defaultSaltPercentage })} />
+        <NumberField
+          label="Default oil (%)"
+          value={style.defaultOilPercentage}
+          onChange={(oil) => update({ defaultOilPercentage: oil || null, recommendedOil: oil || null })}
+        />
+      </div>
+
+      <div className="grid sm:grid-cols-2 gap-4">
+        <RangeField label="Hydration range" unit="%" range={style.hydrationRange} onChange={(hydrationRange) => update({ hydrationRange })} />
+        <RangeField label="Salt range" unit="%" range={style.saltRange} onChange={(saltRange) => update({ saltRange })} />
+        <RangeField
+          label="Room fermentation"
+          unit="hours"
+          range={style.fermentationTime.room}
+          onChange={(range) => updateWindow('room', range)}
+        />
+        <RangeField
+          label="Cold fermentation"
+          unit="hours"
+          range={style.fermentationTime.cold}
+          onChange={(range) => updateWindow('cold', range)}
+        />
+      </div>
+
+      <div className="grid sm:grid-cols-2 gap-4">
+        <div className="space-y-1">
+          <Label>Ideal flour</Label>
+          <Input value={style.idealFlour} maxLength={200} onChange={(e) => update({ idealFlour: e.target.value })} />
+        </div>
+        <RangeField
+          label="Flour protein"
+          unit="%"
+          range={protein}
+          onChange={(range) => update({ idealFlourProfile: { ...style.idealFlourProfile, protein: range } })}
+        />
+      </div>
+
+      <div className="space-y-1">
+        <Label>Characteristics</Label>
+        <Textarea
+          rows={3}
+          placeholder="One per line"
+          value={style.signatureCharacteristics.join('\n')}
+          onChange={(e) => update({ signatureCharacteristics: e.target.value.split('\n') })}
+        />
+      </div>
+
+      {error && <p className="text-sm text-destructive">{error}</p>}
+
+      <div className="flex justify-end gap-2">
+        <Button type="button" variant="ghost" onClick={onCancel}>Cancel</Button>
+        <Button type="submit" disabled={isSaving}>
+          {isSaving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+          Save Style
+        </Button>
+      </div>
+    </form>
+  )
+}
@@ -0,0 +1,179 @@
+'use client'
+
+import { useCallback, useEffect, useState } from 'react'
+import Link from 'next/link'
+import { signIn, useSession } from 'next-auth/react'
+import { Loader2, Pencil, Plus, Share2, Trash2 } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from '@/components/ui/card'
+import { toast } from '@/hooks/use-toast'
+import type { StylePreset } from '@/lib/styles/presets'
+import type { CreateStylePresetInput } from '@/lib/styles/schema'
+import { StyleCard } from './StyleCard'
+import { StylePresetForm } from './StylePresetForm'
+
+// Make the style public and copy its link
+async function sharePreset(id: string) {
+  const response = await fetch(`/api/styles/${id}/share`, { method: 'POST' })
+  if (!response.ok) throw new Error('Failed to share style')
+  const { slug } = await response.json()
+  const url = `${window.location.origin}/styles/shared/${slug}`
+  try {
+    await navigator.clipboard.writeText(url)
+    toast({ title: 'Link copied', description: 'Anyone with the link can view and save this style.' })
+  } catch {
+    window.prompt('Copy this link', url)
+  }
+}
+
+async function savePreset(input: CreateStylePresetInput, id?: string): Promise<StylePreset> {
+  const response = await fetch(id ? `/api/styles/${id}` : '/api/styles', {
+    method: id ? 'PATCH' : 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(input)
+  })
+  if (!response.ok) throw new Error('Failed to save style')
+  const { preset } = await response.json()
+  return preset
+}
+
+/**
+ * The signed-in baker's own styles on /styles
+ */
+export function StylePresetLibrary() {
+  const { status } = useSession()
+  const [presets, setPresets] = useState<StylePreset[] | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  // A preset id, 'new', or null when no form is open
+  const [editing, setEditing] = useState<string | null>(null)
+
+  const loadPresets = useCallback(async () => {
+    try {
+      const response = await fetch('/api/styles')
+      if (!response.ok) throw new Error('Failed to load styles')
+      const data = await response.json()
+      setPresets(data.presets)
+    } catch (error) {
+      setError((error as Error).message)
+    }
+  }, [])
+
+  useEffect(() => {
+    if (status === 'authenticated') loadPresets()
+  }, [status, loadPresets])
+
+  const save = async (input: CreateStylePresetInput, id?: string) => {
+    try {
+      const preset = await savePreset(input, id)
+      setPresets(current => id
+        ? current?.map(p => (p.id === id ? preset : p)) ?? null
+        : [...(current ?? []), preset])
+      setEditing(null)
+      toast({ title: 'Style saved', description: `"${preset.style.name}" is in the calculator's style list.` })
+    } catch (error) {
+      toast({ title: 'Could not save style', description: (error as Error).message, variant: 'destructive' })
+    }
+  }
+
+  const deletePreset = async (preset: StylePreset) => {
+    if (!window.confirm(`Delete "${preset.style.name}"?`)) return
+    const response = await fetch(`/api/styles/${preset.id}`, { method: 'DELETE' })
+    if (!response.ok) {
+      toast({ title: 'Could not delete style', variant: 'destructive' })
+      return
+    }
+    setPresets(current => current?.filter(p => p.id !== preset.id) ?? null)
+  }
+
+  if (status === 'loading' || (status === 'authenticated' && !presets && !error)) {
+    return (
+      <div className="flex justify-center py-16">
+        <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+      </div>
+    )
+  }
+
+  if (status === 'unauthenticated') {
+    return (
+      <Card className="max-w-md mx-auto text-center">
+        <CardHeader>
+          <CardTitle>Sign in to create your own styles</CardTitle>
+          <CardDescription>Save a style once and pick it in the calculator like any other.</CardDescription>
+        </CardHeader>
+        <CardFooter className="justify-center">
+          <Button onClick={() => signIn()}>Sign in</Button>
+        </CardFooter>
+      </Card>
+    )
+  }
+
+  if (error) {
+    return <p className="text-center text-destructive">{error}</p>
+  }
+
+  return (
+    <div className="grid gap-6">
+      {presets?.map(preset => (editing === preset.id ? (
+        <Card key={preset.id}>
+          <CardHeader>
+            <CardTitle>Edit {preset.style.name}</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <StylePresetForm
+              initial={{ baseStyle: preset.baseStyle, style: preset.style }}
+              onSave={(input) => save(input, preset.id)}
+              onCancel={() => setEditing(null)}
+            />
+          </CardContent>
+        </Card>
+      ) : (
+        <StyleCard
+          key={preset.id}
+          style={preset.style}
+          footer={
+            <div className="flex flex-wrap justify-between gap-2">
+              <div className="flex gap-2">
+                <Button asChild className="bg-blue-600 hover:bg-blue-700">
+                  <Link href={`/calculator?preset=${preset.id}`}>Calculate Recipe</Link>
+                </Button>
+                <Button variant="ghost" onClick={() => setEditing(preset.id)}>
+                  <Pencil className="h-4 w-4 mr-1" />
+                  Edit
+                </Button>
+                <Button
+                  variant="ghost"
+                  onClick={() => sharePreset(preset.id).catch((error: Error) => (
+                    toast({ title: 'Could not share style', description: error.message, variant: 'destructive' })
+                  ))}
+                >
+                  <Share2 className="h-4 w-4 mr-1" />
+                  Share
+                </Button>
+              </div>
+              <Button variant="ghost" className="text-destructive" onClick={() => deletePreset(preset)}>
+                <Trash2 className="h-4 w-4 mr-1" />
+                Delete
+              </Button>
+            </div>
+          }
+        />
+      )))}
+
+      {editing === 'new' ? (
+        <Card>
+          <CardHeader>
+            <CardTitle>New Style</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <StylePresetForm onSave={(input) => save(input)} onCancel={() => setEditing(null)} />
+          </CardContent>
+        </Card>
+      ) : (
+        <Button variant="outline" className="justify-self-start" onClick={() => setEditing('new')}>
+          <Plus className="h-4 w-4 mr-2" />
+          New Style
+        </Button>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,41 @@
+'use client'
+
+import { useCallback, useEffect, useState } from 'react'
+import { DEFAULT_UNIT_SYSTEM, UNIT_SYSTEMS } from '@/lib/units'
+import type { UnitSystem } from '@/types/pizza'
+
+const STORAGE_KEY = 'doughmaster-units'
+
+function loadUnitSystem(): UnitSystem {
+  try {
+    const stored = window.localStorage.getItem(STORAGE_KEY)
+    return stored && Object.hasOwn(UNIT_SYSTEMS, stored) ? stored as UnitSystem : DEFAULT_UNIT_SYSTEM
+  } catch {
+    // Storage can be blocked, e.g. in private browsing
+    return DEFAULT_UNIT_SYSTEM
+  }
+}
+
+/**
+ * The baker's metric or imperial preference, remembered in this browser.
+ * Starts on the default so server and client render the same, and switches
+ * to the stored preference once mounted
+ */
+export function useUnitSystem(): [UnitSystem, (units: UnitSystem) => void] {
+  const [units, setUnitsState] = useState<UnitSystem>(DEFAULT_UNIT_SYSTEM)
+
+  useEffect(() => {
+    setUnitsState(loadUnitSystem())
+  }, [])
+
+  const setUnits = useCallback((next: UnitSystem) => {
+    setUnitsState(next)
+    try {
+      window.localStorage.setItem(STORAGE_KEY, next)
+    } catch {
+      // Still applies for this visit
+    }
+  }, [])
+
+  return [units, setUnits]
+}
@@ -0,0 +1,76 @@
+import { getServerSession, type NextAuthOptions } from 'next-auth'
+import GithubProvider from 'next-auth/providers/github'
+import GoogleProvider from 'next-auth/providers/google'
+import type { UserRole } from '@prisma/client'
+import { db } from '@/lib/db'
+
+export interface CurrentUser {
+  id: string
+  email: string
+  role: UserRole
+}
+
+// Only offer the providers that are configured
+const providers: NextAuthOptions['providers'] = []
+if (process.env.GOOGLE_CLIENT_ID && process.env.GOOGLE_CLIENT_SECRET) {
+  providers.push(GoogleProvider({
+    clientId: process.env.GOOGLE_CLIENT_ID,
+    clientSecret: process.env.GOOGLE_CLIENT_SECRET
+  }))
+}
+if (process.env.GITHUB_CLIENT_ID && process.env.GITHUB_CLIENT_SECRET) {
+  providers.push(GithubProvider({
+    clientId: process.env.GITHUB_CLIENT_ID,
+    clientSecret: process.env.GITHUB_CLIENT_SECRET
+  }))
+}
+
+export const authOptions: NextAuthOptions = {
+  secret: process.env.NEXTAUTH_SECRET,
+  session: { strategy: 'jwt' },
+  providers,
+  callbacks: {
+    async signIn({ user }) {
+      if (!user.email) return false
+
+      await db.user.upsert({
+        where: { email: user.email },
+        update: { name: user.name, image: user.image },
+        create: { email: user.email, name: user.name, image: user.image }
+      })
+      return true
+    },
+    async jwt({ token, user }) {
+      // Only on sign-in; afterwards the id and role travel in the token
+      if (user?.email) {
+        const dbUser = await db.user.findUnique({ where: { email: user.email } })
+        if (dbUser) {
+          token.id = dbUser.id
+          token.role = dbUser.role
+        }
+      }
+      return token
+    },
+    async session({ session, token }) {
+      if (session.user) {
+        session.user.id = token.id
+        session.user.role = token.role
+      }
+      return session
+    }
+  }
+}
+
+/**
+ * The signed-in user for server components and route handlers, or null
+ */
+export async function getCurrentUser(): Promise<CurrentUser | null> {
+  const session = await getServerSession(authOptions)
+  if (!session?.user?.id || !session.user.email) return null
+
+  return {
+    id: session.user.id,
+    email: session.user.email,
+    role: session.user.role
+  }
+}
@@ -0,0 +1,153 @@
+import { byteLength, createLRUCache } from '@/lib/cache/lru'
+import type { Cache, CacheOptions, CacheStats } from '@/lib/cache/types'
+
+const DB_NAME = 'doughmaster-cache'
+const DB_VERSION = 1
+const STORE = 'entries'
+// [namespace, lastAccess], oldest first within a namespace
+const BY_ACCESS = 'byAccess'
+
+interface CacheRecord {
+  id: string
+  namespace: string
+  json: string
+  bytes: number
+  expiresAt: number
+  lastAccess: number
+}
+
+function request<T>(req: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    req.onsuccess = () => resolve(req.result)
+    req.onerror = () => reject(req.error)
+  })
+}
+
+let database: Promise<IDBDatabase> | null = null
+
+function openDatabase(): Promise<IDBDatabase> {
+  if (!database) {
+    database = new Promise((resolve, reject) => {
+      const open = indexedDB.open(DB_NAME, DB_VERSION)
+      open.onupgradeneeded = () => {
+        const store = open.result.createObjectStore(STORE, { keyPath: 'id' })
+        store.createIndex(BY_ACCESS, ['namespace', 'lastAccess'])
+      }
+      open.onsuccess = () => resolve(open.result)
+      open.onerror = () => reject(open.error)
+    })
+    // Let a later call try again, e.g. after private browsing blocked it
+    database.catch(() => {
+      database = null
+    })
+  }
+  return database
+}
+
+/**
+ * Browser cache persisted in IndexedDB, so results survive reloads and are
+ * there when the device is offline. Falls back to memory where IndexedDB is
+ * missing, e.g. during server rendering
+ */
+export function createBrowserCache(options: CacheOptions): Cache {
+  if (typeof indexedDB === 'undefined') {
+    return createLRUCache(options)
+  }
+
+  const { namespace, ttl, maxEntries, maxBytes = Infinity } = options
+  const id = (key: string) => `${namespace}:${key}`
+  const namespaceRange = () => IDBKeyRange.bound([namespace, -Infinity], [namespace, Infinity])
+
+  async function entries(): Promise<IDBObjectStore> {
+    const db = await openDatabase()
+    return db.transaction(STORE, 'readwrite').objectStore(STORE)
+  }
+
+  // Drop every expired entry, and least recently used live ones until within limits
+  async function evict() {
+    const records = await request((await entries()).index(BY_ACCESS).getAll(namespaceRange())) as CacheRecord[]
+    const now = Date.now()
+    const live = records.filter(record => record.expiresAt > now)
+    let bytes = live.reduce((total, record) => total + record.bytes, 0)
+    let count = live.length
+
+    const store = await entries()
+    for (const record of records) {
+      if (record.expiresAt > now) {
+        // Keep going past the ones that stay, newer records can be expired
+        if (count <= maxEntries && bytes <= maxBytes) continue
+        count--
+        bytes -= record.bytes
+      }
+      store.delete(record.id)
+    }
+  }
+
+  return {
+    async get<T>(key: string) {
+      try {
+        const store = await entries()
+        const record = await request(store.get(id(key))) as CacheRecord | undefined
+        if (!record) return null
+        if (Date.now() >= record.expiresAt) {
+          store.delete(record.id)
+          return null
+        }
+
+        store.put({ ...record, lastAccess: Date.now() } satisfies CacheRecord)
+        return JSON.parse(record.json) as T
+      } catch (error) {
+        console.error('Error reading from browser cache:', error)
+        return null
+      }
+    },
+
+    async set(key, value, customTTL) {
+      const json = JSON.stringify(value)
+      const now = Date.now()
+      try {
+        await request((await entries()).put({
+          id: id(key),
+          namespace,
+          json,
+          bytes: byteLength(json),
+          expiresAt: now + (customTTL ?? ttl) * 1000,
+          lastAccess: now
+        } satisfies CacheRecord))
+        await evict()
+      } catch (error) {
+        // Storage may be full or blocked; the cache is only a convenience
+        console.error('Error writing to browser cache:', error)
+      }
+    },
+
+    async delete(key) {
+      try {
+        await request((await entries()).delete(id(key)))
+      } catch (error) {
+        // The entry still expires with its TTL
+        console.error('Error deleting from browser cache:', error)
+      }
+    },
+
+    async stats(): Promise<CacheStats> {
+      try {
+        const records = await request((await entries()).index(BY_ACCESS).getAll(namespaceRange())) as CacheRecord[]
+        return {
+          entries: records.length,
+          bytes: records.reduce((total, record) => total + record.bytes, 0)
+        }
+      } catch (error) {
+        console.error('Error reading browser cache stats:', error)
+        return { entries: 0, bytes: 0 }
+      }
+    }
+  }
+}
+
+// The last analyses run on this device, to show again when offline
+export const recentAnalyses = createBrowserCache({
+  namespace: 'analysis',
+  ttl: 60 * 60 * 24 * 30,
+  maxEntries: 20
+})
@@ -0,0 +1,71 @@
+import type { Cache, CacheOptions, CacheStats } from '@/lib/cache/types'
+
+interface Entry {
+  json: string
+  bytes: number
+  expiresAt: number
+}
+
+export function byteLength(json: string): number {
+  return new TextEncoder().encode(json).length
+}
+
+/**
+ * In-memory LRU cache. A Map keeps insertion order, so re-inserting an entry
+ * on every read leaves the least recently used one first
+ */
+export function createLRUCache({ ttl, maxEntries, maxBytes = Infinity }: CacheOptions): Cache & {
+  // For layering over another cache that knows the real expiry
+  setUntil(key: string, json: string, expiresAt: number): void
+} {
+  const entries = new Map<string, Entry>()
+  let bytes = 0
+
+  function remove(key: string) {
+    const entry = entries.get(key)
+    if (entry) {
+      bytes -= entry.bytes
+      entries.delete(key)
+    }
+  }
+
+  function setUntil(key: string, json: string, expiresAt: number) {
+    remove(key)
+    const entry = { json, bytes: byteLength(json), expiresAt }
+    entries.set(key, entry)
+    bytes += entry.bytes
+
+    for (const oldest of entries.keys()) {
+      if (entries.size <= maxEntries && bytes <= maxBytes) break
+      remove(oldest)
+    }
+  }
+
+  return {
+    setUntil,
+
+    async get<T>(key: string) {
+      const entry = entries.get(key)
+      if (!entry) return null
+      remove(key)
+      if (Date.now() >= entry.expiresAt) return null
+
+      // Most recently used goes to the end
+      entries.set(key, entry)
+      bytes += entry.bytes
+      return JSON.parse(entry.json) as T
+    },
+
+    async set(key, value, customTTL) {
+      setUntil(key, JSON.stringify(value), Date.now() + (customTTL ?? ttl) * 1000)
+    },
+
+    async delete(key) {
+      remove(key)
+    },
+
+    async stats(): Promise<CacheStats> {
+      return { entries: entries.size, bytes }
+    }
+  }
+}
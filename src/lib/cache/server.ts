@@ -0,0 +1,95 @@
+import { getStore } from '@/lib/storage'
+import { createLRUCache } from '@/lib/cache/lru'
+import type { Cache, CacheOptions } from '@/lib/cache/types'
+
+// What goes into the shared store, so the local copy expires with it
+interface StoredEntry {
+  value: unknown
+  expiresAt: number
+}
+
+/**
+ * Server cache: a small LRU per instance in front of the shared store, so
+ * repeated reads skip the network while every instance still sees the same
+ * values. Size accounting and eviction apply to the local LRU; the store
+ * expires entries by TTL
+ */
+export function createServerCache(options: CacheOptions): Cache {
+  const local = createLRUCache(options)
+  const storeKey = (key: string) => `${options.namespace}:${key}`
+
+  return {
+    async get<T>(key: string) {
+      const hit = await local.get<T>(key)
+      if (hit !== null) return hit
+
+      try {
+        const stored = await getStore().get<StoredEntry>(storeKey(key))
+        if (!stored || Date.now() >= stored.expiresAt) return null
+
+        local.setUntil(key, JSON.stringify(stored.value), stored.expiresAt)
+        return stored.value as T
+      } catch (error) {
+        console.error('Error reading from cache:', error)
+        return null
+      }
+    },
+
+    async set(key, value, customTTL) {
+      const ttl = customTTL ?? options.ttl
+      const expiresAt = Date.now() + ttl * 1000
+      local.setUntil(key, JSON.stringify(value), expiresAt)
+
+      try {
+        await getStore().set(storeKey(key), { value, expiresAt } satisfies StoredEntry, ttl)
+      } catch (error) {
+        // A cache that can't be written shouldn't fail the request
+        console.error('Error writing to cache:', error)
+      }
+    },
+
+    async delete(key) {
+      await local.delete(key)
+
+      try {
+        await getStore().delete(storeKey(key))
+      } catch (error) {
+        // The entry still expires with its TTL
+        console.error('Error deleting from cache:', error)
+      }
+    },
+
+    stats: () => local.stats()
+  }
+}
+
+/**
+ * Take a lock shared by every instance, released by `releaseLock` or else
+ * after `ttlSeconds`. False when someone else holds it, or when the store
+ * can't be reached, so the work is skipped rather than duplicated
+ */
+export async function acquireLock(key: string, ttlSeconds: number): Promise<boolean> {
+  try {
+    return await getStore().setIfAbsent(`lock:${key}`, true, ttlSeconds)
+  } catch (error) {
+    console.error('Error acquiring lock:', error)
+    return false
+  }
+}
+
+export async function releaseLock(key: string): Promise<void> {
+  try {
+    await getStore().delete(`lock:${key}`)
+  } catch (error) {
+    // The lock still expires with its TTL
+    console.error('Error releasing lock:', error)
+  }
+}
+
+// Recipe analyses, keyed by analysisCacheKey; entries set their own TTL
+export const analysisCache = createServerCache({
+  namespace: 'analysis',
+  ttl: 60 * 60 * 24,
+  maxEntries: 200,
+  maxBytes: 10 * 1024 * 1024
+})
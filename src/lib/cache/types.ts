@@ -0,0 +1,26 @@
+export interface CacheOptions {
+  // Keeps keys of different caches apart in a shared store
+  namespace: string
+  // Default time to live in seconds
+  ttl: number
+  // Least recently used entries are evicted past these
+  maxEntries: number
+  maxBytes?: number
+}
+
+export interface CacheStats {
+  entries: number
+  // Size of the serialised values
+  bytes: number
+}
+
+/**
+ * A namespaced cache of JSON-serialisable values. Reads return copies, so
+ * callers can't change what is cached
+ */
+export interface Cache {
+  get<T>(key: string): Promise<T | null>
+  set(key: string, value: unknown, ttl?: number): Promise<void>
+  delete(key: string): Promise<void>
+  stats(): Promise<CacheStats>
+}
@@ -0,0 +1,190 @@
+import type { FermentationSchedule } from '@/types/pizza'
+import { formatTemperature, toCelsius } from '@/lib/units'
+import { getFermentationStages } from './fermentation'
+import type { YeastCalculation } from './yeast'
+
+/**
+ * High-altitude corrections.
+ *
+ * Lower air pressure lets gas expand more, so dough rises faster and needs
+ * less yeast, and flour dries out quicker, so it takes a little more water.
+ * Water also evaporates sooner in the oven, so a hotter, shorter bake keeps
+ * the crumb from drying out. Below ~3,000 ft recipes work unchanged.
+ */
+
+export type AltitudeUnit = 'ft' | 'm'
+
+const FEET_PER_METRE = 3.28084
+const THRESHOLD_FT = 3000
+
+// Per 1,000 ft above the threshold
+const YEAST_REDUCTION_PER_1000_FT = 0.08
+const HYDRATION_POINTS_PER_1000_FT = 1
+const PROOF_REDUCTION_PER_1000_FT = 0.06
+
+const MAX_YEAST_REDUCTION = 0.5
+const MAX_HYDRATION_POINTS = 4
+const MAX_PROOF_REDUCTION = 0.3
+const OVEN_INCREASE_F = 25
+
+export interface AltitudeCorrections {
+  altitude: number
+  unit: AltitudeUnit
+  feet: number
+  // Multipliers and offsets for the sea-level values
+  yeastFactor: number
+  hydrationPoints: number
+  proofFactor: number
+  ovenIncreaseF: number
+}
+
+export interface AltitudeAdjustment {
+  name: 'yeast' | 'hydration' | 'proof' | 'oven'
+  from: string
+  to: string
+  note: string
+}
+
+function roundTo(value: number, decimals: number): number {
+  const multiplier = Math.pow(10, decimals)
+  return Math.round(value * multiplier) / multiplier
+}
+
+export function altitudeUnitFor(tempUnit: 'C' | 'F'): AltitudeUnit {
+  return tempUnit === 'F' ? 'ft' : 'm'
+}
+
+export function convertAltitude(altitude: number, from: AltitudeUnit, to: AltitudeUnit): number {
+  if (from === to) return altitude
+  return Math.round(to === 'ft' ? altitude * FEET_PER_METRE : altitude / FEET_PER_METRE)
+}
+
+export function formatAltitude(altitude: number, unit: AltitudeUnit): string {
+  return `${Math.round(altitude).toLocaleString('en-US')} ${unit}`
+}
+
+/**
+ * Corrections for the given altitude, or null when none are needed
+ */
+export function altitudeCorrections(altitude: number | null | undefined, unit: AltitudeUnit): AltitudeCorrections | null {
+  if (altitude === null || altitude === undefined || !Number.isFinite(altitude)) return null
+
+  const feet = unit === 'ft' ? altitude : altitude * FEET_PER_METRE
+  if (feet <= THRESHOLD_FT) return null
+
+  const thousandsAbove = (feet - THRESHOLD_FT) / 1000
+  return {
+    altitude,
+    unit,
+    feet: Math.round(feet),
+    yeastFactor: roundTo(1 - Math.min(MAX_YEAST_REDUCTION, thousandsAbove * YEAST_REDUCTION_PER_1000_FT), 2),
+    hydrationPoints: roundTo(Math.min(MAX_HYDRATION_POINTS, thousandsAbove * HYDRATION_POINTS_PER_1000_FT), 1),
+    proofFactor: roundTo(1 - Math.min(MAX_PROOF_REDUCTION, thousandsAbove * PROOF_REDUCTION_PER_1000_FT), 2),
+    ovenIncreaseF: OVEN_INCREASE_F
+  }
+}
+
+export function adjustmentNote(label: string, from: string, to: string, corrections: AltitudeCorrections): string {
+  return `${label} adjusted from ${from} to ${to} because of ${formatAltitude(corrections.altitude, corrections.unit)}`
+}
+
+/**
+ * Scale a calculated yeast amount. A percentage the baker set by hand, or a
+ * levain with no commercial yeast, stays as it is
+ */
+export function adjustYeast(yeast: YeastCalculation, corrections: AltitudeCorrections | null): YeastCalculation {
+  if (!corrections || yeast.isCustom || yeast.percentage === 0) return yeast
+  return {
+    ...yeast,
+    percentage: roundTo(yeast.percentage * corrections.yeastFactor, 3),
+    idyPercentage: roundTo(yeast.idyPercentage * corrections.yeastFactor, 3)
+  }
+}
+
+export function adjustHydration(hydration: number, corrections: AltitudeCorrections | null): number {
+  if (!corrections) return hydration
+  return roundTo(hydration + corrections.hydrationPoints, 1)
+}
+
+// Rise times in hours, rounded to the quarter hour
+export function adjustProofHours(hours: number, corrections: AltitudeCorrections | null): number {
+  if (!corrections || hours <= 0) return hours
+  return Math.max(0.25, Math.round(hours * corrections.proofFactor * 4) / 4)
+}
+
+const DURATION_PATTERN = /(\d+(?:\.\d+)?)(?:\s*-\s*(\d+(?:\.\d+)?))?\s*(hours?|hrs?|h|minutes?|mins?)\b/i
+
+/**
+ * Shorten a duration such as "2 hours" or "30-60 minutes". Returns null when
+ * the text has no duration in it
+ */
+export function adjustProofDuration(duration: string, corrections: AltitudeCorrections): string | null {
+  const match = duration.match(DURATION_PATTERN)
+  if (!match) return null
+
+  const isMinutes = match[3].toLowerCase().startsWith('m')
+  const scale = (value: string) => isMinutes
+    ? Math.max(5, Math.round(parseFloat(value) * corrections.proofFactor / 5) * 5)
+    : adjustProofHours(parseFloat(value), corrections)
+
+  const scaled = match[2] ? `${scale(match[1])}-${scale(match[2])}` : `${scale(match[1])}`
+  return duration.replace(match[0], `${scaled} ${match[3]}`)
+}
+
+/**
+ * Oven guidance in °F: hotter by a small margin, but never past what the
+ * oven can do
+ */
+export function adjustOvenTemp(bakeTempF: number, maxTempF: number, corrections: AltitudeCorrections | null): number {
+  if (!corrections) return bakeTempF
+  return Math.min(maxTempF, bakeTempF + corrections.ovenIncreaseF)
+}
+
+export interface AltitudeInput {
+  corrections: AltitudeCorrections | null
+  yeast: { before: YeastCalculation; after: YeastCalculation }
+  hydration: number
+  schedule: FermentationSchedule
+  stageHours?: number[] | null
+  bakeTempF: number
+  maxTempF: number
+  tempUnit: 'C' | 'F'
+}
+
+function formatTemp(tempF: number, unit: 'C' | 'F'): string {
+  return formatTemperature(toCelsius(tempF, 'F'), unit, 0)
+}
+
+/**
+ * Every correction applied, as "adjusted from X to Y because of N ft" notes
+ * for the calculator and the analysis
+ */
+export function describeAltitudeAdjustments(input: AltitudeInput): AltitudeAdjustment[] {
+  const { corrections } = input
+  if (!corrections) return []
+
+  const adjustments: AltitudeAdjustment[] = []
+  const add = (name: AltitudeAdjustment['name'], label: string, from: string, to: string) => {
+    if (from !== to) adjustments.push({ name, from, to, note: adjustmentNote(label, from, to, corrections) })
+  }
+
+  add('yeast', 'Yeast', `${input.yeast.before.percentage}%`, `${input.yeast.after.percentage}%`)
+  add('hydration', 'Hydration', `${input.hydration}%`, `${adjustHydration(input.hydration, corrections)}%`)
+  getFermentationStages(input.schedule, input.stageHours)
+    .filter(stage => !stage.isRefrigeration)
+    .forEach(stage => add('proof', stage.name, `${stage.hours} h`, `${adjustProofHours(stage.hours, corrections)} h`))
+
+  const ovenTemp = adjustOvenTemp(input.bakeTempF, input.maxTempF, corrections)
+  if (ovenTemp > input.bakeTempF) {
+    add('oven', 'Oven temperature', formatTemp(input.bakeTempF, input.tempUnit), formatTemp(ovenTemp, input.tempUnit))
+  } else {
+    adjustments.push({
+      name: 'oven',
+      from: formatTemp(input.bakeTempF, input.tempUnit),
+      to: formatTemp(ovenTemp, input.tempUnit),
+      note: `Oven already at its ${formatTemp(input.maxTempF, input.tempUnit)} maximum, so bake a little shorter instead because of ${formatAltitude(corrections.altitude, corrections.unit)}`
+    })
+  }
+
+  return adjustments
+}
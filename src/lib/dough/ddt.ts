@@ -0,0 +1,123 @@
+import type { MixerType, PizzaStyle, TemperatureUnit } from '@/types/pizza'
+import { fromCelsius, toCelsius } from '@/lib/units'
+
+/**
+ * Desired dough temperature (DDT).
+ *
+ * Everything that goes into the bowl, plus the heat the mixer adds through
+ * friction, averages out to the dough temperature:
+ *
+ *   water = DDT × n − (room + flour + friction [+ preferment])
+ *
+ * with n = 3, or 4 when a preferment goes in. Work happens in °C.
+ */
+
+export const MIXER_TYPES: Record<MixerType, { label: string; friction: number }> = {
+  hand: { label: 'By hand', friction: 3 },
+  stand: { label: 'Stand mixer', friction: 17 },
+  spiral: { label: 'Spiral mixer', friction: 14 }
+}
+
+// Where each style ferments best right after mixing
+export const TARGET_DOUGH_TEMP_C: Record<PizzaStyle, number> = {
+  'neapolitan': 23,
+  'new-york': 24,
+  'detroit': 26,
+  'sicilian': 25,
+  'roman-al-taglio': 22,
+  'custom': 24
+}
+
+export const DEFAULT_TAP_TEMP_C = 15
+
+// Ice absorbs this much heat per gram as it melts, in units of water's °C
+const ICE_LATENT_HEAT = 80
+// Warmer water starts to harm the yeast
+const MAX_WATER_TEMP_C = 40
+
+export interface WaterTemperatureInput {
+  style: PizzaStyle
+  roomTemp: number
+  // Defaults to the room temperature, where flour is usually stored
+  flourTemp?: number | null
+  mixer: MixerType
+  // Only when a preferment goes into the final mix
+  prefermentTemp?: number | null
+  tapTemp?: number
+  // Water in the final mix, to work out the ice
+  waterWeight?: number
+  unit: TemperatureUnit
+}
+
+export interface WaterTemperature {
+  targetDoughTemp: number
+  waterTemp: number
+  unit: TemperatureUnit
+  // Set when the water has to be colder than the tap
+  ice: { ice: number; tapWater: number } | null
+  warnings: string[]
+}
+
+function fromC(temp: number, unit: TemperatureUnit): number {
+  return Math.round(fromCelsius(temp, unit) * 10) / 10
+}
+
+/**
+ * Grams of ice and tap water that settle at the target temperature, from the
+ * heat balance (water − ice) × (tap − target) = ice × (80 + target)
+ */
+export function iceForWater(waterWeight: number, tapTempC: number, targetC: number): { ice: number; tapWater: number } {
+  const target = Math.max(0, targetC)
+  const ice = Math.round(waterWeight * (tapTempC - target) / (tapTempC + ICE_LATENT_HEAT))
+  return { ice, tapWater: waterWeight - ice }
+}
+
+/**
+ * Water temperature that brings the dough to the style's target temperature
+ */
+export function calculateWaterTemp(input: WaterTemperatureInput): WaterTemperature {
+  const { unit } = input
+  const target = TARGET_DOUGH_TEMP_C[input.style] ?? TARGET_DOUGH_TEMP_C.custom
+  const room = toCelsius(input.roomTemp, unit)
+  const flour = input.flourTemp !== null && input.flourTemp !== undefined ? toCelsius(input.flourTemp, unit) : room
+  const friction = MIXER_TYPES[input.mixer].friction
+  const tap = input.tapTemp !== undefined ? toCelsius(input.tapTemp, unit) : DEFAULT_TAP_TEMP_C
+
+  const hasPreferment = input.prefermentTemp !== null && input.prefermentTemp !== undefined
+  const factors = hasPreferment ? 4 : 3
+  const known = room + flour + friction + (hasPreferment ? toCelsius(input.prefermentTemp!, unit) : 0)
+  const water = target * factors - known
+
+  const warnings: string[] = []
+  let ice: WaterTemperature['ice'] = null
+
+  if (water < tap) {
+    if (input.waterWeight) {
+      ice = iceForWater(input.waterWeight, tap, water)
+    }
+    if (water < 0) {
+      warnings.push('Even ice water won\'t cool the dough enough - chill the flour or mix in a cooler spot')
+    }
+  }
+  if (water > MAX_WATER_TEMP_C) {
+    warnings.push(`Water above ${fromC(MAX_WATER_TEMP_C, unit)}°${unit} can harm the yeast - let the dough rise a little longer instead`)
+  }
+
+  return {
+    targetDoughTemp: fromC(target, unit),
+    waterTemp: fromC(Math.min(MAX_WATER_TEMP_C, Math.max(0, water)), unit),
+    unit,
+    ice,
+    warnings
+  }
+}
+
+/**
+ * One line for the timeline and the calculator, e.g. "Use 18°C water
+ * (120g ice + 480g tap water) for a 23°C dough"
+ */
+export function describeWaterTemp(result: WaterTemperature): string {
+  const water = `${result.waterTemp}°${result.unit} water`
+  const ice = result.ice && result.ice.ice > 0 ? ` (${result.ice.ice}g ice + ${result.ice.tapWater}g tap water)` : ''
+  return `Use ${water}${ice} for a ${result.targetDoughTemp}°${result.unit} dough`
+}
@@ -0,0 +1,121 @@
+import type { FermentationSchedule } from '@/types/pizza'
+
+export interface FermentationStage {
+  name: string
+  hours: number
+  isRefrigeration: boolean
+}
+
+export interface FermentationScheduleConfig {
+  duration: {
+    min: number
+    max: number
+  }
+  temperature: {
+    room: number | null
+    cold: number | null
+  }
+  description: string
+  stages: FermentationStage[]
+}
+
+export interface FermentationPhase extends FermentationStage {
+  temperature: number // °C
+}
+
+export const DEFAULT_FRIDGE_TEMP_C = 4
+
+export const FERMENTATION_OPTIONS = [
+  { value: 'quick', label: 'Quick (2-4 hours)', description: 'Room temperature fermentation for same-day pizza' },
+  { value: 'same-day', label: 'Same Day (8-12 hours)', description: 'Longer room temperature fermentation for better flavor' },
+  { value: 'overnight', label: 'Overnight (16-20 hours)', description: 'Extended room temperature fermentation for deep flavor development' },
+  { value: 'cold', label: 'Cold Ferment (24-72 hours)', description: 'Extended cold fermentation for maximum flavor development' },
+  { value: 'custom', label: 'Custom Schedule', description: 'Define your own fermentation schedule' },
+] as const
+
+export type FermentationOption = typeof FERMENTATION_OPTIONS[number]
+
+export const FERMENTATION_SCHEDULES: Record<FermentationSchedule, FermentationScheduleConfig> = {
+  'quick': {
+    duration: { min: 2, max: 4 },
+    temperature: { room: 22, cold: null },
+    description: 'Quick same-day fermentation at room temperature',
+    stages: [
+      { name: 'Bulk Fermentation', hours: 2, isRefrigeration: false },
+      { name: 'Final Proof', hours: 1, isRefrigeration: false }
+    ]
+  },
+  'same-day': {
+    duration: { min: 8, max: 12 },
+    temperature: { room: 22, cold: null },
+    description: 'Extended room temperature fermentation',
+    stages: [
+      { name: 'Bulk Fermentation', hours: 8, isRefrigeration: false },
+      { name: 'Final Proof', hours: 2, isRefrigeration: false }
+    ]
+  },
+  'overnight': {
+    duration: { min: 16, max: 20 },
+    temperature: { room: 22, cold: null },
+    description: 'Long room temperature fermentation for maximum flavor development',
+    stages: [
+      { name: 'Bulk Fermentation', hours: 16, isRefrigeration: false },
+      { name: 'Final Proof', hours: 2, isRefrigeration: false }
+    ]
+  },
+  'cold': {
+    duration: { min: 24, max: 72 },
+    temperature: { room: 22, cold: DEFAULT_FRIDGE_TEMP_C },
+    description: 'Extended cold fermentation for complex flavor development',
+    stages: [
+      { name: 'Room Temperature Rise', hours: 2, isRefrigeration: false },
+      { name: 'Cold Fermentation', hours: 24, isRefrigeration: true },
+      { name: 'Warm Up and Final Proof', hours: 2, isRefrigeration: false }
+    ]
+  },
+  'custom': {
+    duration: { min: 4, max: 72 },
+    temperature: { room: 22, cold: null },
+    description: 'Custom fermentation schedule',
+    stages: [
+      { name: 'Bulk Fermentation', hours: 6, isRefrigeration: false },
+      { name: 'Final Proof', hours: 2, isRefrigeration: false }
+    ]
+  }
+}
+
+export function getFermentationDetails(schedule: FermentationSchedule): FermentationScheduleConfig {
+  return FERMENTATION_SCHEDULES[schedule] ?? FERMENTATION_SCHEDULES['same-day']
+}
+
+/**
+ * The stages of a schedule with the hours the baker set for them, by
+ * position. Missing or invalid hours keep the schedule's default
+ */
+export function getFermentationStages(
+  schedule: FermentationSchedule,
+  stageHours: number[] | null = null
+): FermentationStage[] {
+  return getFermentationDetails(schedule).stages.map((stage, index) => {
+    const hours = stageHours?.[index]
+    return hours !== undefined && hours > 0 ? { ...stage, hours } : stage
+  })
+}
+
+/**
+ * Attach the actual temperatures to each stage of a schedule.
+ * @param roomTemp Room temperature in °C
+ * @param fridgeTemp Fridge temperature in °C
+ * @param stageHours Hours the baker set for each stage, see getFermentationStages
+ */
+export function getFermentationPhases(
+  schedule: FermentationSchedule,
+  roomTemp: number,
+  fridgeTemp: number = DEFAULT_FRIDGE_TEMP_C,
+  stageHours: number[] | null = null
+): FermentationPhase[] {
+  return getFermentationStages(schedule, stageHours).map(stage => ({
+    ...stage,
+    temperature: stage.isRefrigeration ? fridgeTemp : roomTemp
+  }))
+}
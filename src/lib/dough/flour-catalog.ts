@@ -0,0 +1,241 @@
+import type { FlourProfile } from '@/lib/openai/config'
+import type { FlourRegion } from '@/types/pizza'
+import type { FlourName } from './flour'
+
+/**
+ * Flours you can actually buy.
+ *
+ * Values come from mill spec sheets and vary from lot to lot. Italian mills
+ * publish W (strength) and P/L (tenacity over extensibility) from the
+ * alveograph; North American mills usually only publish protein, so those
+ * are left out rather than guessed. Absorption is the water the flour takes
+ * up on the farinograph, as a percentage of its weight. To add a flour, add
+ * an entry - everything else reads from this list.
+ */
+
+export const FLOUR_REGIONS: Record<FlourRegion, string> = {
+  us: 'United States',
+  canada: 'Canada',
+  uk: 'United Kingdom',
+  europe: 'Europe',
+  australia: 'Australia'
+}
+
+export interface CatalogFlour {
+  brand: string
+  product: string
+  type: FlourName
+  protein: number
+  w?: number
+  pl?: number
+  // Ash in % of dry matter; lower means more refined
+  ash?: number
+  absorption: number
+  regions: FlourRegion[]
+  description: string
+}
+
+export const FLOUR_CATALOG: CatalogFlour[] = [
+  {
+    brand: 'Caputo',
+    product: 'Pizzeria 00',
+    type: '00 Flour',
+    protein: 12.5,
+    w: 265,
+    pl: 0.55,
+    ash: 0.55,
+    absorption: 57,
+    regions: ['europe', 'uk', 'us', 'canada', 'australia'],
+    description: 'The classic for 8-12 hour Neapolitan doughs in a wood oven'
+  },
+  {
+    brand: 'Caputo',
+    product: 'Chef\'s Flour 00',
+    type: '00 Flour',
+    protein: 13,
+    w: 310,
+    pl: 0.55,
+    ash: 0.55,
+    absorption: 60,
+    regions: ['europe', 'uk', 'us', 'canada', 'australia'],
+    description: 'Stronger 00 that holds up to 24-48 hour cold fermentation'
+  },
+  {
+    brand: 'Le 5 Stagioni',
+    product: 'Napoletana 00',
+    type: '00 Flour',
+    protein: 12,
+    w: 270,
+    pl: 0.55,
+    ash: 0.55,
+    absorption: 58,
+    regions: ['europe', 'uk', 'us'],
+    description: 'Soft, extensible 00 made for Neapolitan pizza'
+  },
+  {
+    brand: 'Le 5 Stagioni',
+    product: 'Superiore 00',
+    type: '00 Flour',
+    protein: 11.5,
+    w: 290,
+    pl: 0.6,
+    ash: 0.55,
+    absorption: 62,
+    regions: ['europe', 'uk'],
+    description: 'Medium strength for high-hydration pan and al taglio doughs'
+  },
+  {
+    brand: 'Caputo',
+    product: 'Semola Rimacinata',
+    type: 'Semolina',
+    protein: 12,
+    w: 180,
+    ash: 0.9,
+    absorption: 62,
+    regions: ['europe', 'uk', 'us', 'canada', 'australia'],
+    description: 'Twice-milled durum wheat for a crisp, golden bottom'
+  },
+  {
+    brand: 'King Arthur',
+    product: 'Bread Flour',
+    type: 'Bread Flour',
+    protein: 12.7,
+    ash: 0.52,
+    absorption: 63,
+    regions: ['us', 'canada'],
+    description: 'Unbromated bread flour for NY, Detroit and Sicilian'
+  },
+  {
+    brand: 'King Arthur',
+    product: 'Sir Lancelot',
+    type: 'High Gluten',
+    protein: 14.2,
+    ash: 0.52,
+    absorption: 65,
+    regions: ['us'],
+    description: 'Unbromated high-gluten flour for a chewy NY crust'
+  },
+  {
+    brand: 'General Mills',
+    product: 'All Trumps',
+    type: 'High Gluten',
+    protein: 14.2,
+    ash: 0.52,
+    absorption: 65,
+    regions: ['us', 'canada'],
+    description: 'The pizzeria standard for New York slices'
+  },
+  {
+    brand: 'King Arthur',
+    product: 'All-Purpose Flour',
+    type: 'All-Purpose',
+    protein: 11.7,
+    ash: 0.5,
+    absorption: 60,
+    regions: ['us', 'canada'],
+    description: 'Strong for an all-purpose flour, works for home-oven pies'
+  },
+  {
+    brand: 'Gold Medal',
+    product: 'All-Purpose Flour',
+    type: 'All-Purpose',
+    protein: 10.5,
+    ash: 0.48,
+    absorption: 58,
+    regions: ['us'],
+    description: 'Soft supermarket flour, best blended with something stronger'
+  },
+  {
+    brand: 'King Arthur',
+    product: 'Whole Wheat Flour',
+    type: 'Whole Wheat',
+    protein: 13.8,
+    ash: 1.5,
+    absorption: 70,
+    regions: ['us', 'canada'],
+    description: 'Hard red whole wheat; use 10-30% for flavour'
+  },
+  {
+    brand: 'King Arthur',
+    product: 'Medium Rye',
+    type: 'Rye',
+    protein: 9,
+    ash: 1.2,
+    absorption: 68,
+    regions: ['us'],
+    description: 'A little rye adds flavour and keeps the crust tender'
+  },
+  {
+    brand: 'Marriage\'s',
+    product: 'Strong White Bread Flour',
+    type: 'Bread Flour',
+    protein: 12.9,
+    ash: 0.55,
+    absorption: 63,
+    regions: ['uk'],
+    description: 'Widely available British bread flour'
+  },
+  {
+    brand: 'Laucke',
+    product: 'Wallaby Bakers Flour',
+    type: 'Bread Flour',
+    protein: 12.6,
+    ash: 0.55,
+    absorption: 62,
+    regions: ['australia'],
+    description: 'Australian bakers flour suited to NY and pan pizza'
+  }
+]
+
+// The name a catalog flour goes by in a recipe
+export function flourLabel(flour: CatalogFlour): string {
+  return `${flour.brand} ${flour.product}`
+}
+
+export function findCatalogFlour(label: string, catalog = FLOUR_CATALOG): CatalogFlour | null {
+  return catalog.find(flour => flourLabel(flour) === label) ?? null
+}
+
+export function describeCatalogFlour(flour: CatalogFlour): string {
+  const specs = [
+    flour.w && `W${flour.w}`,
+    flour.pl && `P/L ${flour.pl}`,
+    `absorbs ~${flour.absorption}% water`
+  ].filter(Boolean).join(', ')
+  return `${flour.description} (${specs})`
+}
+
+export interface FlourRecommendation {
+  primary: CatalogFlour
+  alternatives: CatalogFlour[]
+}
+
+/**
+ * Catalog flours that best fit a style's profile, closest to the middle of
+ * its protein (and W) range first. Flours sold in the baker's region come
+ * before those that aren't. Without a profile, flours closest to `protein`
+ * are picked instead
+ */
+export function recommendFlours(
+  profile: FlourProfile | null,
+  options: { region?: FlourRegion | null; protein?: number; count?: number } = {},
+  catalog = FLOUR_CATALOG
+): FlourRecommendation | null {
+  const { region, count = 3 } = options
+  const target = profile ? (profile.protein.min + profile.protein.max) / 2 : options.protein ?? 12.5
+
+  const distance = (flour: CatalogFlour) => {
+    let score = Math.abs(flour.protein - target)
+    if (profile && (flour.protein < profile.protein.min || flour.protein > profile.protein.max)) score += 2
+    if (profile?.w) {
+      // Strength matters to styles that specify it, and unknown W can't be trusted
+      score += flour.w ? Math.abs(flour.w - (profile.w.min + profile.w.max) / 2) / 20 : 3
+    }
+    if (region && !flour.regions.includes(region)) score += 5
+    return score
+  }
+
+  const ranked = [...catalog].sort((a, b) => distance(a) - distance(b)).slice(0, count)
+  if (ranked.length === 0) return null
+  return { primary: ranked[0], alternatives: ranked.slice(1) }
+}
@@ -0,0 +1,138 @@
+import type { FlourProfile } from '@/lib/openai/config'
+import type { FlourPortion } from '@/types/pizza'
+import { findCatalogFlour } from './flour-catalog'
+
+/**
+ * Flour blends.
+ *
+ * A blend behaves roughly like the weighted average of its flours, so its
+ * protein and W (dough strength from the Chopin alveograph) are averaged by
+ * percentage. Good enough to tell whether a mix suits a style; the exact
+ * numbers vary by mill and harvest. A recipe names either a generic type
+ * below or a flour from the catalog.
+ */
+
+export interface FlourData {
+  description: string
+  protein: number
+  // Typical W; low-gluten flours have approximate values
+  w: number
+  // Water taken up, in % of the flour weight
+  absorption: number
+}
+
+export const FLOUR_TYPES = {
+  '00 Flour': { description: 'Finely milled Italian flour for high-heat bakes', protein: 12.5, w: 265, absorption: 58 },
+  'Bread Flour': { description: 'Strong flour for long fermentation', protein: 12.7, w: 300, absorption: 63 },
+  'All-Purpose': { description: 'Medium-strength everyday flour', protein: 10.5, w: 200, absorption: 59 },
+  'High Gluten': { description: 'Very strong flour for chewy NY crusts', protein: 14.2, w: 380, absorption: 65 },
+  'Whole Wheat': { description: 'Whole grain flour that drinks more water', protein: 13.5, w: 220, absorption: 70 },
+  'Semolina': { description: 'Durum wheat, usually semola rimacinata', protein: 12.5, w: 180, absorption: 62 },
+  'Rye': { description: 'Low-gluten flour for flavour', protein: 9, w: 60, absorption: 68 }
+} satisfies Record<string, FlourData>
+
+export type FlourName = keyof typeof FLOUR_TYPES
+
+export const FLOUR_NAMES = Object.keys(FLOUR_TYPES) as FlourName[]
+
+export interface FlourBlend {
+  protein: number
+  w: number
+  absorption: number
+  // Flours in the mix that aren't in the database, left out of the averages
+  unknown: string[]
+}
+
+function roundTo(value: number, decimals: number): number {
+  const multiplier = Math.pow(10, decimals)
+  return Math.round(value * multiplier) / multiplier
+}
+
+export function isFlourName(type: string): type is FlourName {
+  return Object.hasOwn(FLOUR_TYPES, type)
+}
+
+/**
+ * Properties of a generic flour type or a catalog flour. Catalog flours that
+ * don't publish W take the typical W of their type
+ */
+export function flourSpec(type: string): FlourData | null {
+  if (isFlourName(type)) return FLOUR_TYPES[type]
+
+  const flour = findCatalogFlour(type)
+  if (!flour) return null
+  return {
+    description: flour.description,
+    protein: flour.protein,
+    w: flour.w ?? FLOUR_TYPES[flour.type].w,
+    absorption: flour.absorption
+  }
+}
+
+/**
+ * Why a flour mix can't be used, or null when it's fine
+ */
+export function flourMixError(flourMix: FlourPortion[]): string | null {
+  if (flourMix.length === 0) return 'Add at least one flour'
+
+  const types = flourMix.map(flour => flour.type)
+  if (new Set(types).size !== types.length) return 'Each flour can only be added once'
+
+  const total = roundTo(flourMix.reduce((sum, flour) => sum + flour.percentage, 0), 1)
+  if (total !== 100) return `Flour percentages add up to ${total}%, they must add up to 100%`
+
+  return null
+}
+
+/**
+ * Protein and W of a blend, or null when none of its flours are known
+ */
+export function blendFlour(flourMix: FlourPortion[]): FlourBlend | null {
+  const known = flourMix
+    .map(flour => ({ percentage: flour.percentage, spec: flourSpec(flour.type) }))
+    .filter((flour): flour is { percentage: number; spec: FlourData } => flour.spec !== null && flour.percentage > 0)
+  const total = known.reduce((sum, flour) => sum + flour.percentage, 0)
+  if (total === 0) return null
+
+  const average = (property: 'protein' | 'w' | 'absorption') =>
+    known.reduce((sum, flour) => sum + flour.spec[property] * flour.percentage, 0) / total
+
+  return {
+    protein: roundTo(average('protein'), 1),
+    w: Math.round(average('w')),
+    absorption: roundTo(average('absorption'), 1),
+    unknown: flourMix.filter(flour => !flourSpec(flour.type)).map(flour => flour.type)
+  }
+}
+
+export function describeBlend(blend: FlourBlend): string {
+  return `${blend.protein}% protein, W${blend.w}, absorbs ~${blend.absorption}% water`
+}
+
+/**
+ * Where the blend falls outside what the style wants, e.g. "Protein 11.2% is
+ * below the 12.5-14% Sicilian calls for"
+ */
+export function flourBlendWarnings(blend: FlourBlend, profile: FlourProfile | null, styleName: string): string[] {
+  if (!profile) return []
+
+  const warnings: string[] = []
+  const check = (label: string, actual: number, range: { min: number; max: number }, wanted: string) => {
+    if (actual < range.min) warnings.push(`${label} is below the ${wanted} ${styleName} calls for`)
+    if (actual > range.max) warnings.push(`${label} is above the ${wanted} ${styleName} calls for`)
+  }
+
+  const { protein, w } = profile
+  check(`Protein ${blend.protein}%`, blend.protein, protein, `${protein.min}-${protein.max}%`)
+  if (w) check(`Strength W${blend.w}`, blend.w, w, `W${w.min}-${w.max}`)
+  return warnings
+}
+
+/**
+ * Hydration points to add (or take away when negative) when switching from
+ * one flour to another that absorbs more or less water, to half a point
+ */
+export function absorptionShift(from: FlourBlend | null, to: FlourBlend | null): number {
+  if (!from || !to) return 0
+  return Math.round((to.absorption - from.absorption) * 2) / 2
+}
@@ -0,0 +1,154 @@
+import type { OvenKind } from '@/types/pizza'
+
+/**
+ * What each kind of oven can do, and what that means for the dough.
+ *
+ * The floor (stone, steel or deck) cooks the bottom and the dome or upper
+ * element cooks the top; the hotter both get, the shorter the bake. A long
+ * bake dries the dough out, so cooler ovens get extra hydration, and below
+ * ~600°F the crust needs sugar or diastatic malt to brown in time. At
+ * wood-fired temperatures both just burn. Temperatures are in °F.
+ */
+
+export interface OvenProfile {
+  label: string
+  description: string
+  maxFloorTempF: number
+  maxDomeTempF: number
+  // Floor temperature to bake at
+  bakeTempF: number
+  preheatMinutes: number
+  bakeMinutes: { min: number; max: number }
+  // Added to the style's default hydration
+  hydrationOffset: number
+  // Browning aids in baker's percent
+  recommendedSugar: number
+  recommendedMalt: number
+  preheat: string
+  bakingTip: string
+}
+
+export const OVEN_PROFILES: Record<OvenKind, OvenProfile> = {
+  'home-stone': {
+    label: 'Home oven with stone',
+    description: 'Cordierite or ceramic stone, 500-550°F',
+    maxFloorTempF: 550,
+    maxDomeTempF: 550,
+    bakeTempF: 550,
+    preheatMinutes: 60,
+    bakeMinutes: { min: 7, max: 10 },
+    hydrationOffset: 3,
+    recommendedSugar: 2,
+    recommendedMalt: 0.5,
+    preheat: 'Stone on the upper-middle rack, preheat at the oven\'s maximum for a full hour so the stone is heated through',
+    bakingTip: 'Launch onto the stone and rotate halfway; a stone stores less heat than steel, so let it recover 5 minutes between pizzas'
+  },
+  'home-steel': {
+    label: 'Home oven with steel',
+    description: 'Baking steel, 500-550°F',
+    maxFloorTempF: 550,
+    maxDomeTempF: 550,
+    bakeTempF: 550,
+    preheatMinutes: 60,
+    bakeMinutes: { min: 5, max: 7 },
+    hydrationOffset: 2,
+    recommendedSugar: 1,
+    recommendedMalt: 0.5,
+    preheat: 'Steel on the upper-middle rack, preheat at the oven\'s maximum for an hour',
+    bakingTip: 'Steel conducts heat fast, so watch the bottom from the 4 minute mark'
+  },
+  'home-broiler': {
+    label: 'Home oven, broiler-assisted',
+    description: 'Stone or steel near the broiler, top heat to ~650°F',
+    maxFloorTempF: 550,
+    maxDomeTempF: 650,
+    bakeTempF: 550,
+    preheatMinutes: 60,
+    bakeMinutes: { min: 4, max: 6 },
+    hydrationOffset: 2,
+    recommendedSugar: 1,
+    recommendedMalt: 0.5,
+    preheat: 'Stone or steel on the top rack 4-6 inches below the broiler, preheat at maximum for an hour, then switch to the broiler 10 minutes before the first pizza',
+    bakingTip: 'Bake on the floor with the broiler on and watch the top closely; the rim can char in under a minute'
+  },
+  'electric-deck': {
+    label: 'Electric deck oven',
+    description: 'Independent floor and top elements, up to ~750°F',
+    maxFloorTempF: 750,
+    maxDomeTempF: 800,
+    bakeTempF: 650,
+    preheatMinutes: 60,
+    bakeMinutes: { min: 3, max: 5 },
+    hydrationOffset: 1,
+    recommendedSugar: 0,
+    recommendedMalt: 0,
+    preheat: 'Preheat for an hour, setting the top element hotter than the floor for a leoparded rim without burning the bottom',
+    bakingTip: 'Balance the floor and top settings; raise the top if the rim is pale when the bottom is done'
+  },
+  'gas-deck': {
+    label: 'Gas deck oven',
+    description: 'Pizzeria deck oven, 550-650°F',
+    maxFloorTempF: 650,
+    maxDomeTempF: 650,
+    bakeTempF: 575,
+    preheatMinutes: 60,
+    bakeMinutes: { min: 6, max: 9 },
+    hydrationOffset: 1,
+    recommendedSugar: 1,
+    recommendedMalt: 0.5,
+    preheat: 'Preheat for at least an hour so the deck stones are saturated with heat',
+    bakingTip: 'Rotate and move pizzas across the deck to even out hot spots'
+  },
+  'wood-fired': {
+    label: 'Wood-fired oven',
+    description: 'Masonry dome, floor 800-900°F',
+    maxFloorTempF: 900,
+    maxDomeTempF: 1000,
+    bakeTempF: 850,
+    preheatMinutes: 150,
+    bakeMinutes: { min: 1, max: 2 },
+    hydrationOffset: 0,
+    recommendedSugar: 0,
+    recommendedMalt: 0,
+    preheat: 'Build the fire 2-3 hours ahead until the dome clears white, then push the coals to the side and keep a live flame',
+    bakingTip: 'Bake near the flame and turn the pizza every 15-20 seconds with a turning peel'
+  },
+  'portable': {
+    label: 'Portable pizza oven',
+    description: 'Ooni, Gozney and similar, 700-950°F',
+    maxFloorTempF: 850,
+    maxDomeTempF: 950,
+    bakeTempF: 750,
+    preheatMinutes: 30,
+    bakeMinutes: { min: 1, max: 3 },
+    hydrationOffset: 0,
+    recommendedSugar: 0,
+    recommendedMalt: 0,
+    preheat: 'Preheat for 30 minutes until the stone reads 750-800°F with an infrared thermometer',
+    bakingTip: 'Turn the pizza every 20-30 seconds and lower the flame between bakes so the stone recovers'
+  }
+}
+
+export const OVEN_KINDS = Object.keys(OVEN_PROFILES) as OvenKind[]
+
+// Saved recipes from before oven profiles only knew these two
+const LEGACY_OVEN_KINDS: Record<string, OvenKind> = {
+  home: 'home-stone',
+  outdoor: 'portable'
+}
+
+export function toOvenKind(value: string | null | undefined): OvenKind {
+  if (!value) return 'home-stone'
+  // Own keys only, so 'constructor' and friends don't count as ovens
+  if (Object.hasOwn(OVEN_PROFILES, value)) return value as OvenKind
+  return Object.hasOwn(LEGACY_OVEN_KINDS, value) ? LEGACY_OVEN_KINDS[value] : 'home-stone'
+}
+
+export function ovenProfile(kind: string | null | undefined): OvenProfile {
+  return OVEN_PROFILES[toOvenKind(kind)]
+}
+
+export function describeBakeTime(oven: OvenProfile): string {
+  const { min, max } = oven.bakeMinutes
+  return `${min}-${max} minutes at ${oven.bakeTempF}°F`
+}
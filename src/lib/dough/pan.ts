@@ -0,0 +1,98 @@
+import type { PanSettings, PanSize, PizzaStyle } from '@/types/pizza'
+import { GRAMS_PER_OUNCE, toInches } from '@/lib/units'
+
+/**
+ * Dough sized by the pan instead of by the ball.
+ *
+ * Pizzerias use a thickness factor: ounces of dough per square inch of pan.
+ * Multiply it by the area and you get the dough weight for one pan, however
+ * large. Thin round pies sit around 0.08, thick focaccia-like pans go
+ * above 0.12.
+ */
+
+export const THICKNESS_FACTORS: Record<PizzaStyle, number> = {
+  'neapolitan': 0.08,
+  'new-york': 0.085,
+  'detroit': 0.125,
+  'sicilian': 0.12,
+  'roman-al-taglio': 0.11,
+  'custom': 0.1
+}
+
+// Styles baked in a pan rather than shaped from a ball
+export const PAN_STYLES: PizzaStyle[] = ['detroit', 'sicilian', 'roman-al-taglio']
+
+export interface PanPreset {
+  label: string
+  size: PanSize
+  style: PizzaStyle
+}
+
+export const PAN_PRESETS: Record<string, PanPreset> = {
+  'detroit-10x14': {
+    label: 'Detroit pan 10×14"',
+    size: { shape: 'rect', length: 14, width: 10, unit: 'in' },
+    style: 'detroit'
+  },
+  'detroit-8x10': {
+    label: 'Detroit pan 8×10"',
+    size: { shape: 'rect', length: 10, width: 8, unit: 'in' },
+    style: 'detroit'
+  },
+  'teglia-60x40': {
+    label: 'Teglia 60×40 cm',
+    size: { shape: 'rect', length: 60, width: 40, unit: 'cm' },
+    style: 'roman-al-taglio'
+  },
+  'half-sheet': {
+    label: 'Half-sheet pan 13×18"',
+    size: { shape: 'rect', length: 18, width: 13, unit: 'in' },
+    style: 'sicilian'
+  },
+  'round-12': {
+    label: 'Round 12"',
+    size: { shape: 'round', diameter: 12, unit: 'in' },
+    style: 'new-york'
+  }
+}
+
+// The pan a style is usually baked in
+export function defaultPanPreset(style: PizzaStyle): string | null {
+  if (!PAN_STYLES.includes(style)) return null
+  return Object.keys(PAN_PRESETS).find(key => PAN_PRESETS[key].style === style) ?? null
+}
+
+export function panSettingsFor(presetKey: string, style: PizzaStyle, count = 1): PanSettings {
+  return { size: PAN_PRESETS[presetKey].size, count, thicknessFactor: THICKNESS_FACTORS[style] }
+}
+
+// Square inches
+export function panArea(size: PanSize): number {
+  if (size.shape === 'round') {
+    const radius = toInches(size.diameter, size.unit) / 2
+    return Math.PI * radius * radius
+  }
+  return toInches(size.length, size.unit) * toInches(size.width, size.unit)
+}
+
+/**
+ * Grams of dough for one pan
+ */
+export function panDoughWeight(pan: Pick<PanSettings, 'size' | 'thicknessFactor'>): number {
+  if (!(pan.thicknessFactor > 0)) throw new Error('The thickness factor must be positive')
+  const area = panArea(pan.size)
+  if (!(area > 0)) throw new Error('Pan dimensions must be positive')
+  return Math.round(area * pan.thicknessFactor * GRAMS_PER_OUNCE)
+}
+
+export function describePanSize(size: PanSize): string {
+  const unit = size.unit === 'in' ? '"' : ' cm'
+  return size.shape === 'round'
+    ? `${size.diameter}${unit} round`
+    : `${size.length}×${size.width}${unit}`
+}
+
+export function describePans(pan: PanSettings): string {
+  const noun = pan.size.shape === 'round' ? 'pizza' : 'pan'
+  return `${pan.count} × ${describePanSize(pan.size)} ${noun}${pan.count === 1 ? '' : 's'}, thickness factor ${pan.thicknessFactor} oz/in²`
+}
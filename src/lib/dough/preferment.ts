@@ -0,0 +1,148 @@
+import type { Preferment, PrefermentType, YeastType } from '@/types/pizza'
+import type { WeightCalculation } from './weights'
+import { YEAST_CONVERSION } from './yeast'
+
+export interface PrefermentConfig {
+  label: string
+  hydration: number
+  percentage: number
+  buildHours: number
+  // IDY as a percentage of the preferment flour; levain brings its own culture
+  yeastPercentage: number
+  description: string
+  tips: string[]
+}
+
+export const PREFERMENT_TYPES: Record<PrefermentType, PrefermentConfig> = {
+  levain: {
+    label: 'Levain (sourdough)',
+    hydration: 100,
+    percentage: 20,
+    buildHours: 6,
+    yeastPercentage: 0,
+    description: 'Feed the starter and let it peak',
+    tips: ['Use the levain when it has doubled and domed', 'A spoonful should float in water']
+  },
+  poolish: {
+    label: 'Poolish',
+    hydration: 100,
+    percentage: 30,
+    buildHours: 14,
+    yeastPercentage: 0.1,
+    description: 'Mix the poolish and leave it covered at room temperature',
+    tips: ['Ready when the surface is covered in bubbles and just starting to recede']
+  },
+  biga: {
+    label: 'Biga',
+    hydration: 50,
+    percentage: 50,
+    buildHours: 18,
+    yeastPercentage: 0.35,
+    description: 'Mix the biga to a shaggy mass without kneading and leave it covered',
+    tips: ['Keep it around 18°C if you can', 'Ready when it smells sweet and slightly alcoholic']
+  }
+}
+
+export interface PrefermentSplit {
+  preferment: {
+    type: PrefermentType
+    flour: number
+    water: number
+    yeast: number
+    total: number
+  }
+  finalMix: {
+    flour: number
+    water: number
+    salt: number
+    oil: number
+    sugar: number
+    malt: number
+    honey: number
+    yeast: number
+  }
+}
+
+/**
+ * Split the full dough into the preferment build and the final mix.
+ * The flour and water held in the preferment are taken out of the final mix.
+ */
+export function splitPreferment(
+  weights: WeightCalculation,
+  preferment: Preferment,
+  yeastType: YeastType
+): PrefermentSplit {
+  // A cleared input arrives as NaN
+  const positive = (value: number) => Number.isFinite(value) && value > 0
+  if (!positive(preferment.percentage) || !positive(preferment.hydration)) {
+    throw new Error('Preferment percentage and hydration must be positive')
+  }
+
+  const config = PREFERMENT_TYPES[preferment.type]
+  const share = preferment.percentage / 100
+  const hydration = preferment.hydration / 100
+
+  // Inoculation is the whole levain weight, so work back to its flour
+  const flour = Math.round(
+    preferment.type === 'levain'
+      ? (weights.flourWeight * share) / (1 + hydration)
+      : weights.flourWeight * share
+  )
+  const water = Math.round(flour * hydration)
+
+  if (flour > weights.flourWeight) {
+    throw new Error('The preferment needs more flour than the whole dough')
+  }
+  if (water > weights.waterWeight) {
+    throw new Error('The preferment needs more water than the whole dough - lower its hydration or size')
+  }
+
+  const conversion = YEAST_CONVERSION[yeastType] ?? 1
+  const yeast = Math.min(
+    weights.yeastWeight,
+    Math.round(flour * (config.yeastPercentage / 100) * conversion * 100) / 100
+  )
+
+  return {
+    preferment: {
+      type: preferment.type,
+      flour,
+      water,
+      yeast,
+      total: flour + water + yeast
+    },
+    finalMix: {
+      flour: weights.flourWeight - flour,
+      water: weights.waterWeight - water,
+      salt: weights.saltWeight,
+      oil: weights.oilWeight,
+      sugar: weights.sugarWeight,
+      malt: weights.maltWeight,
+      honey: weights.honeyWeight,
+      yeast: Math.round((weights.yeastWeight - yeast) * 100) / 100
+    }
+  }
+}
+
+/**
+ * The build step that has to happen before the initial mix
+ */
+export function describePrefermentBuild(split: PrefermentSplit): {
+  name: string
+  hours: number
+  description: string
+  tips: string[]
+} {
+  const config = PREFERMENT_TYPES[split.preferment.type]
+  const { flour, water, yeast } = split.preferment
+  const ingredients = split.preferment.type === 'levain'
+    ? `${flour}g flour and ${water}g water with a spoonful of active starter`
+    : `${flour}g flour, ${water}g water and ${yeast}g yeast`
+
+  return {
+    name: `Build ${config.label}`,
+    hours: config.buildHours,
+    description: `${config.description}: ${ingredients} (${config.buildHours} hours)`,
+    tips: config.tips
+  }
+}
@@ -0,0 +1,213 @@
+import type { Currency, MixerType, PricedIngredient, ProductionSettings } from '@/types/pizza'
+import { calculateWeights, type BakersFormula, type FlourWeight, type WeightCalculation } from './weights'
+
+/**
+ * Production runs: the same dough for dozens of balls, made in as many
+ * batches as the mixer needs.
+ *
+ * Batches are kept as even as possible rather than filling the mixer and
+ * leaving a small last batch, which mixes badly. Every ingredient is split
+ * from the run's total with its rounding error carried into the next batch,
+ * so the batches always add up to exactly the total. Batches are mixed one
+ * after another, so each one is ready to bake that much later.
+ */
+
+// Dough balls or pans the calculator takes, and more for an event run
+export const MAX_BALLS = 100
+export const MAX_PRODUCTION_BALLS = 200
+
+// Loading, mixing and emptying the bowl, until the next batch can go in
+export const BATCH_MINUTES: Record<MixerType, number> = {
+  hand: 20,
+  stand: 15,
+  spiral: 12
+}
+
+export const PRICED_INGREDIENTS: Record<PricedIngredient, string> = {
+  flour: 'Flour',
+  salt: 'Salt',
+  oil: 'Oil',
+  sugar: 'Sugar',
+  malt: 'Diastatic malt',
+  honey: 'Honey',
+  yeast: 'Yeast'
+}
+
+export const CURRENCIES: Currency[] = ['USD', 'EUR', 'GBP']
+
+// Typical wholesale prices per kilogram, as a starting point
+export const DEFAULT_PRICES: Record<PricedIngredient, number> = {
+  flour: 1.2,
+  salt: 0.8,
+  oil: 9,
+  sugar: 1.5,
+  malt: 14,
+  honey: 12,
+  yeast: 16
+}
+
+export function defaultProductionSettings(mixer: MixerType): ProductionSettings {
+  return {
+    mixerCapacityKg: 5,
+    minutesBetweenBatches: BATCH_MINUTES[mixer],
+    prices: { ...DEFAULT_PRICES },
+    currency: 'USD'
+  }
+}
+
+export interface ProductionBatch {
+  number: number
+  balls: number
+  ingredients: WeightCalculation
+  // After the first batch goes into the mixer
+  startMinutes: number
+}
+
+export interface CostLine {
+  ingredient: PricedIngredient
+  grams: number
+  cost: number
+}
+
+export interface ProductionCost {
+  lines: CostLine[]
+  total: number
+  perBall: number
+  currency: Currency
+}
+
+export interface ProductionPlan {
+  batches: ProductionBatch[]
+  totals: WeightCalculation
+  // The most the mixer takes at once
+  maxBallsPerBatch: number
+  cost: ProductionCost
+}
+
+/**
+ * Split a total across shares at the given precision, carrying each batch's
+ * rounding into the next so the parts add up to the total exactly
+ */
+export function splitWithCarry(total: number, shares: number[], decimals: number): number[] {
+  const scale = Math.pow(10, decimals)
+  const units = Math.round(total * scale)
+  const shareTotal = shares.reduce((sum, share) => sum + share, 0)
+
+  let cumulativeShare = 0
+  let allocated = 0
+  return shares.map(share => {
+    cumulativeShare += share
+    const upTo = Math.round(units * cumulativeShare / shareTotal)
+    const part = upTo - allocated
+    allocated = upTo
+    return part / scale
+  })
+}
+
+// As even as possible, with the extra balls in the first batches
+function ballsPerBatch(totalBalls: number, batchCount: number): number[] {
+  const base = Math.floor(totalBalls / batchCount)
+  const extra = totalBalls % batchCount
+  return Array.from({ length: batchCount }, (_, index) => base + (index < extra ? 1 : 0))
+}
+
+function splitFlours(flours: FlourWeight[], shares: number[]): FlourWeight[][] {
+  const parts = flours.map(flour => splitWithCarry(flour.weight, shares, 0))
+  return shares.map((_, batch) => flours.map((flour, index) => ({ ...flour, weight: parts[index][batch] })))
+}
+
+function round(value: number, decimals: number): number {
+  const multiplier = Math.pow(10, decimals)
+  return Math.round(value * multiplier) / multiplier
+}
+
+/**
+ * What the ingredients for the whole run cost
+ */
+export function productionCost(
+  totals: WeightCalculation,
+  ballCount: number,
+  prices: Record<PricedIngredient, number>,
+  currency: Currency
+): ProductionCost {
+  const grams: Record<PricedIngredient, number> = {
+    flour: totals.flourWeight,
+    salt: totals.saltWeight,
+    oil: totals.oilWeight,
+    sugar: totals.sugarWeight,
+    malt: totals.maltWeight,
+    honey: totals.honeyWeight,
+    yeast: totals.yeastWeight
+  }
+
+  const lines = (Object.keys(grams) as PricedIngredient[])
+    .filter(ingredient => grams[ingredient] > 0)
+    .map(ingredient => ({
+      ingredient,
+      grams: grams[ingredient],
+      cost: round(grams[ingredient] / 1000 * (prices[ingredient] ?? 0), 2)
+    }))
+  const total = round(lines.reduce((sum, line) => sum + line.cost, 0), 2)
+
+  return { lines, total, perBall: ballCount > 0 ? round(total / ballCount, 2) : 0, currency }
+}
+
+/**
+ * Split a run of `formula.ballCount` balls into batches the mixer can take
+ */
+export function planProduction(formula: BakersFormula, settings: ProductionSettings): ProductionPlan {
+  if (!(settings.mixerCapacityKg > 0)) {
+    throw new Error('Mixer capacity must be positive')
+  }
+  if (!(settings.minutesBetweenBatches >= 0)) {
+    throw new Error('Minutes between batches cannot be negative')
+  }
+
+  const totals = calculateWeights(formula)
+  const flourPerBall = totals.flourWeight / formula.ballCount
+  const maxBallsPerBatch = Math.floor(settings.mixerCapacityKg * 1000 / flourPerBall)
+  if (maxBallsPerBatch < 1) {
+    throw new Error(`The mixer needs to take at least ${round(flourPerBall / 1000, 2)} kg of flour for one ball`)
+  }
+
+  const batchCount = Math.ceil(formula.ballCount / maxBallsPerBatch)
+  const balls = ballsPerBatch(formula.ballCount, batchCount)
+  const split = (total: number, decimals: number) => splitWithCarry(total, balls, decimals)
+
+  const water = split(totals.waterWeight, 0)
+  const salt = split(totals.saltWeight, 1)
+  const oil = split(totals.oilWeight, 1)
+  const sugar = split(totals.sugarWeight, 1)
+  const malt = split(totals.maltWeight, 1)
+  const honey = split(totals.honeyWeight, 1)
+  const yeast = split(totals.yeastWeight, 2)
+  const flours = totals.flours.length ? splitFlours(totals.flours, balls) : null
+  const flour = flours
+    ? flours.map(batch => batch.reduce((sum, part) => sum + part.weight, 0))
+    : split(totals.flourWeight, 0)
+
+  const batches = balls.map((count, index) => ({
+    number: index + 1,
+    balls: count,
+    ingredients: {
+      totalWeight: count * formula.ballWeight,
+      flourWeight: flour[index],
+      waterWeight: water[index],
+      saltWeight: salt[index],
+      oilWeight: oil[index],
+      sugarWeight: sugar[index],
+      maltWeight: malt[index],
+      honeyWeight: honey[index],
+      yeastWeight: yeast[index],
+      flours: flours ? flours[index] : []
+    },
+    startMinutes: index * settings.minutesBetweenBatches
+  }))
+
+  return {
+    batches,
+    totals,
+    maxBallsPerBatch,
+    cost: productionCost(totals, formula.ballCount, settings.prices, settings.currency)
+  }
+}
@@ -0,0 +1,181 @@
+import type { FermentationSchedule } from '@/types/pizza'
+import { FERMENTATION_OPTIONS, getFermentationStages, type FermentationOption } from './fermentation'
+import { adjustProofHours, type AltitudeCorrections } from './altitude'
+
+const HOUR_MS = 60 * 60 * 1000
+
+const MIX_HOURS = 0.25
+const BALLING_HOURS = 0.25
+
+// Steps starting in this window need someone awake at an odd hour
+const NIGHT_START_HOUR = 23
+const NIGHT_END_HOUR = 6
+
+export interface ScheduledStep {
+  name: string
+  start: Date
+  end: Date
+  hours: number
+  isRefrigeration: boolean
+  isNight: boolean
+}
+
+export interface BakeSchedule {
+  steps: ScheduledStep[]
+  startAt: Date
+  bakeAt: Date
+  totalHours: number
+  hoursAvailable: number
+  warnings: string[]
+  // Set when the chosen schedule doesn't fit in the time left before the bake
+  suggestion: FermentationOption | null
+}
+
+export interface ScheduleInput {
+  schedule: FermentationSchedule
+  bakeAt: Date
+  preheatHours: number
+  prefermentHours?: number
+  // Hours the baker set for each fermentation stage
+  stageHours?: number[] | null
+  // Dough rises faster up high, which shortens the room-temperature stages
+  altitude?: AltitudeCorrections | null
+  now?: Date
+}
+
+interface StepTemplate {
+  name: string
+  hours: number
+  isRefrigeration: boolean
+}
+
+function isNightTime(date: Date): boolean {
+  const hour = date.getHours()
+  return hour >= NIGHT_START_HOUR || hour < NIGHT_END_HOUR
+}
+
+function formatClock(date: Date): string {
+  return `${String(date.getHours()).padStart(2, '0')}:${String(date.getMinutes()).padStart(2, '0')}`
+}
+
+/**
+ * Every step from the preferment build to the end of the final proof, in order.
+ * Balling happens right before the last stage, which is always the final proof.
+ */
+function stepTemplates(
+  schedule: FermentationSchedule,
+  prefermentHours = 0,
+  altitude: AltitudeCorrections | null = null,
+  stageHours: number[] | null = null
+): StepTemplate[] {
+  const stages = getFermentationStages(schedule, stageHours)
+  const steps: StepTemplate[] = []
+
+  if (prefermentHours > 0) {
+    steps.push({ name: 'Build Preferment', hours: prefermentHours, isRefrigeration: false })
+  }
+  steps.push({ name: 'Mix', hours: MIX_HOURS, isRefrigeration: false })
+
+  stages.forEach((stage, index) => {
+    if (index === stages.length - 1) {
+      steps.push({ name: 'Divide and Ball', hours: BALLING_HOURS, isRefrigeration: false })
+    }
+    if (stage.isRefrigeration) {
+      steps.push({ name: 'Into the Fridge', hours: 0, isRefrigeration: true })
+    }
+    steps.push({
+      name: stage.name,
+      hours: stage.isRefrigeration ? stage.hours : adjustProofHours(stage.hours, altitude),
+      isRefrigeration: stage.isRefrigeration
+    })
+    if (stage.isRefrigeration) {
+      steps.push({ name: 'Out of the Fridge', hours: 0, isRefrigeration: false })
+    }
+  })
+
+  return steps
+}
+
+/**
+ * Hours needed from the first step to the bake, ignoring the preheat which
+ * runs alongside the final proof
+ */
+export function scheduleHours(
+  schedule: FermentationSchedule,
+  prefermentHours = 0,
+  altitude: AltitudeCorrections | null = null
+): number {
+  return stepTemplates(schedule, prefermentHours, altitude).reduce((sum, step) => sum + step.hours, 0)
+}
+
+/**
+ * The longest fermentation option that still fits in the given time
+ */
+export function suggestFermentation(
+  hoursAvailable: number,
+  prefermentHours = 0,
+  altitude: AltitudeCorrections | null = null
+): FermentationOption | null {
+  const hours = (option: FermentationOption) => scheduleHours(option.value, prefermentHours, altitude)
+  const fitting = FERMENTATION_OPTIONS
+    .filter(option => option.value !== 'custom')
+    .filter(option => hours(option) <= hoursAvailable)
+    .sort((a, b) => hours(b) - hours(a))
+
+  return fitting[0] ?? null
+}
+
+/**
+ * Work the schedule backwards from the bake time into clock times for every step
+ */
+export function buildSchedule(input: ScheduleInput): BakeSchedule {
+  const { schedule, bakeAt, preheatHours, prefermentHours = 0, altitude = null, stageHours = null, now = new Date() } = input
+  const templates = stepTemplates(schedule, prefermentHours, altitude, stageHours)
+  const totalHours = templates.reduce((sum, step) => sum + step.hours, 0)
+  const startAt = new Date(bakeAt.getTime() - totalHours * HOUR_MS)
+
+  const steps: ScheduledStep[] = []
+  let cursor = startAt.getTime()
+  for (const template of templates) {
+    const start = new Date(cursor)
+    cursor += template.hours * HOUR_MS
+    steps.push({ ...template, start, end: new Date(cursor), isNight: isNightTime(start) })
+  }
+
+  // The oven heats up while the dough finishes proofing
+  const preheatStart = new Date(bakeAt.getTime() - preheatHours * HOUR_MS)
+  steps.push({
+    name: 'Preheat Oven',
+    start: preheatStart,
+    end: bakeAt,
+    hours: preheatHours,
+    isRefrigeration: false,
+    isNight: isNightTime(preheatStart)
+  })
+  steps.push({
+    name: 'Shape and Bake',
+    start: bakeAt,
+    end: bakeAt,
+    hours: 0,
+    isRefrigeration: false,
+    isNight: isNightTime(bakeAt)
+  })
+  steps.sort((a, b) => a.start.getTime() - b.start.getTime())
+
+  const hoursAvailable = Math.max(0, (bakeAt.getTime() - now.getTime()) / HOUR_MS)
+  const warnings: string[] = []
+  let suggestion: FermentationOption | null = null
+
+  if (startAt.getTime() < now.getTime()) {
+    suggestion = suggestFermentation(hoursAvailable, prefermentHours, altitude)
+    warnings.push(suggestion
+      ? `This schedule needs ${Math.ceil(totalHours)} hours but only ${Math.floor(hoursAvailable)} are left - try ${suggestion.label} instead`
+      : `Only ${Math.floor(hoursAvailable)} hours are left, which is not enough for any fermentation schedule`)
+  }
+
+  steps
+    .filter(step => step.isNight)
+    .forEach(step => warnings.push(`${step.name} falls at ${formatClock(step.start)}, in the middle of the night`))
+
+  return { steps, startAt, bakeAt, totalHours, hoursAvailable, warnings, suggestion }
+}
@@ -0,0 +1,78 @@
+import type { PizzaStyle } from '@/types/pizza'
+import type { OvenProfile } from './oven'
+
+/**
+ * Sugar, diastatic malt and honey: browning aids for ovens too cool to
+ * colour the crust before the pizza is done.
+ *
+ * Sugar and honey caramelise on their own; diastatic malt carries active
+ * enzymes that turn the flour's starch into sugar during fermentation, so a
+ * little goes a long way and too much leaves the crumb gummy. Above ~600°F
+ * the crust browns in time by itself and any of them just scorches.
+ */
+
+export type Sweetener = 'sugar' | 'malt' | 'honey'
+
+export const SWEETENERS: Record<Sweetener, { label: string; max: number }> = {
+  sugar: { label: 'Sugar', max: 5 },
+  malt: { label: 'Diastatic malt', max: 2 },
+  honey: { label: 'Honey', max: 5 }
+}
+
+// Below this floor temperature the crust needs help to brown
+export const BROWNING_THRESHOLD_F = 600
+
+// Neapolitan dough is flour, water, salt and yeast; a pinch of malt is the
+// most a home oven gets
+const STYLES_WITHOUT_SUGAR: PizzaStyle[] = ['neapolitan']
+
+export type SweetenerAmounts = Record<Sweetener, number>
+
+export interface SweetenerRecommendation extends SweetenerAmounts {
+  reason: string
+}
+
+export function sweetenerRecommendation(style: PizzaStyle, oven: OvenProfile): SweetenerRecommendation {
+  if (oven.bakeTempF >= BROWNING_THRESHOLD_F) {
+    return {
+      sugar: 0,
+      malt: 0,
+      honey: 0,
+      reason: `At ${oven.bakeTempF}°F the crust browns on its own; sugar, malt and honey would scorch`
+    }
+  }
+
+  const sugar = STYLES_WITHOUT_SUGAR.includes(style) ? 0 : oven.recommendedSugar
+  return {
+    sugar,
+    malt: oven.recommendedMalt,
+    honey: 0,
+    reason: `Below ${BROWNING_THRESHOLD_F}°F the crust browns slowly; ${oven.recommendedMalt}% diastatic malt${sugar ? ` and ${sugar}% sugar` : ''} make up for the ${oven.label.toLowerCase()}`
+  }
+}
+
+export function describeSweeteners(amounts: Partial<SweetenerAmounts>): string {
+  const parts = (Object.keys(SWEETENERS) as Sweetener[])
+    .filter(name => amounts[name])
+    .map(name => `${amounts[name]}% ${SWEETENERS[name].label.toLowerCase()}`)
+  return parts.length ? parts.join(', ') : 'none'
+}
+
+/**
+ * Amounts that will burn in this oven or spoil the dough
+ */
+export function sweetenerWarnings(amounts: Partial<SweetenerAmounts>, oven: OvenProfile): string[] {
+  const warnings: string[] = []
+  const total = (amounts.sugar ?? 0) + (amounts.malt ?? 0) + (amounts.honey ?? 0)
+
+  if (oven.bakeTempF >= BROWNING_THRESHOLD_F && total > 0.5) {
+    warnings.push(`${describeSweeteners(amounts)} will scorch at ${oven.bakeTempF}°F; leave them out or keep the total under 0.5%`)
+  }
+  if ((amounts.malt ?? 0) > 1) {
+    warnings.push('Diastatic malt above 1% makes the crumb gummy')
+  }
+  if (total > 6) {
+    warnings.push(`${total}% sweetener slows the yeast down; expect a longer rise`)
+  }
+  return warnings
+}
@@ -0,0 +1,134 @@
+import type { FlourPortion, PizzaRecipe } from '@/types/pizza'
+
+/**
+ * Everything needed to turn a formula into grams. All ingredient values are
+ * baker's percentages, i.e. relative to the total flour weight.
+ */
+export type BakersFormula = Pick<
+  PizzaRecipe,
+  'style' | 'ballCount' | 'ballWeight' | 'hydration' | 'salt' | 'oil' | 'sugar' | 'malt' | 'honey' | 'flourMix'
+> & {
+  yeast: number
+}
+
+export interface FlourWeight {
+  type: string
+  percentage: number
+  weight: number
+}
+
+export interface WeightCalculation {
+  totalWeight: number
+  flourWeight: number
+  waterWeight: number
+  saltWeight: number
+  oilWeight: number
+  sugarWeight: number
+  maltWeight: number
+  honeyWeight: number
+  yeastWeight: number
+  flours: FlourWeight[]
+}
+
+// Honey is about 17% water, which counts towards the hydration
+export const HONEY_WATER = 0.17
+
+function roundTo(value: number, decimals: number): number {
+  const multiplier = Math.pow(10, decimals)
+  return Math.round(value * multiplier) / multiplier
+}
+
+/**
+ * Split a whole-gram flour weight across the mix so the parts always add up
+ * to the total (largest remainder rounding).
+ */
+function splitFlour(flourWeight: number, flourMix: FlourPortion[]): FlourWeight[] {
+  const totalPercentage = flourMix.reduce((sum, flour) => sum + flour.percentage, 0)
+  if (totalPercentage <= 0) return []
+
+  const raw = flourMix.map(flour => flourWeight * (flour.percentage / totalPercentage))
+  const floored = raw.map(Math.floor)
+  let remainder = flourWeight - floored.reduce((sum, weight) => sum + weight, 0)
+
+  raw
+    .map((weight, index) => ({ index, fraction: weight - floored[index] }))
+    .sort((a, b) => b.fraction - a.fraction)
+    .forEach(({ index }) => {
+      if (remainder > 0) {
+        floored[index]++
+        remainder--
+      }
+    })
+
+  return flourMix.map((flour, index) => ({
+    type: flour.type,
+    percentage: roundTo((flour.percentage / totalPercentage) * 100, 1),
+    weight: floored[index]
+  }))
+}
+
+/**
+ * Convert a baker's-percentage formula into ingredient weights.
+ *
+ * Flour and water are rounded to whole grams, salt, oil, sugar, malt and
+ * honey to 0.1 g and yeast to 0.01 g. Any rounding difference is absorbed by
+ * the flour so the ingredients add up to the requested dough weight. The
+ * water in the honey is taken off the water weight.
+ */
+export function calculateWeights(formula: BakersFormula): WeightCalculation {
+  const { ballCount, ballWeight } = formula
+
+  if (!Number.isFinite(ballCount) || ballCount <= 0 || !Number.isFinite(ballWeight) || ballWeight <= 0) {
+    throw new Error('Ball count and ball weight must be positive numbers')
+  }
+
+  const percentages = {
+    hydration: formula.hydration,
+    salt: formula.salt,
+    oil: formula.oil ?? 0,
+    sugar: formula.sugar ?? 0,
+    malt: formula.malt ?? 0,
+    honey: formula.honey ?? 0,
+    yeast: formula.yeast
+  }
+
+  for (const [name, value] of Object.entries(percentages)) {
+    if (!Number.isFinite(value) || value < 0) {
+      throw new Error(`Invalid ${name} percentage: ${value}`)
+    }
+  }
+
+  const totalWeight = ballCount * ballWeight
+  const water = percentages.hydration - percentages.honey * HONEY_WATER
+  if (water < 0) {
+    throw new Error('The honey holds more water than the hydration allows')
+  }
+
+  const totalPercentage = 100 + water + percentages.salt + percentages.oil +
+    percentages.sugar + percentages.malt + percentages.honey + percentages.yeast
+  const rawFlour = (totalWeight * 100) / totalPercentage
+
+  const waterWeight = Math.round(rawFlour * water / 100)
+  const saltWeight = roundTo(rawFlour * percentages.salt / 100, 1)
+  const oilWeight = roundTo(rawFlour * percentages.oil / 100, 1)
+  const sugarWeight = roundTo(rawFlour * percentages.sugar / 100, 1)
+  const maltWeight = roundTo(rawFlour * percentages.malt / 100, 1)
+  const honeyWeight = roundTo(rawFlour * percentages.honey / 100, 1)
+  const yeastWeight = roundTo(rawFlour * percentages.yeast / 100, 2)
+  const flourWeight = Math.round(
+    totalWeight - waterWeight - saltWeight - oilWeight - sugarWeight - maltWeight - honeyWeight - yeastWeight
+  )
+
+  return {
+    totalWeight,
+    flourWeight,
+    waterWeight,
+    saltWeight,
+    oilWeight,
+    sugarWeight,
+    maltWeight,
+    honeyWeight,
+    yeastWeight,
+    flours: formula.flourMix?.length ? splitFlour(flourWeight, formula.flourMix) : []
+  }
+}
@@ -0,0 +1,124 @@
+import type { FermentationSchedule, PrefermentType, YeastType } from '@/types/pizza'
+import { getFermentationPhases, type FermentationPhase } from './fermentation'
+
+/**
+ * Yeast model based on fermentation kinetics.
+ *
+ * Yeast activity roughly follows a Q10 curve up to ~32°C and collapses above
+ * it. Every phase is converted into "equivalent hours at 25°C", and the IDY
+ * percentage needed to fully ferment the dough in that time follows a power
+ * law fitted to common reference points (≈1% for 2 h, ≈0.2% for 8 h at 25°C).
+ */
+
+const REFERENCE_TEMP_C = 25
+const Q10 = 2.8
+const PEAK_TEMP_C = 32
+const LETHAL_TEMP_C = 45
+const MIN_ACTIVE_TEMP_C = 1
+
+const IDY_COEFFICIENT = 2.24
+const IDY_EXPONENT = 1.16
+
+const MIN_IDY_PERCENTAGE = 0.01
+const MAX_IDY_PERCENTAGE = 3
+
+// Multipliers to convert an instant dry yeast amount into the other forms
+export const YEAST_CONVERSION: Record<YeastType, number> = {
+  IDY: 1,
+  ADY: 1.25,
+  fresh: 3
+}
+
+export interface YeastInput {
+  schedule: FermentationSchedule
+  yeastType: YeastType
+  roomTemp: number // °C
+  fridgeTemp?: number // °C
+  // Hours the baker set for each stage, in place of the schedule's defaults
+  stageHours?: number[] | null
+  customPercentage?: number | null
+  preferment?: PrefermentType | null
+}
+
+export interface YeastCalculation {
+  type: YeastType
+  percentage: number
+  idyPercentage: number
+  equivalentHours: number
+  phases: FermentationPhase[]
+  isCustom: boolean
+}
+
+/**
+ * Yeast activity at a given temperature relative to 25°C
+ */
+export function yeastActivity(temperature: number): number {
+  if (temperature <= MIN_ACTIVE_TEMP_C || temperature >= LETHAL_TEMP_C) return 0
+
+  const k = Math.log(Q10) / 10
+  const activity = Math.exp(k * (Math.min(temperature, PEAK_TEMP_C) - REFERENCE_TEMP_C))
+
+  if (temperature <= PEAK_TEMP_C) return activity
+  return activity * (1 - (temperature - PEAK_TEMP_C) / (LETHAL_TEMP_C - PEAK_TEMP_C))
+}
+
+export function equivalentHours(phases: Pick<FermentationPhase, 'hours' | 'temperature'>[]): number {
+  return phases.reduce((sum, phase) => sum + phase.hours * yeastActivity(phase.temperature), 0)
+}
+
+/**
+ * IDY percentage needed for the given amount of equivalent fermentation time
+ */
+export function idyPercentageFor(hours: number): number {
+  if (hours <= 0) return MAX_IDY_PERCENTAGE
+  const percentage = IDY_COEFFICIENT * Math.pow(hours, -IDY_EXPONENT)
+  return Math.min(MAX_IDY_PERCENTAGE, Math.max(MIN_IDY_PERCENTAGE, percentage))
+}
+
+function roundPercentage(value: number): number {
+  return Math.round(value * 1000) / 1000
+}
+
+/**
+ * Work out the yeast percentage for a fermentation schedule. A custom
+ * percentage, when given, always wins over the model. Levain doughs are
+ * leavened by the starter alone and get no commercial yeast.
+ */
+export function calculateYeast(input: YeastInput): YeastCalculation {
+  const phases = getFermentationPhases(input.schedule, input.roomTemp, input.fridgeTemp, input.stageHours)
+  const hours = equivalentHours(phases)
+  const conversion = YEAST_CONVERSION[input.yeastType] ?? 1
+
+  if (input.preferment === 'levain') {
+    return {
+      type: input.yeastType,
+      percentage: 0,
+      idyPercentage: 0,
+      equivalentHours: Math.round(hours * 10) / 10,
+      phases,
+      isCustom: false
+    }
+  }
+
+  if (input.customPercentage && input.customPercentage > 0) {
+    return {
+      type: input.yeastType,
+      percentage: roundPercentage(input.customPercentage),
+      idyPercentage: roundPercentage(input.customPercentage / conversion),
+      equivalentHours: Math.round(hours * 10) / 10,
+      phases,
+      isCustom: true
+    }
+  }
+
+  const idyPercentage = idyPercentageFor(hours)
+
+  return {
+    type: input.yeastType,
+    percentage: roundPercentage(idyPercentage * conversion),
+    idyPercentage: roundPercentage(idyPercentage),
+    equivalentHours: Math.round(hours * 10) / 10,
+    phases,
+    isCustom: false
+  }
+}
@@ -0,0 +1,79 @@
+import { z } from 'zod'
+import { createMockProvider } from '@/lib/llm/mock'
+import { createOpenAICompatibleProvider } from '@/lib/llm/openai-compatible'
+import type { LLMProvider } from '@/lib/llm/provider'
+
+export type { CompletionRequest, JsonSchemaFormat, LLMProvider } from '@/lib/llm/provider'
+
+const DEFAULT_MODELS = {
+  openrouter: 'google/gemma-3-12b-it:free',
+  // Ollama's default tag; llama.cpp ignores the model name
+  'openai-compatible': 'llama3.1'
+} as const
+
+// `KEY=` in an env file means unset, as in .env.example
+const unset = (value: unknown) => (value === '' ? undefined : value)
+
+const llmConfigSchema = z.object({
+  LLM_PROVIDER: z.preprocess(unset, z.enum(['openrouter', 'openai-compatible', 'mock']).default('openrouter')),
+  LLM_MODEL: z.preprocess(unset, z.string().min(1).optional()),
+  // Ollama serves the OpenAI API here; llama.cpp uses http://localhost:8080/v1
+  LLM_BASE_URL: z.preprocess(unset, z.string().url().default('http://localhost:11434/v1')),
+  // Local servers accept any key, but the client needs a non-empty one
+  LLM_API_KEY: z.preprocess(unset, z.string().min(1).default('local')),
+  OPENROUTER_API_KEY: z.string().default('')
+})
+
+export type LLMConfig = z.infer<typeof llmConfigSchema>
+
+/**
+ * Build the provider described by the environment:
+ * - `LLM_PROVIDER=openrouter` (default) uses `OPENROUTER_API_KEY`
+ * - `LLM_PROVIDER=openai-compatible` talks to `LLM_BASE_URL` with `LLM_API_KEY`
+ * - `LLM_PROVIDER=mock` answers from fixtures, no network needed
+ * `LLM_MODEL` overrides the provider's default model
+ */
+export function createProvider(env: Record<string, string | undefined> = process.env): LLMProvider {
+  const parsed = llmConfigSchema.safeParse(env)
+  if (!parsed.success) {
+    const fields = Object.keys(parsed.error.flatten().fieldErrors).join(', ')
+    throw new Error(`Invalid LLM configuration: ${fields}`)
+  }
+  const config = parsed.data
+
+  switch (config.LLM_PROVIDER) {
+    case 'mock':
+      return createMockProvider()
+    case 'openai-compatible':
+      return createOpenAICompatibleProvider({
+        label: 'openai-compatible',
+        baseURL: config.LLM_BASE_URL,
+        apiKey: config.LLM_API_KEY,
+        model: config.LLM_MODEL ?? DEFAULT_MODELS['openai-compatible'],
+        // Local models on modest hardware are slow to start
+        timeout: 60000
+      })
+    case 'openrouter':
+      return createOpenAICompatibleProvider({
+        label: 'openrouter',
+        baseURL: 'https://openrouter.ai/api/v1',
+        apiKey: config.OPENROUTER_API_KEY,
+        model: config.LLM_MODEL ?? DEFAULT_MODELS.openrouter,
+        headers: {
+          'HTTP-Referer': env.NEXTAUTH_URL || 'https://doughmasterai.com',
+          'X-Title': 'Pizza Dough Calculator'
+        }
+      })
+  }
+}
+
+let provider: LLMProvider | null = null
+
+// One provider per server instance, built on first use
+export function getLLMProvider(): LLMProvider {
+  if (!provider) {
+    provider = createProvider()
+    console.log(`Using LLM provider ${provider.name}`)
+  }
+  return provider
+}
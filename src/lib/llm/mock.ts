@@ -0,0 +1,43 @@
+import recipeAnalysisFixture from '@/lib/llm/fixtures/recipe-analysis.json'
+import type { CompletionRequest, LLMProvider } from '@/lib/llm/provider'
+
+// Small enough that a section boundary falls mid-chunk, like a real stream
+const CHUNK_SIZE = 48
+
+// Only the keys the request's schema asks for, so repair requests get a subset
+function answerFor(fixture: Record<string, unknown>, request: CompletionRequest): string {
+  const properties = request.responseFormat?.schema.properties
+  if (!properties || typeof properties !== 'object') {
+    return JSON.stringify(fixture)
+  }
+
+  const answer: Record<string, unknown> = {}
+  Object.keys(properties).forEach(key => {
+    if (key in fixture) answer[key] = fixture[key]
+  })
+  return JSON.stringify(answer)
+}
+
+/**
+ * Offline provider that answers every request from a fixture, for
+ * development and tests without a model or network
+ */
+export function createMockProvider(fixture: Record<string, unknown> = recipeAnalysisFixture): LLMProvider {
+  return {
+    name: 'mock:fixture',
+
+    async complete(request) {
+      return answerFor(fixture, request)
+    },
+
+    async *stream(request) {
+      const answer = answerFor(fixture, request)
+      for (let i = 0; i < answer.length; i += CHUNK_SIZE) {
+        if (request.signal?.aborted) {
+          throw new Error('Request aborted')
+        }
+        yield answer.slice(i, i + CHUNK_SIZE)
+      }
+    }
+  }
+}
@@ -0,0 +1,68 @@
+import { OpenAI } from 'openai'
+import type { ChatCompletionCreateParamsBase } from 'openai/resources/chat/completions'
+import type { CompletionRequest, LLMProvider } from '@/lib/llm/provider'
+
+export interface OpenAICompatibleOptions {
+  // Label for logs, e.g. "openrouter" or "ollama"
+  label: string
+  baseURL: string
+  apiKey: string
+  model: string
+  timeout?: number
+  headers?: Record<string, string>
+}
+
+function toParams(model: string, request: CompletionRequest): ChatCompletionCreateParamsBase {
+  return {
+    model,
+    messages: [
+      { role: 'system', content: request.system },
+      { role: 'user', content: request.prompt }
+    ],
+    temperature: request.temperature,
+    max_tokens: request.maxTokens,
+    ...(request.responseFormat && {
+      response_format: { type: 'json_schema', json_schema: request.responseFormat }
+    })
+  }
+}
+
+/**
+ * Any server that speaks the OpenAI chat completions API: OpenRouter, OpenAI
+ * itself, or a local llama.cpp / Ollama server
+ */
+export function createOpenAICompatibleProvider(options: OpenAICompatibleOptions): LLMProvider {
+  const client = new OpenAI({
+    baseURL: options.baseURL,
+    apiKey: options.apiKey,
+    timeout: options.timeout ?? 20000,
+    defaultHeaders: options.headers
+  })
+
+  return {
+    name: `${options.label}:${options.model}`,
+
+    async complete(request) {
+      const completion = await client.chat.completions.create(
+        { ...toParams(options.model, request), stream: false },
+        { signal: request.signal }
+      )
+      const content = completion.choices[0]?.message?.content
+      if (!content) {
+        throw new Error('No content in response')
+      }
+      return content
+    },
+
+    async *stream(request) {
+      const completion = await client.chat.completions.create(
+        { ...toParams(options.model, request), stream: true },
+        { signal: request.signal }
+      )
+      for await (const chunk of completion) {
+        const content = chunk.choices[0]?.delta?.content
+        if (content) yield content
+      }
+    }
+  }
+}
@@ -0,0 +1,27 @@
+// JSON schema the answer has to follow
+export interface JsonSchemaFormat {
+  name: string
+  schema: Record<string, unknown>
+  strict?: boolean
+}
+
+export interface CompletionRequest {
+  system: string
+  prompt: string
+  // Asks for structured output when set, sent as the API's `response_format`.
+  // Servers may ignore it, so the caller validates the answer
+  responseFormat?: JsonSchemaFormat
+  temperature?: number
+  maxTokens?: number
+  signal?: AbortSignal
+}
+
+/**
+ * A chat model the app can ask for text, either all at once or streamed
+ */
+export interface LLMProvider {
+  // For logs, e.g. "openrouter:google/gemma-3-12b-it:free"
+  readonly name: string
+  complete(request: CompletionRequest): Promise<string>
+  stream(request: CompletionRequest): AsyncIterable<string>
+}
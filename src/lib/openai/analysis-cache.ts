@@ -0,0 +1,76 @@
+import type { ApiResponse } from '@/lib/openai/schema'
+
+// Bump when the prompt or schema changes so old analyses aren't served
+const CACHE_VERSION = 4
+
+const HOUR = 60 * 60
+
+// A full analysis is served as is for a day, then stale for up to a week
+// while a new one is generated. Fallback sections are only a stopgap, so
+// those results expire quickly and are never served stale
+const TTL = {
+  analysis: { fresh: 24 * HOUR, stale: 7 * 24 * HOUR },
+  fallback: { fresh: HOUR / 6, stale: 0 }
+} as const
+
+export const CACHE_STATUS_HEADER = 'X-Recipe-Cache'
+
+/**
+ * How a response was produced: `hit` and `stale` come from the cache (stale
+ * ones are being regenerated), `fresh` was generated for this request and
+ * `fallback` needed fallback sections. The header is sent before a fresh
+ * analysis is validated, so the stream's `done` event has the final status
+ */
+export type CacheStatus = 'hit' | 'stale' | 'fresh' | 'fallback'
+
+export interface CachedAnalysis {
+  response: ApiResponse
+  createdAt: number
+  fallback: boolean
+}
+
+// Sorted keys and no undefined values, so equal inputs serialise the same
+function canonicalize(value: unknown): unknown {
+  if (Array.isArray(value)) {
+    return value.map(item => (item === undefined ? null : canonicalize(item)))
+  }
+  if (value && typeof value === 'object') {
+    return Object.keys(value)
+      .sort()
+      .filter(key => (value as Record<string, unknown>)[key] !== undefined)
+      .reduce<Record<string, unknown>>((result, key) => {
+        result[key] = canonicalize((value as Record<string, unknown>)[key])
+        return result
+      }, {})
+  }
+  return value
+}
+
+/**
+ * SHA-256 of the canonical JSON of every input the analysis depends on
+ */
+export async function analysisCacheKey(inputs: unknown): Promise<string> {
+  const json = JSON.stringify(canonicalize(inputs))
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(json))
+  const hex = Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('')
+  return `recipe-analysis:v${CACHE_VERSION}:${hex}`
+}
+
+// Sections the model couldn't provide were filled from the fallback
+export function usedFallback(response: ApiResponse): boolean {
+  return (response.validation?.replaced.length ?? 0) > 0
+}
+
+/**
+ * The entry to store for a response and how long the store should keep it
+ */
+export function toCacheEntry(response: ApiResponse, now = Date.now()): { entry: CachedAnalysis; ttl: number } {
+  const fallback = usedFallback(response)
+  const { fresh, stale } = fallback ? TTL.fallback : TTL.analysis
+  return { entry: { response, createdAt: now, fallback }, ttl: fresh + stale }
+}
+
+export function cacheStatus(entry: CachedAnalysis, now = Date.now()): Exclude<CacheStatus, 'fresh'> {
+  if (entry.fallback) return 'fallback'
+  return now - entry.createdAt > TTL.analysis.fresh * 1000 ? 'stale' : 'hit'
+}
@@ -1,7 +1,13 @@
-export interface FlourType {
-  name: string
-  description: string
-  protein: number
+// Protein in %, W from the alveograph where the style is particular about it
+export interface FlourProfile {
+  protein: {
+    min: number
+    max: number
+  }
+  w?: {
+    min: number
+    max: number
+  }
 }
 
 export interface PizzaStyle {
@@ -20,6 +26,7 @@ export interface PizzaStyle {
   }
   recommendedOil: number | null
   idealFlour: string
+  idealFlourProfile: FlourProfile | null
   fermentationTime: {
     room: {
       min: number
@@ -33,25 +40,6 @@ export interface PizzaStyle {
     }
   }
   signatureCharacteristics: string[]
-  flourTypes: FlourType[]
-}
-
-export const FLOUR_TYPES: Record<string, FlourType> = {
-  '00': {
-    name: 'Tipo 00 Flour',
-    description: 'Fine Italian milled flour, perfect for Neapolitan style',
-    protein: 12.5
-  },
-  'bread': {
-    name: 'Bread Flour',
-    description: 'High protein flour, great for NY style and longer fermentation',
-    protein: 12.5
-  },
-  'all-purpose': {
-    name: 'All-Purpose Flour',
-    description: 'Versatile flour suitable for most styles',
-    protein: 10.5
-  }
 }
 
 export const PIZZA_STYLES: Record<string, PizzaStyle> = {
@@ -71,6 +59,7 @@ export const PIZZA_STYLES: Record<string, PizzaStyle> = {
     },
     recommendedOil: null,
     idealFlour: 'Tipo 00 flour (W260-270, 11-12.5% protein)',
+    idealFlourProfile: { protein: { min: 11, max: 12.5 }, w: { min: 260, max: 270 } },
     fermentationTime: {
       room: {
         min: 8,
@@ -88,18 +77,6 @@ export const PIZZA_STYLES: Record<string, PizzaStyle> = {
       'Pronounced crust bubbles',
       'Tender yet chewy cornicione',
       'Minimal thickness in center'
-    ],
-    flourTypes: [
-      {
-        name: 'Caputo Tipo 00 Chef\'s Flour',
-        description: 'Professional grade Italian 00 flour, ideal for Neapolitan pizza (W260-270)',
-        protein: 12.5
-      },
-      {
-        name: 'Caputo Tipo 00 Pizzeria Flour',
-        description: 'Higher protein Italian 00 flour, excellent for longer fermentation (W300-320)',
-        protein: 13.0
-      }
     ]
   },
   'new-york': {
@@ -118,6 +95,7 @@ export const PIZZA_STYLES: Record<string, PizzaStyle> = {
     },
     recommendedOil: 2,
     idealFlour: 'High-gluten bread flour (14% protein)',
+    idealFlourProfile: { protein: { min: 13.5, max: 14.5 } },
     fermentationTime: {
       room: {
         min: 4,
@@ -135,18 +113,6 @@ export const PIZZA_STYLES: Record<string, PizzaStyle> = {
       'Crispy exterior',
       'Medium-thick edge',
       'Even browning'
-    ],
-    flourTypes: [
-      {
-        name: 'King Arthur Sir Lancelot Flour',
-        description: 'High gluten flour perfect for NY style (14.2% protein)',
-        protein: 14.2
-      },
-      {
-        name: 'King Arthur Bread Flour',
-        description: 'Strong bread flour suitable for NY style (12.7% protein)',
-        protein: 12.7
-      }
     ]
   },
   detroit: {
@@ -165,6 +131,7 @@ export const PIZZA_STYLES: Record<string, PizzaStyle> = {
     },
     recommendedOil: 6,
     idealFlour: 'High-protein bread flour (13-14% protein)',
+    idealFlourProfile: { protein: { min: 13, max: 14 } },
     fermentationTime: {
       room: {
         min: 4,
@@ -182,18 +149,6 @@ export const PIZZA_STYLES: Record<string, PizzaStyle> = {
       'Light and airy interior',
       'Caramelized cheese edges',
       'Square shape'
-    ],
-    flourTypes: [
-      {
-        name: 'King Arthur Bread Flour',
-        description: 'Strong bread flour ideal for Detroit style (12.7% protein)',
-        protein: 12.7
-      },
-      {
-        name: 'General Mills All Trumps',
-        description: 'High gluten flour for extra chewiness (14% protein)',
-        protein: 14
-      }
     ]
   },
   sicilian: {
@@ -212,6 +167,7 @@ export const PIZZA_STYLES: Record<string, PizzaStyle> = {
     },
     recommendedOil: 8,
     idealFlour: 'Strong bread flour (12.5-14% protein)',
+    idealFlourProfile: { protein: { min: 12.5, max: 14 } },
     fermentationTime: {
       room: {
         min: 4,
@@ -229,18 +185,6 @@ export const PIZZA_STYLES: Record<string, PizzaStyle> = {
       'Crispy, olive oil-rich bottom',
       'Focaccia-like texture',
       'Rich olive oil flavor'
-    ],
-    flourTypes: [
-      {
-        name: 'King Arthur Bread Flour',
-        description: 'Strong bread flour suitable for Sicilian style (12.7% protein)',
-        protein: 12.7
-      },
-      {
-        name: 'Caputo Tipo 00 Chef\'s Flour',
-        description: 'Fine Italian 00 flour for softer texture (12.5% protein)',
-        protein: 12.5
-      }
     ]
   },
   'roman-al-taglio': {
@@ -259,6 +203,7 @@ export const PIZZA_STYLES: Record<string, PizzaStyle> = {
     },
     recommendedOil: 4,
     idealFlour: 'Medium-strength flour (W280-300, 11-12% protein)',
+    idealFlourProfile: { protein: { min: 11, max: 12 }, w: { min: 280, max: 300 } },
     fermentationTime: {
       room: {
         min: 24,
@@ -276,18 +221,6 @@ export const PIZZA_STYLES: Record<string, PizzaStyle> = {
       'Crispy bottom crust',
       'Open crumb structure',
       'Rectangle shape'
-    ],
-    flourTypes: [
-      {
-        name: 'Caputo Tipo 00 Pizza Flour',
-        description: 'Medium-strength Italian flour ideal for Roman style',
-        protein: 12.5
-      },
-      {
-        name: 'General Purpose Flour',
-        description: 'All-purpose flour blend for Roman style',
-        protein: 11.5
-      }
     ]
   },
   custom: {
@@ -306,6 +239,7 @@ export const PIZZA_STYLES: Record<string, PizzaStyle> = {
     },
     recommendedOil: null,
     idealFlour: 'Based on desired characteristics',
+    idealFlourProfile: null,
     fermentationTime: {
       room: {
         min: 2,
@@ -322,28 +256,6 @@ export const PIZZA_STYLES: Record<string, PizzaStyle> = {
       'Customizable texture',
       'Flexible fermentation',
       'Adaptable to preferences'
-    ],
-    flourTypes: [
-      {
-        name: 'Bread Flour',
-        description: 'Strong bread flour (12-13% protein)',
-        protein: 12.5
-      },
-      {
-        name: 'All Purpose Flour',
-        description: 'Versatile flour for various styles (10-12% protein)',
-        protein: 11
-      },
-      {
-        name: '00 Flour',
-        description: 'Fine Italian-style flour (11-12.5% protein)',
-        protein: 12
-      },
-      {
-        name: 'High Gluten Flour',
-        description: 'Very strong flour for chewy texture (14%+ protein)',
-        protein: 14
-      }
     ]
   }
 } 
\ No newline at end of file
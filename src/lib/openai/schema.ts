@@ -0,0 +1,233 @@
+import { z } from 'zod'
+import { zodResponseFormat } from 'openai/helpers/zod'
+import type { WeightCalculation } from '@/lib/dough/weights'
+import type { PrefermentSplit } from '@/lib/dough/preferment'
+import type { JsonSchemaFormat } from '@/lib/llm/provider'
+
+// Every field is required: structured output needs a closed schema, and the
+// prompt already asks for all of them
+
+const flourChoiceSchema = z.object({
+  name: z.string().min(1),
+  protein: z.string(),
+  description: z.string()
+})
+
+export const flourRecommendationSchema = z.object({
+  primary: flourChoiceSchema,
+  alternatives: z.array(flourChoiceSchema)
+})
+
+export const processStepSchema = z.object({
+  step: z.number().int().positive(),
+  description: z.string().min(1),
+  duration: z.string().min(1),
+  temperature: z.string(),
+  isRefrigeration: z.boolean(),
+  tips: z.array(z.string())
+})
+
+export const processTimelineSchema = z.object({
+  steps: z.array(processStepSchema).min(1)
+})
+
+export const temperatureAnalysisSchema = z.object({
+  roomTemp: z.number(),
+  rationale: z.string().min(1),
+  recommendations: z.array(z.string())
+})
+
+export const flourAnalysisSchema = z.object({
+  rationale: z.string().min(1),
+  recommendations: z.array(z.string()),
+  flours: z.array(z.object({
+    type: z.string().min(1),
+    proteinContent: z.number(),
+    purpose: z.string()
+  })).min(1)
+})
+
+// Hydration, salt and oil are all explained the same way
+export const ingredientAnalysisSchema = z.object({
+  percentage: z.number().nonnegative(),
+  rationale: z.string().min(1),
+  impact: z.array(z.string())
+})
+
+export const yeastAnalysisSchema = z.object({
+  type: z.string(),
+  percentage: z.number().nonnegative(),
+  rationale: z.string().min(1),
+  impact: z.array(z.string()),
+  temperatureNotes: z.array(z.string())
+})
+
+export const fermentationAnalysisSchema = z.object({
+  type: z.string(),
+  totalTime: z.number().nonnegative(),
+  rationale: z.string().min(1),
+  impact: z.array(z.string())
+})
+
+export const techniqueGuidanceSchema = z.object({
+  mixing: z.string().min(1),
+  folding: z.string().min(1),
+  shaping: z.string().min(1),
+  baking: z.string().min(1)
+})
+
+export const detailedAnalysisSchema = z.object({
+  flourAnalysis: flourAnalysisSchema,
+  hydrationAnalysis: ingredientAnalysisSchema,
+  saltAnalysis: ingredientAnalysisSchema,
+  oilAnalysis: ingredientAnalysisSchema,
+  yeastAnalysis: yeastAnalysisSchema,
+  fermentationAnalysis: fermentationAnalysisSchema,
+  techniqueGuidance: techniqueGuidanceSchema
+})
+
+export const recipeAnalysisSchema = z.object({
+  flourRecommendation: flourRecommendationSchema,
+  processTimeline: processTimelineSchema,
+  temperatureAnalysis: temperatureAnalysisSchema,
+  detailedAnalysis: detailedAnalysisSchema
+})
+
+export type ProcessStep = z.infer<typeof processStepSchema>
+export type DetailedAnalysis = z.infer<typeof detailedAnalysisSchema>
+export type RecipeAnalysis = z.infer<typeof recipeAnalysisSchema>
+
+export interface AnalysisIssue {
+  // Dotted path to the offending field, e.g. "saltAnalysis.impact"
+  path: string
+  message: string
+}
+
+/**
+ * The complete result of /api/recipe-adjust, as cached and saved with a recipe:
+ * the model's analysis plus the numbers the server calculates itself
+ */
+export interface ApiResponse extends RecipeAnalysis {
+  ingredients: WeightCalculation
+  preferment?: PrefermentSplit
+  // Present when parts of the model's answer had to be regenerated or replaced
+  validation?: {
+    issues: AnalysisIssue[]
+    regenerated: AnalysisSection[]
+    replaced: AnalysisSection[]
+  }
+}
+
+// The model answers with each section as a top-level key, in the order the
+// calculator shows them, so every section can be used as soon as it closes.
+// `path` is where the section lives in the response
+const SECTIONS = {
+  flourRecommendation: { path: ['flourRecommendation'], schema: flourRecommendationSchema },
+  flourAnalysis: { path: ['detailedAnalysis', 'flourAnalysis'], schema: flourAnalysisSchema },
+  hydrationAnalysis: { path: ['detailedAnalysis', 'hydrationAnalysis'], schema: ingredientAnalysisSchema },
+  saltAnalysis: { path: ['detailedAnalysis', 'saltAnalysis'], schema: ingredientAnalysisSchema },
+  oilAnalysis: { path: ['detailedAnalysis', 'oilAnalysis'], schema: ingredientAnalysisSchema },
+  yeastAnalysis: { path: ['detailedAnalysis', 'yeastAnalysis'], schema: yeastAnalysisSchema },
+  temperatureAnalysis: { path: ['temperatureAnalysis'], schema: temperatureAnalysisSchema },
+  fermentationAnalysis: { path: ['detailedAnalysis', 'fermentationAnalysis'], schema: fermentationAnalysisSchema },
+  techniqueGuidance: { path: ['detailedAnalysis', 'techniqueGuidance'], schema: techniqueGuidanceSchema },
+  processTimeline: { path: ['processTimeline'], schema: processTimelineSchema }
+} as const
+
+export type AnalysisSection = keyof typeof SECTIONS
+
+export type AnalysisSections = { [K in AnalysisSection]: z.infer<(typeof SECTIONS)[K]['schema']> }
+
+export const ANALYSIS_SECTIONS = Object.keys(SECTIONS) as AnalysisSection[]
+
+// An analysis that may still be missing sections, e.g. while it streams in
+export type PartialAnalysis = Partial<Omit<RecipeAnalysis, 'detailedAnalysis'>> & {
+  detailedAnalysis: Partial<DetailedAnalysis>
+}
+
+export function isAnalysisSection(key: string): key is AnalysisSection {
+  return key in SECTIONS
+}
+
+export type SectionValidation<K extends AnalysisSection> =
+  | { success: true; data: AnalysisSections[K] }
+  | { success: false; issues: AnalysisIssue[] }
+
+/**
+ * Check one section of a model answer, with issue paths relative to the answer
+ */
+export function validateSection<K extends AnalysisSection>(section: K, value: unknown): SectionValidation<K> {
+  const parsed = SECTIONS[section].schema.safeParse(value)
+  if (parsed.success) {
+    return { success: true, data: parsed.data as AnalysisSections[K] }
+  }
+  return {
+    success: false,
+    issues: parsed.error.issues.map(issue => ({ path: [section, ...issue.path].join('.'), message: issue.message }))
+  }
+}
+
+export interface AnalysisValidation {
+  // Sections that passed, already parsed
+  valid: Partial<AnalysisSections>
+  invalid: AnalysisSection[]
+  issues: AnalysisIssue[]
+}
+
+/**
+ * Check a model answer section by section, collecting field-level issues
+ * instead of rejecting the whole thing
+ */
+export function validateAnalysis(raw: unknown, sections: AnalysisSection[] = ANALYSIS_SECTIONS): AnalysisValidation {
+  const result: AnalysisValidation = { valid: {}, invalid: [], issues: [] }
+  const answer = (raw && typeof raw === 'object' ? raw : {}) as Record<string, unknown>
+
+  sections.forEach(section => {
+    const validation = validateSection(section, answer[section])
+    if (validation.success) {
+      ;(result.valid as Record<string, unknown>)[section] = validation.data
+    } else {
+      result.invalid.push(section)
+      result.issues.push(...validation.issues)
+    }
+  })
+
+  return result
+}
+
+/**
+ * Read one section out of an analysis
+ */
+export function pickSection<K extends AnalysisSection>(analysis: PartialAnalysis, section: K): AnalysisSections[K] | undefined {
+  const path = SECTIONS[section].path
+  const parent = (path.length === 2 ? analysis.detailedAnalysis : analysis) as Record<string, unknown>
+  return parent[path[path.length - 1]] as AnalysisSections[K] | undefined
+}
+
+/**
+ * Copy sections into place over an analysis, without changing the original
+ */
+export function mergeSections<T extends PartialAnalysis>(base: T, sections: Partial<AnalysisSections>): T {
+  const merged: T = { ...base, detailedAnalysis: { ...base.detailedAnalysis } }
+
+  Object.entries(sections).forEach(([section, value]) => {
+    const path = SECTIONS[section as AnalysisSection].path
+    const parent = path.length === 2 ? merged.detailedAnalysis : merged
+    ;(parent as Record<string, unknown>)[path[path.length - 1]] = value
+  })
+
+  return merged
+}
+
+/**
+ * JSON schema for the model, limited to the sections being asked for so a
+ * repair request only regenerates what was wrong
+ */
+export function analysisResponseFormat(sections: AnalysisSection[] = ANALYSIS_SECTIONS): JsonSchemaFormat {
+  const shape: Record<string, z.ZodTypeAny> = {}
+  sections.forEach(section => {
+    shape[section] = SECTIONS[section].schema
+  })
+  const { json_schema } = zodResponseFormat(z.object(shape), 'recipe_analysis')
+  return { name: json_schema.name, schema: json_schema.schema ?? {}, strict: true }
+}
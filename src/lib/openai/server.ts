@@ -1,9 +0,0 @@
-import OpenAI from 'openai'
-
-if (!process.env.OPENAI_API_KEY) {
-  throw new Error('Missing env.OPENAI_API_KEY')
-}
-
-export const openai = new OpenAI({
-  apiKey: process.env.OPENAI_API_KEY
-}) 
\ No newline at end of file
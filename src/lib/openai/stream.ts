@@ -0,0 +1,162 @@
+import type { WeightCalculation } from '@/lib/dough/weights'
+import type { PrefermentSplit } from '@/lib/dough/preferment'
+import {
+  mergeSections,
+  type AnalysisSection,
+  type AnalysisSections,
+  type ApiResponse,
+  type PartialAnalysis
+} from '@/lib/openai/schema'
+import type { CacheStatus } from '@/lib/openai/analysis-cache'
+
+/**
+ * One line of the /api/recipe-adjust response. The calculated ingredients come
+ * first, then each analysis section as it is ready, then `done`. `done`
+ * carries the final cache status, which can differ from the header sent
+ * before the sections: a fresh analysis that fell back ends as `fallback`
+ */
+export type AnalysisEvent =
+  | { type: 'ingredients'; ingredients: WeightCalculation; preferment?: PrefermentSplit }
+  | { [K in AnalysisSection]: { type: 'section'; section: K; value: AnalysisSections[K] } }[AnalysisSection]
+  | { type: 'done'; cache: CacheStatus; validation?: ApiResponse['validation'] }
+  | { type: 'error'; error: string }
+
+// What the calculator holds while the analysis streams in
+export type AnalysisState = PartialAnalysis & Pick<ApiResponse, 'ingredients' | 'preferment' | 'validation'>
+
+export function encodeEvent(event: AnalysisEvent): string {
+  return `${JSON.stringify(event)}\n`
+}
+
+/**
+ * Fold one event into the analysis so far. Sections before the ingredients
+ * can't happen, so they are ignored
+ */
+export function applyAnalysisEvent(state: AnalysisState | null, event: AnalysisEvent): AnalysisState | null {
+  switch (event.type) {
+    case 'ingredients':
+      return { detailedAnalysis: {}, ingredients: event.ingredients, preferment: event.preferment }
+    case 'section':
+      return state && mergeSections(state, { [event.section]: event.value })
+    case 'done':
+      return state && { ...state, validation: event.validation }
+    default:
+      return state
+  }
+}
+
+/**
+ * Read a newline-delimited event stream, calling back once per event
+ */
+export async function readAnalysisStream(body: ReadableStream<Uint8Array>, onEvent: (event: AnalysisEvent) => void) {
+  const reader = body.getReader()
+  const decoder = new TextDecoder()
+  let buffer = ''
+
+  for (;;) {
+    const { done, value } = await reader.read()
+    if (done) break
+    buffer += decoder.decode(value, { stream: true })
+    const lines = buffer.split('\n')
+    buffer = lines.pop() ?? ''
+    lines.filter(line => line.trim()).forEach(line => onEvent(JSON.parse(line)))
+  }
+
+  if (buffer.trim()) onEvent(JSON.parse(buffer))
+}
+
+interface Frame {
+  open: '{' | '['
+  start: number
+  // Key this container sits under in its parent object
+  key: string | null
+  // Last key read in this object, waiting for its value
+  pendingKey: string | null
+  expectingKey: boolean
+}
+
+export interface StreamedSection {
+  key: string
+  value: unknown
+}
+
+/**
+ * Picks complete top-level values out of a JSON object as it arrives in
+ * chunks, so each section can be used before the model finishes the rest
+ */
+export class SectionStreamParser {
+  private text = ''
+  private position = 0
+  private stack: Frame[] = []
+  private inString = false
+  private escaped = false
+  private stringStart = 0
+
+  push(chunk: string): StreamedSection[] {
+    this.text += chunk
+    const sections: StreamedSection[] = []
+
+    for (; this.position < this.text.length; this.position++) {
+      const char = this.text[this.position]
+      const frame = this.stack[this.stack.length - 1]
+
+      if (this.inString) {
+        if (this.escaped) {
+          this.escaped = false
+        } else if (char === '\\') {
+          this.escaped = true
+        } else if (char === '"') {
+          this.inString = false
+          if (frame.open === '{' && frame.expectingKey) {
+            frame.pendingKey = JSON.parse(this.text.slice(this.stringStart, this.position + 1))
+          }
+        }
+        continue
+      }
+
+      // Anything before the opening brace, such as a code fence, is skipped
+      if (!frame) {
+        if (char === '{') {
+          this.stack.push({ open: '{', start: this.position, key: null, pendingKey: null, expectingKey: true })
+        }
+        continue
+      }
+
+      switch (char) {
+        case '"':
+          this.inString = true
+          this.stringStart = this.position
+          break
+        case ':':
+          frame.expectingKey = false
+          break
+        case ',':
+          frame.expectingKey = frame.open === '{'
+          break
+        case '{':
+        case '[':
+          this.stack.push({
+            open: char,
+            start: this.position,
+            key: frame.open === '{' ? frame.pendingKey : null,
+            pendingKey: null,
+            expectingKey: char === '{'
+          })
+          break
+        case '}':
+        case ']':
+          this.stack.pop()
+          if (this.stack.length === 1 && frame.key !== null) {
+            try {
+              sections.push({ key: frame.key, value: JSON.parse(this.text.slice(frame.start, this.position + 1)) })
+            } catch {
+              // Malformed section: left out, so it is treated as missing
+            }
+          }
+          break
+      }
+    }
+
+    return sections
+  }
+}
@@ -0,0 +1,104 @@
+import { NextResponse } from 'next/server'
+import type { UserRole } from '@prisma/client'
+import { getStore } from '@/lib/storage'
+
+export interface RateLimitOptions {
+  // Window length in seconds
+  interval: number
+  limit: number
+}
+
+export interface RateLimitResult {
+  allowed: boolean
+  limit: number
+  remaining: number
+  resetTime: number
+}
+
+const MINUTE = 60
+const DAY = 24 * 60 * 60
+
+// Requests per client across all API routes; signed-out clients get BASIC
+export const ROLE_LIMITS: Record<UserRole, { perMinute: number; perDay: number }> = {
+  BASIC: { perMinute: 20, perDay: 200 },
+  PREMIUM: { perMinute: 60, perDay: 2000 },
+  ADMIN: { perMinute: 300, perDay: 20000 }
+}
+
+/**
+ * Count one request against a fixed window for the identifier. The counter
+ * lives in the shared store, so every instance sees the same quota
+ */
+export async function consumeRateLimit(identifier: string, { interval, limit }: RateLimitOptions): Promise<RateLimitResult> {
+  const store = getStore()
+  const key = `rate-limit:${identifier}`
+
+  const count = await store.incr(key)
+  // The first request opens the window
+  if (count === 1) {
+    await store.expire(key, interval)
+  }
+
+  const secondsLeft = count === 1 ? interval : await store.ttl(key)
+  // A counter that lost its expiry would otherwise block the client for good
+  if (secondsLeft === -1) {
+    await store.expire(key, interval)
+  }
+
+  return {
+    allowed: count <= limit,
+    limit,
+    remaining: Math.max(0, limit - count),
+    resetTime: Date.now() + (secondsLeft > 0 ? secondsLeft : interval) * 1000
+  }
+}
+
+/**
+ * Standard rate limit headers for a result, plus `Retry-After` once the
+ * client is blocked
+ */
+export function rateLimitHeaders(result: RateLimitResult): Record<string, string> {
+  const headers: Record<string, string> = {
+    'X-RateLimit-Limit': String(result.limit),
+    'X-RateLimit-Remaining': String(result.remaining),
+    'X-RateLimit-Reset': String(Math.ceil(result.resetTime / 1000))
+  }
+  if (!result.allowed) {
+    headers['Retry-After'] = String(Math.max(1, Math.ceil((result.resetTime - Date.now()) / 1000)))
+  }
+  return headers
+}
+
+export function tooManyRequests(result: RateLimitResult): NextResponse {
+  const headers = rateLimitHeaders(result)
+  return NextResponse.json(
+    { error: `Too many requests. Please try again in ${headers['Retry-After']} seconds.` },
+    { status: 429, headers }
+  )
+}
+
+/**
+ * Guard for a single window: null when the request may go ahead, otherwise
+ * the 429 response to return
+ */
+export async function rateLimit(identifier: string, options: RateLimitOptions): Promise<NextResponse | null> {
+  const result = await consumeRateLimit(identifier, options)
+  return result.allowed ? null : tooManyRequests(result)
+}
+
+/**
+ * Check the per-minute and per-day limits for the client's role. Reports the
+ * window that ran out, or else the one closest to running out
+ */
+export async function checkRoleRateLimit(identifier: string, role: UserRole = 'BASIC'): Promise<RateLimitResult> {
+  const { perMinute, perDay } = ROLE_LIMITS[role]
+
+  // Minute first so a burst doesn't report the daily reset
+  const minute = await consumeRateLimit(`${identifier}:minute`, { interval: MINUTE, limit: perMinute })
+  if (!minute.allowed) return minute
+
+  const day = await consumeRateLimit(`${identifier}:day`, { interval: DAY, limit: perDay })
+  if (!day.allowed) return day
+
+  return day.remaining < minute.remaining ? day : minute
+}
@@ -0,0 +1,10 @@
+import { db } from '@/lib/db'
+
+/**
+ * A recipe owned by the given user. Other users' recipes come back as null so
+ * routes report them as missing rather than forbidden.
+ */
+export async function findOwnRecipe(id: string, userId: string) {
+  const recipe = await db.recipe.findUnique({ where: { id } })
+  return recipe && recipe.userId === userId ? recipe : null
+}
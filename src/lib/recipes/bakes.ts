@@ -0,0 +1,45 @@
+export interface BakeScores {
+  recipeVersion: number | null
+  crustScore: number
+  crumbScore: number
+  flavorScore: number
+}
+
+export interface VersionScore {
+  recipeVersion: number | null
+  bakes: number
+  crust: number
+  crumb: number
+  flavor: number
+  overall: number
+}
+
+function average(values: number[]): number {
+  return Math.round((values.reduce((sum, value) => sum + value, 0) / values.length) * 10) / 10
+}
+
+export function overallScore(bake: Omit<BakeScores, 'recipeVersion'>): number {
+  return average([bake.crustScore, bake.crumbScore, bake.flavorScore])
+}
+
+/**
+ * Average scores per recipe version, best first, so the settings behind the
+ * best pizzas stand out
+ */
+export function scoreByVersion(bakes: BakeScores[]): VersionScore[] {
+  const groups = new Map<number | null, BakeScores[]>()
+  bakes.forEach(bake => {
+    groups.set(bake.recipeVersion, [...(groups.get(bake.recipeVersion) ?? []), bake])
+  })
+
+  return Array.from(groups.entries())
+    .map(([recipeVersion, group]) => ({
+      recipeVersion,
+      bakes: group.length,
+      crust: average(group.map(bake => bake.crustScore)),
+      crumb: average(group.map(bake => bake.crumbScore)),
+      flavor: average(group.map(bake => bake.flavorScore)),
+      overall: average(group.map(overallScore))
+    }))
+    .sort((a, b) => b.overall - a.overall)
+}
@@ -0,0 +1,130 @@
+import type { CalculatorSettings, FlourPortion, Preferment, TemperatureUnit } from '@/types/pizza'
+import type { WeightCalculation } from '@/lib/dough/weights'
+import { altitudeUnitFor, convertAltitude } from '@/lib/dough/altitude'
+import { getFermentationStages } from '@/lib/dough/fermentation'
+import { convertTemperature } from '@/lib/units'
+
+export interface RecipeSnapshot {
+  settings: CalculatorSettings
+  ingredients: WeightCalculation
+}
+
+export type DiffSection = 'percentages' | 'grams' | 'fermentation' | 'flour'
+
+export interface DiffEntry {
+  section: DiffSection
+  label: string
+  before: string | number | null
+  after: string | number | null
+  // Numeric change, when both sides are numbers
+  delta: number | null
+}
+
+export interface RecipeDiff {
+  entries: DiffEntry[]
+  hasChanges: boolean
+}
+
+function round(value: number, decimals = 2): number {
+  const factor = Math.pow(10, decimals)
+  return Math.round(value * factor) / factor
+}
+
+function yeastPercentage(ingredients: WeightCalculation): number {
+  return ingredients.flourWeight > 0 ? round((ingredients.yeastWeight / ingredients.flourWeight) * 100, 3) : 0
+}
+
+// Older versions may have been saved in the other unit
+function inUnit(temp: number | null, from: TemperatureUnit, to: TemperatureUnit): number | null {
+  return temp === null ? null : convertTemperature(temp, from, to)
+}
+
+function describePreferment(preferment: Preferment | null): string {
+  if (!preferment) return 'direct'
+  return `${preferment.type} ${preferment.percentage}% at ${preferment.hydration}% hydration`
+}
+
+function describeStages(settings: CalculatorSettings): string {
+  return getFermentationStages(settings.fermentation, settings.stageHours)
+    .map(stage => `${stage.name} ${stage.hours} h`)
+    .join(', ')
+}
+
+function flourShares(settings: CalculatorSettings): FlourPortion[] {
+  return settings.flourMix ?? [{ type: settings.flour, percentage: 100 }]
+}
+
+function compare(
+  entries: DiffEntry[],
+  section: DiffSection,
+  label: string,
+  before: string | number | null,
+  after: string | number | null
+) {
+  if (before === after) return
+  const delta = typeof before === 'number' && typeof after === 'number' ? round(after - before) : null
+  entries.push({ section, label, before, after, delta })
+}
+
+/**
+ * What changed between two saved versions of a recipe, grouped by section.
+ * Temperatures and altitude are shown in `tempUnit`, the later version's by default
+ */
+export function diffSnapshots(
+  before: RecipeSnapshot,
+  after: RecipeSnapshot,
+  tempUnit: TemperatureUnit = after.settings.tempUnit
+): RecipeDiff {
+  const entries: DiffEntry[] = []
+  const a = before.settings
+  const b = after.settings
+
+  compare(entries, 'percentages', 'Hydration %', a.hydration, b.hydration)
+  compare(entries, 'percentages', 'Salt %', a.salt, b.salt)
+  compare(entries, 'percentages', 'Oil %', a.oil, b.oil)
+  compare(entries, 'percentages', 'Sugar %', a.sugar ?? 0, b.sugar ?? 0)
+  compare(entries, 'percentages', 'Diastatic malt %', a.malt ?? 0, b.malt ?? 0)
+  compare(entries, 'percentages', 'Honey %', a.honey ?? 0, b.honey ?? 0)
+  compare(entries, 'percentages', 'Yeast %', yeastPercentage(before.ingredients), yeastPercentage(after.ingredients))
+
+  compare(entries, 'grams', 'Dough balls', a.doughBalls, b.doughBalls)
+  compare(entries, 'grams', 'Ball weight (g)', a.weightPerBall, b.weightPerBall)
+  compare(entries, 'grams', 'Flour (g)', before.ingredients.flourWeight, after.ingredients.flourWeight)
+  compare(entries, 'grams', 'Water (g)', before.ingredients.waterWeight, after.ingredients.waterWeight)
+  compare(entries, 'grams', 'Salt (g)', before.ingredients.saltWeight, after.ingredients.saltWeight)
+  compare(entries, 'grams', 'Oil (g)', before.ingredients.oilWeight, after.ingredients.oilWeight)
+  compare(entries, 'grams', 'Sugar (g)', before.ingredients.sugarWeight, after.ingredients.sugarWeight)
+  compare(entries, 'grams', 'Diastatic malt (g)', before.ingredients.maltWeight ?? 0, after.ingredients.maltWeight ?? 0)
+  compare(entries, 'grams', 'Honey (g)', before.ingredients.honeyWeight ?? 0, after.ingredients.honeyWeight ?? 0)
+  compare(entries, 'grams', 'Yeast (g)', before.ingredients.yeastWeight, after.ingredients.yeastWeight)
+
+  compare(entries, 'fermentation', 'Schedule', a.fermentation, b.fermentation)
+  compare(entries, 'fermentation', 'Stages', describeStages(a), describeStages(b))
+  compare(entries, 'fermentation', `Room temperature (°${tempUnit})`, inUnit(a.roomTemp, a.tempUnit, tempUnit), inUnit(b.roomTemp, b.tempUnit, tempUnit))
+  compare(entries, 'fermentation', `Fridge temperature (°${tempUnit})`, inUnit(a.fridgeTemp, a.tempUnit, tempUnit), inUnit(b.fridgeTemp, b.tempUnit, tempUnit))
+  compare(
+    entries,
+    'fermentation',
+    `Altitude (${altitudeUnitFor(tempUnit)})`,
+    a.altitude ? convertAltitude(a.altitude, altitudeUnitFor(a.tempUnit), altitudeUnitFor(tempUnit)) : null,
+    b.altitude ? convertAltitude(b.altitude, altitudeUnitFor(b.tempUnit), altitudeUnitFor(tempUnit)) : null
+  )
+  compare(entries, 'fermentation', 'Mixing', a.mixer ?? 'hand', b.mixer ?? 'hand')
+  compare(entries, 'fermentation', 'Yeast type', a.yeastType, b.yeastType)
+  compare(entries, 'fermentation', 'Leavening', describePreferment(a.preferment), describePreferment(b.preferment))
+
+  const flourBefore = flourShares(a)
+  const flourAfter = flourShares(b)
+  const flourTypes = Array.from(new Set([...flourBefore, ...flourAfter].map(flour => flour.type)))
+  flourTypes.forEach(type => {
+    compare(
+      entries,
+      'flour',
+      `${type} %`,
+      flourBefore.find(flour => flour.type === type)?.percentage ?? 0,
+      flourAfter.find(flour => flour.type === type)?.percentage ?? 0
+    )
+  })
+
+  return { entries, hasChanges: entries.length > 0 }
+}
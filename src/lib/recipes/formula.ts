@@ -0,0 +1,50 @@
+import type { CalculatorSettings } from '@/types/pizza'
+import { toCelsius } from '@/lib/units'
+import { calculateWeights, type BakersFormula, type WeightCalculation } from '@/lib/dough/weights'
+import { calculateYeast } from '@/lib/dough/yeast'
+import { adjustHydration, adjustYeast, altitudeCorrections, altitudeUnitFor } from '@/lib/dough/altitude'
+
+/**
+ * The baker's formula for a saved set of calculator settings, worked out the
+ * same way the calculator does it
+ */
+export function settingsToFormula(settings: CalculatorSettings): BakersFormula {
+  const altitude = altitudeCorrections(settings.altitude, altitudeUnitFor(settings.tempUnit))
+  const yeast = adjustYeast(calculateYeast({
+    schedule: settings.fermentation,
+    yeastType: settings.yeastType,
+    roomTemp: toCelsius(settings.roomTemp, settings.tempUnit),
+    fridgeTemp: settings.fridgeTemp !== null ? toCelsius(settings.fridgeTemp, settings.tempUnit) : undefined,
+    stageHours: settings.stageHours,
+    customPercentage: settings.customYeastPercentage,
+    preferment: settings.preferment?.type
+  }), altitude)
+
+  return {
+    style: settings.style,
+    ballCount: settings.doughBalls,
+    ballWeight: settings.weightPerBall,
+    hydration: adjustHydration(settings.hydration, altitude),
+    salt: settings.salt,
+    oil: settings.oil,
+    sugar: settings.sugar,
+    malt: settings.malt,
+    honey: settings.honey,
+    flourMix: settings.flourMix ?? undefined,
+    yeast: yeast.percentage
+  }
+}
+
+/**
+ * Grams for a saved set of calculator settings
+ */
+export function settingsToWeights(settings: CalculatorSettings): WeightCalculation {
+  return calculateWeights(settingsToFormula(settings))
+}
+
+/**
+ * The flour column of a recipe: the mix, or the single flour at 100%
+ */
+export function settingsToFlour(settings: CalculatorSettings) {
+  return settings.flourMix ?? [{ type: settings.flour, percentage: 100 }]
+}
@@ -0,0 +1,24 @@
+import type { CalculatorSettings } from '@/types/pizza'
+import { db } from '@/lib/db'
+import { calculatorSettingsSchema } from './schema'
+
+export interface PublicRecipe {
+  name: string
+  settings: CalculatorSettings
+}
+
+/**
+ * A shared recipe as anyone with the link sees it. Notes, analysis and the
+ * owner stay private. Settings saved by an older release that no longer
+ * validate are treated as missing.
+ */
+export async function findSharedRecipe(slug: string): Promise<PublicRecipe | null> {
+  const recipe = await db.recipe.findUnique({
+    where: { shareSlug: slug },
+    select: { name: true, settings: true }
+  })
+  const parsed = calculatorSettingsSchema.safeParse(recipe?.settings)
+  if (!recipe || !parsed.success) return null
+
+  return { name: recipe.name, settings: parsed.data }
+}
@@ -0,0 +1,119 @@
+import { z } from 'zod'
+import { flourMixError } from '@/lib/dough/flour'
+import { toOvenKind } from '@/lib/dough/oven'
+
+export const flourPortionSchema = z.object({
+  type: z.string().min(1),
+  percentage: z.number().min(0).max(100)
+})
+
+export const prefermentSchema = z.object({
+  type: z.enum(['levain', 'poolish', 'biga']),
+  hydration: z.number().positive().max(200),
+  percentage: z.number().positive().max(100)
+})
+
+export const panSettingsSchema = z.object({
+  size: z.discriminatedUnion('shape', [
+    z.object({ shape: z.literal('rect'), length: z.number().positive().max(200), width: z.number().positive().max(200), unit: z.enum(['in', 'cm']) }),
+    z.object({ shape: z.literal('round'), diameter: z.number().positive().max(200), unit: z.enum(['in', 'cm']) })
+  ]),
+  count: z.number().int().positive().max(500),
+  thicknessFactor: z.number().positive().max(0.5)
+})
+
+// Hours for each stage of the fermentation schedule, up to a week in total
+export const stageHoursSchema = z.array(z.number().positive().max(168)).max(5)
+
+const priceSchema = z.number().min(0).max(1000)
+
+export const productionSettingsSchema = z.object({
+  mixerCapacityKg: z.number().positive().max(500),
+  minutesBetweenBatches: z.number().min(0).max(240),
+  prices: z.object({
+    flour: priceSchema,
+    salt: priceSchema,
+    oil: priceSchema,
+    sugar: priceSchema,
+    malt: priceSchema,
+    honey: priceSchema,
+    yeast: priceSchema
+  }),
+  currency: z.enum(['USD', 'EUR', 'GBP'])
+})
+
+export const calculatorSettingsSchema = z.object({
+  style: z.enum(['neapolitan', 'new-york', 'detroit', 'sicilian', 'roman-al-taglio', 'custom']),
+  doughBalls: z.number().int().positive().max(500),
+  weightPerBall: z.number().positive().max(5000),
+  hydration: z.number().min(40).max(120),
+  salt: z.number().min(0).max(10),
+  oil: z.number().min(0).max(20),
+  sugar: z.number().min(0).max(10).optional(),
+  malt: z.number().min(0).max(5).optional(),
+  honey: z.number().min(0).max(10).optional(),
+  flour: z.string().min(1),
+  flourMix: z.array(flourPortionSchema).nullable().superRefine((flourMix, ctx) => {
+    const error = flourMix && flourMixError(flourMix)
+    if (error) ctx.addIssue({ code: z.ZodIssueCode.custom, message: error })
+  }),
+  yeastType: z.enum(['IDY', 'ADY', 'fresh']),
+  customYeastPercentage: z.number().positive().max(10).nullable(),
+  preferment: prefermentSchema.nullable(),
+  fermentation: z.enum(['quick', 'same-day', 'overnight', 'cold', 'custom']),
+  stageHours: stageHoursSchema.nullable().optional(),
+  roomTemp: z.number(),
+  fridgeTemp: z.number().nullable(),
+  tempUnit: z.enum(['C', 'F']),
+  // Recipes saved before oven profiles say 'home' or 'outdoor'
+  ovenType: z.enum([
+    'home-stone', 'home-steel', 'home-broiler', 'electric-deck', 'gas-deck', 'wood-fired', 'portable',
+    'home', 'outdoor'
+  ]).transform(toOvenKind),
+  altitude: z.number().min(0).max(30000).nullable().optional(),
+  mixer: z.enum(['hand', 'stand', 'spiral']).optional(),
+  flourRegion: z.enum(['us', 'canada', 'uk', 'europe', 'australia']).nullable().optional(),
+  stylePresetId: z.string().max(50).nullable().optional(),
+  pan: panSettingsSchema.nullable().optional(),
+  production: productionSettingsSchema.nullable().optional()
+})
+
+export const createRecipeSchema = z.object({
+  name: z.string().trim().min(1).max(100),
+  notes: z.string().max(5000).nullable().optional(),
+  settings: calculatorSettingsSchema,
+  analysis: z.record(z.unknown()).nullable().optional()
+})
+
+export const updateRecipeSchema = createRecipeSchema.partial()
+
+const scoreSchema = z.number().int().min(1).max(5)
+
+// Photos are shown as links and images, so only web addresses are allowed
+const photoUrlSchema = z.string().url().refine(
+  url => /^https?:$/.test(new URL(url).protocol),
+  'Photos must be http or https links'
+)
+
+export const createBakeSchema = z.object({
+  bakedAt: z.coerce.date(),
+  recipeVersion: z.number().int().positive().nullable().optional(),
+  roomTemp: z.number().nullable().optional(),
+  tempUnit: z.enum(['C', 'F']).default('F'),
+  bulkHours: z.number().min(0).max(200).nullable().optional(),
+  coldHours: z.number().min(0).max(200).nullable().optional(),
+  proofHours: z.number().min(0).max(200).nullable().optional(),
+  oven: z.string().max(100).nullable().optional(),
+  photos: z.array(photoUrlSchema).max(10).refine(
+    photos => new Set(photos).size === photos.length,
+    'Each photo can only be added once'
+  ).default([]),
+  crustScore: scoreSchema,
+  crumbScore: scoreSchema,
+  flavorScore: scoreSchema,
+  notes: z.string().max(5000).nullable().optional()
+})
+
+export type CreateRecipeInput = z.infer<typeof createRecipeSchema>
+export type UpdateRecipeInput = z.infer<typeof updateRecipeSchema>
+export type CreateBakeInput = z.infer<typeof createBakeSchema>
@@ -0,0 +1,46 @@
+import type { CalculatorSettings } from '@/types/pizza'
+import { calculatorSettingsSchema } from './schema'
+
+const SLUG_ALPHABET = 'abcdefghijkmnpqrstuvwxyz23456789'
+const SLUG_LENGTH = 10
+
+function toBase64Url(text: string): string {
+  const bytes = new TextEncoder().encode(text)
+  let binary = ''
+  bytes.forEach(byte => { binary += String.fromCharCode(byte) })
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '')
+}
+
+function fromBase64Url(encoded: string): string {
+  const base64 = encoded.replace(/-/g, '+').replace(/_/g, '/')
+  const binary = atob(base64.padEnd(base64.length + ((4 - (base64.length % 4)) % 4), '='))
+  return new TextDecoder().decode(Uint8Array.from(binary, char => char.charCodeAt(0)))
+}
+
+/**
+ * Pack calculator settings into a URL-safe string
+ */
+export function encodeSettings(settings: CalculatorSettings): string {
+  return toBase64Url(JSON.stringify(settings))
+}
+
+/**
+ * Unpack settings from a shared link. Anything that doesn't validate is
+ * rejected, since the link may have been edited by hand.
+ */
+export function decodeSettings(encoded: string): CalculatorSettings | null {
+  try {
+    const parsed = calculatorSettingsSchema.safeParse(JSON.parse(fromBase64Url(encoded)))
+    return parsed.success ? parsed.data : null
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Short random slug for a publicly shared recipe
+ */
+export function createShareSlug(): string {
+  const bytes = crypto.getRandomValues(new Uint8Array(SLUG_LENGTH))
+  return Array.from(bytes, byte => SLUG_ALPHABET[byte % SLUG_ALPHABET.length]).join('')
+}
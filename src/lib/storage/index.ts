@@ -0,0 +1,41 @@
+import { z } from 'zod'
+import { createMemoryStore } from '@/lib/storage/memory'
+import { createRedisStore } from '@/lib/storage/redis'
+import type { KeyValueStore } from '@/lib/storage/store'
+
+export type { KeyValueStore } from '@/lib/storage/store'
+
+// `KEY=` in an env file means unset, as in .env.example
+const unset = (value: unknown) => (value === '' ? undefined : value)
+
+const storageConfigSchema = z.object({
+  UPSTASH_REDIS_REST_URL: z.preprocess(unset, z.string().url().optional()),
+  UPSTASH_REDIS_REST_TOKEN: z.preprocess(unset, z.string().min(1).optional())
+})
+
+/**
+ * Build the store described by the environment: Upstash Redis when
+ * `UPSTASH_REDIS_REST_URL` and `UPSTASH_REDIS_REST_TOKEN` are set,
+ * otherwise an in-memory store
+ */
+export function createStore(env: Record<string, string | undefined> = process.env): KeyValueStore {
+  const parsed = storageConfigSchema.safeParse(env)
+  if (!parsed.success) {
+    const fields = Object.keys(parsed.error.flatten().fieldErrors).join(', ')
+    throw new Error(`Invalid storage configuration: ${fields}`)
+  }
+  const { UPSTASH_REDIS_REST_URL: url, UPSTASH_REDIS_REST_TOKEN: token } = parsed.data
+
+  return url && token ? createRedisStore({ url, token }) : createMemoryStore()
+}
+
+let store: KeyValueStore | null = null
+
+// One store per server instance, built on first use
+export function getStore(): KeyValueStore {
+  if (!store) {
+    store = createStore()
+    console.log(`Using ${store.name} storage`)
+  }
+  return store
+}
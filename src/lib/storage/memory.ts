@@ -0,0 +1,90 @@
+import type { KeyValueStore } from '@/lib/storage/store'
+
+// How often writes look for expired keys nobody reads anymore
+const SWEEP_INTERVAL_MS = 60 * 1000
+
+interface Entry {
+  // Serialised so callers never share objects with the store, as with Redis
+  value: string
+  expiresAt: number | null
+}
+
+/**
+ * In-process store for development and tests. Each server instance has its
+ * own, so quotas and cached results reset on a cold start
+ */
+export function createMemoryStore(): KeyValueStore {
+  const entries = new Map<string, Entry>()
+  let lastSweep = Date.now()
+
+  const isExpired = (entry: Entry, now = Date.now()) => entry.expiresAt !== null && now >= entry.expiresAt
+
+  // Expired entries are dropped on read
+  function read(key: string): Entry | null {
+    const entry = entries.get(key)
+    if (!entry) return null
+    if (isExpired(entry)) {
+      entries.delete(key)
+      return null
+    }
+    return entry
+  }
+
+  // Keys that are never read again, like rate limits of one-off visitors,
+  // would otherwise stay forever
+  function write(key: string, entry: Entry) {
+    const now = Date.now()
+    if (now - lastSweep >= SWEEP_INTERVAL_MS) {
+      lastSweep = now
+      entries.forEach((stored, storedKey) => {
+        if (isExpired(stored, now)) entries.delete(storedKey)
+      })
+    }
+    entries.set(key, entry)
+  }
+
+  return {
+    name: 'memory',
+
+    async get<T>(key: string) {
+      const entry = read(key)
+      return entry ? (JSON.parse(entry.value) as T) : null
+    },
+
+    async set(key, value, ttlSeconds) {
+      write(key, {
+        value: JSON.stringify(value),
+        expiresAt: ttlSeconds ? Date.now() + ttlSeconds * 1000 : null
+      })
+    },
+
+    async setIfAbsent(key, value, ttlSeconds) {
+      if (read(key)) return false
+      write(key, { value: JSON.stringify(value), expiresAt: Date.now() + ttlSeconds * 1000 })
+      return true
+    },
+
+    async delete(key) {
+      entries.delete(key)
+    },
+
+    async incr(key) {
+      const entry = read(key)
+      const count = (entry ? Number(JSON.parse(entry.value)) : 0) + 1
+      write(key, { value: String(count), expiresAt: entry?.expiresAt ?? null })
+      return count
+    },
+
+    async expire(key, ttlSeconds) {
+      const entry = read(key)
+      if (entry) entry.expiresAt = Date.now() + ttlSeconds * 1000
+    },
+
+    async ttl(key) {
+      const entry = read(key)
+      if (!entry) return -2
+      if (entry.expiresAt === null) return -1
+      return Math.ceil((entry.expiresAt - Date.now()) / 1000)
+    }
+  }
+}
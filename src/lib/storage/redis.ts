@@ -0,0 +1,53 @@
+import { Redis } from '@upstash/redis'
+import type { KeyValueStore } from '@/lib/storage/store'
+
+export interface RedisStoreOptions {
+  url: string
+  token: string
+}
+
+/**
+ * Store on Upstash Redis over its REST API, so it also works from the edge
+ * runtime and every deployed instance shares the same data
+ */
+export function createRedisStore({ url, token }: RedisStoreOptions): KeyValueStore {
+  const redis = new Redis({ url, token })
+
+  return {
+    name: 'redis',
+
+    async get<T>(key: string) {
+      // The client parses JSON values itself
+      return redis.get<T>(key)
+    },
+
+    async set(key, value, ttlSeconds) {
+      if (ttlSeconds) {
+        await redis.set(key, value, { ex: ttlSeconds })
+      } else {
+        await redis.set(key, value)
+      }
+    },
+
+    async setIfAbsent(key, value, ttlSeconds) {
+      // Atomic, so only one instance wins
+      return (await redis.set(key, value, { nx: true, ex: ttlSeconds })) === 'OK'
+    },
+
+    async delete(key) {
+      await redis.del(key)
+    },
+
+    async incr(key) {
+      return redis.incr(key)
+    },
+
+    async expire(key, ttlSeconds) {
+      await redis.expire(key, ttlSeconds)
+    },
+
+    async ttl(key) {
+      return redis.ttl(key)
+    }
+  }
+}
@@ -0,0 +1,18 @@
+/**
+ * Shared key-value storage for rate limits and cached results. Values are
+ * JSON-serialisable; TTLs are in seconds, like Redis
+ */
+export interface KeyValueStore {
+  // For logs, e.g. "memory" or "redis"
+  readonly name: string
+  get<T>(key: string): Promise<T | null>
+  set(key: string, value: unknown, ttlSeconds?: number): Promise<void>
+  // Like SET NX: false, and nothing written, when the key already exists
+  setIfAbsent(key: string, value: unknown, ttlSeconds: number): Promise<boolean>
+  delete(key: string): Promise<void>
+  // Creates the key at 1 when it doesn't exist, without an expiry
+  incr(key: string): Promise<number>
+  expire(key: string, ttlSeconds: number): Promise<void>
+  // Seconds left, -1 for a key without expiry, -2 for a missing key
+  ttl(key: string): Promise<number>
+}
@@ -0,0 +1,45 @@
+import { db } from '@/lib/db'
+import type { PizzaStyle as StyleDefinition } from '@/lib/openai/config'
+import type { PizzaStyle } from '@/types/pizza'
+import type { StylePreset } from './presets'
+
+interface StylePresetRecord {
+  id: string
+  baseStyle: string
+  style: unknown
+  shareSlug: string | null
+}
+
+export function toStylePreset(record: StylePresetRecord): StylePreset {
+  return {
+    id: record.id,
+    baseStyle: record.baseStyle as PizzaStyle,
+    style: record.style as StyleDefinition,
+    shareSlug: record.shareSlug
+  }
+}
+
+/**
+ * A preset owned by the given user. Other users' presets come back as null so
+ * routes report them as missing rather than forbidden.
+ */
+export async function findOwnPreset(id: string, userId: string) {
+  const preset = await db.stylePreset.findUnique({ where: { id } })
+  return preset && preset.userId === userId ? preset : null
+}
+
+export async function listPresets(userId: string): Promise<StylePreset[]> {
+  const presets = await db.stylePreset.findMany({
+    where: { userId },
+    orderBy: { createdAt: 'asc' }
+  })
+  return presets.map(toStylePreset)
+}
+
+/**
+ * A shared preset as anyone with the link sees it, without the owner
+ */
+export async function findSharedPreset(slug: string): Promise<StylePreset | null> {
+  const preset = await db.stylePreset.findUnique({ where: { shareSlug: slug } })
+  return preset ? toStylePreset(preset) : null
+}
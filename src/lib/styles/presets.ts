@@ -0,0 +1,82 @@
+import { PIZZA_STYLES, type PizzaStyle as StyleDefinition } from '@/lib/openai/config'
+import type { OvenProfile } from '@/lib/dough/oven'
+import type { PizzaStyle } from '@/types/pizza'
+
+/**
+ * A style a baker defined themselves - bar pizza, tavern, grandma - with the
+ * same fields as the built-in styles. The calculator treats it as its base
+ * style for anything a style definition doesn't cover, such as the yeast
+ * model and the target dough temperature.
+ */
+export interface StylePreset {
+  id: string
+  baseStyle: PizzaStyle
+  style: StyleDefinition
+  shareSlug: string | null
+}
+
+/**
+ * The definition in effect: the preset's own, or the built-in style's
+ */
+export function styleDefinition(style: PizzaStyle, preset?: StylePreset | null): StyleDefinition {
+  return preset?.style ?? PIZZA_STYLES[style] ?? PIZZA_STYLES.custom
+}
+
+/**
+ * A new preset starts as a copy of its base style
+ */
+export function presetTemplate(baseStyle: PizzaStyle): StyleDefinition {
+  const base = styleDefinition(baseStyle)
+  return { ...JSON.parse(JSON.stringify(base)) as StyleDefinition, name: `My ${base.name}` }
+}
+
+/**
+ * Starting values for the calculator's sliders. The oven's extra hydration
+ * never takes the style past its range
+ */
+export function styleDefaults(style: StyleDefinition, oven: OvenProfile) {
+  const { min, max } = style.hydrationRange
+  const hydration = Math.min(
+    Math.max(style.defaultHydration + oven.hydrationOffset, Math.min(min, style.defaultHydration)),
+    Math.max(max, style.defaultHydration)
+  )
+  return {
+    hydration,
+    salt: style.defaultSaltPercentage,
+    oil: style.defaultOilPercentage ?? 0
+  }
+}
+
+export interface StyleCheck {
+  hydration: number
+  salt: number
+  // Hours at room temperature and in the fridge
+  roomHours?: number
+  coldHours?: number
+}
+
+function formatRange(range: { min: number; max: number }, unit: string): string {
+  return `${range.min}-${range.max}${unit}`
+}
+
+/**
+ * Where a recipe falls outside the style's ranges
+ */
+export function styleRangeWarnings(style: StyleDefinition, recipe: StyleCheck): string[] {
+  const warnings: string[] = []
+  const check = (label: string, value: number, range: { min: number; max: number }, unit: string) => {
+    if (value < range.min || value > range.max) {
+      warnings.push(`${label} of ${value}${unit} is outside the ${formatRange(range, unit)} ${style.name} calls for`)
+    }
+  }
+
+  check('Hydration', recipe.hydration, style.hydrationRange, '%')
+  check('Salt', recipe.salt, style.saltRange, '%')
+  if (recipe.coldHours) {
+    check('A cold fermentation', recipe.coldHours, style.fermentationTime.cold, ' hours')
+  } else if (recipe.roomHours) {
+    check('A room-temperature fermentation', recipe.roomHours, style.fermentationTime.room, ' hours')
+  }
+
+  return warnings
+}
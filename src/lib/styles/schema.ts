@@ -0,0 +1,53 @@
+import { z } from 'zod'
+
+const rangeSchema = (min: number, max: number) => z.object({
+  min: z.number().min(min).max(max),
+  max: z.number().min(min).max(max)
+}).refine(range => range.min <= range.max, 'The minimum must not be above the maximum')
+
+const fermentationWindowSchema = z.object({
+  min: z.number().min(0).max(240),
+  max: z.number().min(0).max(240),
+  idealTemp: z.number().min(-10).max(110)
+}).refine(window => window.min <= window.max, 'The minimum must not be above the maximum')
+
+// Same shape as the built-in styles in PIZZA_STYLES
+export const styleDefinitionSchema = z.object({
+  name: z.string().trim().min(1).max(60),
+  description: z.string().trim().max(500),
+  defaultHydration: z.number().min(40).max(120),
+  defaultSaltPercentage: z.number().min(0).max(10),
+  defaultOilPercentage: z.number().min(0).max(20).nullable(),
+  hydrationRange: rangeSchema(40, 120),
+  saltRange: rangeSchema(0, 10),
+  recommendedOil: z.number().min(0).max(20).nullable(),
+  idealFlour: z.string().trim().max(200),
+  idealFlourProfile: z.object({
+    protein: rangeSchema(5, 20),
+    w: rangeSchema(0, 500).optional()
+  }).nullable(),
+  fermentationTime: z.object({
+    room: fermentationWindowSchema,
+    cold: fermentationWindowSchema
+  }),
+  signatureCharacteristics: z.array(z.string().trim().min(1).max(100)).max(10)
+}).superRefine((style, ctx) => {
+  const outside = (value: number, range: { min: number; max: number }) => value < range.min || value > range.max
+  if (outside(style.defaultHydration, style.hydrationRange)) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['defaultHydration'], message: 'The default hydration must be within the hydration range' })
+  }
+  if (outside(style.defaultSaltPercentage, style.saltRange)) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['defaultSaltPercentage'], message: 'The default salt must be within the salt range' })
+  }
+})
+
+export const createStylePresetSchema = z.object({
+  // The built-in style the calculator uses for everything a preset doesn't define
+  baseStyle: z.enum(['neapolitan', 'new-york', 'detroit', 'sicilian', 'roman-al-taglio', 'custom']),
+  style: styleDefinitionSchema
+})
+
+export const updateStylePresetSchema = createStylePresetSchema.partial()
+
+export type CreateStylePresetInput = z.infer<typeof createStylePresetSchema>
+export type UpdateStylePresetInput = z.infer<typeof updateStylePresetSchema>
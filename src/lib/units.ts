@@ -0,0 +1,158 @@
+import type { AltitudeUnit } from '@/lib/dough/altitude'
+import type { LengthUnit, TemperatureUnit, UnitSystem } from '@/types/pizza'
+
+/**
+ * Metric and imperial units for everything the calculator shows.
+ *
+ * Values are kept in one canonical unit - grams and °C - and only converted
+ * when they are displayed or typed in. Volumes depend on the ingredient, so
+ * they go through a density table.
+ */
+
+export const GRAMS_PER_OUNCE = 28.3495
+export const OUNCES_PER_POUND = 16
+export const CM_PER_INCH = 2.54
+
+const ML_PER_TSP = 4.92892
+const TSP_PER_TBSP = 3
+const TBSP_PER_CUP = 16
+
+export interface UnitSystemConfig {
+  label: string
+  temperature: TemperatureUnit
+  length: LengthUnit
+  altitude: AltitudeUnit
+}
+
+export const UNIT_SYSTEMS: Record<UnitSystem, UnitSystemConfig> = {
+  metric: { label: 'Metric (g, ml, °C)', temperature: 'C', length: 'cm', altitude: 'm' },
+  imperial: { label: 'Imperial (oz, cups, °F)', temperature: 'F', length: 'in', altitude: 'ft' }
+}
+
+export const DEFAULT_UNIT_SYSTEM: UnitSystem = 'imperial'
+
+export function unitSystemFor(tempUnit: TemperatureUnit): UnitSystem {
+  return tempUnit === 'F' ? 'imperial' : 'metric'
+}
+
+function roundTo(value: number, decimals: number): number {
+  const multiplier = Math.pow(10, decimals)
+  return Math.round(value * multiplier) / multiplier
+}
+
+// --- Temperature ---
+
+export function toCelsius(temp: number, unit: TemperatureUnit): number {
+  return unit === 'F' ? (temp - 32) * 5 / 9 : temp
+}
+
+export function fromCelsius(celsius: number, unit: TemperatureUnit): number {
+  return unit === 'F' ? celsius * 9 / 5 + 32 : celsius
+}
+
+/**
+ * Re-express a temperature in another unit, to one decimal like the inputs
+ */
+export function convertTemperature(temp: number, from: TemperatureUnit, to: TemperatureUnit): number {
+  if (from === to) return temp
+  return roundTo(fromCelsius(toCelsius(temp, from), to), 1)
+}
+
+/**
+ * Display a canonical °C temperature in the baker's unit
+ */
+export function formatTemperature(celsius: number, unit: TemperatureUnit, decimals = 1): string {
+  return `${roundTo(fromCelsius(celsius, unit), decimals)}°${unit}`
+}
+
+// --- Weight ---
+
+export function gramsToOunces(grams: number): number {
+  return grams / GRAMS_PER_OUNCE
+}
+
+export function ouncesToGrams(ounces: number): number {
+  return ounces * GRAMS_PER_OUNCE
+}
+
+/**
+ * Grams for metric; ounces, or pounds and ounces from a pound up, for imperial
+ */
+export function formatWeight(grams: number, system: UnitSystem): string {
+  if (system === 'metric') {
+    return grams < 10 && grams % 1 !== 0 ? `${roundTo(grams, 2)}g` : `${Math.round(grams)}g`
+  }
+
+  const ounces = gramsToOunces(grams)
+  if (ounces < OUNCES_PER_POUND) {
+    return `${roundTo(ounces, ounces < 1 ? 2 : 1)} oz`
+  }
+  const pounds = Math.floor(ounces / OUNCES_PER_POUND)
+  const rest = roundTo(ounces - pounds * OUNCES_PER_POUND, 1)
+  return rest > 0 ? `${pounds} lb ${rest} oz` : `${pounds} lb`
+}
+
+// --- Volume ---
+
+export type VolumeIngredient = 'water' | 'oil' | 'honey' | 'salt' | 'sugar' | 'malt' | 'IDY' | 'ADY'
+
+// Grams per millilitre. Salt is fine sea or table salt; flaky kosher salt is
+// about half as dense, so it is better weighed
+export const DENSITIES: Record<VolumeIngredient, number> = {
+  water: 1,
+  oil: 0.92,
+  honey: 1.42,
+  salt: 1.2,
+  sugar: 0.85,
+  malt: 0.57,
+  IDY: 0.63,
+  ADY: 0.6
+}
+
+export function hasVolume(ingredient: string): ingredient is VolumeIngredient {
+  return ingredient in DENSITIES
+}
+
+export function gramsToMillilitres(grams: number, ingredient: VolumeIngredient): number {
+  return grams / DENSITIES[ingredient]
+}
+
+const FRACTIONS: Record<number, string> = { 0.125: '⅛', 0.25: '¼', 0.375: '⅜', 0.5: '½', 0.625: '⅝', 0.75: '¾', 0.875: '⅞' }
+
+// Nearest kitchen fraction, e.g. 1.3 -> "1 ¼"
+function formatFraction(value: number, step: number): string {
+  const rounded = Math.round(value / step) * step
+  const whole = Math.floor(rounded)
+  const fraction = FRACTIONS[roundTo(rounded - whole, 3)]
+  if (!fraction) return `${whole}`
+  return whole > 0 ? `${whole} ${fraction}` : fraction
+}
+
+/**
+ * What a weight comes to in a measuring jug or spoon: millilitres for
+ * metric, cups, tablespoons or teaspoons for imperial
+ */
+export function formatVolume(grams: number, ingredient: VolumeIngredient, system: UnitSystem): string {
+  const ml = gramsToMillilitres(grams, ingredient)
+  if (system === 'metric') {
+    return `${ml < 10 ? roundTo(ml, 1) : Math.round(ml)} ml`
+  }
+
+  const tsp = ml / ML_PER_TSP
+  const cups = tsp / TSP_PER_TBSP / TBSP_PER_CUP
+  if (cups >= 0.25) return `${formatFraction(cups, 0.25)} cup${cups > 1.125 ? 's' : ''}`
+  if (tsp >= TSP_PER_TBSP) return `${formatFraction(tsp / TSP_PER_TBSP, 0.5)} tbsp`
+  if (tsp < 0.0625) return 'a pinch'
+  return `${formatFraction(tsp, 0.125)} tsp`
+}
+
+// --- Length ---
+
+export function toInches(value: number, unit: LengthUnit): number {
+  return unit === 'cm' ? value / CM_PER_INCH : value
+}
+
+export function convertLength(value: number, from: LengthUnit, to: LengthUnit): number {
+  if (from === to) return value
+  return roundTo(to === 'cm' ? value * CM_PER_INCH : value / CM_PER_INCH, 1)
+}
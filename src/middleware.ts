@@ -1,11 +1,9 @@
 import { NextResponse } from 'next/server';
 import type { NextRequest } from 'next/server';
+import { getToken } from 'next-auth/jwt';
+import { checkRoleRateLimit, rateLimitHeaders, tooManyRequests, type RateLimitResult } from '@/lib/rate-limit';
 
-export function middleware(request: NextRequest) {
-  // Get the response
-  const response = NextResponse.next();
-
-  // Add security headers
+function setSecurityHeaders(response: NextResponse) {
   response.headers.set('X-Frame-Options', 'DENY');
   response.headers.set('X-Content-Type-Options', 'nosniff');
   response.headers.set('Referrer-Policy', 'origin-when-cross-origin');
@@ -18,9 +16,49 @@ export function middleware(request: NextRequest) {
   return response;
 }
 
+function clientIp(request: NextRequest): string {
+  return (
+    request.ip ??
+    request.headers.get('x-forwarded-for')?.split(',')[0].trim() ??
+    request.headers.get('x-real-ip') ??
+    'unknown'
+  );
+}
+
+// NextAuth polls its own endpoints, so those don't count against the quota
+function isRateLimited(pathname: string): boolean {
+  return pathname.startsWith('/api/') && !pathname.startsWith('/api/auth/');
+}
+
+export async function middleware(request: NextRequest) {
+  if (!isRateLimited(request.nextUrl.pathname)) {
+    return setSecurityHeaders(NextResponse.next());
+  }
+
+  // Signed-in users get their role's limits and keep them across networks
+  const token = await getToken({ req: request }).catch(() => null);
+  const identifier = token?.id ? `user:${token.id}` : `ip:${clientIp(request)}`;
+  let result: RateLimitResult;
+  try {
+    result = await checkRoleRateLimit(identifier, token?.role ?? 'BASIC');
+  } catch (error) {
+    // An unreachable store shouldn't take the API down with it
+    console.error('Rate limit check failed, allowing request:', error);
+    return setSecurityHeaders(NextResponse.next());
+  }
+
+  if (!result.allowed) {
+    return setSecurityHeaders(tooManyRequests(result));
+  }
+
+  const response = NextResponse.next();
+  Object.entries(rateLimitHeaders(result)).forEach(([name, value]) => response.headers.set(name, value));
+  return setSecurityHeaders(response);
+}
+
 // Configure the middleware to run on specific paths
 export const config = {
   matcher: [
     '/((?!_next/static|_next/image|favicon.ico).*)',
   ],
-}; 
\ No newline at end of file
+};
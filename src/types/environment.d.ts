@@ -14,5 +14,12 @@ declare namespace NodeJS {
     SMTP_FROM: string
     DATABASE_URL: string
     DIRECT_URL: string
+    LLM_PROVIDER?: 'openrouter' | 'openai-compatible' | 'mock'
+    LLM_MODEL?: string
+    LLM_BASE_URL?: string
+    LLM_API_KEY?: string
+    OPENROUTER_API_KEY?: string
+    UPSTASH_REDIS_REST_URL?: string
+    UPSTASH_REDIS_REST_TOKEN?: string
   }
 } 
\ No newline at end of file
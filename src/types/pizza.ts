@@ -1,17 +1,127 @@
-export type PizzaStyle = 'neapolitan' | 'ny' | 'detroit' | 'sicilian' | 'roman' | 'custom';
+export type PizzaStyle = 'neapolitan' | 'new-york' | 'detroit' | 'sicilian' | 'roman-al-taglio' | 'custom';
+
+export type FermentationSchedule = 'quick' | 'same-day' | 'overnight' | 'cold' | 'custom';
+
+export type YeastType = 'IDY' | 'ADY' | 'fresh';
+
+export type PrefermentType = 'levain' | 'poolish' | 'biga';
+
+export type MixerType = 'hand' | 'stand' | 'spiral';
+
+export type FlourRegion = 'us' | 'canada' | 'uk' | 'europe' | 'australia';
+
+export interface Preferment {
+  type: PrefermentType;
+  hydration: number;
+  // Levain: inoculation (levain weight as % of total flour).
+  // Poolish/biga: % of the total flour that goes into the preferment.
+  percentage: number;
+}
+
+export interface FlourPortion {
+  type: string;
+  percentage: number;
+}
 
 export interface PizzaRecipe {
   style: PizzaStyle;
   hydration: number;
   salt: number;
   oil: number;
+  // Browning aids, in baker's percent
+  sugar?: number;
+  malt?: number;
+  honey?: number;
   ballWeight: number;
   ballCount: number;
   fermentationHours: number;
   roomTemp: number;
   altitude?: number;
-  yeastType: 'IDY' | 'ADY' | 'fresh';
+  yeastType: YeastType;
   customYeastPercentage?: number;
+  flourMix?: FlourPortion[];
+  preferment?: Preferment;
+}
+
+export type TemperatureUnit = 'C' | 'F';
+
+export type UnitSystem = 'metric' | 'imperial';
+
+export type LengthUnit = 'in' | 'cm';
+
+// A round pizza is sized by its diameter, whether or not it's baked in a pan
+export type PanSize =
+  | { shape: 'rect'; length: number; width: number; unit: LengthUnit }
+  | { shape: 'round'; diameter: number; unit: LengthUnit };
+
+export interface PanSettings {
+  size: PanSize;
+  count: number;
+  // Ounces of dough per square inch, the way pizzerias size dough
+  thicknessFactor: number;
+}
+
+// Ingredients bought by weight; water is free
+export type PricedIngredient = 'flour' | 'salt' | 'oil' | 'sugar' | 'malt' | 'honey' | 'yeast';
+
+export type Currency = 'USD' | 'EUR' | 'GBP';
+
+// A production run split into mixer-sized batches
+export interface ProductionSettings {
+  // Flour the mixer takes in one batch
+  mixerCapacityKg: number;
+  minutesBetweenBatches: number;
+  // Per kilogram
+  prices: Record<PricedIngredient, number>;
+  currency: Currency;
+}
+
+export type OvenKind =
+  | 'home-stone'
+  | 'home-steel'
+  | 'home-broiler'
+  | 'electric-deck'
+  | 'gas-deck'
+  | 'wood-fired'
+  | 'portable';
+
+// Everything needed to put the calculator back the way it was
+export interface CalculatorSettings {
+  style: PizzaStyle;
+  doughBalls: number;
+  weightPerBall: number;
+  hydration: number;
+  salt: number;
+  oil: number;
+  // Browning aids; older recipes don't have them
+  sugar?: number;
+  malt?: number;
+  honey?: number;
+  flour: string;
+  flourMix: FlourPortion[] | null;
+  yeastType: YeastType;
+  customYeastPercentage: number | null;
+  preferment: Preferment | null;
+  fermentation: FermentationSchedule;
+  // Hours for each stage when the baker changed them; older recipes don't have it
+  stageHours?: number[] | null;
+  // Temperatures and altitude are in tempUnit's scale. The calculator saves
+  // them canonically in °C and metres; older recipes may be in °F and feet
+  roomTemp: number;
+  fridgeTemp: number | null;
+  tempUnit: TemperatureUnit;
+  ovenType: OvenKind;
+  // Feet with °F, metres with °C; older recipes don't have it
+  altitude?: number | null;
+  mixer?: MixerType;
+  // Where the baker buys flour, for recommendations
+  flourRegion?: FlourRegion | null;
+  // One of the baker's own styles, with `style` as its base
+  stylePresetId?: string | null;
+  // Set when the dough is sized by pan; doughBalls and weightPerBall follow from it
+  pan?: PanSettings | null;
+  // Set when the dough is made in batches for a production run
+  production?: ProductionSettings | null;
 }
 
 export interface FlourRecommendation {
@@ -24,4 +134,4 @@ export interface FlourRecommendation {
     brand: string;
     proteinContent: string;
   }[];
-} 
\ No newline at end of file
+}